@@ -1,12 +1,29 @@
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { Theme, Document, ActiveView, NavItem, DocumentType, Language, LANGUAGE_LABELS, UI_TRANSLATIONS, FAQ } from './types';
-import { NAVIGATION_ITEMS, COMPANY_BRAND_IMAGE_URL, SunIcon, MoonIcon, COMPANY_LOGO_FEVICON_URL, COMPANY_NAME, GlobeAltIcon, ComputerDesktopIcon } from './constants'; 
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Theme, Document, ActiveView, NavItem, DocumentType, Language, LANGUAGE_LABELS, UI_TRANSLATIONS, AIProviderSettings, Citation, DocumentFocusRequest, Collection, TagRegistry, TagSynonymGroup } from './types';
+import { NAVIGATION_ITEMS, COMPANY_BRAND_IMAGE_URL, SunIcon, MoonIcon, COMPANY_LOGO_FEVICON_URL, COMPANY_NAME, GlobeAltIcon, ComputerDesktopIcon, MagnifyingGlassIcon } from './constants'; 
 import DocumentManager from './components/DocumentManager';
 import AIQueryAgent from './components/AIQueryAgent';
 import AnalyticsReportView from './components/AnalyticsReportView';
 import SystemSettingsView from './components/SystemSettingsView';
 import HomepageView from './components/HomepageView';
+import TagManagerView, { TagActions } from './components/TagManagerView';
+import DocumentGraphView from './components/DocumentGraphView';
+import CommandPalette, { CommandPaletteActions, PaletteCommand } from './components/CommandPalette';
+import { configureAIProvider, parseStoredAIProviderSettings } from './services/aiService';
+import { loadDocuments, saveDocument, saveDocuments, deleteDocument as deleteStoredDocument, deleteDocuments as deleteStoredDocuments, loadRevisions, loadAllRevisions, saveDocumentWithRevisions, saveDocumentsWithRevisions, writeImport, ImportWrite, importLegacyDocuments, getMetaValue, setMetaValue, subscribeToStorageChanges, deleteDatabase, loadCollections, saveCollection, deleteCollection as deleteStoredCollection, loadTagRegistry, saveTagRegistry, DOCUMENTS_STORE, COLLECTIONS_STORE, TAG_REGISTRY_KEY } from './services/storageService';
+import LoadingSpinner from './components/common/LoadingSpinner';
+import { buildRevisionsForEdit } from './services/revisionService';
+import { createBundle, serializeBundle, getBundleFileName, BundleSettings } from './services/bundleService';
+import { downloadTextFile } from './services/downloadService';
+import { DEFAULT_FETCH_PROXY_URL } from './services/webPageService';
+import { AppRoute, DEFAULT_DOCUMENT_LIST_STATE, DocumentListState, createRoute, formatRoute, parseRoute } from './services/routeService';
+import { createCollection, validateCollectionName, canMoveCollection, planCollectionDeletion, getCollectionPath } from './services/collectionService';
+import { CollectionActions } from './components/CollectionTree';
+import { DocumentBulkActions } from './components/BulkActionBar';
+import { EMPTY_TAG_REGISTRY, dedupeTags, planTagReplacement, registerDocumentTags, replaceTagsInRegistry } from './services/tagService';
+import { indexDocument, indexDocuments, removeDocumentFromIndex, rebuildIndex, resetEmbeddings, DEFAULT_CONTEXT_TOKEN_BUDGET, MIN_CONTEXT_TOKEN_BUDGET, MAX_CONTEXT_TOKEN_BUDGET } from './services/retrievalService';
+import { recordDocumentChanges } from './services/engagementService';
 
 const initialDocsData: Omit<Document, 'id' | 'uploadedAt'>[] = [
     { name: 'Company Policy Q1 2024', type: DocumentType.PDF, tags: ['policy', 'hr', 'q1'], contentSnippet: 'This document outlines the updated company policies for the first quarter of 2024, including remote work guidelines and new HR procedures.', fullContent: 'Full content of Company Policy Q1 2024 covering all aspects of employment, benefits, and workplace conduct. It has been updated to reflect new local regulations.', isFavorite: false, generatedFaqs: [{question: "What is the remote work policy?", answer: "Refer to section 3.2 for details."}] },
@@ -19,41 +36,37 @@ const initialDocsData: Omit<Document, 'id' | 'uploadedAt'>[] = [
 
 const APP_VERSION = "1.1.0"; // Define app version here or import from constants
 
+const DEFAULT_AUTHOR_NAME = 'Local user';
+
 const App: React.FC = () => {
   const [currentThemeSetting, setCurrentThemeSetting] = useState<Theme>(Theme.SYSTEM); // User's preference: light, dark, or system
   const [effectiveTheme, setEffectiveTheme] = useState<Theme.LIGHT | Theme.DARK>(Theme.LIGHT); // Actual theme applied: light or dark
   const [language, setLanguage] = useState<Language>(Language.EN);
   const [documents, setDocuments] = useState<Document[]>([]);
-  const [activeView, setActiveView] = useState<ActiveView>(ActiveView.HOME);
+  // Saves compare against the documents as they are when the save happens. Callers that awaited a
+  // fetch or an AI call hold the functions from before it, along with the documents of that time.
+  const documentsRef = useRef(documents);
+  documentsRef.current = documents;
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [tagRegistry, setTagRegistry] = useState<TagRegistry>(EMPTY_TAG_REGISTRY);
+  const [isLoadingDocuments, setIsLoadingDocuments] = useState(true);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [route, setRoute] = useState<AppRoute>(() => parseRoute(window.location.hash));
+  const activeView = route.view;
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [shouldOpenAddDocumentModal, setShouldOpenAddDocumentModal] = useState(false);
-
-  const parseStoredDocuments = (storedValue: string | null): Document[] => {
-    if (!storedValue) return []; // Handles null, undefined, ""
-    try {
-      const parsedData = JSON.parse(storedValue);
-      // Ensure parsedData is an array before trying to map
-      if (!Array.isArray(parsedData)) {
-        console.warn(
-          `Stored documents data in localStorage (key 'hnai-km-documents') is not an array. Value: '${storedValue}'. Parsed:`,
-          parsedData,
-          "Returning empty array."
-        );
-        return [];
-      }
-      return parsedData.map((d: any) => ({ 
-        ...d,
-        uploadedAt: new Date(d.uploadedAt),
-        isFavorite: d.isFavorite || false, 
-        tags: Array.isArray(d.tags) ? d.tags : [],
-        type: Object.values(DocumentType).includes(d.type) ? d.type : DocumentType.UNKNOWN,
-        generatedFaqs: Array.isArray(d.generatedFaqs) ? d.generatedFaqs : (d.generatedFaqs ? [d.generatedFaqs] : []), // Ensure FAQs are array
-      }));
-    } catch (error) {
-      console.error("Error parsing documents from localStorage:", error, "Value was:", storedValue);
-      return []; // Return empty on error
-    }
-  };
+  const [pendingAIQuestion, setPendingAIQuestion] = useState<string | null>(null);
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
+  const [documentFocusRequest, setDocumentFocusRequest] = useState<DocumentFocusRequest | null>(null);
+  const [contextTokenBudget, setContextTokenBudget] = useState<number>(DEFAULT_CONTEXT_TOKEN_BUDGET);
+  const [authorName, setAuthorName] = useState<string>(() => localStorage.getItem('hnai-km-author-name') || DEFAULT_AUTHOR_NAME);
+  const [fetchProxyUrl, setFetchProxyUrl] = useState<string>(() => localStorage.getItem('hnai-km-fetch-proxy-url') || DEFAULT_FETCH_PROXY_URL);
+  const [aiProviderSettings, setAIProviderSettings] = useState<AIProviderSettings>(() => {
+    // Configure the provider before the first render so every view sees the chosen backend.
+    const storedSettings = parseStoredAIProviderSettings(localStorage.getItem('hnai-km-ai-provider-settings'));
+    configureAIProvider(storedSettings);
+    return storedSettings;
+  });
 
   // Effect for initializing and managing theme
   useEffect(() => {
@@ -104,56 +117,119 @@ const App: React.FC = () => {
   };
   
 
+  const reportStorageError = useCallback((message: string, error: unknown) => {
+    console.error(message, error);
+    setStorageError(`${message} ${error instanceof Error ? error.message : ''}`.trim());
+  }, []);
+
+  const reloadDocuments = useCallback(async () => {
+    const storedDocs = await loadDocuments();
+    rebuildIndex(storedDocs);
+    setDocuments(storedDocs);
+  }, []);
+
+  const reloadCollections = useCallback(async () => {
+    setCollections(await loadCollections());
+  }, []);
+
+  const reloadTagRegistry = useCallback(async () => {
+    setTagRegistry(await loadTagRegistry());
+  }, []);
+
   // Effect for initializing documents and language
   useEffect(() => {
-    const storedDocs = localStorage.getItem('hnai-km-documents');
-    if (storedDocs) {
-      setDocuments(parseStoredDocuments(storedDocs));
-    } else {
-        const initialDocsWithIds: Document[] = initialDocsData.map((doc, index) => {
-            const date = new Date();
-            if (doc.name === 'Recent Project Update') { 
-                 date.setDate(date.getDate() - 1); 
-            } else {
-                 date.setDate(date.getDate() - (index * 5 + 5)); 
-            }
-            return {
-                ...doc,
-                id: Date.now().toString() + index,
-                uploadedAt: date,
-                generatedFaqs: doc.generatedFaqs || [], // Ensure generatedFaqs is an array
-            };
-        });
-        setDocuments(initialDocsWithIds);
-        localStorage.setItem('hnai-km-documents', JSON.stringify(initialDocsWithIds));
-    }
+    const initializeDocuments = async () => {
+      try {
+        await importLegacyDocuments();
+      } catch (error) {
+        reportStorageError("Could not import documents saved by an earlier version.", error);
+      }
+      try {
+        const isInitialized = await getMetaValue<boolean>('initialized');
+        if (!isInitialized) {
+          const initialDocsWithIds: Document[] = initialDocsData.map((doc, index) => {
+              const date = new Date();
+              if (doc.name === 'Recent Project Update') { 
+                   date.setDate(date.getDate() - 1); 
+              } else {
+                   date.setDate(date.getDate() - (index * 5 + 5)); 
+              }
+              return {
+                  ...doc,
+                  id: Date.now().toString() + index,
+                  uploadedAt: date,
+                  generatedFaqs: doc.generatedFaqs || [], // Ensure generatedFaqs is an array
+              };
+          });
+          await saveDocuments(initialDocsWithIds);
+          await setMetaValue('initialized', true);
+        }
+        await reloadDocuments();
+        await reloadCollections();
+        await reloadTagRegistry();
+      } catch (error) {
+        reportStorageError("Could not load your documents from browser storage.", error);
+      }
+      setIsLoadingDocuments(false);
+    };
+    initializeDocuments();
 
     const storedLang = localStorage.getItem('hnai-km-language') as Language;
     if (storedLang && Object.values(Language).includes(storedLang)) {
         setLanguage(storedLang);
     }
-  }, []);
 
-  // Effect for persisting documents
-  useEffect(() => {
-    // Only save if documents array is not in its initial empty state during setup
-    if (documents.length > 0 || localStorage.getItem('hnai-km-documents')) {
-         localStorage.setItem('hnai-km-documents', JSON.stringify(documents));
+    const storedBudget = Number(localStorage.getItem('hnai-km-context-token-budget'));
+    if (storedBudget >= MIN_CONTEXT_TOKEN_BUDGET && storedBudget <= MAX_CONTEXT_TOKEN_BUDGET) {
+        setContextTokenBudget(storedBudget);
     }
-  }, [documents]);
+  }, [reloadDocuments, reloadCollections, reloadTagRegistry, reportStorageError]);
+
+  // Reload documents when another tab writes to IndexedDB
+  useEffect(() => {
+    return subscribeToStorageChanges((storeName) => {
+      if (storeName === DOCUMENTS_STORE) {
+        reloadDocuments().catch(error => reportStorageError("Could not refresh documents changed in another tab.", error));
+      }
+      if (storeName === COLLECTIONS_STORE) {
+        reloadCollections().catch(error => reportStorageError("Could not refresh collections changed in another tab.", error));
+      }
+      if (storeName === TAG_REGISTRY_KEY) {
+        reloadTagRegistry().catch(error => reportStorageError("Could not refresh tags changed in another tab.", error));
+      }
+    });
+  }, [reloadDocuments, reloadCollections, reloadTagRegistry, reportStorageError]);
+
+  // Remember every tag put on a document, so the tag console can still list it once no document uses it.
+  useEffect(() => {
+    if (isLoadingDocuments) return;
+    const updatedRegistry = registerDocumentTags(tagRegistry, documents);
+    if (!updatedRegistry) return;
+    setTagRegistry(updatedRegistry);
+    saveTagRegistry(updatedRegistry).catch(error => reportStorageError("Could not save the tag list.", error));
+  }, [documents, tagRegistry, isLoadingDocuments, reportStorageError]);
 
   // Listen for localStorage changes from other tabs/windows
   useEffect(() => {
     const handleStorageChange = (event: StorageEvent) => {
-      if (event.key === 'hnai-km-documents' && event.newValue) {
-        setDocuments(parseStoredDocuments(event.newValue));
-      }
       if (event.key === 'hnai-km-theme-preference' && event.newValue) {
         setThemePreference(event.newValue as Theme);
       }
       if (event.key === 'hnai-km-language' && event.newValue) {
         setLanguage(event.newValue as Language);
       }
+      if (event.key === 'hnai-km-author-name') {
+        setAuthorName(event.newValue || DEFAULT_AUTHOR_NAME);
+      }
+      if (event.key === 'hnai-km-fetch-proxy-url') {
+        setFetchProxyUrl(event.newValue || DEFAULT_FETCH_PROXY_URL);
+      }
+      if (event.key === 'hnai-km-ai-provider-settings') {
+        const storedSettings = parseStoredAIProviderSettings(event.newValue);
+        configureAIProvider(storedSettings);
+        setAIProviderSettings(storedSettings);
+        resetEmbeddings();
+      }
     };
 
     window.addEventListener('storage', handleStorageChange);
@@ -167,6 +243,32 @@ const App: React.FC = () => {
     localStorage.setItem('hnai-km-language', lang);
   }
 
+  const changeAIProviderSettings = (settings: AIProviderSettings) => {
+    configureAIProvider(settings);
+    setAIProviderSettings(settings);
+    localStorage.setItem('hnai-km-ai-provider-settings', JSON.stringify(settings));
+    // Vectors from the previous provider's embedding model are not comparable with the new one's.
+    resetEmbeddings();
+  };
+
+  const changeAuthorName = (name: string) => {
+    const trimmedName = name.trim() || DEFAULT_AUTHOR_NAME;
+    setAuthorName(trimmedName);
+    localStorage.setItem('hnai-km-author-name', trimmedName);
+  };
+
+  const changeFetchProxyUrl = (url: string) => {
+    const trimmedUrl = url.trim() || DEFAULT_FETCH_PROXY_URL;
+    setFetchProxyUrl(trimmedUrl);
+    localStorage.setItem('hnai-km-fetch-proxy-url', trimmedUrl);
+  };
+
+  const changeContextTokenBudget = (budget: number) => {
+    const clampedBudget = Math.min(MAX_CONTEXT_TOKEN_BUDGET, Math.max(MIN_CONTEXT_TOKEN_BUDGET, Math.round(budget)));
+    setContextTokenBudget(clampedBudget);
+    localStorage.setItem('hnai-km-context-token-budget', String(clampedBudget));
+  };
+
   const addDocument = useCallback((docData: Omit<Document, 'id' | 'uploadedAt' | 'isFavorite' | 'generatedFaqs'>) => {
     const newDocument: Document = {
       ...docData,
@@ -175,25 +277,245 @@ const App: React.FC = () => {
       isFavorite: false,
       generatedFaqs: [], 
     };
-    setDocuments(prevDocs => {
-        const updatedDocs = [newDocument, ...prevDocs];
-        // localStorage update is handled by the useEffect for 'documents'
-        return updatedDocs;
-    });
-  }, []);
+    indexDocument(newDocument);
+    setDocuments(prevDocs => [newDocument, ...prevDocs]);
+    saveDocument(newDocument).catch(error => reportStorageError(`Could not save "${newDocument.name}".`, error));
+  }, [reportStorageError]);
   
   const updateDocument = useCallback((updatedDoc: Document) => {
-    setDocuments(prevDocs => {
-        const updatedDocs = prevDocs.map(doc => doc.id === updatedDoc.id ? updatedDoc : doc);
-        // localStorage update is handled by the useEffect for 'documents'
-        return updatedDocs;
+    recordDocumentChanges(documentsRef.current, [updatedDoc]);
+    indexDocument(updatedDoc);
+    setDocuments(prevDocs => prevDocs.map(doc => doc.id === updatedDoc.id ? updatedDoc : doc));
+    saveDocument(updatedDoc).catch(error => reportStorageError(`Could not save changes to "${updatedDoc.name}".`, error));
+  }, [reportStorageError]);
+
+  // Content edits go through here rather than updateDocument so that each one is recorded as a revision.
+  const editDocument = useCallback(async (updatedDoc: Document, restoredFromRevision?: number) => {
+    const previousDoc = documentsRef.current.find(doc => doc.id === updatedDoc.id);
+    if (!previousDoc) return;
+    try {
+      const existingRevisions = await loadRevisions(updatedDoc.id);
+      const newRevisions = buildRevisionsForEdit(
+        previousDoc,
+        updatedDoc,
+        existingRevisions,
+        authorName,
+        restoredFromRevision === undefined ? 'edited' : 'restored',
+        restoredFromRevision
+      );
+      if (newRevisions.length === 0) return;
+      await saveDocumentWithRevisions(updatedDoc, newRevisions);
+      recordDocumentChanges([previousDoc], [updatedDoc]);
+      indexDocument(updatedDoc);
+      setDocuments(prevDocs => prevDocs.map(doc => doc.id === updatedDoc.id ? updatedDoc : doc));
+    } catch (error) {
+      reportStorageError(`Could not save changes to "${updatedDoc.name}".`, error);
+      throw error;
+    }
+  }, [authorName, reportStorageError]);
+
+  // Applies an edit to many documents at once, recording a revision for each, in one transaction.
+  const editDocuments = useCallback(async (updatedDocs: Document[]) => {
+    const previousById = new Map(documents.map(doc => [doc.id, doc]));
+    const revisionLists = await Promise.all(updatedDocs.map(async updatedDoc => {
+      const previousDoc = previousById.get(updatedDoc.id);
+      return previousDoc ? buildRevisionsForEdit(previousDoc, updatedDoc, await loadRevisions(updatedDoc.id), authorName) : [];
+    }));
+    await saveDocumentsWithRevisions(updatedDocs, revisionLists.flat());
+    recordDocumentChanges(documents, updatedDocs);
+    indexDocuments(updatedDocs);
+    const updatedById = new Map(updatedDocs.map(doc => [doc.id, doc]));
+    setDocuments(prevDocs => prevDocs.map(doc => updatedById.get(doc.id) ?? doc));
+  }, [documents, authorName]);
+
+  const deleteDocument = useCallback(async (documentId: string) => {
+    try {
+      await deleteStoredDocument(documentId);
+      removeDocumentFromIndex(documentId);
+      setDocuments(prevDocs => prevDocs.filter(doc => doc.id !== documentId));
+    } catch (error) {
+      reportStorageError("Could not delete the document.", error);
+      throw error;
+    }
+  }, [reportStorageError]);
+
+  // Errors are reported here and rethrown so the bulk action bar can tell the user which action failed.
+  const documentBulkActions: DocumentBulkActions = useMemo(() => {
+    const reportAndRethrow = (message: string) => (error: unknown): never => {
+      reportStorageError(message, error);
+      throw error;
+    };
+    return {
+      editDocuments: (updatedDocs) => editDocuments(updatedDocs).catch(reportAndRethrow("Could not save changes to the selected documents.")),
+      updateDocuments: async (updatedDocs) => {
+        await saveDocuments(updatedDocs).catch(reportAndRethrow("Could not save changes to the selected documents."));
+        recordDocumentChanges(documents, updatedDocs);
+        indexDocuments(updatedDocs);
+        const updatedById = new Map(updatedDocs.map(doc => [doc.id, doc]));
+        setDocuments(prevDocs => prevDocs.map(doc => updatedById.get(doc.id) ?? doc));
+      },
+      deleteDocuments: async (documentIds) => {
+        await deleteStoredDocuments(documentIds).catch(reportAndRethrow("Could not delete the selected documents."));
+        documentIds.forEach(removeDocumentFromIndex);
+        const deletedIds = new Set(documentIds);
+        setDocuments(prevDocs => prevDocs.filter(doc => !deletedIds.has(doc.id)));
+      },
+      // A bundle of just these documents, with their history, the collections they are filed in and the tag synonyms.
+      exportDocuments: async (documentIds) => {
+        const ids = new Set(documentIds);
+        const selectedDocs = documents.filter(doc => ids.has(doc.id));
+        const revisions = (await loadAllRevisions()).filter(revision => ids.has(revision.documentId));
+        const collectionIds = new Set(selectedDocs.flatMap(doc => doc.collectionId ? getCollectionPath(doc.collectionId, collections).map(collection => collection.id) : []));
+        const bundle = createBundle(
+          selectedDocs,
+          revisions,
+          collections.filter(collection => collectionIds.has(collection.id)),
+          { knownTags: dedupeTags(selectedDocs.flatMap(doc => doc.tags)), synonymGroups: tagRegistry.synonymGroups },
+          {}
+        );
+        downloadTextFile(serializeBundle(bundle), getBundleFileName(new Date(), 'selection'));
+      },
+    };
+  }, [documents, collections, tagRegistry, editDocuments, reportStorageError]);
+
+  // Validation failures throw an Error with a user-facing message for the collection tree to show.
+  const collectionActions: CollectionActions = useMemo(() => {
+    const persist = async (collection: Collection) => {
+      try {
+        await saveCollection(collection);
+      } catch (error) {
+        reportStorageError(`Could not save the collection "${collection.name}".`, error);
+        throw error;
+      }
+      setCollections(prev => [...prev.filter(c => c.id !== collection.id), collection]);
+    };
+    const findCollection = (collectionId: string) => {
+      const collection = collections.find(c => c.id === collectionId);
+      if (!collection) throw new Error("That collection no longer exists.");
+      return collection;
+    };
+    const assertValidName = (name: string, parentId: string | null, ignoreId?: string) => {
+      const problem = validateCollectionName(name, parentId, collections, ignoreId);
+      if (problem) throw new Error(problem);
+    };
+
+    return {
+      create: async (name, parentId) => {
+        assertValidName(name, parentId);
+        const collection = createCollection(name, parentId);
+        await persist(collection);
+        return collection;
+      },
+      rename: async (collectionId, name) => {
+        const collection = findCollection(collectionId);
+        assertValidName(name, collection.parentId, collectionId);
+        await persist({ ...collection, name: name.trim() });
+      },
+      move: async (collectionId, parentId) => {
+        const collection = findCollection(collectionId);
+        if (collection.parentId === parentId) return;
+        if (!canMoveCollection(collectionId, parentId, collections)) throw new Error("A collection can't be moved into itself or one of its own subcollections.");
+        assertValidName(collection.name, parentId, collectionId);
+        await persist({ ...collection, parentId });
+      },
+      remove: async (collectionId) => {
+        const collection = findCollection(collectionId);
+        const { movedDocuments, movedCollections } = planCollectionDeletion(collection, collections, documents);
+        try {
+          await deleteStoredCollection(collectionId, movedDocuments, movedCollections);
+        } catch (error) {
+          reportStorageError(`Could not delete the collection "${collection.name}".`, error);
+          throw error;
+        }
+        const movedDocumentsById = new Map(movedDocuments.map(doc => [doc.id, doc]));
+        const movedCollectionsById = new Map(movedCollections.map(c => [c.id, c]));
+        setCollections(prev => prev.filter(c => c.id !== collectionId).map(c => movedCollectionsById.get(c.id) ?? c));
+        setDocuments(prev => prev.map(doc => movedDocumentsById.get(doc.id) ?? doc));
+      },
+      moveDocument: (documentId, collectionId) => {
+        const doc = documents.find(d => d.id === documentId);
+        if (!doc || (doc.collectionId ?? null) === collectionId) return;
+        const { collectionId: _previous, ...rest } = doc;
+        updateDocument(collectionId ? { ...rest, collectionId } : rest);
+      },
+    };
+  }, [collections, documents, updateDocument, reportStorageError]);
+
+  const tagActions: TagActions = useMemo(() => {
+    // Set before saving so the new registry renders together with the retagged documents;
+    // otherwise the tag-registering effect would see the old registry and re-add the replaced tags.
+    const persistRegistry = async (registry: TagRegistry) => {
+      setTagRegistry(registry);
+      await saveTagRegistry(registry);
+    };
+    return {
+      replace: async (fromTags: string[], targetTag: string | null) => {
+        try {
+          const changedDocuments = planTagReplacement(documents, fromTags, targetTag);
+          if (changedDocuments.length > 0) await editDocuments(changedDocuments);
+          await persistRegistry(replaceTagsInRegistry(tagRegistry, fromTags, targetTag));
+        } catch (error) {
+          reportStorageError("Could not update the tags.", error);
+          throw error;
+        }
+      },
+      saveSynonymGroups: async (synonymGroups: TagSynonymGroup[]) => {
+        try {
+          await persistRegistry({ ...tagRegistry, synonymGroups });
+        } catch (error) {
+          reportStorageError("Could not save the tag synonyms.", error);
+          throw error;
+        }
+      },
+    };
+  }, [documents, tagRegistry, editDocuments, reportStorageError]);
+
+  const handleExportData = async () => {
+    const [storedDocs, revisions, storedCollections, storedTagRegistry] = await Promise.all([loadDocuments(), loadAllRevisions(), loadCollections(), loadTagRegistry()]);
+    const { openAIApiKey: _omitted, ...exportedProviderSettings } = aiProviderSettings;
+    const bundle = createBundle(storedDocs, revisions, storedCollections, storedTagRegistry, {
+      theme: currentThemeSetting,
+      language,
+      contextTokenBudget,
+      authorName,
+      fetchProxyUrl,
+      aiProviderSettings: exportedProviderSettings,
     });
-  }, []);
+    downloadTextFile(serializeBundle(bundle), getBundleFileName());
+  };
 
-  const handleClearAllData = () => {
+  const handleImportData = async (write: ImportWrite, settings: BundleSettings | null) => {
+    await writeImport(write);
+    await reloadDocuments();
+    await reloadCollections();
+    await reloadTagRegistry();
+    if (!settings) return;
+    if (settings.theme) setThemePreference(settings.theme);
+    if (settings.language) changeLanguage(settings.language);
+    if (settings.contextTokenBudget) changeContextTokenBudget(settings.contextTokenBudget);
+    if (settings.authorName) changeAuthorName(settings.authorName);
+    if (settings.fetchProxyUrl) changeFetchProxyUrl(settings.fetchProxyUrl);
+    if (settings.aiProviderSettings) {
+      // Keep this browser's API key; exports never contain one.
+      changeAIProviderSettings(parseStoredAIProviderSettings(JSON.stringify({ ...settings.aiProviderSettings, openAIApiKey: aiProviderSettings.openAIApiKey })));
+    }
+  };
+
+  const handleClearAllData = async () => {
+    try {
+      await deleteDatabase();
+    } catch (error) {
+      console.error("Error deleting IndexedDB database:", error);
+    }
     localStorage.removeItem('hnai-km-documents');
     localStorage.removeItem('hnai-km-theme-preference');
     localStorage.removeItem('hnai-km-language');
+    localStorage.removeItem('hnai-km-context-token-budget');
+    localStorage.removeItem('hnai-km-ai-provider-settings');
+    localStorage.removeItem('hnai-km-author-name');
+    localStorage.removeItem('hnai-km-fetch-proxy-url');
+    localStorage.removeItem('hnai-km-active-chat-session');
+    localStorage.removeItem('hnai-km-recent-palette-items');
     // Potentially other keys if added
     window.location.reload(); // Reload to apply fresh state
   };
@@ -202,22 +524,100 @@ const App: React.FC = () => {
     return UI_TRANSLATIONS[language]?.[key] || UI_TRANSLATIONS[Language.EN][key] || key;
   }, [language]);
 
+  // The URL is the source of truth for the view: back/forward and pasted links arrive as hash changes.
+  useEffect(() => {
+    const handleHashChange = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // replace is for refinements of the current page (typing a search) that shouldn't each be a history step.
+  const navigate = useCallback((next: AppRoute, replace = false) => {
+    const hash = formatRoute(next);
+    if (hash !== window.location.hash) {
+      if (replace) window.history.replaceState(window.history.state, '', hash);
+      else window.history.pushState(null, '', hash);
+    }
+    setRoute(parseRoute(hash));
+  }, []);
+
+  const navigateToView = useCallback((view: ActiveView) => navigate(createRoute(view)), [navigate]);
+
+  const handleDocumentRouteChange = useCallback((documentId: string | null, list: DocumentListState, replace: boolean) => {
+    navigate(createRoute(activeView, documentId, list), replace);
+  }, [navigate, activeView]);
+
+  const handleChatSessionRouteChange = useCallback((sessionId: string | null, replace: boolean) => {
+    navigate(createRoute(ActiveView.AI_QUERY, sessionId), replace);
+  }, [navigate]);
+
+  const handleGraphFocusChange = useCallback((docId: string | null) => {
+    navigate(createRoute(ActiveView.GRAPH, docId));
+  }, [navigate]);
+
   const handleRequestOpenAddDocumentModal = useCallback(() => {
-    setActiveView(ActiveView.DOCUMENTS);
+    navigateToView(ActiveView.DOCUMENTS);
     setShouldOpenAddDocumentModal(true);
-  }, []);
+  }, [navigateToView]);
 
   const handleAddDocumentModalOpened = useCallback(() => {
     setShouldOpenAddDocumentModal(false);
   }, []);
 
+  const handlePendingAIQuestionHandled = useCallback(() => {
+    setPendingAIQuestion(null);
+  }, []);
+
+  // Ctrl/Cmd+K opens the command palette from anywhere, even while typing in a field.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setIsCommandPaletteOpen(isOpen => !isOpen);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const commandPaletteActions = useMemo<CommandPaletteActions>(() => ({
+    openDocument: (docId) => navigate(createRoute(ActiveView.DOCUMENTS, docId)),
+    openTag: (tag) => navigate(createRoute(ActiveView.DOCUMENTS, null, { ...DEFAULT_DOCUMENT_LIST_STATE, filterTag: tag })),
+    openChat: (sessionId) => navigate(createRoute(ActiveView.AI_QUERY, sessionId)),
+    askAI: (question) => {
+      setPendingAIQuestion(question);
+      navigateToView(ActiveView.AI_QUERY);
+    },
+  }), [navigate, navigateToView]);
+
+  // The route opens the cited document; the focus request only adds the passage to highlight in it.
+  const handleOpenCitation = useCallback((citation: Citation) => {
+    navigate(createRoute(ActiveView.DOCUMENTS, citation.documentId));
+    setDocumentFocusRequest({
+      documentId: citation.documentId,
+      passage: { start: citation.start, end: citation.end, text: citation.text },
+    });
+  }, [navigate]);
+
+  const handleDocumentFocusHandled = useCallback(() => {
+    setDocumentFocusRequest(null);
+  }, []);
+
+  const handleShowInGraph = useCallback((docId: string) => {
+    navigate(createRoute(ActiveView.GRAPH, docId));
+  }, [navigate]);
+
+  const handleOpenDocument = useCallback((docId: string) => {
+    navigate(createRoute(ActiveView.DOCUMENTS, docId));
+  }, [navigate]);
+
 
   const renderView = () => {
     switch (activeView) {
       case ActiveView.HOME:
         return <HomepageView 
                   documents={documents}
-                  setActiveView={setActiveView}
+                  setActiveView={navigateToView}
                   requestOpenAddDocumentModal={handleRequestOpenAddDocumentModal}
                   currentLanguage={language}
                 />;
@@ -226,24 +626,58 @@ const App: React.FC = () => {
                   documents={documents} 
                   addDocument={addDocument} 
                   updateDocument={updateDocument} 
+                  editDocument={editDocument}
+                  deleteDocument={deleteDocument}
                   title={t('document_hub_title')}
                   currentLanguage={language}
                   initialOpenAddModal={shouldOpenAddDocumentModal}
                   onModalHandled={handleAddDocumentModalOpened}
+                  focusRequest={documentFocusRequest}
+                  onFocusHandled={handleDocumentFocusHandled}
+                  collections={collections}
+                  collectionActions={collectionActions}
+                  tagSynonyms={tagRegistry.synonymGroups}
+                  bulkActions={documentBulkActions}
+                  fetchProxyUrl={fetchProxyUrl}
+                  onShowInGraph={handleShowInGraph}
+                  openDocumentId={route.entityId}
+                  listState={route.list}
+                  onRouteChange={handleDocumentRouteChange}
                 />;
       case ActiveView.AI_QUERY:
-        return <AIQueryAgent documents={documents} />;
+        return <AIQueryAgent
+                  documents={documents}
+                  contextTokenBudget={contextTokenBudget}
+                  onOpenCitation={handleOpenCitation}
+                  sessionId={route.entityId}
+                  onSessionRouteChange={handleChatSessionRouteChange}
+                  initialQuestion={pendingAIQuestion}
+                  onInitialQuestionHandled={handlePendingAIQuestionHandled}
+                />;
       case ActiveView.MY_BOOKMARKS:
         return <DocumentManager 
                   documents={documents} 
                   addDocument={addDocument} 
                   updateDocument={updateDocument} 
+                  editDocument={editDocument}
+                  deleteDocument={deleteDocument}
                   title={t('my_bookmarks')} 
                   showOnlyFavorites={true} 
                   currentLanguage={language}
+                  tagSynonyms={tagRegistry.synonymGroups}
+                  bulkActions={documentBulkActions}
+                  fetchProxyUrl={fetchProxyUrl}
+                  onShowInGraph={handleShowInGraph}
+                  openDocumentId={route.entityId}
+                  listState={route.list}
+                  onRouteChange={handleDocumentRouteChange}
                 />;
+      case ActiveView.TAGS:
+        return <TagManagerView documents={documents} tagRegistry={tagRegistry} actions={tagActions} />;
+      case ActiveView.GRAPH:
+        return <DocumentGraphView documents={documents} focusDocumentId={route.entityId} onFocusChange={handleGraphFocusChange} onOpenDocument={handleOpenDocument} />;
       case ActiveView.ANALYTICS:
-        return <AnalyticsReportView documents={documents} />;
+        return <AnalyticsReportView documents={documents} collections={collections} onOpenDocument={handleOpenDocument} />;
       case ActiveView.SETTINGS:
         return <SystemSettingsView 
                   currentTheme={currentThemeSetting}
@@ -251,11 +685,24 @@ const App: React.FC = () => {
                   currentLanguage={language}
                   onLanguageChange={changeLanguage}
                   onClearAllData={handleClearAllData}
+                  contextTokenBudget={contextTokenBudget}
+                  onContextTokenBudgetChange={changeContextTokenBudget}
+                  aiProviderSettings={aiProviderSettings}
+                  onAIProviderSettingsChange={changeAIProviderSettings}
+                  documents={documents}
+                  collections={collections}
+                  tagRegistry={tagRegistry}
+                  onExportData={handleExportData}
+                  onImportData={handleImportData}
+                  authorName={authorName}
+                  onAuthorNameChange={changeAuthorName}
+                  fetchProxyUrl={fetchProxyUrl}
+                  onFetchProxyUrlChange={changeFetchProxyUrl}
                 />;
       default:
         return <HomepageView 
                   documents={documents}
-                  setActiveView={setActiveView}
+                  setActiveView={navigateToView}
                   requestOpenAddDocumentModal={handleRequestOpenAddDocumentModal}
                   currentLanguage={language}
                 />;
@@ -273,6 +720,24 @@ const App: React.FC = () => {
       ? `Switch to ${Theme.LIGHT} mode`
       : `Switch to ${effectiveTheme === Theme.LIGHT ? Theme.DARK : Theme.LIGHT} mode (System: ${effectiveTheme})`;
 
+  // Cycle through themes: Light -> Dark -> System -> Light ...
+  const cycleThemePreference = () => {
+    if (currentThemeSetting === Theme.LIGHT) setThemePreference(Theme.DARK);
+    else if (currentThemeSetting === Theme.DARK) setThemePreference(Theme.SYSTEM);
+    else setThemePreference(Theme.LIGHT);
+  };
+
+  const paletteCommands: PaletteCommand[] = [
+    ...NAVIGATION_ITEMS.map((item): PaletteCommand => ({
+      id: `view:${item.name}`,
+      kind: 'view',
+      title: item.labelKey ? t(item.labelKey) : item.name,
+      run: () => navigateToView(item.name),
+    })),
+    { id: 'action:add-document', kind: 'action', title: 'Add Document', run: handleRequestOpenAddDocumentModal },
+    { id: 'action:toggle-theme', kind: 'action', title: `Toggle Theme (${themeToggleButtonLabel})`, run: cycleThemePreference },
+  ];
+
 
   return (
     <div className="flex h-screen bg-slate-100 dark:bg-slate-900 text-slate-900 dark:text-slate-100">
@@ -287,7 +752,7 @@ const App: React.FC = () => {
             {NAVIGATION_ITEMS.map((item: NavItem) => (
               <li key={item.name} className="mb-2">
                 <button
-                  onClick={() => { setActiveView(item.name); setIsSidebarOpen(false); }}
+                  onClick={() => { navigateToView(item.name); setIsSidebarOpen(false); }}
                   className={`w-full flex items-center space-x-3 px-3 py-2.5 rounded-md text-sm font-medium transition-colors
                     ${activeView === item.name 
                       ? 'bg-hnai-gold-500 text-hnai-teal-900 shadow-md' 
@@ -327,6 +792,16 @@ const App: React.FC = () => {
              <span className="text-lg sm:text-xl font-semibold text-hnai-teal-700 dark:text-hnai-teal-300 sm:hidden">HNAI KM</span>
           </div>
           <div className="flex items-center space-x-2 sm:space-x-3">
+            <button
+                onClick={() => setIsCommandPaletteOpen(true)}
+                className="flex items-center gap-2 px-2 sm:px-3 py-1.5 sm:py-2 text-sm border border-slate-300 dark:border-slate-600 rounded-md text-slate-500 dark:text-slate-400 hover:border-hnai-teal-500 transition-colors"
+                aria-label="Open command palette"
+                aria-keyshortcuts="Control+K Meta+K"
+            >
+                <MagnifyingGlassIcon className="w-4 h-4" />
+                <span className="hidden sm:inline">Search...</span>
+                <kbd className="hidden sm:inline text-xs font-sans px-1.5 rounded bg-slate-100 dark:bg-slate-700">Ctrl K</kbd>
+            </button>
             <div className="relative">
                 <select 
                     value={language} 
@@ -341,12 +816,7 @@ const App: React.FC = () => {
                 <GlobeAltIcon className="w-4 h-4 sm:w-5 sm:h-5 text-slate-500 dark:text-slate-400 absolute left-2 top-1/2 -translate-y-1/2 pointer-events-none"/>
             </div>
             <button
-                onClick={() => {
-                  // Cycle through themes: Light -> Dark -> System -> Light ...
-                  if (currentThemeSetting === Theme.LIGHT) setThemePreference(Theme.DARK);
-                  else if (currentThemeSetting === Theme.DARK) setThemePreference(Theme.SYSTEM);
-                  else setThemePreference(Theme.LIGHT);
-                }}
+                onClick={cycleThemePreference}
                 className="p-1.5 sm:p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-hnai-gold-500 transition-colors"
                 aria-label={themeToggleButtonLabel}
             >
@@ -357,10 +827,28 @@ const App: React.FC = () => {
 
         {/* Page Content */}
         <main className="flex-1 overflow-x-hidden overflow-y-auto bg-slate-100 dark:bg-slate-900">
-          {renderView()}
+          {storageError && (
+            <div className="m-4 p-3 flex items-start justify-between gap-3 text-sm text-red-700 bg-red-100 rounded-lg dark:bg-red-900/40 dark:text-red-300" role="alert">
+              <span>{storageError}</span>
+              <button onClick={() => setStorageError(null)} className="font-semibold hover:underline flex-shrink-0" aria-label="Dismiss storage error">Dismiss</button>
+            </div>
+          )}
+          {isLoadingDocuments ? (
+            <div className="h-full flex items-center justify-center">
+              <LoadingSpinner size="lg" text="Loading your knowledge base..." />
+            </div>
+          ) : renderView()}
         </main>
       </div>
        {isSidebarOpen && <div className="fixed inset-0 z-20 bg-black opacity-50 md:hidden" onClick={() => setIsSidebarOpen(false)} aria-hidden="true"></div>}
+      <CommandPalette
+        isOpen={isCommandPaletteOpen}
+        onClose={() => setIsCommandPaletteOpen(false)}
+        documents={documents}
+        tagSynonyms={tagRegistry.synonymGroups}
+        commands={paletteCommands}
+        actions={commandPaletteActions}
+      />
     </div>
   );
 };
@@ -1,9 +1,20 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Document, ChatMessage } from '../types';
-import { generateTextStream, generateJson, isAIServiceAvailable } from '../services/geminiService';
+import { Document, ChatMessage, ChatSession, Citation, RetrievedChunk } from '../types';
+import { generateTextStream, isAIServiceAvailable } from '../services/aiService';
+import { retrieveRelevantChunks } from '../services/retrievalService';
+import { estimateTokenCount } from '../services/textAnalysis';
+import { ConversationState, HISTORY_BUDGET_SHARE, formatConversationHistory, getCompletedMessages, rewriteAsStandaloneQuestion, selectMessagesToSummarize, summarizeTurns } from '../services/conversationService';
+import { loadChatSessions, saveChatSession, deleteChatSession, subscribeToStorageChanges, CHAT_SESSIONS_STORE } from '../services/storageService';
+import { createChatSession, withMessages } from '../services/chatSessionService';
+import { createSearchLogEntry, isNotFoundAnswer, logSearch, recordChosenResult } from '../services/searchLogService';
+import { recordEngagement } from '../services/engagementService';
+import { buildCitations, selectCitedPassages, splitCitedText } from '../services/citationService';
+import { buildVideoTimestampUrl, formatTimestamp } from '../services/transcriptService';
 import Button from './common/Button';
 import LoadingSpinner from './common/LoadingSpinner';
+import MarkdownContent from './common/MarkdownContent';
+import ChatSessionSidebar from './ChatSessionSidebar';
 import { PaperAirplaneIcon, MicrophoneIcon, LightBulbIcon } from '../constants';
 
 // Manual Type Definitions for Web Speech API
@@ -112,6 +123,12 @@ interface SpeechRecognitionEventMap {
 
 interface AIQueryAgentProps {
   documents: Document[];
+  contextTokenBudget: number;
+  onOpenCitation: (citation: Citation) => void;
+  sessionId?: string | null; // The conversation named in the URL, when routed
+  onSessionRouteChange?: (sessionId: string | null, replace: boolean) => void;
+  initialQuestion?: string | null; // Starts a new chat with this question typed in, ready to send
+  onInitialQuestionHandled?: () => void;
 }
 
 const suggestedPrompts: string[] = [
@@ -121,11 +138,157 @@ const suggestedPrompts: string[] = [
     "Explain a concept in simple terms."
 ];
 
-const AIQueryAgent: React.FC<AIQueryAgentProps> = ({ documents }) => {
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+const formatRetrievedContext = (retrieved: RetrievedChunk[], documentsById: Map<string, Document>): string =>
+  retrieved
+    .map(({ chunk }, index) => {
+      const doc = documentsById.get(chunk.documentId);
+      return `[Passage ${index + 1}] Document Name: ${chunk.documentName}${doc ? `\nType: ${doc.type}` : ''}${doc?.sourceUrl ? `\nSource URL: ${doc.sourceUrl}` : ''}${chunk.timestampSeconds !== undefined ? `\nVideo transcript from ${formatTimestamp(chunk.timestampSeconds)}` : ''}\nContent:\n${chunk.text}`;
+    })
+    .join("\n\n---\n\n");
+
+// When nothing matches lexically (e.g. "What are the latest updates?"), fall back to an overview of the newest documents.
+const formatDocumentOverview = (documents: Document[], tokenBudget: number): string => {
+  const entries: string[] = [];
+  let usedTokens = 0;
+  const newestFirst = [...documents].sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
+  for (const doc of newestFirst) {
+    const entry = `Document Name: ${doc.name}\nType: ${doc.type}\nUploaded: ${new Date(doc.uploadedAt).toLocaleDateString()}${doc.sourceUrl ? `\nSource URL: ${doc.sourceUrl}` : ''}\nContent Snippet: ${doc.contentSnippet}`;
+    const cost = estimateTokenCount(entry);
+    if (usedTokens + cost > tokenBudget) break;
+    entries.push(entry);
+    usedTokens += cost;
+  }
+  return entries.join("\n\n---\n\n");
+};
+
+const ACTIVE_SESSION_STORAGE_KEY = 'hnai-km-active-chat-session';
+const CITATION_EXCERPT_LENGTH = 120;
+
+const AIQueryAgent: React.FC<AIQueryAgentProps> = ({ documents, contextTokenBudget, onOpenCitation, sessionId: routeSessionId, onSessionRouteChange, initialQuestion = null, onInitialQuestionHandled }) => {
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  // A link to a conversation opens it; otherwise the last conversation is restored.
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(() => routeSessionId || localStorage.getItem(ACTIVE_SESSION_STORAGE_KEY));
+  const [isLoadingSessions, setIsLoadingSessions] = useState(true);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  // Streaming callbacks outlive renders (and even this component), so they read and write through a ref.
+  const sessionsRef = useRef<ChatSession[]>([]);
   const [currentQuestion, setCurrentQuestion] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const questionInputRef = useRef<HTMLTextAreaElement>(null);
+
+  const activeSession = sessions.find(session => session.id === activeSessionId) ?? null;
+  const chatHistory = activeSession?.messages ?? [];
+
+  const replaceSessions = useCallback((nextSessions: ChatSession[]) => {
+    sessionsRef.current = nextSessions;
+    setSessions(nextSessions);
+  }, []);
+
+  const persistSession = useCallback((session: ChatSession) => {
+    saveChatSession(session).catch(error => {
+      console.error("Error saving chat session:", error);
+      setSessionError("This conversation could not be saved to browser storage.");
+    });
+  }, []);
+
+  // Applies an update to one session; persist is false for streaming chunks, which are saved once complete.
+  const updateSession = useCallback((sessionId: string, update: (session: ChatSession) => ChatSession, persist = true) => {
+    const existing = sessionsRef.current.find(session => session.id === sessionId);
+    if (!existing) return;
+    const updated = update(existing);
+    replaceSessions(sessionsRef.current.map(session => session.id === sessionId ? updated : session));
+    if (persist) persistSession(updated);
+  }, [replaceSessions, persistSession]);
+
+  const updateMessages = useCallback((sessionId: string, update: (messages: ChatMessage[]) => ChatMessage[], persist = true) => {
+    updateSession(sessionId, session => withMessages(session, update(session.messages)), persist);
+  }, [updateSession]);
+
+  const selectSession = useCallback((sessionId: string | null) => {
+    setActiveSessionId(sessionId);
+    if (sessionId) localStorage.setItem(ACTIVE_SESSION_STORAGE_KEY, sessionId);
+    else localStorage.removeItem(ACTIVE_SESSION_STORAGE_KEY);
+  }, []);
+
+  // Conversation → URL. The first sync only fills in a restored conversation, so it replaces the entry.
+  const hasSyncedRouteRef = useRef(false);
+  useEffect(() => {
+    if (onSessionRouteChange && routeSessionId !== undefined && activeSessionId !== routeSessionId) {
+      onSessionRouteChange(activeSessionId, !hasSyncedRouteRef.current);
+    }
+    hasSyncedRouteRef.current = true;
+  }, [activeSessionId]);
+
+  // URL → conversation, when the URL changes (back/forward, a pasted link).
+  const previousRouteSessionIdRef = useRef(routeSessionId);
+  useEffect(() => {
+    if (routeSessionId === previousRouteSessionIdRef.current) return;
+    previousRouteSessionIdRef.current = routeSessionId;
+    if (routeSessionId !== undefined && routeSessionId !== activeSessionId) selectSession(routeSessionId);
+  }, [routeSessionId]);
+
+  // A link to a conversation that has since been deleted falls back to a new chat.
+  useEffect(() => {
+    if (isLoadingSessions || !routeSessionId || sessionsRef.current.some(session => session.id === routeSessionId)) return;
+    alert("The linked conversation no longer exists.");
+    selectSession(null);
+    onSessionRouteChange?.(null, true);
+  }, [isLoadingSessions, routeSessionId]);
+
+  useEffect(() => {
+    if (!initialQuestion) return;
+    selectSession(null);
+    setCurrentQuestion(initialQuestion);
+    questionInputRef.current?.focus();
+    onInitialQuestionHandled?.();
+  }, [initialQuestion, onInitialQuestionHandled, selectSession]);
+
+  const isLoadingRef = useRef(false);
+  useEffect(() => {
+    isLoadingRef.current = isLoading;
+  }, [isLoading]);
+
+  useEffect(() => {
+    const refreshSessions = async () => {
+      try {
+        const storedSessions = await loadChatSessions();
+        // Don't clobber a reply that is still streaming in this tab.
+        const streamingSession = isLoadingRef.current ? sessionsRef.current.find(session => session.messages.some(message => message.isLoading)) : undefined;
+        replaceSessions(storedSessions.map(session => session.id === streamingSession?.id ? streamingSession : session));
+      } catch (error) {
+        console.error("Error loading chat sessions:", error);
+        setSessionError("Saved conversations could not be loaded.");
+      }
+      setIsLoadingSessions(false);
+    };
+    refreshSessions();
+    return subscribeToStorageChanges((storeName) => {
+      if (storeName === CHAT_SESSIONS_STORE) refreshSessions();
+    });
+  }, [replaceSessions]);
+
+  const handleNewChat = () => {
+    selectSession(null); // The session is created with the first question, so empty chats are never saved.
+    setCurrentQuestion('');
+  };
+
+  const handleRenameSession = (sessionId: string, title: string) => {
+    updateSession(sessionId, session => ({ ...session, title }));
+  };
+
+  const handleTogglePinSession = (sessionId: string) => {
+    updateSession(sessionId, session => ({ ...session, isPinned: !session.isPinned }));
+  };
+
+  const handleDeleteSession = (sessionId: string) => {
+    replaceSessions(sessionsRef.current.filter(session => session.id !== sessionId));
+    if (sessionId === activeSessionId) selectSession(null);
+    deleteChatSession(sessionId).catch(error => {
+      console.error("Error deleting chat session:", error);
+      setSessionError("The conversation could not be deleted from browser storage.");
+    });
+  };
 
   const [isRecording, setIsRecording] = useState(false);
   const [speechError, setSpeechError] = useState<string | null>(null);
@@ -226,35 +389,6 @@ const AIQueryAgent: React.FC<AIQueryAgentProps> = ({ documents }) => {
   };
 
 
-  const fetchSourceAttribution = async (userQuery: string, context: string, aiAnswer: string): Promise<string[] | undefined> => {
-    if (!aiAnswer.trim() || !isAIServiceAvailable()) return undefined;
-    
-    try {
-      const attributionPrompt = `Given the User Question, the Context from documents, and the AI's Answer, list the names of the original documents from the Context that were most relevant for generating this answer. Only list document names that appear in the provided context. If no specific documents were clearly primary sources, respond with an empty list.
-
-User Question: "${userQuery}"
-
-Context Used:
----
-${context}
----
-
-AI Answer: "${aiAnswer}"
-
-Relevant Document Names (as a JSON array of strings, e.g., ["doc1.pdf", "policy_update.docx"]):`;
-
-      const result = await generateJson<string[]>(attributionPrompt);
-      if (result && Array.isArray(result)) {
-        return result.filter(name => typeof name === 'string'); 
-      }
-      return undefined;
-    } catch (error) {
-      console.error("Error fetching source attribution:", error);
-      return undefined;
-    }
-  };
-
-
   const handleSendMessage = useCallback(async (message?: string) => {
     const query = message || currentQuestion;
 
@@ -265,7 +399,7 @@ Relevant Document Names (as a JSON array of strings, e.g., ["doc1.pdf", "policy_
     if (!query.trim()) return;
     
     if (!isAIServiceAvailable()) {
-        alert("AI Service is not available. Please check API key configuration.");
+        alert("AI Service is not available. Please check the AI provider configuration in Settings.");
         return;
     }
 
@@ -276,8 +410,19 @@ Relevant Document Names (as a JSON array of strings, e.g., ["doc1.pdf", "policy_
       timestamp: new Date(),
     };
     
+    let sessionId = activeSessionId && sessionsRef.current.some(session => session.id === activeSessionId) ? activeSessionId : null;
+    if (!sessionId) {
+      const newSession = createChatSession();
+      replaceSessions([newSession, ...sessionsRef.current]);
+      selectSession(newSession.id);
+      sessionId = newSession.id;
+    }
+    const targetSessionId = sessionId;
+    const sessionBeforeQuestion = sessionsRef.current.find(session => session.id === targetSessionId)!;
+    const previousMessages = getCompletedMessages(sessionBeforeQuestion.messages);
+
     const loadingAiMessageId = Date.now().toString() + '_ai_loading';
-    setChatHistory(prev => [...prev, userMessage, {
+    updateMessages(targetSessionId, prev => [...prev, userMessage, {
         id: loadingAiMessageId,
         sender: 'ai',
         text: '',
@@ -291,18 +436,46 @@ Relevant Document Names (as a JSON array of strings, e.g., ["doc1.pdf", "policy_
     }
     setIsLoading(true);
 
-    const contextSnippets = documents
-      .filter(doc => doc.contentSnippet || doc.fullContent)
-      .slice(0, 5) 
-      .map(doc => `Document Name: ${doc.name}\nType: ${doc.type}${doc.sourceUrl ? `\nSource URL: ${doc.sourceUrl}` : ''}\nContent Snippet: ${doc.contentSnippet}${doc.fullContent ? `\nFull Content Hint: ${doc.fullContent.substring(0,100)}...` : '' }`)
-      .join("\n\n---\n\n");
+    // Earlier turns get a share of the budget; once they outgrow it the oldest are folded into a rolling summary.
+    let conversationState: ConversationState = {
+      summary: sessionBeforeQuestion.summary ?? '',
+      summarizedMessageCount: sessionBeforeQuestion.summarizedMessageCount ?? 0,
+    };
+    const historyBudget = Math.floor(contextTokenBudget * HISTORY_BUDGET_SHARE);
+    const messagesToSummarize = selectMessagesToSummarize(previousMessages, conversationState, historyBudget);
+    if (messagesToSummarize.length > 0) {
+      const summary = await summarizeTurns(conversationState.summary, messagesToSummarize);
+      if (summary) {
+        const nextState = { summary, summarizedMessageCount: conversationState.summarizedMessageCount + messagesToSummarize.length };
+        conversationState = nextState;
+        updateSession(targetSessionId, session => ({ ...session, ...nextState }));
+      }
+    }
+    const conversationHistory = previousMessages.length > 0 ? formatConversationHistory(previousMessages, conversationState, historyBudget) : '';
 
-    const prompt = `You are a helpful AI assistant for the HEREANDNOW AI RESEARCH INSTITUTE. Your knowledge base consists of the following documents. Answer the user's question based ONLY on this information. If the answer is not found in the provided documents, state that clearly. Do not make up information. Be concise and professional.
+    const standaloneQuestion = await rewriteAsStandaloneQuestion(questionToSubmit, conversationHistory);
+    if (standaloneQuestion !== questionToSubmit) {
+      updateMessages(targetSessionId, prev => prev.map(msg => msg.id === userMessage.id ? { ...msg, standaloneQuery: standaloneQuestion } : msg));
+    }
 
+    const retrievalBudget = Math.max(0, contextTokenBudget - estimateTokenCount(conversationHistory));
+    const retrievedChunks = await retrieveRelevantChunks(standaloneQuestion, retrievalBudget);
+    const documentsById = new Map(documents.map(doc => [doc.id, doc]));
+    const contextSnippets = retrievedChunks.length > 0
+      ? formatRetrievedContext(retrievedChunks, documentsById)
+      : formatDocumentOverview(documents, retrievalBudget);
+    // The overview fallback has no passages to point at, so those answers go uncited.
+    const citations = buildCitations(retrievedChunks);
+
+    const prompt = `You are a helpful AI assistant for the HEREANDNOW AI RESEARCH INSTITUTE. The following excerpts were retrieved from the knowledge base as the most relevant to the user's question. Answer the user's question based ONLY on this information. If the answer is not found in the provided documents, state that clearly. Do not make up information. Be concise and professional.${citations.length > 0 ? ' Cite the passages you use with their numbers in square brackets, e.g. [1] or [2][3], right after the sentence they support.' : ''}
+${conversationHistory ? `
+Conversation So Far (use it to understand the question and what has already been said):
+${conversationHistory}
+` : ''}
 Knowledge Base:
 ${contextSnippets.length > 0 ? contextSnippets : "No documents available in the knowledge base."}
 
-User Question: ${questionToSubmit}
+User Question: ${standaloneQuestion}
 
 Answer:`;
     
@@ -313,27 +486,82 @@ Answer:`;
       prompt,
       (chunk) => { 
         accumulatedAnswer += chunk;
-        setChatHistory(prev => prev.map(msg => 
+        updateMessages(targetSessionId, prev => prev.map(msg => 
             msg.id === loadingAiMessageId && msg.isLoading ? { ...msg, text: accumulatedAnswer } : msg
-        ));
+        ), false);
       },
       async (error) => { 
         console.error("Streaming error:", error);
-        setChatHistory(prev => prev.map(msg => 
+        updateMessages(targetSessionId, prev => prev.map(msg => 
              msg.id === loadingAiMessageId && msg.isLoading ? { ...msg, text: "Sorry, an error occurred while generating the answer.", isLoading: false, id: finalAiMessageId } : msg
         ));
         setIsLoading(false);
       },
       async () => { 
-        const sources = await fetchSourceAttribution(questionToSubmit, contextSnippets, accumulatedAnswer);
-        setChatHistory(prev => prev.map(msg => 
-             msg.id === loadingAiMessageId && msg.isLoading ? { ...msg, text: accumulatedAnswer || "No further response.", isLoading: false, id: finalAiMessageId, sources } : msg
+        const citedPassages = selectCitedPassages(accumulatedAnswer, citations);
+        const sources = citedPassages.length > 0 ? [...new Set(citedPassages.map(citation => citation.documentName))] : undefined;
+        const retrievedDocumentCount = new Set(retrievedChunks.map(({ chunk }) => chunk.documentId)).size;
+        const searchLogEntry = createSearchLogEntry('ai', standaloneQuestion, retrievedDocumentCount, { answerNotFound: isNotFoundAnswer(accumulatedAnswer, citedPassages.length) });
+        updateMessages(targetSessionId, prev => prev.map(msg => 
+             msg.id === loadingAiMessageId && msg.isLoading ? { ...msg, text: accumulatedAnswer || "No further response.", isLoading: false, id: finalAiMessageId, sources, citations: citedPassages.length > 0 ? citedPassages : undefined, searchLogId: searchLogEntry.id } : msg
         ));
+        logSearch(searchLogEntry);
+        recordEngagement('citation', [...new Set(citedPassages.map(citation => citation.documentId))]);
         setIsLoading(false);
       }
     );
 
-  }, [currentQuestion, documents, fetchSourceAttribution, isRecording]);
+  }, [currentQuestion, documents, contextTokenBudget, isRecording, activeSessionId, replaceSessions, selectSession, updateSession, updateMessages]);
+
+  // Transcript citations also link to the video at the cited moment.
+  const getCitationVideoUrl = (citation: Citation): string | null => {
+    if (citation.timestampSeconds === undefined) return null;
+    const sourceUrl = documents.find(doc => doc.id === citation.documentId)?.sourceUrl;
+    return sourceUrl ? buildVideoTimestampUrl(sourceUrl, citation.timestampSeconds) : null;
+  };
+
+  const renderVideoTimestampLink = (citation: Citation) => {
+    const videoUrl = getCitationVideoUrl(citation);
+    if (!videoUrl) return null;
+    return (
+      <a
+        href={videoUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="px-0.5 font-semibold text-hnai-gold-700 dark:text-hnai-gold-300 hover:underline whitespace-nowrap"
+        title={`${citation.documentName}: play from ${formatTimestamp(citation.timestampSeconds!)}`}
+      >
+        ▶ {formatTimestamp(citation.timestampSeconds!)}
+      </a>
+    );
+  };
+
+  // Following a citation is the AI counterpart of opening a search result.
+  const handleOpenCitation = (citation: Citation, message: ChatMessage) => {
+    if (message.searchLogId) recordChosenResult(message.searchLogId, citation.documentId);
+    onOpenCitation(citation);
+  };
+
+  const renderCitedText = (text: string, message: ChatMessage, citations: Citation[]) =>
+    splitCitedText(text, citations).map((part, index) => typeof part === 'string' ? part : (
+      <sup key={index} className="ml-0.5">
+        {part.map(number => {
+          const citation = citations.find(c => c.number === number)!;
+          return (
+            <React.Fragment key={number}>
+              <button
+                onClick={() => handleOpenCitation(citation, message)}
+                className="px-0.5 font-semibold text-hnai-teal-700 dark:text-hnai-teal-300 hover:underline"
+                title={`${citation.documentName}: open the cited passage`}
+              >
+                [{number}]
+              </button>
+              {renderVideoTimestampLink(citation)}
+            </React.Fragment>
+          );
+        })}
+      </sup>
+    ));
 
   const handleSuggestionClick = (promptText: string) => {
     setCurrentQuestion(promptText); // Set the input field
@@ -342,17 +570,35 @@ Answer:`;
 
 
   return (
-    <div className="p-4 sm:p-6 h-full flex flex-col max-h-[calc(100vh-120px)]"> {/* Adjust max-h based on header/footer */}
-      <h2 className="text-2xl font-semibold text-slate-800 dark:text-slate-100 mb-4">AI Query Agent</h2>
+    <div className="p-4 sm:p-6 h-full flex flex-col md:flex-row gap-4 max-h-[calc(100vh-120px)]"> {/* Adjust max-h based on header/footer */}
+      <ChatSessionSidebar
+        sessions={sessions}
+        activeSessionId={activeSessionId}
+        onSelect={selectSession}
+        onCreate={handleNewChat}
+        onRename={handleRenameSession}
+        onTogglePin={handleTogglePinSession}
+        onDelete={handleDeleteSession}
+        disabled={isLoading}
+      />
+      <div className="flex-grow min-w-0 flex flex-col min-h-0">
+      <h2 className="text-2xl font-semibold text-slate-800 dark:text-slate-100 mb-4 truncate">
+        AI Query Agent{activeSession && <span className="text-slate-500 dark:text-slate-400 font-normal"> &middot; {activeSession.title}</span>}
+      </h2>
       
       {!isAIServiceAvailable() && (
         <div className="p-4 mb-4 text-sm text-amber-700 bg-amber-100 rounded-lg dark:bg-amber-700/30 dark:text-amber-300" role="alert">
-          <span className="font-medium">Warning!</span> AI features are currently unavailable. Please ensure the API key is correctly configured.
+          <span className="font-medium">Warning!</span> AI features are currently unavailable. Please check the AI provider configuration in Settings.
         </div>
       )}
 
+      {sessionError && (
+        <div className="p-3 mb-4 text-sm text-red-700 bg-red-100 rounded-lg dark:bg-red-900/40 dark:text-red-300" role="alert">{sessionError}</div>
+      )}
+
       <div ref={chatContainerRef} className="flex-grow overflow-y-auto mb-4 p-4 bg-white dark:bg-slate-800 rounded-lg shadow space-y-4">
-        {chatHistory.length === 0 && (
+        {isLoadingSessions && <LoadingSpinner text="Loading conversations..." />}
+        {!isLoadingSessions && chatHistory.length === 0 && (
           <p className="text-center text-slate-500 dark:text-slate-400">Ask a question about your documents to get started.</p>
         )}
         {chatHistory.map((msg) => (
@@ -362,8 +608,41 @@ Answer:`;
                 ? 'bg-hnai-teal-500 text-white' 
                 : 'bg-slate-200 dark:bg-slate-700 text-slate-800 dark:text-slate-100'
             }`}>
-              {msg.isLoading ? <LoadingSpinner size="sm" color={msg.sender === 'user' ? 'text-white': 'text-hnai-teal-500'} /> : <p className="whitespace-pre-wrap">{msg.text}</p>}
-              {msg.sender === 'ai' && !msg.isLoading && msg.sources && msg.sources.length > 0 && (
+              {msg.isLoading ? <LoadingSpinner size="sm" color={msg.sender === 'user' ? 'text-white': 'text-hnai-teal-500'} /> : (
+                msg.sender === 'ai' ? (
+                  <MarkdownContent text={msg.text} renderText={msg.citations ? (text => renderCitedText(text, msg, msg.citations!)) : undefined} />
+                ) : (
+                  <p className="whitespace-pre-wrap">{msg.text}</p>
+                )
+              )}
+              {msg.sender === 'user' && msg.standaloneQuery && (
+                <p className="text-xs mt-1 text-teal-100 italic" title="Your follow-up was rewritten with the conversation's context before searching the documents">
+                  Searched as: {msg.standaloneQuery}
+                </p>
+              )}
+              {msg.sender === 'ai' && !msg.isLoading && msg.citations && msg.citations.length > 0 && (
+                <div className="mt-2 pt-2 border-t border-slate-300 dark:border-slate-600">
+                    <p className="text-xs font-semibold text-slate-600 dark:text-slate-400 mb-1">Sources:</p>
+                    <ol className="space-y-1 text-xs text-slate-500 dark:text-slate-400">
+                        {msg.citations.map(citation => (
+                            <li key={citation.number}>
+                                <button
+                                  onClick={() => handleOpenCitation(citation, msg)}
+                                  className="text-left hover:text-hnai-teal-600 dark:hover:text-hnai-teal-400"
+                                  title="Open this passage in the document"
+                                >
+                                  <span className="font-semibold">[{citation.number}] {citation.documentName}</span>
+                                  {' — '}
+                                  <span className="italic">{citation.text.length > CITATION_EXCERPT_LENGTH ? `${citation.text.slice(0, CITATION_EXCERPT_LENGTH)}…` : citation.text}</span>
+                                </button>
+                                {getCitationVideoUrl(citation) && <>{' '}{renderVideoTimestampLink(citation)}</>}
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+              )}
+              {/* Answers from before inline citations only carry document names. */}
+              {msg.sender === 'ai' && !msg.isLoading && !msg.citations && msg.sources && msg.sources.length > 0 && (
                 <div className="mt-2 pt-2 border-t border-slate-300 dark:border-slate-600">
                     <p className="text-xs font-semibold text-slate-600 dark:text-slate-400 mb-1">Potential Sources:</p>
                     <ul className="list-disc list-inside text-xs text-slate-500 dark:text-slate-400">
@@ -384,6 +663,7 @@ Answer:`;
       <div className="mt-auto p-4 bg-white dark:bg-slate-800 rounded-lg shadow">
         <div className="flex items-center gap-2">
             <textarea
+            ref={questionInputRef}
             rows={1}
             className="flex-grow p-3 border border-slate-300 dark:border-slate-600 rounded-lg resize-none focus:ring-2 focus:ring-hnai-teal-500 focus:border-hnai-teal-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 disabled:opacity-70"
             placeholder={isAIServiceAvailable() ? (isRecording ? "Listening..." : "Ask something or use mic...") : "AI Service Unavailable"}
@@ -444,6 +724,7 @@ Answer:`;
         {speechError && <p className="text-red-500 text-xs mt-2 text-center">{speechError}</p>}
         {!speechApiSupported && isAIServiceAvailable() && <p className="text-amber-600 dark:text-amber-400 text-xs mt-2 text-center">Voice input is not supported by your browser.</p>}
       </div>
+      </div>
     </div>
   );
 };
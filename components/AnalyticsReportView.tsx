@@ -1,12 +1,44 @@
 
-import React, { useMemo } from 'react';
-import { Document, DocumentType } from '../types';
-import { ChartBarIcon, DocumentIcon, BookmarkIcon, TagIcon, ClockIcon, SparklesIcon, CogIcon } from '../constants';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Collection, Document, DocumentRevision, DocumentType, EngagementEvent, SearchLogEntry } from '../types';
+import { ChartBarIcon, DocumentIcon, BookmarkIcon, TagIcon, ClockIcon, FolderOpenIcon, ArrowDownTrayIcon, PresentationChartLineIcon } from '../constants';
+import Button from './common/Button';
+import TimeSeriesBarChart from './common/TimeSeriesBarChart';
+import SearchInsightsPanel from './SearchInsightsPanel';
+import EngagementMetricsPanel from './EngagementMetricsPanel';
+import { ALL_DOCUMENTS_SCOPE, CollectionScope, buildCollectionTree, countDocumentsByCollection, filterDocumentsByScope, flattenCollectionTree, getCollectionPath } from '../services/collectionService';
+import { ENGAGEMENT_STORE, REVISIONS_STORE, SEARCH_LOG_STORE, loadAllRevisions, loadEngagementEvents, loadSearchLog, subscribeToStorageChanges } from '../services/storageService';
+import { computeSearchInsights } from '../services/searchLogService';
+import { computeEngagementInsights } from '../services/engagementService';
+import { DATE_RANGE_PRESET_LABELS, DateRange, DateRangePreset, MAX_RANGE_DAYS, addDays, countRangeDays, formatBucketLabel, formatRangeLabel, fromDateInputValue, getPresetRange, toDateInputValue } from '../services/dateRangeService';
+import { AnalyticsReport, computeActivityTimeSeries, computeDocumentOverview, formatReportCsv, formatReportHtml, getReportFileName } from '../services/analyticsReportService';
+import { downloadTextFile } from '../services/downloadService';
 
 interface AnalyticsReportViewProps {
   documents: Document[];
+  collections: Collection[];
+  onOpenDocument: (docId: string) => void;
 }
 
+// Encodes a scope as a select option value and back.
+const scopeToValue = (scope: CollectionScope): string => scope.kind === 'collection' ? `collection:${scope.collectionId}` : scope.kind;
+const valueToScope = (value: string): CollectionScope =>
+  value.startsWith('collection:') ? { kind: 'collection', collectionId: value.slice('collection:'.length) } : value === 'unfiled' ? { kind: 'unfiled' } : ALL_DOCUMENTS_SCOPE;
+
+const CUSTOM_RANGE = 'custom';
+
+const selectClassName = 'p-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none';
+
+// The dashboard still shows what it can when one of its sources fails to load.
+const loadOrEmpty = async <T,>(load: () => Promise<T[]>, description: string): Promise<T[]> => {
+  try {
+    return await load();
+  } catch (error) {
+    console.error(`Failed to load ${description} for analytics:`, error);
+    return [];
+  }
+};
+
 interface StatCardProps {
   title: string;
   value: string | number;
@@ -27,46 +59,112 @@ const StatCard: React.FC<StatCardProps> = ({ title, value, icon, description })
   </div>
 );
 
-const AnalyticsReportView: React.FC<AnalyticsReportViewProps> = ({ documents }) => {
-  const analyticsData = useMemo(() => {
-    const totalDocuments = documents.length;
-    const totalBookmarks = documents.filter(doc => doc.isFavorite).length;
-    
-    const documentTypesCount = documents.reduce((acc, doc) => {
-      acc[doc.type] = (acc[doc.type] || 0) + 1;
-      return acc;
-    }, {} as Record<DocumentType, number>);
-
-    const allTags = documents.flatMap(doc => doc.tags);
-    const uniqueTagsCount = new Set(allTags).size;
-    
-    const tagFrequencies = allTags.reduce((acc, tag) => {
-      acc[tag] = (acc[tag] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    const popularTags = Object.entries(tagFrequencies)
-      .sort(([, a], [, b]) => b - a)
-      .slice(0, 5)
-      .map(([tag, count]) => ({ tag, count }));
-
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-    const recentlyAddedCount = documents.filter(doc => new Date(doc.uploadedAt) > sevenDaysAgo).length;
-    const recentDocuments = documents
-        .sort((a,b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime())
-        .slice(0,5);
+const AnalyticsReportView: React.FC<AnalyticsReportViewProps> = ({ documents: allDocuments, collections, onOpenDocument }) => {
+  const [scope, setScope] = useState<CollectionScope>(ALL_DOCUMENTS_SCOPE);
+  const [rangePreset, setRangePreset] = useState<DateRangePreset | typeof CUSTOM_RANGE>('last30');
+  const [customRange, setCustomRange] = useState<DateRange>(() => getPresetRange('last30'));
+  const [searchLog, setSearchLog] = useState<SearchLogEntry[] | null>(null);
+  const [engagementEvents, setEngagementEvents] = useState<EngagementEvent[] | null>(null);
+  const [revisions, setRevisions] = useState<DocumentRevision[] | null>(null);
+
+  const refreshSearchLog = useCallback(async () => setSearchLog(await loadOrEmpty(loadSearchLog, 'the search log')), []);
+  const refreshEngagementEvents = useCallback(async () => setEngagementEvents(await loadOrEmpty(loadEngagementEvents, 'engagement events')), []);
+  const refreshRevisions = useCallback(async () => setRevisions(await loadOrEmpty(loadAllRevisions, 'revisions')), []);
 
+  useEffect(() => {
+    refreshSearchLog();
+    refreshEngagementEvents();
+    return subscribeToStorageChanges((storeName) => {
+      if (storeName === SEARCH_LOG_STORE) refreshSearchLog();
+      if (storeName === ENGAGEMENT_STORE) refreshEngagementEvents();
+      if (storeName === REVISIONS_STORE) refreshRevisions();
+    });
+  }, [refreshSearchLog, refreshEngagementEvents, refreshRevisions]);
+
+  // Revisions are saved with every edit, and edits made in this tab aren't broadcast back to it.
+  useEffect(() => {
+    refreshRevisions();
+  }, [allDocuments, refreshRevisions]);
+
+  const collectionNodes = useMemo(() => flattenCollectionTree(buildCollectionTree(collections)), [collections]);
+  const activeScope = scope.kind === 'collection' && !collections.some(c => c.id === scope.collectionId) ? ALL_DOCUMENTS_SCOPE : scope;
+  const documents = useMemo(() => filterDocumentsByScope(allDocuments, activeScope, collections), [allDocuments, activeScope, collections]);
+
+  // Per-collection counts within the current scope: the selected collection and what's nested under it.
+  const collectionBreakdown = useMemo(() => {
+    const { byCollection, unfiled } = countDocumentsByCollection(allDocuments, collections);
+    if (activeScope.kind === 'unfiled') return { rows: [], unfiled };
+    const scopeRoot = activeScope.kind === 'collection' ? collectionNodes.find(node => node.collection.id === activeScope.collectionId) : undefined;
+    const nodes = scopeRoot ? flattenCollectionTree([scopeRoot]) : collectionNodes;
     return {
-      totalDocuments,
-      totalBookmarks,
-      documentTypesCount,
-      uniqueTagsCount,
-      popularTags,
-      recentlyAddedCount,
-      recentDocuments,
+      rows: nodes.map(node => ({ node, count: byCollection.get(node.collection.id) ?? 0, depth: node.depth - (scopeRoot?.depth ?? 0) })),
+      unfiled: activeScope.kind === 'all' ? unfiled : null,
     };
-  }, [documents]);
+  }, [allDocuments, collections, collectionNodes, activeScope]);
+
+  const range = useMemo(() => rangePreset === CUSTOM_RANGE ? customRange : getPresetRange(rangePreset), [rangePreset, customRange]);
+  const analyticsData = useMemo(() => computeDocumentOverview(documents, range), [documents, range]);
+  const popularTags = analyticsData.tagCounts.slice(0, 5);
+  const activity = useMemo(
+    () => engagementEvents && searchLog ? computeActivityTimeSeries(documents, engagementEvents, searchLog, range) : null,
+    [documents, engagementEvents, searchLog, range]
+  );
+  const searchInsights = useMemo(() => searchLog ? computeSearchInsights(searchLog, range) : null, [searchLog, range]);
+  const engagementInsights = useMemo(
+    () => engagementEvents && revisions ? computeEngagementInsights(engagementEvents, revisions, documents, range) : null,
+    [engagementEvents, revisions, documents, range]
+  );
+
+  const handleRangePresetChange = (value: string) => {
+    // A custom range starts from the one on screen.
+    if (value === CUSTOM_RANGE) setCustomRange(range);
+    setRangePreset(value as DateRangePreset | typeof CUSTOM_RANGE);
+  };
+
+  const handleCustomDateChange = (edge: keyof DateRange, value: string) => {
+    const date = fromDateInputValue(value);
+    if (!date) return;
+    // Like an end before the start, a range longer than the cap moves the other date along.
+    setCustomRange(prev => {
+      const next = { ...prev, [edge]: date };
+      if (next.start > next.end) return { start: date, end: date };
+      if (countRangeDays(next) <= MAX_RANGE_DAYS) return next;
+      return edge === 'start' ? { start: date, end: addDays(date, MAX_RANGE_DAYS - 1) } : { start: addDays(date, -(MAX_RANGE_DAYS - 1)), end: date };
+    });
+  };
+
+  const isReportReady = activity !== null && searchInsights !== null && engagementInsights !== null;
+  const buildReport = (): AnalyticsReport | null => activity && searchInsights && engagementInsights ? {
+    generatedAt: new Date(),
+    range,
+    scopeLabel: activeScope.kind === 'all' ? 'All documents'
+      : activeScope.kind === 'unfiled' ? 'Unfiled documents'
+      : getCollectionPath(activeScope.collectionId, collections).map(collection => collection.name).join(' / '),
+    overview: analyticsData,
+    activity,
+    search: searchInsights,
+    engagement: engagementInsights,
+  } : null;
+
+  const handleExport = (format: 'csv' | 'html') => {
+    const report = buildReport();
+    if (!report) return;
+    downloadTextFile(format === 'csv' ? formatReportCsv(report) : formatReportHtml(report), getReportFileName(report, format), format === 'csv' ? 'text/csv' : 'text/html');
+  };
+
+  const handlePrintReport = () => {
+    const report = buildReport();
+    if (!report) return;
+    const reportWindow = window.open('', '_blank');
+    if (!reportWindow) {
+      alert("The report window was blocked. Allow pop-ups for this site, or export the HTML report and print it from your browser.");
+      return;
+    }
+    reportWindow.document.write(formatReportHtml(report));
+    reportWindow.document.close();
+    reportWindow.focus();
+    reportWindow.print();
+  };
 
   const documentTypeColors: Record<DocumentType, string> = {
     [DocumentType.PDF]: "bg-red-500",
@@ -85,9 +183,55 @@ const AnalyticsReportView: React.FC<AnalyticsReportViewProps> = ({ documents })
 
   return (
     <div className="p-4 sm:p-6 lg:p-8 space-y-8 bg-slate-50 dark:bg-slate-900/50 min-h-full">
-      <div className="flex items-center space-x-3 mb-6">
-        <ChartBarIcon className="w-8 h-8 text-hnai-teal-600 dark:text-hnai-teal-400" />
-        <h1 className="text-3xl font-bold text-slate-800 dark:text-slate-100">Analytics Dashboard</h1>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center space-x-3">
+          <ChartBarIcon className="w-8 h-8 text-hnai-teal-600 dark:text-hnai-teal-400" />
+          <h1 className="text-3xl font-bold text-slate-800 dark:text-slate-100">Analytics Dashboard</h1>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="secondary" size="sm" leftIcon={<ArrowDownTrayIcon className="w-4 h-4" />} onClick={() => handleExport('csv')} disabled={!isReportReady}>Export CSV</Button>
+          <Button variant="secondary" size="sm" leftIcon={<ArrowDownTrayIcon className="w-4 h-4" />} onClick={() => handleExport('html')} disabled={!isReportReady}>Export HTML</Button>
+          <Button variant="secondary" size="sm" onClick={handlePrintReport} disabled={!isReportReady}>Print / Save as PDF</Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600 dark:text-slate-300">
+        <label className="flex items-center gap-2">
+          <ClockIcon className="w-5 h-5 text-hnai-teal-500" />
+          <span>Period:</span>
+          <select value={rangePreset} onChange={(e) => handleRangePresetChange(e.target.value)} className={selectClassName}>
+            {(Object.keys(DATE_RANGE_PRESET_LABELS) as DateRangePreset[]).map(preset => (
+              <option key={preset} value={preset}>{DATE_RANGE_PRESET_LABELS[preset]}</option>
+            ))}
+            <option value={CUSTOM_RANGE}>Custom...</option>
+          </select>
+        </label>
+        {rangePreset === CUSTOM_RANGE ? (
+          <div className="flex items-center gap-2">
+            <input type="date" value={toDateInputValue(customRange.start)} max={toDateInputValue(customRange.end)} onChange={(e) => handleCustomDateChange('start', e.target.value)} className={selectClassName} aria-label="Period start" />
+            <span>to</span>
+            <input type="date" value={toDateInputValue(customRange.end)} min={toDateInputValue(customRange.start)} onChange={(e) => handleCustomDateChange('end', e.target.value)} className={selectClassName} aria-label="Period end" />
+          </div>
+        ) : (
+          <span className="text-slate-500 dark:text-slate-400">{formatRangeLabel(range)}</span>
+        )}
+        {collections.length > 0 && (
+          <label className="flex items-center gap-2">
+            <FolderOpenIcon className="w-5 h-5 text-hnai-teal-500" />
+            <span>Scope:</span>
+            <select
+              value={scopeToValue(activeScope)}
+              onChange={(e) => setScope(valueToScope(e.target.value))}
+              className={selectClassName}
+            >
+              <option value="all">All documents</option>
+              <option value="unfiled">Unfiled</option>
+              {collectionNodes.map(({ collection, depth }) => (
+                <option key={collection.id} value={scopeToValue({ kind: 'collection', collectionId: collection.id })}>{`${'\u00a0\u00a0'.repeat(depth)}${collection.name}`}</option>
+              ))}
+            </select>
+          </label>
+        )}
       </div>
 
       {/* Stat Cards Grid */}
@@ -95,7 +239,44 @@ const AnalyticsReportView: React.FC<AnalyticsReportViewProps> = ({ documents })
         <StatCard title="Total Documents" value={analyticsData.totalDocuments} icon={<DocumentIcon className="w-7 h-7" />} />
         <StatCard title="Total Bookmarks" value={analyticsData.totalBookmarks} icon={<BookmarkIcon className="w-7 h-7" />} />
         <StatCard title="Unique Tags" value={analyticsData.uniqueTagsCount} icon={<TagIcon className="w-7 h-7" />} />
-        <StatCard title="Added This Week" value={analyticsData.recentlyAddedCount} icon={<ClockIcon className="w-7 h-7" />} description="Documents added in last 7 days"/>
+        <StatCard title="Added in Period" value={analyticsData.addedInRangeCount} icon={<ClockIcon className="w-7 h-7" />} description={`Documents added ${formatRangeLabel(range)}`}/>
+      </div>
+
+      {/* Activity Over Time */}
+      <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg">
+        <div className="flex items-center gap-2 mb-4">
+          <PresentationChartLineIcon className="w-6 h-6 text-hnai-teal-500" />
+          <h2 className="text-xl font-semibold text-slate-700 dark:text-slate-200">Activity Over Time</h2>
+        </div>
+        {activity ? (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Documents Added per Week</h3>
+              <TimeSeriesBarChart
+                buckets={activity.additions.map(({ start }) => start)}
+                series={[{ label: 'Added', colorClassName: 'bg-hnai-teal-500', values: activity.additions.map(({ documentsAdded }) => documentsAdded) }]}
+                describeBucket={index => `${formatBucketLabel(activity.additions[index].start, 'week')}: ${activity.additions[index].documentsAdded} added`}
+              />
+            </div>
+            <div>
+              <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Bookmarks and AI Usage</h3>
+              <TimeSeriesBarChart
+                buckets={activity.buckets.map(({ start }) => start)}
+                series={[
+                  { label: 'Bookmarks', colorClassName: 'bg-hnai-gold-500', values: activity.buckets.map(({ bookmarks }) => bookmarks) },
+                  { label: 'AI questions', colorClassName: 'bg-hnai-teal-600', values: activity.buckets.map(({ aiQuestions }) => aiQuestions) },
+                  { label: 'AI summaries and FAQs', colorClassName: 'bg-indigo-500', values: activity.buckets.map(({ aiGenerations }) => aiGenerations) },
+                ]}
+                describeBucket={index => {
+                  const { start, bookmarks, aiQuestions, aiGenerations } = activity.buckets[index];
+                  return `${formatBucketLabel(start, activity.bucketSize)}: ${bookmarks} bookmarked, ${aiQuestions} AI question${aiQuestions === 1 ? '' : 's'}, ${aiGenerations} summaries and FAQs`;
+                }}
+              />
+            </div>
+          </div>
+        ) : (
+          <p className="text-slate-500 dark:text-slate-400">Loading activity...</p>
+        )}
       </div>
 
       {/* Document Overview & Activity */}
@@ -130,9 +311,9 @@ const AnalyticsReportView: React.FC<AnalyticsReportViewProps> = ({ documents })
         {/* Popular Tags */}
         <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg">
           <h2 className="text-xl font-semibold text-slate-700 dark:text-slate-200 mb-4">Top 5 Popular Tags</h2>
-          {analyticsData.popularTags.length > 0 ? (
+          {popularTags.length > 0 ? (
             <ul className="space-y-2">
-              {analyticsData.popularTags.map(({ tag, count }) => (
+              {popularTags.map(({ tag, count }) => (
                 <li key={tag} className="flex justify-between items-center text-sm">
                   <span className="bg-hnai-teal-100 dark:bg-hnai-teal-800 text-hnai-teal-700 dark:text-hnai-teal-200 px-2 py-0.5 rounded-full text-xs font-medium">{tag}</span>
                   <span className="font-semibold text-slate-600 dark:text-slate-300">{count} uses</span>
@@ -145,6 +326,30 @@ const AnalyticsReportView: React.FC<AnalyticsReportViewProps> = ({ documents })
         </div>
       </div>
       
+      {/* Collections */}
+      {collectionBreakdown.rows.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg">
+          <h2 className="text-xl font-semibold text-slate-700 dark:text-slate-200 mb-4">Documents by Collection</h2>
+          <ul className="space-y-2">
+            {collectionBreakdown.rows.map(({ node, count, depth }) => (
+              <li key={node.collection.id} className="flex justify-between items-center text-sm" style={{ paddingLeft: depth * 16 }}>
+                <button onClick={() => setScope({ kind: 'collection', collectionId: node.collection.id })} className="flex items-center gap-1.5 text-slate-700 dark:text-slate-200 hover:text-hnai-teal-600 truncate">
+                  <FolderOpenIcon className="w-4 h-4 flex-shrink-0 text-hnai-teal-500" />
+                  <span className="truncate">{node.collection.name}</span>
+                </button>
+                <span className="font-semibold text-slate-600 dark:text-slate-300">{count} document{count === 1 ? '' : 's'}</span>
+              </li>
+            ))}
+            {collectionBreakdown.unfiled !== null && (
+              <li className="flex justify-between items-center text-sm border-t dark:border-slate-700 pt-2">
+                <button onClick={() => setScope({ kind: 'unfiled' })} className="text-slate-500 dark:text-slate-400 hover:text-hnai-teal-600">Unfiled</button>
+                <span className="font-semibold text-slate-600 dark:text-slate-300">{collectionBreakdown.unfiled} document{collectionBreakdown.unfiled === 1 ? '' : 's'}</span>
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+
       {/* Recent Activity Section */}
        <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg">
         <h2 className="text-xl font-semibold text-slate-700 dark:text-slate-200 mb-4">Recently Added Documents</h2>
@@ -175,19 +380,9 @@ const AnalyticsReportView: React.FC<AnalyticsReportViewProps> = ({ documents })
       </div>
 
 
-      {/* Placeholders for Future Analytics */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg flex flex-col items-center text-center">
-          <SparklesIcon className="w-12 h-12 text-hnai-gold-500 mb-3" />
-          <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-200 mb-1">Search Query Insights</h3>
-          <p className="text-sm text-slate-500 dark:text-slate-400">Top searches, zero-result queries, AI interaction analysis. (Coming Soon)</p>
-        </div>
-        <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg flex flex-col items-center text-center">
-          <CogIcon className="w-12 h-12 text-hnai-gold-500 mb-3" />
-          <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-200 mb-1">User Engagement Metrics</h3>
-          <p className="text-sm text-slate-500 dark:text-slate-400">Document views, contribution patterns, content lifecycle. (Coming Soon)</p>
-        </div>
-      </div>
+      <SearchInsightsPanel insights={searchInsights} />
+
+      <EngagementMetricsPanel insights={engagementInsights} onOpenDocument={onOpenDocument} />
     </div>
   );
 };
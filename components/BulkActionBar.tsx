@@ -0,0 +1,290 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Document } from '../types';
+import Button from './common/Button';
+import { isAIServiceAvailable } from '../services/aiService';
+import { EnrichmentKind, generateDocumentFaqs, generateDocumentSummary, hasEnrichment } from '../services/enrichmentService';
+import { dedupeTags, planTagAddition, planTagReplacement } from '../services/tagService';
+import { TagIcon, TrashIcon, HeartIconSolid, HeartIconOutline, ArrowDownTrayIcon, SparklesIcon, XMarkIcon } from '../constants';
+
+export interface DocumentBulkActions {
+  editDocuments: (docs: Document[]) => Promise<void>; // Content changes such as tags; records a revision for each
+  updateDocuments: (docs: Document[]) => Promise<void>; // Bookmarks and AI output; no revision
+  deleteDocuments: (documentIds: string[]) => Promise<void>;
+  exportDocuments: (documentIds: string[]) => Promise<void>;
+}
+
+interface BulkActionBarProps {
+  documents: Document[];
+  selectedIds: Set<string>;
+  filteredCount: number;
+  availableTags: string[];
+  onSelectAllFiltered: () => void;
+  onClearSelection: () => void;
+  onClose: () => void;
+  actions: DocumentBulkActions;
+}
+
+type Panel = 'add-tags' | 'remove-tags' | 'enrich' | null;
+
+interface EnrichmentRun {
+  total: number;
+  processed: number;
+  currentName: string;
+  enriched: number;
+  skipped: number; // No full content, or already enriched
+  failures: string[];
+  isRunning: boolean;
+  wasCancelled: boolean;
+}
+
+const ENRICHMENT_LABELS: Record<EnrichmentKind, string> = {
+  summary: 'Summary',
+  faqs: 'FAQs',
+};
+
+const inputClassName = "p-2 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none";
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({ documents, selectedIds, filteredCount, availableTags, onSelectAllFiltered, onClearSelection, onClose, actions }) => {
+  const [panel, setPanel] = useState<Panel>(null);
+  const [tagsToAdd, setTagsToAdd] = useState('');
+  const [tagsToRemove, setTagsToRemove] = useState<Set<string>>(new Set());
+  const [enrichmentKinds, setEnrichmentKinds] = useState<Set<EnrichmentKind>>(new Set(['summary', 'faqs']));
+  const [skipEnriched, setSkipEnriched] = useState(true);
+  const [enrichmentRun, setEnrichmentRun] = useState<EnrichmentRun | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  // A long enrichment run must see edits made while it runs, and stop if the bar goes away.
+  const documentsRef = useRef(documents);
+  documentsRef.current = documents;
+  const cancelRef = useRef(false);
+  useEffect(() => () => { cancelRef.current = true; }, []);
+
+  const selectedDocuments = useMemo(() => documents.filter(doc => selectedIds.has(doc.id)), [documents, selectedIds]);
+  const count = selectedDocuments.length;
+  const selectedTagCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    selectedDocuments.forEach(doc => dedupeTags(doc.tags).forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+    return [...counts.entries()].sort(([a], [b]) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
+  }, [selectedDocuments]);
+  const isEnriching = enrichmentRun?.isRunning ?? false;
+  const isBusy = isWorking || isEnriching;
+
+  const runAction = async (action: () => Promise<void>, failureMessage: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (error) {
+      alert(`${failureMessage} ${error instanceof Error ? error.message : ''}`.trim());
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const togglePanel = (next: Panel) => setPanel(current => current === next ? null : next);
+
+  const handleAddTags = () => {
+    const tags = dedupeTags(tagsToAdd.split(','));
+    if (tags.length === 0) return;
+    const changed = planTagAddition(selectedDocuments, tags);
+    runAction(async () => {
+      if (changed.length > 0) await actions.editDocuments(changed);
+      setTagsToAdd('');
+      setPanel(null);
+    }, "Could not add the tags.");
+  };
+
+  const handleRemoveTags = () => {
+    const changed = planTagReplacement(selectedDocuments, [...tagsToRemove], null);
+    runAction(async () => {
+      if (changed.length > 0) await actions.editDocuments(changed);
+      setTagsToRemove(new Set());
+      setPanel(null);
+    }, "Could not remove the tags.");
+  };
+
+  const handleSetFavorite = (isFavorite: boolean) => {
+    const changed = selectedDocuments.filter(doc => doc.isFavorite !== isFavorite).map(doc => ({ ...doc, isFavorite }));
+    if (changed.length === 0) return;
+    runAction(() => actions.updateDocuments(changed), "Could not update the bookmarks.");
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete ${pluralize(count, 'document')}? This also deletes their revision history and cannot be undone.`)) return;
+    runAction(async () => {
+      await actions.deleteDocuments(selectedDocuments.map(doc => doc.id));
+      onClearSelection();
+    }, "Could not delete the documents.");
+  };
+
+  const handleEnrich = async () => {
+    const kinds = (Object.keys(ENRICHMENT_LABELS) as EnrichmentKind[]).filter(kind => enrichmentKinds.has(kind));
+    if (kinds.length === 0) return;
+    const documentIds = selectedDocuments.map(doc => doc.id);
+    const run: EnrichmentRun = { total: documentIds.length, processed: 0, currentName: '', enriched: 0, skipped: 0, failures: [], isRunning: true, wasCancelled: false };
+    const publish = () => setEnrichmentRun({ ...run, failures: [...run.failures] });
+    cancelRef.current = false;
+    setPanel(null);
+    publish();
+
+    // One document at a time, so a large selection doesn't flood the AI provider.
+    for (const documentId of documentIds) {
+      if (cancelRef.current) {
+        run.wasCancelled = true;
+        break;
+      }
+      const doc = documentsRef.current.find(d => d.id === documentId);
+      const pending = doc ? kinds.filter(kind => !(skipEnriched && hasEnrichment(doc, kind))) : [];
+      if (!doc || !doc.fullContent || pending.length === 0) {
+        run.skipped++;
+      } else {
+        run.currentName = doc.name;
+        publish();
+        try {
+          const changes: Partial<Document> = {};
+          if (pending.includes('summary')) changes.generatedSummary = await generateDocumentSummary(doc);
+          if (pending.includes('faqs')) changes.generatedFaqs = await generateDocumentFaqs(doc);
+          const latest = documentsRef.current.find(d => d.id === documentId);
+          if (latest) {
+            await actions.updateDocuments([{ ...latest, ...changes }]);
+            run.enriched++;
+          }
+        } catch (error) {
+          run.failures.push(`${doc.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+      run.processed++;
+      publish();
+    }
+    run.isRunning = false;
+    run.currentName = '';
+    publish();
+  };
+
+  const progressPercent = enrichmentRun && enrichmentRun.total > 0 ? Math.round((enrichmentRun.processed / enrichmentRun.total) * 100) : 0;
+
+  return (
+    <div className="p-3 bg-hnai-teal-50 dark:bg-hnai-teal-900/40 border border-hnai-teal-200 dark:border-hnai-teal-700 rounded-lg shadow space-y-3" role="region" aria-label="Bulk actions">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-semibold text-hnai-teal-800 dark:text-hnai-teal-100 mr-2" aria-live="polite">{count} selected</span>
+        {count < filteredCount && (
+          <Button variant="ghost" size="sm" onClick={onSelectAllFiltered} disabled={isBusy}>Select all {filteredCount}</Button>
+        )}
+        {count > 0 && <Button variant="ghost" size="sm" onClick={onClearSelection} disabled={isBusy}>Clear</Button>}
+        <div className="flex flex-wrap items-center gap-2 ml-auto">
+          <Button variant="secondary" size="sm" leftIcon={<TagIcon className="w-4 h-4" />} onClick={() => togglePanel('add-tags')} disabled={count === 0 || isBusy}>Add tags</Button>
+          <Button variant="secondary" size="sm" leftIcon={<TagIcon className="w-4 h-4" />} onClick={() => togglePanel('remove-tags')} disabled={count === 0 || isBusy || selectedTagCounts.length === 0}>Remove tags</Button>
+          <Button variant="secondary" size="sm" leftIcon={<HeartIconSolid className="w-4 h-4" />} onClick={() => handleSetFavorite(true)} disabled={count === 0 || isBusy}>Bookmark</Button>
+          <Button variant="secondary" size="sm" leftIcon={<HeartIconOutline className="w-4 h-4" />} onClick={() => handleSetFavorite(false)} disabled={count === 0 || isBusy}>Unbookmark</Button>
+          <Button variant="secondary" size="sm" leftIcon={<ArrowDownTrayIcon className="w-4 h-4" />} onClick={() => runAction(() => actions.exportDocuments(selectedDocuments.map(doc => doc.id)), "Could not export the documents.")} disabled={count === 0 || isBusy}>Export</Button>
+          {isAIServiceAvailable() && (
+            <Button variant="secondary" size="sm" leftIcon={<SparklesIcon className="w-4 h-4" />} onClick={() => togglePanel('enrich')} disabled={count === 0 || isBusy}>AI enrich</Button>
+          )}
+          <Button variant="danger" size="sm" leftIcon={<TrashIcon className="w-4 h-4" />} onClick={handleDelete} disabled={count === 0 || isBusy}>Delete</Button>
+          <button onClick={onClose} disabled={isEnriching} className="p-1 text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200" aria-label="Exit selection mode" title="Done">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {panel === 'add-tags' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            autoFocus
+            value={tagsToAdd}
+            onChange={(e) => setTagsToAdd(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAddTags(); }}
+            list="bulk-add-tags"
+            placeholder="Tags to add, comma-separated"
+            className={`${inputClassName} flex-grow min-w-[12rem]`}
+            aria-label="Tags to add"
+          />
+          <datalist id="bulk-add-tags">
+            {availableTags.map(tag => <option key={tag} value={tag} />)}
+          </datalist>
+          <Button size="sm" onClick={handleAddTags} disabled={!tagsToAdd.trim() || isBusy}>Add to {pluralize(count, 'document')}</Button>
+        </div>
+      )}
+
+      {panel === 'remove-tags' && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {selectedTagCounts.map(([tag, tagCount]) => (
+              <label key={tag} className={`inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-semibold rounded-full cursor-pointer ${tagsToRemove.has(tag) ? 'bg-red-100 dark:bg-red-900/50 text-red-700 dark:text-red-200 line-through' : 'bg-hnai-teal-100 dark:bg-hnai-teal-800 text-hnai-teal-700 dark:text-hnai-teal-200'}`}>
+                <input
+                  type="checkbox"
+                  className="sr-only"
+                  checked={tagsToRemove.has(tag)}
+                  onChange={() => setTagsToRemove(prev => {
+                    const next = new Set(prev);
+                    if (next.has(tag)) next.delete(tag); else next.add(tag);
+                    return next;
+                  })}
+                />
+                {tag} <span className="font-normal opacity-75">({tagCount})</span>
+              </label>
+            ))}
+          </div>
+          <Button size="sm" variant="danger" onClick={handleRemoveTags} disabled={tagsToRemove.size === 0 || isBusy}>
+            Remove {pluralize(tagsToRemove.size, 'tag')}
+          </Button>
+        </div>
+      )}
+
+      {panel === 'enrich' && (
+        <div className="flex flex-wrap items-center gap-4 text-sm text-slate-700 dark:text-slate-300">
+          <span>Generate:</span>
+          {(Object.keys(ENRICHMENT_LABELS) as EnrichmentKind[]).map(kind => (
+            <label key={kind} className="flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={enrichmentKinds.has(kind)}
+                onChange={() => setEnrichmentKinds(prev => {
+                  const next = new Set(prev);
+                  if (next.has(kind)) next.delete(kind); else next.add(kind);
+                  return next;
+                })}
+                className="rounded text-hnai-teal-600 focus:ring-hnai-teal-500"
+              />
+              {ENRICHMENT_LABELS[kind]}
+            </label>
+          ))}
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input type="checkbox" checked={skipEnriched} onChange={() => setSkipEnriched(!skipEnriched)} className="rounded text-hnai-teal-600 focus:ring-hnai-teal-500" />
+            Skip documents that already have them
+          </label>
+          <Button size="sm" onClick={handleEnrich} disabled={enrichmentKinds.size === 0 || isBusy}>Run on {pluralize(count, 'document')}</Button>
+          <span className="w-full text-xs text-slate-500 dark:text-slate-400">Documents without full content are skipped.</span>
+        </div>
+      )}
+
+      {enrichmentRun && (
+        <div className="space-y-1" role="status" aria-live="polite">
+          <div className="flex justify-between text-xs text-slate-600 dark:text-slate-300">
+            <span>
+              {enrichmentRun.isRunning
+                ? `Enriching ${enrichmentRun.processed + 1} of ${enrichmentRun.total}${enrichmentRun.currentName ? `: ${enrichmentRun.currentName}` : ''}`
+                : `${enrichmentRun.wasCancelled ? 'Stopped' : 'Done'}: ${enrichmentRun.enriched} enriched, ${enrichmentRun.skipped} skipped, ${enrichmentRun.failures.length} failed.`}
+            </span>
+            <span>{progressPercent}%</span>
+          </div>
+          <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2">
+            <div className="bg-hnai-teal-500 h-2 rounded-full transition-all duration-200" style={{ width: `${progressPercent}%` }} />
+          </div>
+          <div className="flex items-center gap-2">
+            {enrichmentRun.isRunning
+              ? <Button variant="ghost" size="sm" onClick={() => { cancelRef.current = true; }}>Stop after this document</Button>
+              : <Button variant="ghost" size="sm" onClick={() => setEnrichmentRun(null)}>Dismiss</Button>}
+          </div>
+          {enrichmentRun.failures.length > 0 && (
+            <ul className="text-xs text-red-700 dark:text-red-300 list-disc pl-5">
+              {enrichmentRun.failures.map((failure, index) => <li key={index}>{failure}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
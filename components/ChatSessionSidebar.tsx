@@ -0,0 +1,128 @@
+import React, { useState, useMemo } from 'react';
+import { ChatSession } from '../types';
+import Button from './common/Button';
+import { filterChatSessions, sortChatSessions } from '../services/chatSessionService';
+import { PlusCircleIcon, PencilSquareIcon, TrashIcon, StarIcon } from '../constants';
+
+interface ChatSessionSidebarProps {
+  sessions: ChatSession[];
+  activeSessionId: string | null;
+  onSelect: (sessionId: string) => void;
+  onCreate: () => void;
+  onRename: (sessionId: string, title: string) => void;
+  onTogglePin: (sessionId: string) => void;
+  onDelete: (sessionId: string) => void;
+  disabled?: boolean; // While an answer is streaming
+}
+
+const ChatSessionSidebar: React.FC<ChatSessionSidebarProps> = ({
+  sessions,
+  activeSessionId,
+  onSelect,
+  onCreate,
+  onRename,
+  onTogglePin,
+  onDelete,
+  disabled = false,
+}) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [renamingSessionId, setRenamingSessionId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+
+  const visibleSessions = useMemo(
+    () => sortChatSessions(filterChatSessions(sessions, searchTerm)),
+    [sessions, searchTerm]
+  );
+
+  const startRename = (session: ChatSession) => {
+    setRenamingSessionId(session.id);
+    setRenameDraft(session.title);
+  };
+
+  const commitRename = () => {
+    if (renamingSessionId && renameDraft.trim()) {
+      onRename(renamingSessionId, renameDraft.trim());
+    }
+    setRenamingSessionId(null);
+  };
+
+  const handleDelete = (session: ChatSession) => {
+    if (window.confirm(`Delete the chat "${session.title}"? This cannot be undone.`)) {
+      onDelete(session.id);
+    }
+  };
+
+  return (
+    <aside className="w-full md:w-64 flex-shrink-0 flex flex-col bg-white dark:bg-slate-800 rounded-lg shadow p-3 min-h-0" aria-label="Chat sessions">
+      <Button onClick={onCreate} disabled={disabled} size="sm" leftIcon={<PlusCircleIcon className="w-4 h-4" />} className="w-full mb-3">
+        New Chat
+      </Button>
+      <input
+        type="search"
+        value={searchTerm}
+        onChange={(e) => setSearchTerm(e.target.value)}
+        placeholder="Search chats..."
+        className="w-full p-2 mb-3 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none"
+        aria-label="Search chats"
+      />
+      <ul className="flex-grow overflow-y-auto space-y-1 max-h-48 md:max-h-none">
+        {visibleSessions.length === 0 && (
+          <li className="text-xs text-center text-slate-500 dark:text-slate-400 py-4">
+            {searchTerm.trim() ? 'No chats match your search.' : 'No saved chats yet.'}
+          </li>
+        )}
+        {visibleSessions.map(session => (
+          <li
+            key={session.id}
+            className={`group rounded-md ${session.id === activeSessionId ? 'bg-hnai-teal-50 dark:bg-hnai-teal-900/40' : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'}`}
+          >
+            {renamingSessionId === session.id ? (
+              <input
+                autoFocus
+                value={renameDraft}
+                onChange={(e) => setRenameDraft(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setRenamingSessionId(null);
+                }}
+                className="w-full p-2 text-sm border border-hnai-teal-500 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 outline-none"
+                aria-label="Chat name"
+              />
+            ) : (
+              <div className="flex items-center">
+                <button
+                  onClick={() => onSelect(session.id)}
+                  disabled={disabled}
+                  className="flex-grow min-w-0 text-left p-2 disabled:cursor-not-allowed"
+                  title={session.title}
+                >
+                  <span className="flex items-center gap-1 text-sm font-medium text-slate-800 dark:text-slate-100">
+                    {session.isPinned && <StarIcon className="w-3.5 h-3.5 flex-shrink-0 fill-current text-hnai-gold-500" />}
+                    <span className="truncate">{session.title}</span>
+                  </span>
+                  <span className="block text-xs text-slate-500 dark:text-slate-400">
+                    {session.updatedAt.toLocaleDateString()} &middot; {session.messages.length} messages
+                  </span>
+                </button>
+                <div className="flex flex-shrink-0 pr-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                  <button onClick={() => onTogglePin(session.id)} className="p-1 text-slate-400 hover:text-hnai-gold-500" aria-label={session.isPinned ? 'Unpin chat' : 'Pin chat'} title={session.isPinned ? 'Unpin' : 'Pin'}>
+                    <StarIcon className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => startRename(session)} className="p-1 text-slate-400 hover:text-hnai-teal-600" aria-label="Rename chat" title="Rename">
+                    <PencilSquareIcon className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(session)} disabled={disabled && session.id === activeSessionId} className="p-1 text-slate-400 hover:text-red-600 disabled:opacity-40" aria-label="Delete chat" title="Delete">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default ChatSessionSidebar;
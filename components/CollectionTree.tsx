@@ -0,0 +1,232 @@
+import React, { useState, useMemo } from 'react';
+import { Collection, Document } from '../types';
+import { buildCollectionTree, canMoveCollection, countDocumentsByCollection, CollectionScope, CollectionTreeNode } from '../services/collectionService';
+import { FolderOpenIcon, PlusCircleIcon, PencilSquareIcon, TrashIcon } from '../constants';
+
+// Drag payload types, so a drop target can tell a dragged document from a dragged collection.
+export const DOCUMENT_DRAG_TYPE = 'application/x-hnai-document';
+const COLLECTION_DRAG_TYPE = 'application/x-hnai-collection';
+
+export interface CollectionActions {
+  create: (name: string, parentId: string | null) => Promise<Collection>;
+  rename: (collectionId: string, name: string) => Promise<void>;
+  move: (collectionId: string, parentId: string | null) => Promise<void>;
+  remove: (collectionId: string) => Promise<void>;
+  moveDocument: (documentId: string, collectionId: string | null) => void;
+}
+
+interface CollectionTreeProps {
+  collections: Collection[];
+  documents: Document[];
+  scope: CollectionScope;
+  onScopeChange: (scope: CollectionScope) => void;
+  actions: CollectionActions;
+}
+
+type DropTarget = string | 'root' | 'unfiled';
+
+// Where the inline name input is open: a new collection under a parent, or renaming one.
+type Draft = { mode: 'create'; parentId: string | null } | { mode: 'rename'; collectionId: string };
+
+const CollectionTree: React.FC<CollectionTreeProps> = ({ collections, documents, scope, onScopeChange, actions }) => {
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const tree = useMemo(() => buildCollectionTree(collections), [collections]);
+  const counts = useMemo(() => countDocumentsByCollection(documents, collections), [documents, collections]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "The collection could not be updated.");
+    }
+  };
+
+  const startDraft = (next: Draft, initialName = '') => {
+    setDraft(next);
+    setDraftName(initialName);
+    if (next.mode === 'create' && next.parentId) {
+      setCollapsedIds(prev => { const ids = new Set(prev); ids.delete(next.parentId!); return ids; });
+    }
+  };
+
+  const commitDraft = async () => {
+    const current = draft;
+    setDraft(null);
+    if (!current || !draftName.trim()) return;
+    if (current.mode === 'create') {
+      await runAction(async () => {
+        const created = await actions.create(draftName, current.parentId);
+        onScopeChange({ kind: 'collection', collectionId: created.id });
+      });
+    } else {
+      await runAction(() => actions.rename(current.collectionId, draftName));
+    }
+  };
+
+  const handleDelete = (collection: Collection) => {
+    const parent = collections.find(c => c.id === collection.parentId);
+    const documentCount = counts.byCollection.get(collection.id) ?? 0;
+    const destination = parent ? `"${parent.name}"` : 'the top level';
+    if (!window.confirm(`Delete the collection "${collection.name}"? Its contents (${documentCount} document${documentCount === 1 ? '' : 's'} and any subcollections) move to ${destination}; no documents are deleted.`)) return;
+    if (scope.kind === 'collection' && scope.collectionId === collection.id) {
+      onScopeChange(parent ? { kind: 'collection', collectionId: parent.id } : { kind: 'all' });
+    }
+    runAction(() => actions.remove(collection.id));
+  };
+
+  const toggleCollapsed = (collectionId: string) => {
+    setCollapsedIds(prev => {
+      const ids = new Set(prev);
+      if (ids.has(collectionId)) ids.delete(collectionId); else ids.add(collectionId);
+      return ids;
+    });
+  };
+
+  const canDropOn = (event: React.DragEvent, target: DropTarget): boolean => {
+    const types = Array.from(event.dataTransfer.types);
+    if (types.includes(DOCUMENT_DRAG_TYPE)) return true;
+    // Collections can be dropped on another collection or on "All documents" (top level), not on "Unfiled".
+    return types.includes(COLLECTION_DRAG_TYPE) && target !== 'unfiled';
+  };
+
+  const dropHandlers = (target: DropTarget) => ({
+    onDragOver: (event: React.DragEvent) => {
+      if (!canDropOn(event, target)) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'move';
+      setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget(current => current === target ? null : current),
+    onDrop: (event: React.DragEvent) => {
+      event.preventDefault();
+      setDropTarget(null);
+      const collectionId = target === 'root' || target === 'unfiled' ? null : target;
+      const documentId = event.dataTransfer.getData(DOCUMENT_DRAG_TYPE);
+      if (documentId) {
+        actions.moveDocument(documentId, collectionId);
+        return;
+      }
+      const draggedCollectionId = event.dataTransfer.getData(COLLECTION_DRAG_TYPE);
+      if (!draggedCollectionId || draggedCollectionId === collectionId) return;
+      if (!canMoveCollection(draggedCollectionId, collectionId, collections)) {
+        alert("A collection can't be moved into itself or one of its own subcollections.");
+        return;
+      }
+      runAction(() => actions.move(draggedCollectionId, collectionId));
+    },
+  });
+
+  const rowClassName = (isActive: boolean, target: DropTarget) =>
+    `group flex items-center rounded-md text-sm ${dropTarget === target ? 'ring-2 ring-hnai-teal-500 bg-hnai-teal-50 dark:bg-hnai-teal-900/40' : isActive ? 'bg-hnai-teal-50 dark:bg-hnai-teal-900/40' : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'}`;
+
+  const renderDraftInput = (indent: number) => (
+    <input
+      autoFocus
+      value={draftName}
+      onChange={(e) => setDraftName(e.target.value)}
+      onBlur={commitDraft}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commitDraft();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+      placeholder="Collection name"
+      style={{ marginLeft: indent }}
+      className="w-full p-1.5 my-0.5 text-sm border border-hnai-teal-500 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 outline-none"
+      aria-label="Collection name"
+    />
+  );
+
+  const renderNode = (node: CollectionTreeNode): React.ReactNode => {
+    const { collection, children, depth } = node;
+    const isActive = scope.kind === 'collection' && scope.collectionId === collection.id;
+    const isCollapsed = collapsedIds.has(collection.id);
+    const indent = depth * 14;
+    return (
+      <li key={collection.id}>
+        {draft?.mode === 'rename' && draft.collectionId === collection.id ? renderDraftInput(indent) : (
+          <div
+            className={rowClassName(isActive, collection.id)}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData(COLLECTION_DRAG_TYPE, collection.id);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            {...dropHandlers(collection.id)}
+          >
+            <button
+              onClick={() => toggleCollapsed(collection.id)}
+              className={`w-5 flex-shrink-0 text-xs text-slate-400 ${children.length === 0 ? 'invisible' : ''}`}
+              style={{ marginLeft: indent }}
+              aria-label={isCollapsed ? `Expand ${collection.name}` : `Collapse ${collection.name}`}
+              aria-expanded={!isCollapsed}
+            >
+              {isCollapsed ? '▸' : '▾'}
+            </button>
+            <button
+              onClick={() => onScopeChange({ kind: 'collection', collectionId: collection.id })}
+              className="flex-grow min-w-0 flex items-center gap-1.5 py-1.5 text-left text-slate-700 dark:text-slate-200"
+              title={collection.name}
+            >
+              <FolderOpenIcon className="w-4 h-4 flex-shrink-0 text-hnai-teal-500" />
+              <span className="truncate">{collection.name}</span>
+              <span className="ml-auto pl-1 text-xs text-slate-400">{counts.byCollection.get(collection.id) ?? 0}</span>
+            </button>
+            <div className="flex flex-shrink-0 pr-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+              <button onClick={() => startDraft({ mode: 'create', parentId: collection.id })} className="p-1 text-slate-400 hover:text-hnai-teal-600" aria-label={`New collection in ${collection.name}`} title="New subcollection">
+                <PlusCircleIcon className="w-4 h-4" />
+              </button>
+              <button onClick={() => startDraft({ mode: 'rename', collectionId: collection.id }, collection.name)} className="p-1 text-slate-400 hover:text-hnai-teal-600" aria-label={`Rename ${collection.name}`} title="Rename">
+                <PencilSquareIcon className="w-4 h-4" />
+              </button>
+              <button onClick={() => handleDelete(collection)} className="p-1 text-slate-400 hover:text-red-600" aria-label={`Delete ${collection.name}`} title="Delete">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
+        {!isCollapsed && (children.length > 0 || (draft?.mode === 'create' && draft.parentId === collection.id)) && (
+          <ul>
+            {children.map(renderNode)}
+            {draft?.mode === 'create' && draft.parentId === collection.id && <li>{renderDraftInput((depth + 1) * 14 + 20)}</li>}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <aside className="w-full md:w-60 flex-shrink-0 bg-white dark:bg-slate-800 rounded-lg shadow p-3 self-start" aria-label="Collections">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wider">Collections</h3>
+        <button onClick={() => startDraft({ mode: 'create', parentId: null })} className="p-1 text-slate-400 hover:text-hnai-teal-600" aria-label="New collection" title="New collection">
+          <PlusCircleIcon className="w-5 h-5" />
+        </button>
+      </div>
+      <ul className="space-y-0.5 max-h-64 md:max-h-[calc(100vh-220px)] overflow-y-auto">
+        <li className={rowClassName(scope.kind === 'all', 'root')} {...dropHandlers('root')}>
+          <button onClick={() => onScopeChange({ kind: 'all' })} className="flex-grow flex items-center px-2 py-1.5 text-left text-slate-700 dark:text-slate-200">
+            All documents
+            <span className="ml-auto text-xs text-slate-400">{documents.length}</span>
+          </button>
+        </li>
+        <li className={rowClassName(scope.kind === 'unfiled', 'unfiled')} {...dropHandlers('unfiled')}>
+          <button onClick={() => onScopeChange({ kind: 'unfiled' })} className="flex-grow flex items-center px-2 py-1.5 text-left text-slate-700 dark:text-slate-200">
+            Unfiled
+            <span className="ml-auto text-xs text-slate-400">{counts.unfiled}</span>
+          </button>
+        </li>
+        {tree.map(renderNode)}
+        {draft?.mode === 'create' && draft.parentId === null && <li>{renderDraftInput(0)}</li>}
+      </ul>
+      {collections.length === 0 && draft === null && (
+        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">Create a collection, then drag documents onto it.</p>
+      )}
+    </aside>
+  );
+};
+
+export default CollectionTree;
@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChatSession, Document, TagSynonymGroup } from '../types';
+import { MagnifyingGlassIcon } from '../constants';
+import HighlightedText from './common/HighlightedText';
+import { loadChatSessions } from '../services/storageService';
+import { sortChatSessions } from '../services/chatSessionService';
+import { canonicalizeTag } from '../services/tagService';
+import { PaletteItem, PaletteItemKind, PaletteResult, loadRecentPaletteItemIds, recordRecentPaletteItem, searchPaletteItems } from '../services/commandPaletteService';
+
+/** A view or action App offers in the palette. */
+export interface PaletteCommand {
+  id: string;
+  kind: 'view' | 'action';
+  title: string;
+  run: () => void;
+}
+
+export interface CommandPaletteActions {
+  openDocument: (docId: string) => void;
+  openTag: (tag: string) => void; // Shows the Document Hub filtered to the tag
+  openChat: (sessionId: string) => void;
+  askAI: (question: string) => void;
+}
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  documents: Document[];
+  tagSynonyms: TagSynonymGroup[];
+  commands: PaletteCommand[];
+  actions: CommandPaletteActions;
+}
+
+const KIND_LABELS: Record<PaletteItemKind, string> = {
+  view: 'Go to',
+  action: 'Action',
+  document: 'Document',
+  tag: 'Tag',
+  chat: 'Chat',
+};
+
+const ASK_AI_ITEM_ID = 'action:ask-ai';
+const SEARCH_DELAY_MS = 100; // Items are searched once typing pauses this long, not on every keystroke
+
+interface PaletteRow extends PaletteResult {
+  section?: string; // Heading shown above the row when it starts a section
+}
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose, documents, tagSynonyms, commands, actions }) => {
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Chats live with the AI Query view, so they are read fresh each time the palette opens.
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setDebouncedQuery('');
+    setActiveIndex(0);
+    let isCancelled = false;
+    loadChatSessions()
+      .then(stored => { if (!isCancelled) setSessions(sortChatSessions(stored)); })
+      .catch(error => console.error("Error loading chat sessions for the command palette:", error));
+    return () => { isCancelled = true; };
+  }, [isOpen]);
+
+  // Every searchable item, with what choosing it does.
+  const entries = useMemo(() => {
+    const result = new Map<string, { item: PaletteItem; run: () => void }>();
+    commands.forEach(command => result.set(command.id, { item: { id: command.id, kind: command.kind, title: command.title }, run: command.run }));
+    documents.forEach(doc => result.set(`document:${doc.id}`, {
+      item: { id: `document:${doc.id}`, kind: 'document', title: doc.name, detail: [doc.type, ...doc.tags].join(' · '), document: doc },
+      run: () => actions.openDocument(doc.id),
+    }));
+    // Synonyms are listed once, under their group's canonical tag, as in the Document Hub's tag filter.
+    const tagCounts = new Map<string, { tag: string; count: number }>();
+    documents.forEach(doc => {
+      const docTags = new Map(doc.tags.map(tag => canonicalizeTag(tag, tagSynonyms)).map(tag => [tag.toLowerCase(), tag]));
+      docTags.forEach((tag, key) => {
+        const entry = tagCounts.get(key) ?? { tag, count: 0 };
+        entry.count++;
+        tagCounts.set(key, entry);
+      });
+    });
+    tagCounts.forEach(({ tag, count }, key) => result.set(`tag:${key}`, {
+      item: { id: `tag:${key}`, kind: 'tag', title: tag, detail: `${count} ${count === 1 ? 'document' : 'documents'}` },
+      run: () => actions.openTag(tag),
+    }));
+    sessions.forEach(session => result.set(`chat:${session.id}`, {
+      item: { id: `chat:${session.id}`, kind: 'chat', title: session.title, detail: `Updated ${new Date(session.updatedAt).toLocaleDateString()}` },
+      run: () => actions.openChat(session.id),
+    }));
+    return result;
+  }, [commands, documents, tagSynonyms, sessions, actions]);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedQuery(query), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [query]);
+
+  const rows = useMemo<PaletteRow[]>(() => {
+    const trimmed = debouncedQuery.trim();
+    if (!trimmed) {
+      // Recent items (those that still exist), then everywhere the palette can go.
+      const recent = loadRecentPaletteItemIds().map(id => entries.get(id)).filter((entry): entry is NonNullable<typeof entry> => !!entry);
+      const recentIds = new Set(recent.map(entry => entry.item.id));
+      return [
+        ...recent.map((entry, index) => ({ item: entry.item, score: 0, titleRanges: [], section: index === 0 ? 'Recent' : undefined })),
+        ...commands.filter(command => !recentIds.has(command.id)).map((command, index) => ({
+          item: entries.get(command.id)!.item, score: 0, titleRanges: [], section: index === 0 ? 'Views and actions' : undefined,
+        })),
+      ];
+    }
+    return [
+      ...searchPaletteItems([...entries.values()].map(entry => entry.item), trimmed, tagSynonyms),
+      { item: { id: ASK_AI_ITEM_ID, kind: 'action', title: `Ask AI about "${trimmed}"` }, score: 0, titleRanges: [] },
+    ];
+  }, [debouncedQuery, entries, commands, tagSynonyms]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [debouncedQuery]);
+
+  useEffect(() => {
+    listRef.current?.querySelector('[aria-selected="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  const runRow = (row: PaletteRow) => {
+    onClose();
+    if (row.item.id === ASK_AI_ITEM_ID) {
+      actions.askAI(debouncedQuery.trim());
+      return;
+    }
+    recordRecentPaletteItem(row.item.id);
+    entries.get(row.item.id)?.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex(index => rows.length === 0 ? 0 : (index + 1) % rows.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(index => rows.length === 0 ? 0 : (index - 1 + rows.length) % rows.length);
+        break;
+      case 'Home':
+      case 'End':
+        if (!e.ctrlKey) break; // Plain Home/End move the caret in the input
+        e.preventDefault();
+        setActiveIndex(e.key === 'Home' ? 0 : Math.max(rows.length - 1, 0));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (rows[activeIndex]) runRow(rows[activeIndex]);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black bg-opacity-50 backdrop-blur-sm p-4 pt-[12vh]" onMouseDown={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-xl w-full flex flex-col max-h-[70vh]"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-4 border-b border-slate-200 dark:border-slate-700">
+          <MagnifyingGlassIcon className="w-5 h-5 text-slate-400" />
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search documents, tags, chats and views, or ask AI..."
+            className="flex-grow py-3 bg-transparent text-slate-900 dark:text-slate-100 placeholder-slate-400 outline-none"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="command-palette-results"
+            aria-activedescendant={rows[activeIndex] ? `command-palette-option-${activeIndex}` : undefined}
+            aria-autocomplete="list"
+          />
+        </div>
+        <ul ref={listRef} id="command-palette-results" role="listbox" className="overflow-y-auto py-2">
+          {rows.map((row, index) => (
+            <React.Fragment key={row.item.id}>
+              {row.section && (
+                <li role="presentation" className="px-4 pt-2 pb-1 text-xs font-semibold uppercase text-slate-500 dark:text-slate-400">{row.section}</li>
+              )}
+              <li
+                id={`command-palette-option-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseMove={() => setActiveIndex(index)}
+                onClick={() => runRow(row)}
+                className={`mx-2 px-3 py-2 rounded-md flex items-center gap-3 cursor-pointer ${index === activeIndex ? 'bg-hnai-teal-50 dark:bg-hnai-teal-900/50' : ''}`}
+              >
+                <span className="w-20 shrink-0 text-xs text-slate-500 dark:text-slate-400">{KIND_LABELS[row.item.kind]}</span>
+                <span className="min-w-0 flex-grow">
+                  <span className="block truncate text-sm font-medium text-slate-800 dark:text-slate-100">
+                    <HighlightedText text={row.item.title} ranges={row.titleRanges} />
+                  </span>
+                  {row.item.detail && <span className="block truncate text-xs text-slate-500 dark:text-slate-400">{row.item.detail}</span>}
+                </span>
+              </li>
+            </React.Fragment>
+          ))}
+          {rows.length === 0 && (
+            <li role="presentation" className="px-4 py-6 text-center text-sm text-slate-500 dark:text-slate-400">Nothing here yet.</li>
+          )}
+        </ul>
+        <div className="px-4 py-2 border-t border-slate-200 dark:border-slate-700 text-xs text-slate-500 dark:text-slate-400">
+          ↑↓ to move · Enter to open · Esc to close · "tag:" and "type:" work as in the Document Hub search
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,321 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Document } from '../types';
+import Button from './common/Button';
+import { ShareIcon } from '../constants';
+import { RELATION_LABELS, RELATION_TYPES, RelationKind, NodePosition, buildRelationshipGraph, detectMentions, layoutGraph } from '../services/relationshipService';
+
+interface DocumentGraphViewProps {
+  documents: Document[];
+  focusDocumentId: string | null; // Document the graph is centered on; null shows every linked document
+  onFocusChange: (documentId: string | null) => void;
+  onOpenDocument: (documentId: string) => void;
+}
+
+const WIDTH = 900;
+const HEIGHT = 600;
+const MAX_NODES = 60;
+const MIN_ZOOM = 0.3;
+const MAX_ZOOM = 3;
+const CLICK_TOLERANCE = 4; // Pixels a pointer may move before a click becomes a drag
+const DOUBLE_CLICK_MS = 350;
+const ALL_KINDS: RelationKind[] = [...RELATION_TYPES, 'mentions'];
+
+const EDGE_COLORS: Record<RelationKind, string> = {
+  references: '#0d9488',
+  supersedes: '#d97706',
+  'related-to': '#7c3aed',
+  mentions: '#94a3b8',
+};
+
+// Nearer documents are drawn darker and larger.
+const NODE_STYLES = [
+  { radius: 13, fill: '#0f766e' },
+  { radius: 9, fill: '#14b8a6' },
+  { radius: 7, fill: '#5eead4' },
+  { radius: 6, fill: '#99f6e4' },
+];
+
+const truncateLabel = (name: string) => name.length > 28 ? `${name.slice(0, 27)}…` : name;
+
+type DragState =
+  | { mode: 'pan'; startX: number; startY: number; originX: number; originY: number; moved: boolean }
+  | { mode: 'node'; nodeId: string; startX: number; startY: number; moved: boolean };
+
+const DocumentGraphView: React.FC<DocumentGraphViewProps> = ({ documents, focusDocumentId: focusId, onFocusChange, onOpenDocument }) => {
+  const [depth, setDepth] = useState(2);
+  const [visibleKinds, setVisibleKinds] = useState<Set<RelationKind>>(new Set(ALL_KINDS));
+  const [transform, setTransform] = useState({ x: 0, y: 0, scale: 1 });
+  const [draggedPositions, setDraggedPositions] = useState<Map<string, NodePosition>>(new Map());
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const lastClickRef = useRef<{ nodeId: string; time: number } | null>(null);
+
+  const sortedDocuments = useMemo(() => [...documents].sort((a, b) => a.name.localeCompare(b.name)), [documents]);
+  const mentions = useMemo(() => detectMentions(documents), [documents]);
+  const graph = useMemo(
+    () => buildRelationshipGraph(documents, mentions, { focusId, depth, kinds: visibleKinds, maxNodes: MAX_NODES }),
+    [documents, mentions, focusId, depth, visibleKinds]
+  );
+  const layout = useMemo(() => layoutGraph(graph, WIDTH, HEIGHT, focusId), [graph, focusId]);
+
+  // A new graph gets a fresh layout, so manual placement and panning start over.
+  useEffect(() => {
+    setDraggedPositions(new Map());
+    setTransform({ x: 0, y: 0, scale: 1 });
+  }, [layout]);
+
+  const positionOf = (id: string): NodePosition => draggedPositions.get(id) ?? layout.get(id) ?? { x: WIDTH / 2, y: HEIGHT / 2 };
+  const focusDocument = focusId ? documents.find(doc => doc.id === focusId) ?? null : null;
+  const hoveredNeighbours = useMemo(() => {
+    if (!hoveredId) return null;
+    const ids = new Set([hoveredId]);
+    graph.edges.forEach(edge => {
+      if (edge.sourceId === hoveredId) ids.add(edge.targetId);
+      if (edge.targetId === hoveredId) ids.add(edge.sourceId);
+    });
+    return ids;
+  }, [hoveredId, graph]);
+
+  // Client coordinates → coordinates in the (panned and zoomed) graph.
+  const toGraphPoint = (clientX: number, clientY: number): NodePosition => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const svgX = (clientX - rect.left) * (WIDTH / rect.width);
+    const svgY = (clientY - rect.top) * (HEIGHT / rect.height);
+    return { x: (svgX - transform.x) / transform.scale, y: (svgY - transform.y) / transform.scale };
+  };
+
+  const handleBackgroundPointerDown = (e: React.PointerEvent) => {
+    dragRef.current = { mode: 'pan', startX: e.clientX, startY: e.clientY, originX: transform.x, originY: transform.y, moved: false };
+    svgRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handleNodePointerDown = (e: React.PointerEvent, nodeId: string) => {
+    e.stopPropagation();
+    dragRef.current = { mode: 'node', nodeId, startX: e.clientX, startY: e.clientY, moved: false };
+    svgRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (!drag.moved && Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) < CLICK_TOLERANCE) return;
+    drag.moved = true;
+    if (drag.mode === 'pan') {
+      const rect = svgRef.current!.getBoundingClientRect();
+      setTransform(prev => ({
+        ...prev,
+        x: drag.originX + (e.clientX - drag.startX) * (WIDTH / rect.width),
+        y: drag.originY + (e.clientY - drag.startY) * (HEIGHT / rect.height),
+      }));
+    } else {
+      const point = toGraphPoint(e.clientX, e.clientY);
+      setDraggedPositions(prev => new Map(prev).set(drag.nodeId, point));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    svgRef.current?.releasePointerCapture(e.pointerId);
+    if (drag?.mode !== 'node' || drag.moved) return;
+    // Handled here rather than with click events, which the pointer capture retargets to the svg.
+    // A click on a document explores around it; a double click opens it.
+    const lastClick = lastClickRef.current;
+    if (lastClick && lastClick.nodeId === drag.nodeId && e.timeStamp - lastClick.time < DOUBLE_CLICK_MS) {
+      lastClickRef.current = null;
+      onOpenDocument(drag.nodeId);
+    } else {
+      lastClickRef.current = { nodeId: drag.nodeId, time: e.timeStamp };
+      onFocusChange(drag.nodeId);
+    }
+  };
+
+  // Zooming with the wheel must not also scroll the page, and React's wheel listeners are passive,
+  // so preventDefault() only works from a native listener. The svg only exists while there are nodes.
+  const hasNodes = graph.nodes.length > 0;
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const svgX = (e.clientX - rect.left) * (WIDTH / rect.width);
+      const svgY = (e.clientY - rect.top) * (HEIGHT / rect.height);
+      setTransform(prev => {
+        const scale = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.scale * (e.deltaY < 0 ? 1.1 : 1 / 1.1)));
+        // Zoom around the pointer.
+        return { scale, x: svgX - ((svgX - prev.x) * scale) / prev.scale, y: svgY - ((svgY - prev.y) * scale) / prev.scale };
+      });
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [hasNodes]);
+
+  const toggleKind = (kind: RelationKind) => {
+    setVisibleKinds(prev => {
+      const next = new Set(prev);
+      if (next.has(kind)) next.delete(kind); else next.add(kind);
+      return next;
+    });
+  };
+
+  const focusRelationCounts = useMemo(() => {
+    if (!focusId) return null;
+    const counts = new Map<string, number>();
+    graph.edges.forEach(edge => {
+      if (edge.sourceId === focusId) counts.set(RELATION_LABELS[edge.kind].outgoing, (counts.get(RELATION_LABELS[edge.kind].outgoing) ?? 0) + 1);
+      if (edge.targetId === focusId) counts.set(RELATION_LABELS[edge.kind].incoming, (counts.get(RELATION_LABELS[edge.kind].incoming) ?? 0) + 1);
+    });
+    return [...counts];
+  }, [graph, focusId]);
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 space-y-6 bg-slate-50 dark:bg-slate-900/50 min-h-full">
+      <div className="flex items-center space-x-3">
+        <ShareIcon className="w-8 h-8 text-hnai-teal-600 dark:text-hnai-teal-400" />
+        <div>
+          <h1 className="text-3xl font-bold text-slate-800 dark:text-slate-100">Document Graph</h1>
+          <p className="text-sm text-slate-500 dark:text-slate-400">Click a document to explore around it; drag to rearrange or pan, scroll to zoom, double-click to open.</p>
+        </div>
+      </div>
+
+      <section className="bg-white dark:bg-slate-800 p-4 rounded-xl shadow-lg space-y-4">
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <label htmlFor="graph-focus" className="font-medium text-slate-700 dark:text-slate-300">Centered on</label>
+          <select
+            id="graph-focus"
+            value={focusId ?? ''}
+            onChange={(e) => onFocusChange(e.target.value || null)}
+            className="p-2 max-w-xs border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none"
+          >
+            <option value="">All linked documents</option>
+            {sortedDocuments.map(doc => <option key={doc.id} value={doc.id}>{doc.name}</option>)}
+          </select>
+          {focusId && (
+            <>
+              <label htmlFor="graph-depth" className="font-medium text-slate-700 dark:text-slate-300">Depth</label>
+              <select
+                id="graph-depth"
+                value={depth}
+                onChange={(e) => setDepth(Number(e.target.value))}
+                className="p-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none"
+              >
+                {[1, 2, 3].map(value => <option key={value} value={value}>{value} {value === 1 ? 'link' : 'links'} away</option>)}
+              </select>
+            </>
+          )}
+          <div className="flex flex-wrap items-center gap-3 ml-auto">
+            {ALL_KINDS.map(kind => (
+              <label key={kind} className="inline-flex items-center gap-1.5 text-slate-600 dark:text-slate-300 cursor-pointer">
+                <input type="checkbox" checked={visibleKinds.has(kind)} onChange={() => toggleKind(kind)} className="rounded text-hnai-teal-600 focus:ring-hnai-teal-500" />
+                <span className="inline-block w-4 border-t-2" style={{ borderColor: EDGE_COLORS[kind], borderStyle: kind === 'mentions' ? 'dashed' : 'solid' }} />
+                {RELATION_LABELS[kind].outgoing}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {!hasNodes ? (
+          <p className="py-16 text-center text-slate-500 dark:text-slate-400">
+            {documents.length === 0
+              ? "There are no documents yet."
+              : "No linked documents to show. Add relationships from a document's preview, or mention one document's name in another."}
+          </p>
+        ) : (
+          <div className="relative">
+            <svg
+              ref={svgRef}
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              className="w-full h-auto bg-slate-50 dark:bg-slate-900 rounded-lg touch-none select-none cursor-grab active:cursor-grabbing"
+              onPointerDown={handleBackgroundPointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              role="img"
+              aria-label={focusDocument ? `Documents linked to ${focusDocument.name}` : 'Linked documents'}
+            >
+              <defs>
+                {ALL_KINDS.filter(kind => kind !== 'related-to').map(kind => (
+                  <marker key={kind} id={`graph-arrow-${kind}`} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                    <path d="M 0 0 L 10 5 L 0 10 z" fill={EDGE_COLORS[kind]} />
+                  </marker>
+                ))}
+              </defs>
+              <g transform={`translate(${transform.x} ${transform.y}) scale(${transform.scale})`}>
+                {graph.edges.map(edge => {
+                  const source = positionOf(edge.sourceId);
+                  const target = positionOf(edge.targetId);
+                  const targetNode = graph.nodes.find(node => node.id === edge.targetId)!;
+                  // Stop the line at the target's edge so the arrowhead stays visible.
+                  const length = Math.max(Math.hypot(target.x - source.x, target.y - source.y), 1);
+                  const inset = NODE_STYLES[Math.min(targetNode.distance, NODE_STYLES.length - 1)].radius + 2;
+                  const isDimmed = hoveredNeighbours && !(hoveredNeighbours.has(edge.sourceId) && hoveredNeighbours.has(edge.targetId));
+                  return (
+                    <line
+                      key={`${edge.sourceId}>${edge.targetId}:${edge.kind}`}
+                      x1={source.x}
+                      y1={source.y}
+                      x2={target.x - ((target.x - source.x) / length) * inset}
+                      y2={target.y - ((target.y - source.y) / length) * inset}
+                      stroke={EDGE_COLORS[edge.kind]}
+                      strokeWidth={1.5}
+                      strokeDasharray={edge.kind === 'mentions' ? '4 3' : undefined}
+                      markerEnd={edge.kind === 'related-to' ? undefined : `url(#graph-arrow-${edge.kind})`}
+                      opacity={isDimmed ? 0.15 : 0.9}
+                    >
+                      <title>{RELATION_LABELS[edge.kind].outgoing}</title>
+                    </line>
+                  );
+                })}
+                {graph.nodes.map(node => {
+                  const { x, y } = positionOf(node.id);
+                  const style = NODE_STYLES[Math.min(node.distance, NODE_STYLES.length - 1)];
+                  const isDimmed = hoveredNeighbours && !hoveredNeighbours.has(node.id);
+                  return (
+                    <g
+                      key={node.id}
+                      transform={`translate(${x} ${y})`}
+                      className="cursor-pointer"
+                      opacity={isDimmed ? 0.3 : 1}
+                      onPointerDown={(e) => handleNodePointerDown(e, node.id)}
+                      onPointerEnter={() => setHoveredId(node.id)}
+                      onPointerLeave={() => setHoveredId(null)}
+                    >
+                      <circle r={style.radius} fill={style.fill} stroke={node.id === focusId ? '#f59e0b' : '#ffffff'} strokeWidth={node.id === focusId ? 3 : 1.5} />
+                      <text y={style.radius + 12} textAnchor="middle" className="fill-slate-700 dark:fill-slate-200" fontSize={11} fontWeight={node.id === focusId ? 700 : 400}>
+                        {truncateLabel(node.document.name)}
+                      </text>
+                      <title>{node.document.name}</title>
+                    </g>
+                  );
+                })}
+              </g>
+            </svg>
+            {graph.isTruncated && (
+              <p className="mt-2 text-xs text-amber-600 dark:text-amber-400">Showing the {MAX_NODES} nearest documents. Center on a document or lower the depth to see the rest.</p>
+            )}
+          </div>
+        )}
+      </section>
+
+      {focusDocument && (
+        <section className="bg-white dark:bg-slate-800 p-4 rounded-xl shadow-lg flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <p className="font-semibold text-slate-800 dark:text-slate-100">{focusDocument.name}</p>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {focusRelationCounts && focusRelationCounts.length > 0
+                ? focusRelationCounts.map(([label, count]) => `${label}: ${count}`).join(' · ')
+                : 'No direct links with the selected relationship types.'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="secondary" onClick={() => onFocusChange(null)}>Show All</Button>
+            <Button size="sm" onClick={() => onOpenDocument(focusDocument.id)}>Open Document</Button>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default DocumentGraphView;
@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Document, DocumentRevision, DocumentContentFields } from '../types';
+import Button from './common/Button';
+import Modal from './common/Modal';
+import LoadingSpinner from './common/LoadingSpinner';
+import { loadRevisions, subscribeToStorageChanges, REVISIONS_STORE } from '../services/storageService';
+import { REVISION_FIELDS, REVISION_FIELD_LABELS, diffContentFields, diffLines, formatFieldValue, getContentFields, toSideBySideRows, DiffLine } from '../services/revisionService';
+
+interface DocumentHistoryPanelProps {
+  document: Document;
+  isOpen: boolean;
+  onClose: () => void;
+  onRestore: (revision: DocumentRevision) => Promise<void>;
+}
+
+const ACTION_LABELS: Record<DocumentRevision['action'], string> = {
+  created: 'Original',
+  edited: 'Edited',
+  restored: 'Restored',
+};
+
+const DiffCell: React.FC<{ line?: DiffLine }> = ({ line }) => {
+  const colorClass = !line
+    ? 'bg-slate-100 dark:bg-slate-800'
+    : line.type === 'removed'
+      ? 'bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-200'
+      : line.type === 'added'
+        ? 'bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-200'
+        : 'text-slate-600 dark:text-slate-300';
+  return (
+    <td className={`align-top px-2 py-0.5 whitespace-pre-wrap break-words w-1/2 ${colorClass}`}>
+      {line ? (line.text || ' ') : ''}
+    </td>
+  );
+};
+
+const FieldDiff: React.FC<{ field: keyof DocumentContentFields; before: string; after: string }> = ({ field, before, after }) => {
+  const rows = useMemo(() => toSideBySideRows(diffLines(before, after)), [before, after]);
+  return (
+    <div>
+      <h5 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-1">{REVISION_FIELD_LABELS[field]}</h5>
+      <div className="max-h-64 overflow-y-auto border border-slate-200 dark:border-slate-700 rounded">
+        <table className="w-full table-fixed text-xs font-mono">
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={index} className="border-b border-slate-100 dark:border-slate-700/50 last:border-0">
+                <DiffCell line={row.left} />
+                <DiffCell line={row.right} />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+const DocumentHistoryPanel: React.FC<DocumentHistoryPanelProps> = ({ document, isOpen, onClose, onRestore }) => {
+  const [revisions, setRevisions] = useState<DocumentRevision[] | null>(null);
+  const [selectedRevisionNumber, setSelectedRevisionNumber] = useState<number | null>(null);
+  const [compareWithCurrent, setCompareWithCurrent] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const refreshRevisions = useCallback(async () => {
+    try {
+      const loaded = await loadRevisions(document.id);
+      setRevisions(loaded);
+      setLoadError(null);
+    } catch (error) {
+      console.error("Failed to load document history:", error);
+      setLoadError(error instanceof Error ? error.message : "Could not load the version history.");
+      setRevisions([]);
+    }
+  }, [document.id]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    refreshRevisions();
+    return subscribeToStorageChanges((storeName) => {
+      if (storeName === REVISIONS_STORE) refreshRevisions();
+    });
+  }, [isOpen, refreshRevisions, document]);
+
+  // Default to the newest revision whenever the list changes.
+  useEffect(() => {
+    if (revisions && revisions.length > 0) {
+      setSelectedRevisionNumber(revisions[revisions.length - 1].revisionNumber);
+    }
+  }, [revisions]);
+
+  const selectedIndex = revisions?.findIndex(revision => revision.revisionNumber === selectedRevisionNumber) ?? -1;
+  const selectedRevision = revisions && selectedIndex >= 0 ? revisions[selectedIndex] : null;
+  const currentFields = useMemo(() => getContentFields(document), [document]);
+
+  const comparison = useMemo(() => {
+    if (!selectedRevision || !revisions) return null;
+    if (compareWithCurrent) {
+      return { leftLabel: `Version ${selectedRevision.revisionNumber}`, rightLabel: 'Current', before: selectedRevision.snapshot, after: currentFields };
+    }
+    const previous = selectedIndex > 0 ? revisions[selectedIndex - 1].snapshot : null;
+    if (!previous) return null;
+    return { leftLabel: `Version ${revisions[selectedIndex - 1].revisionNumber}`, rightLabel: `Version ${selectedRevision.revisionNumber}`, before: previous, after: selectedRevision.snapshot };
+  }, [selectedRevision, selectedIndex, revisions, compareWithCurrent, currentFields]);
+
+  const changedFields = comparison ? diffContentFields(comparison.before, comparison.after) : [];
+  const isSelectedCurrent = selectedRevision ? diffContentFields(selectedRevision.snapshot, currentFields).length === 0 : true;
+
+  const handleRestore = async () => {
+    if (!selectedRevision) return;
+    setIsRestoring(true);
+    try {
+      await onRestore(selectedRevision);
+    } catch (error) {
+      alert(`Could not restore version ${selectedRevision.revisionNumber}: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    setIsRestoring(false);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Version History: ${document.name}`} size="full">
+      {revisions === null ? (
+        <div className="flex items-center justify-center py-10"><LoadingSpinner text="Loading history..." /></div>
+      ) : revisions.length === 0 ? (
+        <p className="text-center text-slate-500 dark:text-slate-400 py-10">
+          {loadError || "This document has not been edited yet. Each edit you save will appear here as a new version."}
+        </p>
+      ) : (
+        <div className="flex flex-col md:flex-row gap-4 h-full min-h-0">
+          <ul className="md:w-72 flex-shrink-0 space-y-2 overflow-y-auto" aria-label="Revisions">
+            {[...revisions].reverse().map(revision => (
+              <li key={revision.id}>
+                <button
+                  onClick={() => setSelectedRevisionNumber(revision.revisionNumber)}
+                  className={`w-full text-left p-3 rounded-md border transition-colors ${revision.revisionNumber === selectedRevisionNumber ? 'border-hnai-teal-500 bg-hnai-teal-50 dark:bg-hnai-teal-900/40' : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50'}`}
+                >
+                  <div className="flex justify-between items-center">
+                    <span className="font-semibold text-slate-800 dark:text-slate-100">Version {revision.revisionNumber}</span>
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">{ACTION_LABELS[revision.action]}</span>
+                  </div>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{revision.author} &middot; {revision.createdAt.toLocaleString()}</p>
+                  {revision.changes.length > 0 && (
+                    <p className="text-xs text-slate-600 dark:text-slate-300 mt-1">
+                      Changed: {revision.changes.map(change => REVISION_FIELD_LABELS[change.field]).join(', ')}
+                    </p>
+                  )}
+                  {revision.restoredFromRevision !== undefined && (
+                    <p className="text-xs text-slate-600 dark:text-slate-300 mt-1">Restored from version {revision.restoredFromRevision}</p>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selectedRevision && (
+            <div className="flex-grow min-w-0 overflow-y-auto space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <label className="flex items-center space-x-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={compareWithCurrent}
+                    onChange={() => setCompareWithCurrent(!compareWithCurrent)}
+                    className="form-checkbox h-4 w-4 text-hnai-teal-600 rounded focus:ring-hnai-teal-500"
+                  />
+                  <span>Compare with current version</span>
+                </label>
+                <Button
+                  onClick={handleRestore}
+                  disabled={isRestoring || isSelectedCurrent}
+                  leftIcon={isRestoring ? <LoadingSpinner size="sm" color="text-white" /> : null}
+                  title={isSelectedCurrent ? "This version matches the current document" : undefined}
+                >
+                  {isRestoring ? 'Restoring...' : `Restore Version ${selectedRevision.revisionNumber}`}
+                </Button>
+              </div>
+
+              {comparison ? (
+                changedFields.length > 0 ? (
+                  <>
+                    <div className="grid grid-cols-2 text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wide">
+                      <span className="px-2">{comparison.leftLabel}</span>
+                      <span className="px-2">{comparison.rightLabel}</span>
+                    </div>
+                    {REVISION_FIELDS.filter(field => changedFields.some(change => change.field === field)).map(field => (
+                      <FieldDiff
+                        key={field}
+                        field={field}
+                        before={formatFieldValue(comparison.before, field)}
+                        after={formatFieldValue(comparison.after, field)}
+                      />
+                    ))}
+                  </>
+                ) : (
+                  <p className="text-sm text-slate-500 dark:text-slate-400">No differences.</p>
+                )
+              ) : (
+                <div className="space-y-2">
+                  <p className="text-sm text-slate-500 dark:text-slate-400">This is the document as it was first added.</p>
+                  {REVISION_FIELDS.map(field => (
+                    <div key={field}>
+                      <h5 className="text-sm font-semibold text-slate-700 dark:text-slate-300">{REVISION_FIELD_LABELS[field]}</h5>
+                      <p className="text-sm text-slate-600 dark:text-slate-300 whitespace-pre-wrap max-h-32 overflow-y-auto">{formatFieldValue(selectedRevision.snapshot, field) || '—'}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default DocumentHistoryPanel;
@@ -1,21 +1,57 @@
 
-import React, { useState, useMemo, useCallback, ChangeEvent, useEffect } from 'react';
-import { Document, DocumentType, FAQ, Language, UI_TRANSLATIONS } from '../types';
+import React, { useState, useMemo, useCallback, ChangeEvent, useEffect, useRef } from 'react';
+import { Collection, Document, DocumentFocusRequest, DocumentRelationType, DocumentRevision, DocumentType, FAQ, FetchedPageInfo, Language, SearchLogEntry, TagSynonymGroup, UI_TRANSLATIONS } from '../types';
 import Button from './common/Button';
 import Modal from './common/Modal';
-import { generateJson, isAIServiceAvailable, generateText } from '../services/geminiService'; // Added generateText
+import { generateJson, isAIServiceAvailable } from '../services/aiService';
+import { generateDocumentFaqs, generateDocumentSummary } from '../services/enrichmentService';
+import { semanticSearchDocuments, DocumentMatch } from '../services/retrievalService';
+import { getQueryFreeText, prepareDocumentSearch, searchDocuments } from '../services/searchQueryService';
+import { findMatchRanges, getMatchSnippet } from '../services/fuzzySearchService';
+import { canonicalizeTag, dedupeTags, documentHasTag } from '../services/tagService';
+import { findDuplicates, DuplicateMatch } from '../services/duplicateService';
+import { extractFileContent, getDocumentTypeFromFile, ExtractionProgress, LARGE_FILE_THRESHOLD_BYTES } from '../services/fileExtractionService';
+import { locatePassageHighlight, PassageHighlight } from '../services/citationService';
+import { applyFetchedPage, fetchWebPage, DEFAULT_FETCH_PROXY_URL } from '../services/webPageService';
+import { isCaptionFile, isTranscriptText, readCaptionFile } from '../services/transcriptService';
+import { isMarkdownDocument } from '../services/markdownService';
+import { createSearchLogEntry, logSearch } from '../services/searchLogService';
+import { recordEngagement } from '../services/engagementService';
+import { DEFAULT_DOCUMENT_LIST_STATE, DocumentListState, formatDocumentListQuery } from '../services/routeService';
+import { RELATION_LABELS, RELATION_TYPES, DocumentRelation, addLink, detectMentions, getDocumentRelations, removeLink, validateLink } from '../services/relationshipService';
 import LoadingSpinner from './common/LoadingSpinner';
-import { PlusCircleIcon, HeartIconSolid, HeartIconOutline, PDF_ICON_SVG, WORD_ICON_SVG, EXCEL_ICON_SVG, TEXT_ICON_SVG, UNKNOWN_ICON_SVG, URL_ICON_SVG, YOUTUBE_ICON_SVG, LightBulbIcon } from '../constants';
+import HighlightedText from './common/HighlightedText';
+import MarkdownContent from './common/MarkdownContent';
+import DocumentHistoryPanel from './DocumentHistoryPanel';
+import SearchQueryBuilder from './SearchQueryBuilder';
+import CollectionTree, { CollectionActions, DOCUMENT_DRAG_TYPE } from './CollectionTree';
+import BulkActionBar, { DocumentBulkActions } from './BulkActionBar';
+import { ALL_DOCUMENTS_SCOPE, CollectionScope, buildCollectionTree, flattenCollectionTree, filterDocumentsByScope, getCollectionPath } from '../services/collectionService';
+import { PlusCircleIcon, HeartIconSolid, HeartIconOutline, PDF_ICON_SVG, WORD_ICON_SVG, EXCEL_ICON_SVG, TEXT_ICON_SVG, UNKNOWN_ICON_SVG, URL_ICON_SVG, YOUTUBE_ICON_SVG, LightBulbIcon, AdjustmentsHorizontalIcon, CheckCircleIcon } from '../constants';
 
 interface DocumentManagerProps {
   documents: Document[];
   addDocument: (doc: Omit<Document, 'id' | 'uploadedAt' | 'isFavorite' | 'generatedFaqs'>) => void;
   updateDocument: (doc: Document) => void;
+  editDocument: (doc: Document, restoredFromRevision?: number) => Promise<void>; // Records a revision
+  deleteDocument: (docId: string) => Promise<void>;
   title?: string; 
   showOnlyFavorites?: boolean;
   currentLanguage: Language;
   initialOpenAddModal?: boolean; // New prop to trigger modal opening
   onModalHandled?: () => void; // New prop to signal modal has been handled
+  focusRequest?: DocumentFocusRequest | null; // A passage to highlight in the document the route opens
+  onFocusHandled?: () => void;
+  collections?: Collection[];
+  collectionActions?: CollectionActions; // Shows the collection tree when provided
+  tagSynonyms?: TagSynonymGroup[];
+  bulkActions?: DocumentBulkActions; // Enables selection mode when provided
+  fetchProxyUrl?: string; // Template for "Fetch content" requests; see webPageService
+  onShowInGraph?: (docId: string) => void; // Shows "Show in graph" in the preview when provided
+  // Routing: the document open in the preview and the search/filters, kept in sync with the URL when provided.
+  openDocumentId?: string | null;
+  listState?: DocumentListState;
+  onRouteChange?: (documentId: string | null, list: DocumentListState, replace: boolean) => void;
 }
 
 const getFileIcon = (type: DocumentType, className?: string) => {
@@ -31,6 +67,19 @@ const getFileIcon = (type: DocumentType, className?: string) => {
   }
 };
 
+const MAX_DUPLICATES_SHOWN = 5;
+const DUPLICATE_CHECK_DELAY_MS = 400; // Duplicates are looked for once the upload form stops changing this long
+const SEARCH_DELAY_MS = 150; // The list is searched once typing pauses this long, not on every keystroke
+const SEARCH_LOG_DELAY_MS = 1500; // A search is logged once the user has paused typing this long
+
+const describeDuplicate = ({ reason, similarity }: DuplicateMatch): string => {
+  switch (reason) {
+    case 'identical': return 'identical content';
+    case 'similar': return `about ${Math.round(similarity * 100)}% of the wording in common`;
+    case 'same-source': return 'same source URL';
+  }
+};
+
 interface DocumentFormState {
   name: string;
   type: DocumentType;
@@ -49,14 +98,72 @@ const initialFormState: DocumentFormState = {
   sourceUrl: ''
 };
 
-const DocumentCard: React.FC<{ document: Document; onPreview: (doc: Document) => void; onToggleFavorite: (docId: string) => void; }> = ({ document, onPreview, onToggleFavorite }) => {
+const toFormState = (doc: Document): DocumentFormState => ({
+  name: doc.name,
+  type: doc.type,
+  tags: doc.tags.join(', '),
+  contentSnippet: doc.contentSnippet,
+  fullContent: doc.fullContent || '',
+  sourceUrl: doc.sourceUrl || ''
+});
+
+const CARD_SNIPPET_LENGTH = 100;
+
+interface DocumentCardProps {
+  document: Document;
+  onPreview: (doc: Document) => void;
+  onToggleFavorite: (docId: string) => void;
+  highlightTerms?: string[];
+  draggable?: boolean;
+  isSelected?: boolean;
+  onToggleSelect?: (docId: string, extendRange: boolean) => void; // Shows a checkbox when provided
+}
+
+const DocumentCard: React.FC<DocumentCardProps> = ({ document, onPreview, onToggleFavorite, highlightTerms = [], draggable = false, isSelected = false, onToggleSelect }) => {
+  const snippet = document.contentSnippet.substring(0, CARD_SNIPPET_LENGTH);
+  const highlights = useMemo(() => highlightTerms.length === 0 ? null : {
+    name: findMatchRanges(document.name, highlightTerms),
+    snippet: findMatchRanges(snippet, highlightTerms),
+    // Matched tags are listed first so a hit isn't hidden behind "+N more".
+    tags: [...document.tags]
+      .map(tag => ({ tag, ranges: findMatchRanges(tag, highlightTerms) }))
+      .sort((a, b) => Number(b.ranges.length > 0) - Number(a.ranges.length > 0)),
+    content: document.fullContent ? getMatchSnippet(document.fullContent, highlightTerms, 160, false) : null,
+  }, [document, snippet, highlightTerms]);
+  const tags = highlights?.tags ?? document.tags.map(tag => ({ tag, ranges: [] }));
+
   return (
-    <div className="bg-white dark:bg-slate-800 shadow-lg rounded-lg overflow-hidden transition-all hover:shadow-xl flex flex-col">
+    <div
+      className={`bg-white dark:bg-slate-800 shadow-lg rounded-lg overflow-hidden transition-all hover:shadow-xl flex flex-col ${draggable ? 'cursor-grab active:cursor-grabbing' : ''} ${onToggleSelect ? 'select-none' : ''} ${isSelected ? 'ring-2 ring-hnai-teal-500' : ''}`}
+      onClick={onToggleSelect ? (e) => {
+        // In selection mode a click anywhere on the card (but not on its links and buttons) selects it.
+        if ((e.target as HTMLElement).closest('a, button, input')) return;
+        onToggleSelect(document.id, e.shiftKey);
+      } : undefined}
+      draggable={draggable}
+      onDragStart={draggable ? (e) => {
+        e.dataTransfer.setData(DOCUMENT_DRAG_TYPE, document.id);
+        e.dataTransfer.effectAllowed = 'move';
+      } : undefined}
+      title={draggable ? 'Drag onto a collection to file it' : undefined}
+    >
       <div className="p-5 flex-grow">
         <div className="flex items-start justify-between">
             <div className="flex items-center space-x-3 min-w-0">
+                {onToggleSelect && (
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    readOnly
+                    onClick={(e) => onToggleSelect(document.id, e.shiftKey)}
+                    className="h-5 w-5 flex-shrink-0 rounded text-hnai-teal-600 focus:ring-hnai-teal-500 cursor-pointer"
+                    aria-label={`Select ${document.name}`}
+                  />
+                )}
                  {getFileIcon(document.type, "w-10 h-10 text-hnai-teal-500 dark:text-hnai-teal-400 flex-shrink-0")}
-                <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100 truncate" title={document.name}>{document.name}</h3>
+                <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100 truncate" title={document.name}>
+                  <HighlightedText text={document.name} ranges={highlights?.name ?? []} />
+                </h3>
             </div>
             <button onClick={() => onToggleFavorite(document.id)} className="text-slate-400 hover:text-hnai-gold-500 dark:hover:text-hnai-gold-400 flex-shrink-0 ml-2">
                 {document.isFavorite ? <HeartIconSolid className="w-6 h-6 text-hnai-gold-500" /> : <HeartIconOutline className="w-6 h-6" />}
@@ -70,12 +177,17 @@ const DocumentCard: React.FC<{ document: Document; onPreview: (doc: Document) =>
             </p>
         )}
         <p className="text-sm text-slate-600 dark:text-slate-400 mt-2 h-16 overflow-hidden">
-          {document.contentSnippet.substring(0, 100)}{document.contentSnippet.length > 100 && '...'}
+          <HighlightedText text={snippet} ranges={highlights?.snippet ?? []} />{document.contentSnippet.length > CARD_SNIPPET_LENGTH && '...'}
         </p>
+        {highlights?.content && (
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-2 italic border-l-2 border-hnai-gold-400 pl-2" title="Best match in the full content">
+            <HighlightedText text={highlights.content.text} ranges={highlights.content.ranges} />
+          </p>
+        )}
         <div className="mt-3">
-          {document.tags.slice(0, 3).map(tag => (
+          {tags.slice(0, 3).map(({ tag, ranges }) => (
             <span key={tag} className="mr-2 mb-2 inline-block bg-hnai-teal-100 dark:bg-hnai-teal-800 text-hnai-teal-700 dark:text-hnai-teal-200 text-xs font-semibold px-2.5 py-0.5 rounded-full">
-              {tag}
+              <HighlightedText text={tag} ranges={ranges} />
             </span>
           ))}
           {document.tags.length > 3 && (
@@ -98,18 +210,40 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
     documents, 
     addDocument, 
     updateDocument, 
+    editDocument,
+    deleteDocument,
     title, 
     showOnlyFavorites = false,
     currentLanguage,
     initialOpenAddModal = false,
-    onModalHandled
+    onModalHandled,
+    focusRequest = null,
+    onFocusHandled,
+    collections = [],
+    collectionActions,
+    tagSynonyms = [],
+    bulkActions,
+    fetchProxyUrl = DEFAULT_FETCH_PROXY_URL,
+    onShowInGraph,
+    openDocumentId,
+    listState = DEFAULT_DOCUMENT_LIST_STATE,
+    onRouteChange
  }) => {
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
   const [formState, setFormState] = useState<DocumentFormState>(initialFormState);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filterType, setFilterType] = useState<DocumentType | ''>('');
-  const [filterTag, setFilterTag] = useState('');
-  const [showFavoritesFilter, setShowFavoritesFilter] = useState(false); 
+  const [searchTerm, setSearchTerm] = useState(listState.searchTerm);
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState(listState.searchTerm);
+  const [searchMode, setSearchMode] = useState<'keyword' | 'semantic'>(listState.searchMode);
+  const [isQueryBuilderOpen, setIsQueryBuilderOpen] = useState(false);
+  const [collectionScope, setCollectionScope] = useState<CollectionScope>(listState.scope);
+  const [semanticMatches, setSemanticMatches] = useState<DocumentMatch[] | null>(null);
+  const [isSemanticSearching, setIsSemanticSearching] = useState(false);
+  const [filterType, setFilterType] = useState<DocumentType | ''>(listState.filterType);
+  const [filterTag, setFilterTag] = useState(listState.filterTag);
+  const [showFavoritesFilter, setShowFavoritesFilter] = useState(listState.showFavorites);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectionAnchorId, setSelectionAnchorId] = useState<string | null>(null); // Where a shift-click range starts
   
   const [previewDoc, setPreviewDoc] = useState<Document | null>(null);
   const [generatedSummary, setGeneratedSummary] = useState<string | null>(null);
@@ -117,6 +251,33 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
   const [generatedFaqs, setGeneratedFaqs] = useState<FAQ[] | null>(null);
   const [isGeneratingFaqs, setIsGeneratingFaqs] = useState(false);
   const [isSuggestingTags, setIsSuggestingTags] = useState(false);
+  const [extractionProgress, setExtractionProgress] = useState<ExtractionProgress | null>(null);
+  const [extractionError, setExtractionError] = useState<string | null>(null);
+  const [isLargeFile, setIsLargeFile] = useState(false);
+  const [isAttachingCaptions, setIsAttachingCaptions] = useState(false);
+  const [captionStatus, setCaptionStatus] = useState<{ isError: boolean; message: string } | null>(null);
+  const captionInputRef = useRef<HTMLInputElement>(null);
+  // Bumped by each file choice and by closing the modal, so an extraction still running for an
+  // earlier file (or an abandoned form) can't fill in the current one.
+  const extractionRequestRef = useRef(0);
+  const [isAddingVersion, setIsAddingVersion] = useState(false);
+  const [newDocumentFetchedPage, setNewDocumentFetchedPage] = useState<FetchedPageInfo | null>(null);
+  const [isFetchingPage, setIsFetchingPage] = useState(false);
+  const [pageFetchStatus, setPageFetchStatus] = useState<{ isError: boolean; message: string } | null>(null);
+  const [editFormState, setEditFormState] = useState<DocumentFormState | null>(null);
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [showMarkdownSource, setShowMarkdownSource] = useState(false);
+  const [newLinkType, setNewLinkType] = useState<DocumentRelationType>('references');
+  const [newLinkTargetId, setNewLinkTargetId] = useState('');
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [focusedPassage, setFocusedPassage] = useState<DocumentFocusRequest['passage'] | null>(null);
+  const highlightRef = useRef<HTMLElement>(null);
+  // Slow AI calls save into the document as it is when they finish, not as it was when they started,
+  // so edits saved in the meantime (or the other generation's result) aren't written over.
+  const documentsRef = useRef(documents);
+  documentsRef.current = documents;
 
   const t = useCallback((key: string) => {
     return UI_TRANSLATIONS[currentLanguage]?.[key] || UI_TRANSLATIONS[Language.EN][key] || key;
@@ -131,65 +292,539 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
     }
   }, [initialOpenAddModal, onModalHandled]);
 
+  const currentListState = useMemo<DocumentListState>(
+    () => ({ searchTerm, searchMode, filterType, filterTag, showFavorites: showFavoritesFilter, scope: collectionScope }),
+    [searchTerm, searchMode, filterType, filterTag, showFavoritesFilter, collectionScope]
+  );
+  const currentListQuery = formatDocumentListQuery(currentListState);
+  const routeListQuery = formatDocumentListQuery(listState);
+  const previewDocId = previewDoc?.id ?? null;
+  const previousPreviewDocIdRef = useRef<string | null>(null);
+
+  // State → URL. These effects only run when the state changes, so a URL change (back/forward) is
+  // applied by the effects below before it could be mistaken for a local change and overwritten.
+  useEffect(() => {
+    if (previewDocId === previousPreviewDocIdRef.current) return;
+    previousPreviewDocIdRef.current = previewDocId;
+    if (onRouteChange && previewDocId !== (openDocumentId ?? null)) onRouteChange(previewDocId, currentListState, false);
+  }, [previewDocId]);
+
+  useEffect(() => {
+    // Refining a search replaces the history entry rather than adding one per keystroke.
+    if (onRouteChange && currentListQuery !== routeListQuery) onRouteChange(previewDocId, currentListState, true);
+  }, [currentListQuery]);
+
+  // URL → state.
+  useEffect(() => {
+    if (openDocumentId === undefined || openDocumentId === previewDocId) return;
+    if (!openDocumentId) {
+      closePreview();
+      return;
+    }
+    const doc = documents.find(d => d.id === openDocumentId);
+    if (doc) {
+      handlePreview(doc);
+    } else {
+      alert("The linked document is no longer in the knowledge base.");
+      onRouteChange?.(previewDocId, currentListState, true);
+    }
+  }, [openDocumentId]);
+
+  // A focus request comes with a route to its document: once the route has opened the document, the
+  // passage is highlighted. If the route ends up elsewhere (the document was deleted), it is dropped.
+  useEffect(() => {
+    if (!focusRequest) return;
+    if (focusRequest.documentId === openDocumentId && previewDocId !== openDocumentId) return;
+    if (focusRequest.documentId === previewDocId) setFocusedPassage(focusRequest.passage ?? null);
+    onFocusHandled?.();
+  }, [focusRequest, openDocumentId, previewDocId, onFocusHandled]);
+
+  useEffect(() => {
+    if (routeListQuery === currentListQuery) return;
+    setSearchTerm(listState.searchTerm);
+    setSearchMode(listState.searchMode);
+    setFilterType(listState.filterType);
+    setFilterTag(listState.filterTag);
+    setShowFavoritesFilter(listState.showFavorites);
+    setCollectionScope(listState.scope);
+  }, [routeListQuery]);
+
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormState(prev => ({ ...prev, [name]: value }));
   };
   
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
+    if (!file) return;
+    const requestId = ++extractionRequestRef.current;
+    const isCurrentRequest = () => extractionRequestRef.current === requestId;
+    if (isCaptionFile(file)) {
+      // Captions are the searchable text of a YouTube video, not a document of their own.
+      setExtractionError(null);
+      setIsLargeFile(false);
+      try {
+        const { transcript, excerpt } = await readCaptionFile(file);
+        if (!isCurrentRequest()) return;
+        setFormState(prev => ({
+          ...prev,
+          name: prev.name.trim() ? prev.name : file.name.replace(/\.[^.]+$/, ''),
+          type: DocumentType.YOUTUBE_LINK,
+          fullContent: transcript,
+          contentSnippet: prev.contentSnippet.trim() ? prev.contentSnippet : excerpt,
+        }));
+      } catch (error) {
+        if (isCurrentRequest()) setExtractionError(error instanceof Error ? error.message : "Could not read the caption file.");
+      }
+      return;
+    }
+    setFormState(prev => ({
+      ...prev,
+      name: file.name,
+      type: getDocumentTypeFromFile(file),
+    }));
+    setExtractionError(null);
+    setIsLargeFile(file.size > LARGE_FILE_THRESHOLD_BYTES);
+    setExtractionProgress({ stage: 'reading', percent: 0, message: `Reading ${file.name}...` });
+    try {
+      const result = await extractFileContent(file, progress => {
+        if (isCurrentRequest()) setExtractionProgress(progress);
+      });
+      if (!isCurrentRequest()) return;
       setFormState(prev => ({
         ...prev,
-        name: file.name,
-        type: getDocumentTypeFromFile(file),
+        type: result.type,
+        fullContent: result.fullContent,
+        // Keep a snippet the user already typed; otherwise draft one from the extracted text.
+        contentSnippet: prev.contentSnippet.trim() ? prev.contentSnippet : result.contentSnippet,
       }));
+    } catch (error) {
+      if (!isCurrentRequest()) return;
+      console.error("Failed to extract file content:", error);
+      setExtractionError(error instanceof Error ? error.message : "Could not extract content from this file.");
     }
+    setExtractionProgress(null);
   };
 
-  const getDocumentTypeFromFile = (file: File): DocumentType => {
-    if (file.type.includes('pdf')) return DocumentType.PDF;
-    if (file.type.includes('word') || file.type.includes('officedocument.wordprocessingml')) return DocumentType.WORD;
-    if (file.type.includes('excel') || file.type.includes('officedocument.spreadsheetml')) return DocumentType.EXCEL;
-    if (file.type.startsWith('text/')) return DocumentType.TEXT;
-    return DocumentType.UNKNOWN;
+  const closeUploadModal = () => {
+    extractionRequestRef.current++;
+    setIsUploadModalOpen(false);
+    setFormState(initialFormState);
+    setExtractionProgress(null);
+    setExtractionError(null);
+    setIsLargeFile(false);
+    setNewDocumentFetchedPage(null);
+    setPageFetchStatus(null);
+  };
+
+  // The upload replaces the existing document's content; its name, bookmark and history carry over,
+  // as does anything the upload leaves empty (the type only changes along with the content).
+  const handleAddAsNewVersion = async (existing: Document) => {
+    setIsAddingVersion(true);
+    try {
+      await editDocument({
+        ...existing,
+        type: formState.fullContent ? formState.type : existing.type,
+        contentSnippet: formState.contentSnippet.trim() ? formState.contentSnippet : existing.contentSnippet,
+        fullContent: formState.fullContent || existing.fullContent,
+        sourceUrl: formState.sourceUrl || existing.sourceUrl,
+        tags: dedupeTags([...existing.tags, ...formState.tags.split(',')]),
+        ...(newDocumentFetchedPage ? { fetchedPage: newDocumentFetchedPage } : {}),
+      });
+      closeUploadModal();
+    } catch (error) {
+      alert(`Could not save the new version: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    setIsAddingVersion(false);
+  };
+
+  // Hides the upload form without discarding it; "Add Document" brings the draft back.
+  const handleViewDuplicate = (doc: Document) => {
+    setIsUploadModalOpen(false);
+    handlePreview(doc);
+  };
+
+  const handleFetchNewDocumentPage = async () => {
+    if (!formState.sourceUrl) return;
+    setIsFetchingPage(true);
+    setPageFetchStatus(null);
+    try {
+      const page = await fetchWebPage(formState.sourceUrl, fetchProxyUrl);
+      const fetchedAt = new Date();
+      setFormState(prev => ({
+        ...prev,
+        name: prev.name.trim() ? prev.name : page.title,
+        fullContent: page.text,
+        contentSnippet: prev.contentSnippet.trim() ? prev.contentSnippet : page.excerpt,
+      }));
+      setNewDocumentFetchedPage({ title: page.title, fetchedAt, contentChangedAt: fetchedAt });
+    } catch (error) {
+      setPageFetchStatus({ isError: true, message: error instanceof Error ? error.message : "Could not fetch the page." });
+    }
+    setIsFetchingPage(false);
   };
-  
+
+  // Checked as the form fills in, so likely duplicates show up before the document is added; each pause
+  // in typing, finished extraction or page fetch runs one check rather than every keystroke.
+  const [duplicateMatches, setDuplicateMatches] = useState<DuplicateMatch[]>([]);
+  useEffect(() => {
+    if (!isUploadModalOpen) {
+      setDuplicateMatches([]);
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      setDuplicateMatches(findDuplicates({ contentSnippet: formState.contentSnippet, fullContent: formState.fullContent, sourceUrl: formState.sourceUrl }, documents));
+    }, DUPLICATE_CHECK_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [isUploadModalOpen, formState.contentSnippet, formState.fullContent, formState.sourceUrl, documents]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    // Checked again in case the form changed since the last check.
+    const identical = findDuplicates({ contentSnippet: formState.contentSnippet, fullContent: formState.fullContent, sourceUrl: formState.sourceUrl }, documents)
+      .find(match => match.reason === 'identical');
+    if (identical && !window.confirm(`"${identical.document.name}" already has exactly this content. Add it again anyway?`)) return;
     addDocument({
       ...formState,
       tags: formState.tags.split(',').map(tag => tag.trim()).filter(tag => tag),
+      ...(newDocumentFetchedPage ? { fetchedPage: newDocumentFetchedPage } : {}),
+      // New documents land in the collection being viewed.
+      ...(collectionScope.kind === 'collection' ? { collectionId: collectionScope.collectionId } : {}),
     });
-    setFormState(initialFormState);
-    setIsUploadModalOpen(false);
+    closeUploadModal();
   };
 
+  // Fall back to all documents if the collection being viewed is deleted (possibly in another tab).
+  useEffect(() => {
+    if (collectionScope.kind === 'collection' && !collections.some(c => c.id === collectionScope.collectionId)) {
+      setCollectionScope(ALL_DOCUMENTS_SCOPE);
+    }
+  }, [collections, collectionScope]);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedSearchTerm(searchTerm), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [searchTerm]);
+
+  // Matching uses the query with tag synonyms expanded; ranking and highlighting use what was typed.
+  const documentSearch = useMemo(() => prepareDocumentSearch(debouncedSearchTerm, tagSynonyms), [debouncedSearchTerm, tagSynonyms]);
+  // In semantic mode only the free text is searched by meaning; field qualifiers still filter exactly.
+  const semanticSearchText = useMemo(() => getQueryFreeText(documentSearch.query), [documentSearch]);
+
+  // Semantic matches are computed asynchronously (debounced) and then combined with the dropdown filters below.
+  useEffect(() => {
+    if (searchMode !== 'semantic' || !semanticSearchText.trim()) {
+      setSemanticMatches(null);
+      setIsSemanticSearching(false);
+      return;
+    }
+    let isCancelled = false;
+    setIsSemanticSearching(true);
+    const timeoutId = setTimeout(async () => {
+      try {
+        const matches = await semanticSearchDocuments(semanticSearchText);
+        if (!isCancelled) setSemanticMatches(matches);
+      } catch (error) {
+        console.error("Semantic search failed:", error);
+        if (!isCancelled) setSemanticMatches([]);
+      }
+      if (!isCancelled) setIsSemanticSearching(false);
+    }, 300);
+    return () => {
+      isCancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [searchMode, semanticSearchText, documents]);
+
+  // Everything the query matches, most relevant first (ties keep storage order). A query with a syntax
+  // error matches everything until it is fixed; the error is shown under the search box.
+  const searchResults = useMemo(() => {
+    const semanticRank = semanticMatches ? new Map(semanticMatches.map((match, rank) => [match.documentId, rank])) : undefined;
+    return searchDocuments(documents, documentSearch, semanticRank).map(({ document }) => document);
+  }, [documents, documentSearch, semanticMatches]);
+
   const filteredDocuments = useMemo(() => {
-    return documents.filter(doc => {
-      const matchesSearch = doc.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                            doc.contentSnippet.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                            (doc.sourceUrl && doc.sourceUrl.toLowerCase().includes(searchTerm.toLowerCase())) ||
-                            doc.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()));
+    const inScope = new Set(filterDocumentsByScope(documents, collectionScope, collections).map(doc => doc.id));
+    return searchResults.filter(doc => {
       const matchesType = filterType ? doc.type === filterType : true;
-      const matchesTag = filterTag ? doc.tags.some(tag => tag.toLowerCase() === filterTag.toLowerCase()) : true;
+      const matchesTag = filterTag ? documentHasTag(doc, filterTag, tagSynonyms) : true;
       const favoriteCondition = showOnlyFavorites ? doc.isFavorite : (showFavoritesFilter ? doc.isFavorite : true);
-      return matchesSearch && matchesType && matchesTag && favoriteCondition;
+      return inScope.has(doc.id) && matchesType && matchesTag && favoriteCondition;
     });
-  }, [documents, searchTerm, filterType, filterTag, showFavoritesFilter, showOnlyFavorites]);
+  }, [searchResults, documents, collectionScope, collections, filterType, filterTag, tagSynonyms, showFavoritesFilter, showOnlyFavorites]);
+
+  // Searches are logged for the analytics dashboard once typing pauses, as soon as a result is opened,
+  // or when the hub closes, whichever comes first; the first result opened is recorded with the search.
+  const pendingSearchLogRef = useRef<SearchLogEntry | null>(null);
+  const loggedSearchRef = useRef<SearchLogEntry | null>(null);
+
+  const flushSearchLog = () => {
+    const pending = pendingSearchLogRef.current;
+    if (!pending) return;
+    pendingSearchLogRef.current = null;
+    loggedSearchRef.current = pending;
+    logSearch(pending);
+  };
+
+  useEffect(() => {
+    pendingSearchLogRef.current = null;
+    loggedSearchRef.current = null;
+    const query = debouncedSearchTerm.trim();
+    if (!query || documentSearch.error || isSemanticSearching) return;
+    pendingSearchLogRef.current = createSearchLogEntry('hub', query, filteredDocuments.length, { queryMatchCount: searchResults.length });
+    const timeoutId = setTimeout(flushSearchLog, SEARCH_LOG_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [debouncedSearchTerm, searchMode, documentSearch.error, isSemanticSearching]);
 
+  useEffect(() => flushSearchLog, []);
+
+  const handleOpenSearchResult = (doc: Document) => {
+    flushSearchLog();
+    const logged = loggedSearchRef.current;
+    if (logged && !logged.chosenDocumentId) {
+      loggedSearchRef.current = { ...logged, chosenDocumentId: doc.id };
+      logSearch(loggedSearchRef.current);
+    }
+    handlePreview(doc);
+  };
+
+  // Synonyms are listed once, under their group's canonical tag.
   const allTags = useMemo(() => {
     const tagsSet = new Set<string>();
-    documents.forEach(doc => doc.tags.forEach(tag => tagsSet.add(tag)));
+    documents.forEach(doc => doc.tags.forEach(tag => tagsSet.add(canonicalizeTag(tag, tagSynonyms))));
     return Array.from(tagsSet).sort((a,b) => a.localeCompare(b));
-  }, [documents]);
+  }, [documents, tagSynonyms]);
+
+  // Bulk actions only ever apply to cards on screen: narrowing the filter drops hidden ones from the selection.
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const visibleIds = new Set(filteredDocuments.map(doc => doc.id));
+      const next = [...prev].filter(id => visibleIds.has(id));
+      return next.length === prev.size ? prev : new Set(next);
+    });
+  }, [filteredDocuments]);
+
+  // Shift-click selects every visible card between the last one clicked and this one.
+  const handleToggleSelect = (docId: string, extendRange: boolean) => {
+    const anchorIndex = selectionAnchorId ? filteredDocuments.findIndex(doc => doc.id === selectionAnchorId) : -1;
+    const index = filteredDocuments.findIndex(doc => doc.id === docId);
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (extendRange && anchorIndex !== -1 && index !== -1) {
+        filteredDocuments.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1).forEach(doc => next.add(doc.id));
+      } else if (next.has(docId)) {
+        next.delete(docId);
+      } else {
+        next.add(docId);
+      }
+      return next;
+    });
+    setSelectionAnchorId(docId);
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setSelectionAnchorId(null);
+  };
+
+  const exitSelectionMode = () => {
+    clearSelection();
+    setIsSelecting(false);
+  };
 
   const handlePreview = (doc: Document) => {
+    recordEngagement('view', [doc.id]);
     setPreviewDoc(doc);
-    setGeneratedSummary(null); 
+    setGeneratedSummary(doc.generatedSummary || null);
     setGeneratedFaqs(doc.generatedFaqs || null);
+    setEditFormState(null);
+    setFocusedPassage(null);
+    setPageFetchStatus(null);
+    setCaptionStatus(null);
+    setShowMarkdownSource(false);
+    setNewLinkTargetId('');
+  };
+
+  const closePreview = () => {
+    setPreviewDoc(null);
+    setEditFormState(null);
+    setFocusedPassage(null);
+    setPageFetchStatus(null);
+    setCaptionStatus(null);
+    setIsHistoryOpen(false);
+    setShowDeleteConfirm(false);
+  };
+
+  // Keep the open preview in sync when the document changes elsewhere (another tab, favorite toggle, FAQ generation).
+  useEffect(() => {
+    if (!previewDoc) return;
+    const latest = documents.find(doc => doc.id === previewDoc.id);
+    if (!latest) {
+      closePreview();
+    } else if (latest !== previewDoc) {
+      setPreviewDoc(latest);
+    }
+  }, [documents, previewDoc]);
+
+  // Re-located against the current text, so a passage that moved in a later edit is still found.
+  const passageHighlight = useMemo<PassageHighlight | null>(
+    () => previewDoc && focusedPassage ? locatePassageHighlight(previewDoc, focusedPassage) : null,
+    [previewDoc, focusedPassage]
+  );
+
+  // Markdown documents are shown formatted, except while a cited passage is highlighted in the raw text.
+  // Null when the document isn't Markdown at all.
+  const showsFormattedContent = previewDoc && isMarkdownDocument(previewDoc)
+    ? !showMarkdownSource && passageHighlight?.field !== 'fullContent'
+    : null;
+
+  // Mentions are only needed while a preview is open; detecting them reads every document's text.
+  const isPreviewOpen = previewDoc !== null;
+  const mentions = useMemo(() => isPreviewOpen ? detectMentions(documents) : null, [isPreviewOpen, documents]);
+  const previewRelations = useMemo(
+    () => previewDoc && mentions ? getDocumentRelations(previewDoc, documents, mentions) : null,
+    [previewDoc, documents, mentions]
+  );
+  const linkTargetOptions = useMemo(
+    () => previewDoc ? documents.filter(doc => doc.id !== previewDoc.id).sort((a, b) => a.name.localeCompare(b.name)) : [],
+    [previewDoc, documents]
+  );
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [passageHighlight, editFormState]);
+
+  const renderPreviewText = (text: string, field: PassageHighlight['field']) => {
+    if (!passageHighlight || passageHighlight.field !== field) return text;
+    return (
+      <>
+        {text.slice(0, passageHighlight.start)}
+        <mark ref={highlightRef} className="bg-hnai-gold-200 dark:bg-hnai-gold-700 text-inherit rounded px-0.5">
+          {text.slice(passageHighlight.start, passageHighlight.end)}
+        </mark>
+        {text.slice(passageHighlight.end)}
+      </>
+    );
+  };
+
+  const handleEditInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setEditFormState(prev => prev ? { ...prev, [name]: value } : prev);
+  };
+
+  const handleSaveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!previewDoc || !editFormState) return;
+    setIsSavingEdit(true);
+    try {
+      await editDocument({
+        ...previewDoc,
+        ...editFormState,
+        tags: editFormState.tags.split(',').map(tag => tag.trim()).filter(tag => tag),
+      });
+      setEditFormState(null);
+    } catch (error) {
+      alert(`Could not save your changes: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    setIsSavingEdit(false);
+  };
+
+  const handleRestoreRevision = async (revision: DocumentRevision) => {
+    if (!previewDoc) return;
+    await editDocument({ ...previewDoc, ...revision.snapshot }, revision.revisionNumber);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!previewDoc) return;
+    setIsDeleting(true);
+    try {
+      await deleteDocument(previewDoc.id);
+      closePreview();
+    } catch (error) {
+      alert(`Could not delete the document: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    setIsDeleting(false);
+  };
+
+  // A re-fetch that finds different text saves it as a new version, so the previous text stays in the history.
+  const handleFetchPreviewPage = async () => {
+    if (!previewDoc?.sourceUrl) return;
+    const documentId = previewDoc.id;
+    setIsFetchingPage(true);
+    setPageFetchStatus(null);
+    try {
+      const page = await fetchWebPage(previewDoc.sourceUrl, fetchProxyUrl);
+      // Applied to the document as it is now, so edits saved during the fetch are kept and diffed against.
+      const latest = documentsRef.current.find(doc => doc.id === documentId);
+      if (!latest) {
+        setIsFetchingPage(false);
+        return;
+      }
+      const previousFetch = latest.fetchedPage;
+      const { updated, contentChanged } = applyFetchedPage(latest, page, new Date());
+      if (contentChanged) {
+        await editDocument(updated);
+      } else {
+        updateDocument(updated);
+      }
+      setPageFetchStatus({
+        isError: false,
+        message: !previousFetch
+          ? "Page content fetched."
+          : contentChanged
+            ? "The page has changed since the last fetch. The new content is saved; the previous version is in the history."
+            : `No changes since the last fetch (content unchanged since ${previousFetch.contentChangedAt.toLocaleString()}).`,
+      });
+    } catch (error) {
+      setPageFetchStatus({ isError: true, message: error instanceof Error ? error.message : "Could not fetch the page." });
+    }
+    setIsFetchingPage(false);
+  };
+
+  // Replacing a transcript is an edit like any other, so the previous one stays in the history.
+  const handleAttachCaptions = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !previewDoc) return;
+    setIsAttachingCaptions(true);
+    setCaptionStatus(null);
+    try {
+      const { transcript, excerpt, segmentCount } = await readCaptionFile(file);
+      await editDocument({
+        ...previewDoc,
+        fullContent: transcript,
+        contentSnippet: previewDoc.contentSnippet.trim() ? previewDoc.contentSnippet : excerpt,
+      });
+      setCaptionStatus({ isError: false, message: `Attached ${segmentCount} caption segments from ${file.name}.` });
+    } catch (error) {
+      setCaptionStatus({ isError: true, message: error instanceof Error ? error.message : "Could not attach the caption file." });
+    }
+    setIsAttachingCaptions(false);
+  };
+
+  const handleAddLink = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!previewDoc || !newLinkTargetId) return;
+    const link = { type: newLinkType, targetId: newLinkTargetId };
+    const problem = validateLink(previewDoc, link);
+    if (problem) {
+      alert(problem);
+      return;
+    }
+    updateDocument(addLink(previewDoc, link));
+    setNewLinkTargetId('');
+  };
+
+  const handleRemoveLink = (relation: DocumentRelation) => {
+    if (!previewDoc || relation.kind === 'mentions') return;
+    updateDocument(removeLink(previewDoc, { type: relation.kind, targetId: relation.document.id }));
+  };
+
+  // A detected mention becomes an explicit reference, so it survives renames and edits.
+  const handleSaveMentionAsLink = (relation: DocumentRelation) => {
+    if (!previewDoc) return;
+    updateDocument(addLink(previewDoc, { type: 'references', targetId: relation.document.id }));
   };
 
   const handleGenerateSummary = async () => {
@@ -197,15 +832,10 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
     setIsSummarizing(true);
     setGeneratedSummary(null);
     try {
-      const prompt = `Summarize the following document content in about 3-5 key bullet points. Document Name: ${previewDoc.name}\n\n---\n${previewDoc.fullContent}\n\n---\nSummary (as JSON: {"summary_points": ["Point 1", "Point 2", ...]}):`;
-      const result = await generateJson<{ summary_points: string[] }>(prompt);
-      if (result && result.summary_points && Array.isArray(result.summary_points)) {
-        setGeneratedSummary(result.summary_points.map(p => `• ${p}`).join('\n'));
-      } else {
-         const plainSummaryPrompt = `Summarize this text concisely: ${previewDoc.fullContent}`; 
-         const plainSummary = await generateText(plainSummaryPrompt); // Use generateText for plain fallback
-         setGeneratedSummary(plainSummary || "Could not generate a structured summary. Please check content or try a plain summary.");
-      }
+      const summary = await generateDocumentSummary(previewDoc);
+      setGeneratedSummary(summary);
+      const latest = documentsRef.current.find(doc => doc.id === previewDoc.id);
+      if (latest) updateDocument({ ...latest, generatedSummary: summary });
     } catch (error) {
       console.error("Failed to generate summary:", error);
       setGeneratedSummary(`Error generating summary. ${error instanceof Error ? error.message : "The AI might have returned an unexpected format or an error occurred."}`);
@@ -239,14 +869,10 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
     setIsGeneratingFaqs(true);
     setGeneratedFaqs(null);
     try {
-        const prompt = `Based on the following document content, generate 2-3 frequently asked questions (FAQs) and their answers. Return as a JSON array of objects, where each object has a 'question' (string) and 'answer' (string) field. Content:\n\n---\n${previewDoc.fullContent}\n\n---\nFAQs:`;
-        const result = await generateJson<FAQ[]>(prompt);
-        if (result && Array.isArray(result) && result.every(faq => faq.question && faq.answer)) {
-            setGeneratedFaqs(result);
-            updateDocument({ ...previewDoc, generatedFaqs: result });
-        } else {
-            setGeneratedFaqs([{ question: "Error", answer: "Could not generate well-formed FAQs." }]);
-        }
+        const faqs = await generateDocumentFaqs(previewDoc);
+        setGeneratedFaqs(faqs);
+        const latest = documentsRef.current.find(doc => doc.id === previewDoc.id);
+        if (latest) updateDocument({ ...latest, generatedFaqs: faqs });
     } catch (error) {
         console.error("Failed to generate FAQs:", error);
         setGeneratedFaqs([{ question: "Error", answer: `Failed to generate FAQs. ${error instanceof Error ? error.message : ''}` }]);
@@ -261,27 +887,91 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
     }
   };
 
+  const showCollections = !showOnlyFavorites && !!collectionActions;
+
   return (
-    <div className="p-4 sm:p-6 space-y-6 h-full flex flex-col">
+    <div className="p-4 sm:p-6 h-full flex flex-col md:flex-row gap-6">
+      {showCollections && (
+        <CollectionTree
+          collections={collections}
+          documents={documents}
+          scope={collectionScope}
+          onScopeChange={setCollectionScope}
+          actions={collectionActions!}
+        />
+      )}
+    <div className="flex-grow min-w-0 space-y-6 flex flex-col">
       <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
-        <h2 className="text-2xl font-semibold text-slate-800 dark:text-slate-100">{title || defaultTitle}</h2>
+        <div className="min-w-0">
+          <h2 className="text-2xl font-semibold text-slate-800 dark:text-slate-100">{title || defaultTitle}</h2>
+          {showCollections && collectionScope.kind !== 'all' && (
+            <p className="text-sm text-slate-500 dark:text-slate-400 truncate">
+              {collectionScope.kind === 'unfiled'
+                ? 'Unfiled documents'
+                : getCollectionPath(collectionScope.collectionId, collections).map(collection => collection.name).join(' / ')}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+        {bulkActions && !isSelecting && filteredDocuments.length > 0 && (
+            <Button variant="secondary" onClick={() => setIsSelecting(true)} leftIcon={<CheckCircleIcon className="w-5 h-5"/>}>
+                Select
+            </Button>
+        )}
         {!showOnlyFavorites && ( // Don't show "Add Document" on "My Bookmarks" view
             <Button onClick={() => setIsUploadModalOpen(true)} leftIcon={<PlusCircleIcon className="w-5 h-5"/>}>
                 {t('add_document')}
             </Button>
         )}
+        </div>
       </div>
 
+      {bulkActions && isSelecting && (
+        <BulkActionBar
+          documents={documents}
+          selectedIds={selectedIds}
+          filteredCount={filteredDocuments.length}
+          availableTags={allTags}
+          onSelectAllFiltered={() => setSelectedIds(prev => new Set([...prev, ...filteredDocuments.map(doc => doc.id)]))}
+          onClearSelection={clearSelection}
+          onClose={exitSelectionMode}
+          actions={bulkActions}
+        />
+      )}
+
       {!showOnlyFavorites && (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 p-4 bg-white dark:bg-slate-800 rounded-lg shadow">
-            <input
-            type="text"
-            placeholder={t('search_documents_placeholder')}
-            className="p-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none lg:col-span-1"
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            aria-label="Search documents"
-            />
+            <div className="flex gap-2 lg:col-span-1">
+                <input
+                type="text"
+                placeholder={t('search_documents_placeholder')}
+                className="flex-grow min-w-0 p-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                aria-label="Search documents"
+                aria-invalid={!!documentSearch.error}
+                title={t('search_syntax_hint')}
+                />
+                <button
+                onClick={() => setIsQueryBuilderOpen(open => !open)}
+                className={`p-2 border rounded-md ${isQueryBuilderOpen ? 'border-hnai-teal-500 text-hnai-teal-600 dark:text-hnai-teal-400' : 'border-slate-300 dark:border-slate-600 text-slate-500 dark:text-slate-400'} hover:text-hnai-teal-600`}
+                aria-label={t('query_builder_button')}
+                aria-expanded={isQueryBuilderOpen}
+                title={t('query_builder_button')}
+                >
+                <AdjustmentsHorizontalIcon className="w-5 h-5" />
+                </button>
+                <select
+                className="p-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none"
+                value={searchMode}
+                onChange={(e) => setSearchMode(e.target.value as 'keyword' | 'semantic')}
+                aria-label="Search mode"
+                title="Semantic search matches documents by meaning, not just exact words"
+                >
+                <option value="keyword">{t('search_mode_keyword')}</option>
+                <option value="semantic">{t('search_mode_semantic')}</option>
+                </select>
+            </div>
             <select
             className="p-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none"
             value={filterType}
@@ -315,14 +1005,43 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
                     <span>{t('my_bookmarks')}</span> 
                 </label>
             </div>
+            {documentSearch.error && (
+              <div className="md:col-span-2 lg:col-span-4 text-sm text-red-700 dark:text-red-300" role="alert">
+                <p>{documentSearch.error.message}</p>
+                <p className="mt-1 font-mono text-xs whitespace-pre text-slate-600 dark:text-slate-400 overflow-x-auto">
+                  {debouncedSearchTerm.slice(0, documentSearch.error.position)}
+                  <span className="bg-red-200 dark:bg-red-800 text-red-800 dark:text-red-100 rounded-sm">{debouncedSearchTerm.slice(documentSearch.error.position, documentSearch.error.position + documentSearch.error.length) || ' '}</span>
+                  {debouncedSearchTerm.slice(documentSearch.error.position + documentSearch.error.length)}
+                </p>
+              </div>
+            )}
+            {isQueryBuilderOpen && (
+              <div className="md:col-span-2 lg:col-span-4">
+                <SearchQueryBuilder query={searchTerm} onQueryChange={setSearchTerm} availableTags={allTags} />
+                <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">{t('search_syntax_hint')}</p>
+              </div>
+            )}
         </div>
       )}
 
       {/* Document Grid */}
-      {filteredDocuments.length > 0 ? (
+      {isSemanticSearching && !semanticMatches ? (
+        <div className="flex-grow flex items-center justify-center">
+            <LoadingSpinner text="Searching by meaning..." />
+        </div>
+      ) : filteredDocuments.length > 0 ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 flex-grow overflow-y-auto pb-6">
           {filteredDocuments.map(doc => (
-            <DocumentCard key={doc.id} document={doc} onPreview={handlePreview} onToggleFavorite={handleToggleFavorite} />
+            <DocumentCard
+              key={doc.id}
+              document={doc}
+              onPreview={handleOpenSearchResult}
+              onToggleFavorite={handleToggleFavorite}
+              highlightTerms={documentSearch.textTerms}
+              draggable={showCollections}
+              isSelected={isSelecting && selectedIds.has(doc.id)}
+              onToggleSelect={isSelecting ? handleToggleSelect : undefined}
+            />
           ))}
         </div>
       ) : (
@@ -333,8 +1052,10 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
         </div>
       )}
 
+    </div>
+
       {/* Upload Modal */}
-      <Modal isOpen={isUploadModalOpen} onClose={() => setIsUploadModalOpen(false)} title={t('add_document')} size="xl">
+      <Modal isOpen={isUploadModalOpen} onClose={closeUploadModal} title={t('add_document')} size="xl">
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
             <label htmlFor="name" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Name</label>
@@ -354,10 +1075,38 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
                 <input type="url" name="sourceUrl" id="sourceUrl" value={formState.sourceUrl} onChange={handleInputChange} placeholder="https://example.com" className="mt-1 block w-full p-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-hnai-teal-500 focus:border-hnai-teal-500"/>
             </div>
           </div>
+          {formState.type === DocumentType.URL && formState.sourceUrl && (
+            <div>
+              <Button type="button" size="sm" variant="secondary" onClick={handleFetchNewDocumentPage} disabled={isFetchingPage} leftIcon={isFetchingPage ? <LoadingSpinner size="sm" /> : null}>
+                {isFetchingPage ? 'Fetching...' : newDocumentFetchedPage ? 'Re-fetch Content' : 'Fetch Content'}
+              </Button>
+              {newDocumentFetchedPage && !pageFetchStatus && (
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">Fetched "{newDocumentFetchedPage.title || formState.sourceUrl}" at {newDocumentFetchedPage.fetchedAt.toLocaleTimeString()}.</p>
+              )}
+              {pageFetchStatus && (
+                <p className="text-xs text-red-600 dark:text-red-400 mt-2" role="alert">{pageFetchStatus.message}</p>
+              )}
+            </div>
+          )}
           <div>
-            <label htmlFor="fileInput" className="block text-sm font-medium text-slate-700 dark:text-slate-300">File (Optional - for name/type)</label>
-            <input type="file" id="fileInput" onChange={handleFileChange} className="mt-1 block w-full text-sm text-slate-500 dark:text-slate-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-hnai-teal-50 dark:file:bg-hnai-teal-700 file:text-hnai-teal-700 dark:file:text-hnai-teal-100 hover:file:bg-hnai-teal-100 dark:hover:file:bg-hnai-teal-600"/>
-            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Select a file to auto-fill name and type. For content, please paste into 'Full Content' field below.</p>
+            <label htmlFor="fileInput" className="block text-sm font-medium text-slate-700 dark:text-slate-300">File (Optional)</label>
+            <input type="file" id="fileInput" onChange={handleFileChange} disabled={!!extractionProgress} accept=".pdf,.docx,.xlsx,.xls,.csv,.txt,.md,.json,.html,.xml,.vtt,.srt,text/*" className="mt-1 block w-full text-sm text-slate-500 dark:text-slate-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-hnai-teal-50 dark:file:bg-hnai-teal-700 file:text-hnai-teal-700 dark:file:text-hnai-teal-100 hover:file:bg-hnai-teal-100 dark:hover:file:bg-hnai-teal-600"/>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Select a PDF, Word, Excel, CSV or text file to auto-fill the name, type and content. Text is extracted in your browser. For a YouTube video, select its .vtt or .srt caption file to make the transcript searchable.</p>
+            {extractionProgress && (
+              <div className="mt-2" role="status" aria-live="polite">
+                <div className="flex justify-between text-xs text-slate-600 dark:text-slate-400 mb-1">
+                  <span>{extractionProgress.message}</span>
+                  <span>{extractionProgress.percent}%</span>
+                </div>
+                <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2">
+                  <div className="bg-hnai-teal-500 h-2 rounded-full transition-all duration-200" style={{ width: `${extractionProgress.percent}%` }} />
+                </div>
+                {isLargeFile && <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">This is a large file; extraction may take a moment.</p>}
+              </div>
+            )}
+            {extractionError && (
+              <p className="text-xs text-red-600 dark:text-red-400 mt-2" role="alert">{extractionError}</p>
+            )}
           </div>
           <div>
             <label htmlFor="tags" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Tags (comma-separated)</label>
@@ -377,18 +1126,81 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
                 )}
             </div>
             <textarea name="fullContent" id="fullContent" rows={6} value={formState.fullContent} onChange={handleInputChange} className="mt-1 block w-full p-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-hnai-teal-500 focus:border-hnai-teal-500"/>
-            {!isAIServiceAvailable() && <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">AI tag suggestion disabled (API key missing).</p>}
+            {!isAIServiceAvailable() && <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">AI tag suggestion disabled (AI provider not configured).</p>}
           </div>
+          {duplicateMatches.length > 0 && (
+            <div className="p-3 text-sm text-amber-800 bg-amber-50 rounded-lg dark:bg-amber-900/30 dark:text-amber-200" role="status">
+              <p className="font-medium">
+                {duplicateMatches.length === 1 ? 'This looks like a document that is already in the knowledge base:' : `This looks like ${duplicateMatches.length} documents that are already in the knowledge base:`}
+              </p>
+              <ul className="mt-2 space-y-2">
+                {duplicateMatches.slice(0, MAX_DUPLICATES_SHOWN).map(match => (
+                  <li key={match.document.id} className="flex flex-wrap items-center justify-between gap-2">
+                    <span>
+                      <button type="button" onClick={() => handleViewDuplicate(match.document)} className="font-semibold underline hover:text-amber-900 dark:hover:text-amber-100" title="Open this document; your draft is kept">
+                        {match.document.name}
+                      </button>
+                      {' — '}{describeDuplicate(match)}
+                    </span>
+                    <Button type="button" size="sm" variant="secondary" onClick={() => handleAddAsNewVersion(match.document)} disabled={isAddingVersion || !!extractionProgress} title="Replace its content with this upload, keeping the previous content in its history">
+                      Merge as New Version
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           <div className="flex justify-end space-x-3 pt-2">
-            <Button type="button" variant="secondary" onClick={() => setIsUploadModalOpen(false)}>Cancel</Button>
-            <Button type="submit">{t('add_document')}</Button>
+            <Button type="button" variant="secondary" onClick={closeUploadModal}>Cancel</Button>
+            <Button type="submit" disabled={!!extractionProgress || isAddingVersion}>{t('add_document')}</Button>
           </div>
         </form>
       </Modal>
 
       {/* Preview Modal */}
       {previewDoc && (
-        <Modal isOpen={!!previewDoc} onClose={() => setPreviewDoc(null)} title={previewDoc.name} size="lg">
+        <Modal isOpen={!!previewDoc} onClose={closePreview} title={editFormState ? `Edit: ${previewDoc.name}` : previewDoc.name} size="lg">
+          {editFormState ? (
+          <form onSubmit={handleSaveEdit} className="space-y-4">
+            <div>
+              <label htmlFor="edit-name" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Name</label>
+              <input type="text" name="name" id="edit-name" value={editFormState.name} onChange={handleEditInputChange} required className="mt-1 block w-full p-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-hnai-teal-500 focus:border-hnai-teal-500"/>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="edit-type" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Type</label>
+                <select name="type" id="edit-type" value={editFormState.type} onChange={handleEditInputChange} className="mt-1 block w-full p-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-hnai-teal-500 focus:border-hnai-teal-500">
+                  {Object.values(DocumentType).map(type => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="edit-sourceUrl" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Source URL</label>
+                <input type="url" name="sourceUrl" id="edit-sourceUrl" value={editFormState.sourceUrl} onChange={handleEditInputChange} placeholder="https://example.com" className="mt-1 block w-full p-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-hnai-teal-500 focus:border-hnai-teal-500"/>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="edit-tags" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Tags (comma-separated)</label>
+              <input type="text" name="tags" id="edit-tags" value={editFormState.tags} onChange={handleEditInputChange} className="mt-1 block w-full p-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-hnai-teal-500 focus:border-hnai-teal-500"/>
+            </div>
+            <div>
+              <label htmlFor="edit-contentSnippet" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Content Snippet</label>
+              <textarea name="contentSnippet" id="edit-contentSnippet" rows={3} value={editFormState.contentSnippet} onChange={handleEditInputChange} required className="mt-1 block w-full p-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-hnai-teal-500 focus:border-hnai-teal-500"/>
+            </div>
+            <div>
+              <label htmlFor="edit-fullContent" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Full Content</label>
+              <textarea name="fullContent" id="edit-fullContent" rows={8} value={editFormState.fullContent} onChange={handleEditInputChange} className="mt-1 block w-full p-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-hnai-teal-500 focus:border-hnai-teal-500"/>
+            </div>
+            <p className="text-xs text-slate-500 dark:text-slate-400">Saving creates a new version; earlier versions stay available in the history.</p>
+            <div className="flex justify-end space-x-3 pt-2">
+              <Button type="button" variant="secondary" onClick={() => setEditFormState(null)} disabled={isSavingEdit}>Cancel</Button>
+              <Button type="submit" disabled={isSavingEdit} leftIcon={isSavingEdit ? <LoadingSpinner size="sm" color="text-white"/> : null}>
+                {isSavingEdit ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </div>
+          </form>
+          ) : (
           <div className="space-y-4">
             <div className="flex items-center space-x-3">
                 {getFileIcon(previewDoc.type, "w-8 h-8 text-hnai-teal-600 dark:text-hnai-teal-400")}
@@ -403,6 +1215,57 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
                 </div>
             </div>
             <p><strong className="text-slate-700 dark:text-slate-300">Uploaded:</strong> {new Date(previewDoc.uploadedAt).toLocaleDateString()}</p>
+            {previewDoc.type === DocumentType.YOUTUBE_LINK && (
+              <div className="p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg text-sm space-y-2">
+                <p className="text-slate-500 dark:text-slate-400">
+                  {isTranscriptText(previewDoc.fullContent)
+                    ? "The full content is the video's transcript; AI answers citing it link to the video at the cited moment."
+                    : "Attach the video's caption file (.vtt or .srt) to make what is said in it searchable and citable."}
+                </p>
+                <input ref={captionInputRef} type="file" accept=".vtt,.srt" onChange={handleAttachCaptions} className="hidden" />
+                <Button size="sm" variant="secondary" onClick={() => captionInputRef.current?.click()} disabled={isAttachingCaptions} leftIcon={isAttachingCaptions ? <LoadingSpinner size="sm" /> : null}>
+                  {isAttachingCaptions ? 'Attaching...' : isTranscriptText(previewDoc.fullContent) ? 'Replace Captions' : 'Attach Captions'}
+                </Button>
+                {captionStatus && (
+                  <p className={`text-xs ${captionStatus.isError ? 'text-red-600 dark:text-red-400' : 'text-hnai-teal-700 dark:text-hnai-teal-300'}`} role={captionStatus.isError ? 'alert' : 'status'}>{captionStatus.message}</p>
+                )}
+              </div>
+            )}
+            {previewDoc.type === DocumentType.URL && previewDoc.sourceUrl && (
+              <div className="p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg text-sm space-y-2">
+                {previewDoc.fetchedPage ? (
+                  <div className="text-slate-600 dark:text-slate-300 space-y-0.5">
+                    {previewDoc.fetchedPage.title && <p><strong className="text-slate-700 dark:text-slate-300">Page title:</strong> {previewDoc.fetchedPage.title}</p>}
+                    <p><strong className="text-slate-700 dark:text-slate-300">Last fetched:</strong> {previewDoc.fetchedPage.fetchedAt.toLocaleString()}</p>
+                    <p><strong className="text-slate-700 dark:text-slate-300">Content last changed:</strong> {previewDoc.fetchedPage.contentChangedAt.toLocaleString()}</p>
+                  </div>
+                ) : (
+                  <p className="text-slate-500 dark:text-slate-400">Fetch the page to store its readable text as this document's full content.</p>
+                )}
+                <Button size="sm" variant="secondary" onClick={handleFetchPreviewPage} disabled={isFetchingPage} leftIcon={isFetchingPage ? <LoadingSpinner size="sm" /> : null}>
+                  {isFetchingPage ? 'Fetching...' : previewDoc.fetchedPage ? 'Re-fetch Content' : 'Fetch Content'}
+                </Button>
+                {pageFetchStatus && (
+                  <p className={`text-xs ${pageFetchStatus.isError ? 'text-red-600 dark:text-red-400' : 'text-hnai-teal-700 dark:text-hnai-teal-300'}`} role={pageFetchStatus.isError ? 'alert' : 'status'}>{pageFetchStatus.message}</p>
+                )}
+              </div>
+            )}
+            {collectionActions && (
+              <div className="flex items-center gap-2">
+                <label htmlFor="preview-collection" className="font-bold text-slate-700 dark:text-slate-300">Collection:</label>
+                <select
+                  id="preview-collection"
+                  value={previewDoc.collectionId && collections.some(c => c.id === previewDoc.collectionId) ? previewDoc.collectionId : ''}
+                  onChange={(e) => collectionActions.moveDocument(previewDoc.id, e.target.value || null)}
+                  className="p-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none"
+                >
+                  <option value="">Unfiled</option>
+                  {flattenCollectionTree(buildCollectionTree(collections)).map(({ collection, depth }) => (
+                    <option key={collection.id} value={collection.id}>{`${'\u00a0\u00a0'.repeat(depth)}${collection.name}`}</option>
+                  ))}
+                </select>
+              </div>
+            )}
             <div>
               <strong className="text-slate-700 dark:text-slate-300">Tags:</strong>
               <div className="flex flex-wrap gap-2 mt-1">
@@ -411,16 +1274,96 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
                 ))}
               </div>
             </div>
+            {previewRelations && (
+              <div className="p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg text-sm space-y-3">
+                <div className="flex items-center justify-between">
+                  <strong className="text-slate-700 dark:text-slate-300">Relationships</strong>
+                  {onShowInGraph && (
+                    <button type="button" onClick={() => onShowInGraph(previewDoc.id)} className="text-xs text-hnai-teal-600 dark:text-hnai-teal-400 hover:underline">Show in graph</button>
+                  )}
+                </div>
+                {previewRelations.outgoing.length === 0 && previewRelations.incoming.length === 0 && (
+                  <p className="text-slate-500 dark:text-slate-400">No linked documents yet.</p>
+                )}
+                {previewRelations.outgoing.length > 0 && (
+                  <ul className="space-y-1">
+                    {previewRelations.outgoing.map(relation => (
+                      <li key={`${relation.kind}:${relation.document.id}`} className="flex items-center gap-2">
+                        <span className="text-slate-500 dark:text-slate-400 shrink-0">{RELATION_LABELS[relation.kind].outgoing}</span>
+                        <button type="button" onClick={() => handlePreview(relation.document)} className="text-hnai-teal-600 dark:text-hnai-teal-400 hover:underline truncate text-left">{relation.document.name}</button>
+                        {relation.kind === 'mentions' ? (
+                          <button type="button" onClick={() => handleSaveMentionAsLink(relation)} className="ml-auto shrink-0 text-xs text-slate-500 hover:text-hnai-teal-600 dark:text-slate-400 dark:hover:text-hnai-teal-400">Save as reference</button>
+                        ) : (
+                          <button type="button" onClick={() => handleRemoveLink(relation)} className="ml-auto shrink-0 text-slate-400 hover:text-red-600 dark:hover:text-red-400" aria-label={`Remove link to ${relation.document.name}`}>&times;</button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {previewRelations.incoming.length > 0 && (
+                  <div>
+                    <p className="text-xs font-semibold uppercase text-slate-500 dark:text-slate-400">Backlinks</p>
+                    <ul className="mt-1 space-y-1">
+                      {previewRelations.incoming.map(relation => (
+                        <li key={`${relation.kind}:${relation.document.id}`} className="flex items-center gap-2">
+                          <span className="text-slate-500 dark:text-slate-400 shrink-0">{RELATION_LABELS[relation.kind].incoming}</span>
+                          <button type="button" onClick={() => handlePreview(relation.document)} className="text-hnai-teal-600 dark:text-hnai-teal-400 hover:underline truncate text-left">{relation.document.name}</button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {linkTargetOptions.length > 0 && (
+                  <form onSubmit={handleAddLink} className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={newLinkType}
+                      onChange={(e) => setNewLinkType(e.target.value as DocumentRelationType)}
+                      aria-label="Relationship type"
+                      className="p-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none"
+                    >
+                      {RELATION_TYPES.map(type => <option key={type} value={type}>{RELATION_LABELS[type].outgoing}</option>)}
+                    </select>
+                    <select
+                      value={newLinkTargetId}
+                      onChange={(e) => setNewLinkTargetId(e.target.value)}
+                      aria-label="Linked document"
+                      className="flex-1 min-w-0 p-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none"
+                    >
+                      <option value="">Choose a document…</option>
+                      {linkTargetOptions.map(doc => <option key={doc.id} value={doc.id}>{doc.name}</option>)}
+                    </select>
+                    <Button type="submit" size="sm" variant="secondary" disabled={!newLinkTargetId}>Add Link</Button>
+                  </form>
+                )}
+              </div>
+            )}
+            {focusedPassage && !passageHighlight && (
+              <div className="p-3 text-sm text-amber-800 bg-amber-50 rounded-lg dark:bg-amber-900/30 dark:text-amber-200" role="status">
+                <p>The cited passage was changed after this answer was given and can no longer be found. As cited:</p>
+                <p className="mt-1 italic whitespace-pre-wrap">{focusedPassage.text}</p>
+              </div>
+            )}
             <div>
               <strong className="text-slate-700 dark:text-slate-300">Content Snippet:</strong>
-              <p className="mt-1 p-3 bg-slate-50 dark:bg-slate-700 rounded whitespace-pre-wrap text-sm text-slate-600 dark:text-slate-300 max-h-32 overflow-y-auto">{previewDoc.contentSnippet}</p>
+              <p className="mt-1 p-3 bg-slate-50 dark:bg-slate-700 rounded whitespace-pre-wrap text-sm text-slate-600 dark:text-slate-300 max-h-32 overflow-y-auto">{renderPreviewText(previewDoc.contentSnippet, 'contentSnippet')}</p>
             </div>
             {previewDoc.fullContent && (
                  <div>
-                    <strong className="text-slate-700 dark:text-slate-300">Full Content:</strong>
-                    <div className="mt-1 p-3 max-h-48 overflow-y-auto bg-slate-50 dark:bg-slate-700 rounded whitespace-pre-wrap text-sm text-slate-600 dark:text-slate-300">
-                        {previewDoc.fullContent}
+                    <div className="flex items-center justify-between">
+                        <strong className="text-slate-700 dark:text-slate-300">Full Content:</strong>
+                        {showsFormattedContent !== null && passageHighlight?.field !== 'fullContent' && (
+                          <button type="button" onClick={() => setShowMarkdownSource(prev => !prev)} className="text-xs text-hnai-teal-600 dark:text-hnai-teal-400 hover:underline">
+                            {showsFormattedContent ? 'Show Markdown source' : 'Show formatted'}
+                          </button>
+                        )}
                     </div>
+                    {showsFormattedContent ? (
+                      <MarkdownContent text={previewDoc.fullContent} className="mt-1 p-3 max-h-96 overflow-y-auto bg-slate-50 dark:bg-slate-700 rounded text-sm text-slate-600 dark:text-slate-300" />
+                    ) : (
+                      <div className="mt-1 p-3 max-h-48 overflow-y-auto bg-slate-50 dark:bg-slate-700 rounded whitespace-pre-wrap text-sm text-slate-600 dark:text-slate-300">
+                          {renderPreviewText(previewDoc.fullContent, 'fullContent')}
+                      </div>
+                    )}
                 </div>
             )}
             
@@ -433,9 +1376,7 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
                     {generatedSummary && (
                     <div className="mt-3">
                         <strong className="text-slate-700 dark:text-slate-300">AI Summary:</strong>
-                        <div className="mt-1 p-3 bg-hnai-teal-50 dark:bg-hnai-teal-900/50 rounded whitespace-pre-wrap text-sm text-hnai-teal-700 dark:text-hnai-teal-200">
-                        {generatedSummary}
-                        </div>
+                        <MarkdownContent text={generatedSummary} className="mt-1 p-3 bg-hnai-teal-50 dark:bg-hnai-teal-900/50 rounded text-sm text-hnai-teal-700 dark:text-hnai-teal-200" />
                     </div>
                     )}
                 </div>
@@ -449,7 +1390,7 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
                         {generatedFaqs.map((faq, index) => (
                         <details key={index} className="bg-hnai-teal-50 dark:bg-hnai-teal-900/50 p-2 rounded group">
                             <summary className="font-medium text-hnai-teal-700 dark:text-hnai-teal-200 cursor-pointer group-open:pb-1">Q: {faq.question}</summary>
-                            <p className="text-sm text-hnai-teal-600 dark:text-hnai-teal-300 whitespace-pre-wrap pl-2 pt-1">{faq.answer}</p>
+                            <MarkdownContent text={faq.answer} className="text-sm text-hnai-teal-600 dark:text-hnai-teal-300 pl-2 pt-1" />
                         </details>
                         ))}
                     </div>
@@ -458,13 +1399,43 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
               </div>
             )}
             {!isAIServiceAvailable() && previewDoc.fullContent && (
-                 <p className="text-sm text-amber-600 dark:text-amber-400 mt-2">AI features (summary, FAQs) are unavailable (API key might be missing).</p>
+                 <p className="text-sm text-amber-600 dark:text-amber-400 mt-2">AI features (summary, FAQs) are unavailable (AI provider not configured).</p>
             )}
 
-             <div className="flex justify-end pt-4 border-t dark:border-slate-700 mt-4">
-                <Button onClick={() => setPreviewDoc(null)} variant="secondary">Close</Button>
+             <div className="flex flex-wrap justify-between gap-3 pt-4 border-t dark:border-slate-700 mt-4">
+                <div className="flex flex-wrap gap-2">
+                    <Button onClick={() => setEditFormState(toFormState(previewDoc))} variant="secondary">Edit</Button>
+                    <Button onClick={() => setIsHistoryOpen(true)} variant="secondary">History</Button>
+                    <Button onClick={() => setShowDeleteConfirm(true)} variant="danger">Delete</Button>
+                </div>
+                <Button onClick={closePreview} variant="secondary">Close</Button>
             </div>
           </div>
+          )}
+        </Modal>
+      )}
+
+      {previewDoc && (
+        <DocumentHistoryPanel
+          document={previewDoc}
+          isOpen={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          onRestore={handleRestoreRevision}
+        />
+      )}
+
+      {/* Delete Confirmation */}
+      {previewDoc && (
+        <Modal isOpen={showDeleteConfirm} onClose={() => setShowDeleteConfirm(false)} title="Delete Document" size="md">
+          <p className="text-slate-600 dark:text-slate-300">
+            Permanently delete "<strong>{previewDoc.name}</strong>" and its entire version history? This cannot be undone.
+          </p>
+          <div className="mt-6 flex justify-end space-x-3">
+            <Button variant="secondary" onClick={() => setShowDeleteConfirm(false)} disabled={isDeleting}>Cancel</Button>
+            <Button variant="danger" onClick={handleConfirmDelete} disabled={isDeleting}>
+              {isDeleting ? 'Deleting...' : 'Delete'}
+            </Button>
+          </div>
         </Modal>
       )}
     </div>
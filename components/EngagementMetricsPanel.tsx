@@ -0,0 +1,141 @@
+import React from 'react';
+import { Document, EngagementEventKind } from '../types';
+import { PresentationChartLineIcon } from '../constants';
+import TimeSeriesBarChart from './common/TimeSeriesBarChart';
+import { ENGAGEMENT_EVENT_LABELS, EngagementInsights } from '../services/engagementService';
+import { formatBucketLabel } from '../services/dateRangeService';
+
+interface EngagementMetricsPanelProps {
+  insights: EngagementInsights | null; // Null while events and revisions load
+  onOpenDocument: (docId: string) => void;
+}
+
+const MAX_LISTED_NEVER_VIEWED = 10;
+
+const sectionTitleClassName = 'text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2';
+
+const DocumentLink: React.FC<{ document: Document; onOpen: (docId: string) => void }> = ({ document, onOpen }) => (
+  <button onClick={() => onOpen(document.id)} className="min-w-0 truncate text-left text-slate-700 dark:text-slate-200 hover:text-hnai-teal-600 dark:hover:text-hnai-teal-400 hover:underline">
+    {document.name}
+  </button>
+);
+
+const EngagementMetricsPanel: React.FC<EngagementMetricsPanelProps> = ({ insights, onOpenDocument }) => {
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg">
+      <div className="flex items-center gap-2 mb-4">
+        <PresentationChartLineIcon className="w-6 h-6 text-hnai-gold-500" />
+        <h2 className="text-xl font-semibold text-slate-700 dark:text-slate-200">User Engagement Metrics</h2>
+      </div>
+
+      {!insights ? (
+        <p className="text-slate-500 dark:text-slate-400">Loading engagement data...</p>
+      ) : (
+        <div className="space-y-6">
+          <dl className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {(Object.keys(ENGAGEMENT_EVENT_LABELS) as EngagementEventKind[]).map(kind => (
+              <div key={kind}>
+                <dt className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">{ENGAGEMENT_EVENT_LABELS[kind]}</dt>
+                <dd className="text-2xl font-bold text-slate-800 dark:text-slate-100">{insights.eventCounts[kind]}</dd>
+              </div>
+            ))}
+          </dl>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <h3 className={sectionTitleClassName}>Most Viewed</h3>
+              {insights.mostViewed.length > 0 ? (
+                <ul className="space-y-2">
+                  {insights.mostViewed.map(({ document, views, otherEvents }) => (
+                    <li key={document.id} className="flex justify-between items-center gap-3 text-sm">
+                      <DocumentLink document={document} onOpen={onOpenDocument} />
+                      <span className="shrink-0 text-xs text-slate-500 dark:text-slate-400 whitespace-nowrap" title={`${otherEvents} other interaction${otherEvents === 1 ? '' : 's'}`}>
+                        {views} view{views === 1 ? '' : 's'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-slate-500 dark:text-slate-400">No documents were opened in this period.</p>
+              )}
+            </div>
+
+            <div>
+              <h3 className={sectionTitleClassName}>Never Viewed ({insights.neverViewed.length})</h3>
+              {insights.neverViewed.length > 0 ? (
+                <>
+                  <ul className="space-y-2">
+                    {insights.neverViewed.slice(0, MAX_LISTED_NEVER_VIEWED).map(document => (
+                      <li key={document.id} className="flex justify-between items-center gap-3 text-sm">
+                        <DocumentLink document={document} onOpen={onOpenDocument} />
+                        <span className="shrink-0 text-xs text-slate-500 dark:text-slate-400 whitespace-nowrap">Added {new Date(document.uploadedAt).toLocaleDateString()}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  {insights.neverViewed.length > MAX_LISTED_NEVER_VIEWED && (
+                    <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">And {insights.neverViewed.length - MAX_LISTED_NEVER_VIEWED} more.</p>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-slate-500 dark:text-slate-400">Every document has been opened.</p>
+              )}
+              <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+                {insights.trackingSince ? `Views recorded since ${insights.trackingSince.toLocaleDateString()}.` : 'Views are recorded from now on.'}
+              </p>
+            </div>
+
+            <div>
+              <h3 className={sectionTitleClassName}>Engagement by Tag</h3>
+              {insights.tagEngagement.length > 0 ? (
+                <ul className="space-y-2">
+                  {insights.tagEngagement.map(({ tag, documentCount, views, otherEvents }) => (
+                    <li key={tag} className="flex justify-between items-center gap-3 text-sm">
+                      <span className="bg-hnai-teal-100 dark:bg-hnai-teal-800 text-hnai-teal-700 dark:text-hnai-teal-200 px-2 py-0.5 rounded-full text-xs font-medium truncate" title={`${documentCount} document${documentCount === 1 ? '' : 's'}`}>{tag}</span>
+                      <span className="shrink-0 text-xs text-slate-500 dark:text-slate-400 whitespace-nowrap">{views} view{views === 1 ? '' : 's'} · {otherEvents} other</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-slate-500 dark:text-slate-400">No tagged documents were used in this period.</p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              <h3 className={sectionTitleClassName}>Contributions per {insights.bucketSize === 'day' ? 'Day' : 'Week'}</h3>
+              <TimeSeriesBarChart
+                buckets={insights.contributions.map(({ start }) => start)}
+                series={[
+                  { label: 'Added', colorClassName: 'bg-hnai-teal-500', values: insights.contributions.map(({ added }) => added) },
+                  { label: 'Edited', colorClassName: 'bg-hnai-gold-500', values: insights.contributions.map(({ edited }) => edited) },
+                ]}
+                describeBucket={index => {
+                  const { start, added, edited } = insights.contributions[index];
+                  return `${formatBucketLabel(start, insights.bucketSize)}: ${added} added, ${edited} edited`;
+                }}
+              />
+            </div>
+            <div>
+              <h3 className={sectionTitleClassName}>Top Contributors</h3>
+              {insights.contributors.length > 0 ? (
+                <ul className="space-y-2">
+                  {insights.contributors.map(({ author, edited }) => (
+                    <li key={author} className="flex justify-between items-center gap-3 text-sm">
+                      <span className="min-w-0 truncate text-slate-700 dark:text-slate-200">{author}</span>
+                      <span className="shrink-0 text-xs text-slate-500 dark:text-slate-400 whitespace-nowrap">{edited} edit{edited === 1 ? '' : 's'}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-slate-500 dark:text-slate-400">No documents were edited in this period.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EngagementMetricsPanel;
@@ -0,0 +1,111 @@
+import React from 'react';
+import { SparklesIcon } from '../constants';
+import TimeSeriesBarChart from './common/TimeSeriesBarChart';
+import { QueryStat, SearchInsights } from '../services/searchLogService';
+import { formatBucketLabel } from '../services/dateRangeService';
+
+interface SearchInsightsPanelProps {
+  insights: SearchInsights | null; // Null while the search log loads
+}
+
+const formatShare = (share: number): string => `${Math.round(share * 100)}%`;
+
+interface QueryListProps {
+  title: string;
+  queries: QueryStat[];
+  emptyText: string;
+  detail: (stat: QueryStat) => string;
+}
+
+const QueryList: React.FC<QueryListProps> = ({ title, queries, emptyText, detail }) => (
+  <div>
+    <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">{title}</h3>
+    {queries.length > 0 ? (
+      <ul className="space-y-2">
+        {queries.map(stat => (
+          <li key={stat.query} className="flex justify-between items-start gap-3 text-sm">
+            <span className="min-w-0 break-words text-slate-700 dark:text-slate-200" title={`Last searched ${stat.lastSearchedAt.toLocaleString()}`}>{stat.query}</span>
+            <span className="shrink-0 text-xs text-slate-500 dark:text-slate-400 whitespace-nowrap">{detail(stat)}</span>
+          </li>
+        ))}
+      </ul>
+    ) : (
+      <p className="text-sm text-slate-500 dark:text-slate-400">{emptyText}</p>
+    )}
+  </div>
+);
+
+const timesLabel = (count: number): string => `${count}×`;
+
+const SearchInsightsPanel: React.FC<SearchInsightsPanelProps> = ({ insights }) => {
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg">
+      <div className="flex items-center gap-2 mb-4">
+        <SparklesIcon className="w-6 h-6 text-hnai-gold-500" />
+        <h2 className="text-xl font-semibold text-slate-700 dark:text-slate-200">Search Query Insights</h2>
+      </div>
+
+      {!insights ? (
+        <p className="text-slate-500 dark:text-slate-400">Loading search activity...</p>
+      ) : insights.hubSearchCount + insights.aiQuestionCount === 0 ? (
+        <p className="text-slate-500 dark:text-slate-400">No searches in this period. Searches in the Document Hub and questions to the AI Query Agent show up here.</p>
+      ) : (
+        <div className="space-y-6">
+          <dl className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {[
+              { label: 'Hub Searches', value: insights.hubSearchCount },
+              { label: 'AI Questions', value: insights.aiQuestionCount },
+              { label: 'Zero Results', value: formatShare(insights.zeroResultShare), hint: 'Of hub searches' },
+              { label: 'Result Opened', value: formatShare(insights.chosenShare), hint: 'Of hub searches' },
+              { label: 'Not Found', value: formatShare(insights.notFoundShare), hint: 'Of AI answers' },
+            ].map(({ label, value, hint }) => (
+              <div key={label}>
+                <dt className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">{label}</dt>
+                <dd className="text-2xl font-bold text-slate-800 dark:text-slate-100">{value}</dd>
+                {hint && <dd className="text-xs text-slate-500 dark:text-slate-400">{hint}</dd>}
+              </div>
+            ))}
+          </dl>
+
+          <div>
+            <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Searches per {insights.bucketSize === 'day' ? 'Day' : 'Week'}</h3>
+            <TimeSeriesBarChart
+              buckets={insights.trend.map(({ start }) => start)}
+              series={[
+                { label: 'Hub', colorClassName: 'bg-hnai-teal-500', values: insights.trend.map(({ hubSearches }) => hubSearches) },
+                { label: 'AI', colorClassName: 'bg-hnai-gold-500', values: insights.trend.map(({ aiQuestions }) => aiQuestions) },
+              ]}
+              describeBucket={index => {
+                const { start, hubSearches, aiQuestions, zeroResultSearches } = insights.trend[index];
+                return `${formatBucketLabel(start, insights.bucketSize)}: ${hubSearches} hub search${hubSearches === 1 ? '' : 'es'} (${zeroResultSearches} with no results), ${aiQuestions} AI question${aiQuestions === 1 ? '' : 's'}`;
+              }}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <QueryList
+              title="Top Queries"
+              queries={insights.topQueries}
+              emptyText="No queries yet."
+              detail={stat => `${timesLabel(stat.count)} · ${formatShare(stat.chosenShare)} opened`}
+            />
+            <QueryList
+              title="Zero-Result Searches"
+              queries={insights.zeroResultQueries}
+              emptyText="Every hub search found something."
+              detail={stat => timesLabel(stat.count)}
+            />
+            <QueryList
+              title="Unanswered Questions"
+              queries={insights.unansweredQuestions}
+              emptyText="The AI found an answer every time."
+              detail={stat => timesLabel(stat.count)}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchInsightsPanel;
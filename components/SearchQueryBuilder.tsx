@@ -0,0 +1,182 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { DocumentType } from '../types';
+import Button from './common/Button';
+import { DateComparison, QueryBuilderState, QueryCondition, QueryConditionField, createQueryCondition, formatSearchQuery, fromQueryBuilderState, parseSearchQuery, toQueryBuilderState } from '../services/searchQueryService';
+import { PlusCircleIcon, XMarkIcon } from '../constants';
+
+interface SearchQueryBuilderProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  availableTags: string[];
+}
+
+const FIELD_LABELS: Record<QueryConditionField, string> = {
+  text: 'Any text',
+  name: 'Name',
+  tag: 'Tag',
+  type: 'Type',
+  added: 'Date added',
+};
+
+const DATE_COMPARISON_LABELS: Record<DateComparison, string> = {
+  '=': 'on',
+  '>': 'after',
+  '>=': 'on or after',
+  '<': 'before',
+  '<=': 'on or before',
+  between: 'between',
+};
+
+const inputClassName = "p-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none";
+
+// Parses the text box into builder rows; null when the query is invalid or nests groups.
+const deriveBuilderState = (query: string): QueryBuilderState | null => {
+  const { query: parsed, error } = parseSearchQuery(query);
+  return error ? null : toQueryBuilderState(parsed);
+};
+
+/**
+ * Form view of the search box. Edits here rewrite the query text, and typing in the text box
+ * updates the rows, as long as the query is a flat list of conditions.
+ */
+const SearchQueryBuilder: React.FC<SearchQueryBuilderProps> = ({ query, onQueryChange, availableTags }) => {
+  const [builder, setBuilder] = useState<QueryBuilderState | null>(() => deriveBuilderState(query));
+  // The text we last wrote; rows with no value yet aren't in it, so it must not be parsed back over them.
+  const lastEmittedQuery = useRef(query);
+
+  useEffect(() => {
+    if (query === lastEmittedQuery.current) return;
+    lastEmittedQuery.current = query;
+    setBuilder(deriveBuilderState(query));
+  }, [query]);
+
+  const applyBuilder = (next: QueryBuilderState) => {
+    setBuilder(next);
+    const text = formatSearchQuery(fromQueryBuilderState(next));
+    lastEmittedQuery.current = text;
+    onQueryChange(text);
+  };
+
+  const updateCondition = (index: number, changes: Partial<QueryCondition>) => {
+    if (!builder) return;
+    applyBuilder({ ...builder, conditions: builder.conditions.map((condition, i) => i === index ? { ...condition, ...changes } : condition) });
+  };
+
+  const changeField = (index: number, field: QueryConditionField) => {
+    // Values rarely carry over between fields (a tag is not a date), so start the row afresh.
+    updateCondition(index, { ...createQueryCondition(field), negated: builder?.conditions[index].negated ?? false });
+  };
+
+  if (!builder) {
+    const { error } = parseSearchQuery(query);
+    return (
+      <div className="p-3 text-sm text-slate-600 dark:text-slate-300 bg-slate-50 dark:bg-slate-700/50 rounded-md">
+        {error
+          ? 'Fix the query above to edit it here.'
+          : 'This query nests groups, which the builder cannot show. Edit it in the search box, or start over.'}
+        <Button variant="ghost" size="sm" className="ml-2" onClick={() => applyBuilder({ connective: 'and', conditions: [createQueryCondition()] })}>
+          Start over
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 p-3 bg-slate-50 dark:bg-slate-700/50 rounded-md">
+      <div className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+        <span>Match</span>
+        <select
+          value={builder.connective}
+          onChange={(e) => applyBuilder({ ...builder, connective: e.target.value as 'and' | 'or' })}
+          className={inputClassName}
+          aria-label="How conditions combine"
+        >
+          <option value="and">all</option>
+          <option value="or">any</option>
+        </select>
+        <span>of these conditions:</span>
+      </div>
+
+      {builder.conditions.map((condition, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2">
+          <select
+            value={condition.negated ? 'not' : 'is'}
+            onChange={(e) => updateCondition(index, { negated: e.target.value === 'not' })}
+            className={inputClassName}
+            aria-label="Include or exclude"
+          >
+            <option value="is">Include</option>
+            <option value="not">Exclude</option>
+          </select>
+          <select
+            value={condition.field}
+            onChange={(e) => changeField(index, e.target.value as QueryConditionField)}
+            className={inputClassName}
+            aria-label="Field"
+          >
+            {(Object.keys(FIELD_LABELS) as QueryConditionField[]).map(field => (
+              <option key={field} value={field}>{FIELD_LABELS[field]}</option>
+            ))}
+          </select>
+
+          {condition.field === 'type' && (
+            <select value={condition.value} onChange={(e) => updateCondition(index, { value: e.target.value })} className={inputClassName} aria-label="Document type">
+              <option value="">Choose a type…</option>
+              {Object.values(DocumentType).map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+          )}
+          {condition.field === 'added' && (
+            <>
+              <select value={condition.comparison} onChange={(e) => updateCondition(index, { comparison: e.target.value as DateComparison })} className={inputClassName} aria-label="Date comparison">
+                {(Object.keys(DATE_COMPARISON_LABELS) as DateComparison[]).map(comparison => (
+                  <option key={comparison} value={comparison}>{DATE_COMPARISON_LABELS[comparison]}</option>
+                ))}
+              </select>
+              <input type="date" value={condition.value} onChange={(e) => updateCondition(index, { value: e.target.value })} className={inputClassName} aria-label="Date" />
+              {condition.comparison === 'between' && (
+                <>
+                  <span className="text-sm text-slate-600 dark:text-slate-300">and</span>
+                  <input type="date" value={condition.endDate} min={condition.value || undefined} onChange={(e) => updateCondition(index, { endDate: e.target.value })} className={inputClassName} aria-label="End date" />
+                </>
+              )}
+            </>
+          )}
+          {(condition.field === 'text' || condition.field === 'name' || condition.field === 'tag') && (
+            <input
+              type="text"
+              value={condition.value}
+              onChange={(e) => updateCondition(index, { value: e.target.value })}
+              list={condition.field === 'tag' ? 'query-builder-tags' : undefined}
+              placeholder={condition.field === 'tag' ? 'e.g. hr' : 'Word or phrase'}
+              className={`${inputClassName} flex-grow min-w-[8rem]`}
+              aria-label="Value"
+            />
+          )}
+
+          <button
+            onClick={() => applyBuilder({ ...builder, conditions: builder.conditions.filter((_, i) => i !== index) })}
+            className="p-1 text-slate-400 hover:text-red-600"
+            aria-label="Remove condition"
+            title="Remove"
+          >
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <datalist id="query-builder-tags">
+        {availableTags.map(tag => <option key={tag} value={tag} />)}
+      </datalist>
+      <Button
+        variant="ghost"
+        size="sm"
+        leftIcon={<PlusCircleIcon className="w-4 h-4" />}
+        onClick={() => setBuilder({ ...builder, conditions: [...builder.conditions, createQueryCondition()] })}
+      >
+        Add condition
+      </Button>
+    </div>
+  );
+};
+
+export default SearchQueryBuilder;
@@ -1,13 +1,14 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { CogIcon, SunIcon, MoonIcon, GlobeAltIcon, DocumentTextIcon, CommandLineIcon, ArchiveBoxXMarkIcon, InformationCircleIcon, ComputerDesktopIcon } from '../constants'; // Added more icons
-import { Language, Theme, UI_TRANSLATIONS, LANGUAGE_LABELS } from '../types';
+import { Collection, Document, TagRegistry, Language, Theme, UI_TRANSLATIONS, LANGUAGE_LABELS, AIProviderSettings, AIProviderType } from '../types';
 import Button from './common/Button';
 import Modal from './common/Modal'; // For confirmation
-import { isAIServiceAvailable } from '../services/geminiService'; // To check AI service status
-
-// Helper to get the current AI model name (simplified)
-const getAIModelName = () => 'gemini-2.5-flash'; // As per geminiService
+import { isAIServiceAvailable, getAIModelName, getActiveAIProvider, AI_PROVIDER_LABELS } from '../services/aiService'; // To check AI service status
+import { MIN_CONTEXT_TOKEN_BUDGET, MAX_CONTEXT_TOKEN_BUDGET } from '../services/retrievalService';
+import { getStorageEstimate, requestPersistentStorage, StorageEstimate, ImportWrite } from '../services/storageService';
+import { parseBundle, analyzeImport, planImport, ParsedBundle, ImportAnalysis, ImportMode, ConflictResolution, ImportReport, BundleSettings } from '../services/bundleService';
+import { DEFAULT_FETCH_PROXY_URL } from '../services/webPageService';
 
 interface SystemSettingsViewProps {
   currentTheme: Theme;
@@ -15,8 +16,33 @@ interface SystemSettingsViewProps {
   currentLanguage: Language;
   onLanguageChange: (language: Language) => void;
   onClearAllData: () => void;
+  contextTokenBudget: number;
+  onContextTokenBudgetChange: (budget: number) => void;
+  aiProviderSettings: AIProviderSettings;
+  onAIProviderSettingsChange: (settings: AIProviderSettings) => void;
+  documents: Document[];
+  collections: Collection[];
+  tagRegistry: TagRegistry;
+  onExportData: () => Promise<void>;
+  onImportData: (write: ImportWrite, settings: BundleSettings | null) => Promise<void>;
+  authorName: string;
+  onAuthorNameChange: (name: string) => void;
+  fetchProxyUrl: string;
+  onFetchProxyUrlChange: (url: string) => void;
 }
 
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unitIndex]}`;
+};
+
 const SettingsCard: React.FC<{ title: string; icon?: React.ReactNode; children: React.ReactNode }> = ({ title, icon, children }) => (
   <div className="bg-white dark:bg-slate-800 shadow-lg rounded-xl overflow-hidden">
     <div className="p-5 sm:p-6">
@@ -37,10 +63,80 @@ const SystemSettingsView: React.FC<SystemSettingsViewProps> = ({
   onThemeChange,
   currentLanguage,
   onLanguageChange,
-  onClearAllData
+  onClearAllData,
+  contextTokenBudget,
+  onContextTokenBudgetChange,
+  aiProviderSettings,
+  onAIProviderSettingsChange,
+  documents,
+  collections,
+  tagRegistry,
+  onExportData,
+  onImportData,
+  authorName,
+  onAuthorNameChange,
+  fetchProxyUrl,
+  onFetchProxyUrlChange
 }) => {
   const [showClearDataModal, setShowClearDataModal] = useState(false);
   const [showToast, setShowToast] = useState(false);
+  const [tokenBudgetDraft, setTokenBudgetDraft] = useState(String(contextTokenBudget));
+
+  const [providerDraft, setProviderDraft] = useState<AIProviderSettings>(aiProviderSettings);
+  const [authorNameDraft, setAuthorNameDraft] = useState(authorName);
+  const [fetchProxyDraft, setFetchProxyDraft] = useState(fetchProxyUrl);
+  const [isExporting, setIsExporting] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; parsed: ParsedBundle; analysis: ImportAnalysis } | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [conflictResolution, setConflictResolution] = useState<ConflictResolution>('keep-existing');
+  const [applyImportedSettings, setApplyImportedSettings] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+
+  const refreshStorageEstimate = useCallback(() => {
+    getStorageEstimate()
+      .then(setStorageEstimate)
+      .catch(error => console.error("Error reading storage estimate:", error));
+  }, []);
+
+  useEffect(() => {
+    refreshStorageEstimate();
+  }, [refreshStorageEstimate, documents.length]);
+
+  const handleRequestPersistence = async () => {
+    await requestPersistentStorage();
+    refreshStorageEstimate();
+  };
+
+  useEffect(() => {
+    setTokenBudgetDraft(String(contextTokenBudget));
+  }, [contextTokenBudget]);
+
+  useEffect(() => {
+    setProviderDraft(aiProviderSettings);
+  }, [aiProviderSettings]);
+
+  useEffect(() => {
+    setAuthorNameDraft(authorName);
+  }, [authorName]);
+
+  const handleAuthorNameCommit = () => {
+    if (authorNameDraft.trim() === authorName) return;
+    onAuthorNameChange(authorNameDraft);
+    triggerToast();
+  };
+
+  useEffect(() => {
+    setFetchProxyDraft(fetchProxyUrl);
+  }, [fetchProxyUrl]);
+
+  const handleFetchProxyCommit = () => {
+    if (fetchProxyDraft.trim() === fetchProxyUrl) return;
+    onFetchProxyUrlChange(fetchProxyDraft);
+    triggerToast();
+  };
 
   const t = useCallback((key: string) => {
     return UI_TRANSLATIONS[currentLanguage]?.[key] || UI_TRANSLATIONS[Language.EN][key] || key;
@@ -56,11 +152,77 @@ const SystemSettingsView: React.FC<SystemSettingsViewProps> = ({
     triggerToast();
   };
   
+  const handleTokenBudgetCommit = () => {
+    const budget = Number(tokenBudgetDraft);
+    if (!Number.isFinite(budget) || budget <= 0) {
+      setTokenBudgetDraft(String(contextTokenBudget));
+      return;
+    }
+    if (budget !== contextTokenBudget) {
+      onContextTokenBudgetChange(budget);
+      triggerToast();
+    }
+  };
+
+  const handleProviderDraftChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setProviderDraft(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSaveProviderSettings = () => {
+    onAIProviderSettingsChange(providerDraft);
+    triggerToast();
+  };
+
+  const isProviderDraftDirty = JSON.stringify(providerDraft) !== JSON.stringify(aiProviderSettings);
+
   const triggerToast = () => {
     setShowToast(true);
     setTimeout(() => setShowToast(false), 3000);
   };
 
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExportData();
+    } catch (error) {
+      console.error("Export failed:", error);
+      alert(`Export failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    setIsExporting(false);
+  };
+
+  const handleImportFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow choosing the same file again
+    if (!file) return;
+    try {
+      const parsed = parseBundle(await file.text());
+      setPendingImport({ fileName: file.name, parsed, analysis: analyzeImport(parsed.bundle, documents) });
+      setImportMode('merge');
+      setConflictResolution('keep-existing');
+      setApplyImportedSettings(false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Could not read the import file.");
+    }
+  };
+
+  const handleConfirmImport = async () => {
+    if (!pendingImport) return;
+    const { bundle } = pendingImport.parsed;
+    const { write, report } = planImport(bundle, pendingImport.analysis, documents, collections, tagRegistry, importMode, conflictResolution);
+    setIsImporting(true);
+    try {
+      await onImportData(write, applyImportedSettings ? bundle.settings : null);
+      setPendingImport(null);
+      setImportReport(report);
+    } catch (error) {
+      console.error("Import failed:", error);
+      alert(`Import failed; no changes were made. ${error instanceof Error ? error.message : ''}`);
+    }
+    setIsImporting(false);
+  };
+
   const handleConfirmClearData = () => {
     onClearAllData();
     setShowClearDataModal(false);
@@ -116,6 +278,48 @@ const SystemSettingsView: React.FC<SystemSettingsViewProps> = ({
 
       {/* AI Configuration */}
       <SettingsCard title={t('ai_config_title')} icon={<CommandLineIcon className="w-6 h-6" />}>
+        <div>
+          <label htmlFor="ai-provider-select" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">{t('ai_provider_label')}</label>
+          <select
+            id="ai-provider-select"
+            name="provider"
+            value={providerDraft.provider}
+            onChange={handleProviderDraftChange}
+            className="w-full p-2.5 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none"
+          >
+            {Object.values(AIProviderType).map(providerType => (
+              <option key={providerType} value={providerType}>{AI_PROVIDER_LABELS[providerType]}</option>
+            ))}
+          </select>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{t('ai_provider_help')}</p>
+        </div>
+        {providerDraft.provider === AIProviderType.OPENAI_COMPATIBLE && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {([
+              { name: 'openAIBaseUrl', labelKey: 'openai_base_url_label', type: 'url', placeholder: 'http://localhost:11434/v1' },
+              { name: 'openAIApiKey', labelKey: 'openai_api_key_label', type: 'password', placeholder: 'sk-...' },
+              { name: 'openAIModel', labelKey: 'openai_model_label', type: 'text', placeholder: 'llama3.1' },
+              { name: 'openAIEmbeddingModel', labelKey: 'openai_embedding_model_label', type: 'text', placeholder: 'nomic-embed-text' },
+            ] as const).map(field => (
+              <div key={field.name}>
+                <label htmlFor={field.name} className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">{t(field.labelKey)}</label>
+                <input
+                  id={field.name}
+                  name={field.name}
+                  type={field.type}
+                  value={providerDraft[field.name]}
+                  onChange={handleProviderDraftChange}
+                  placeholder={field.placeholder}
+                  autoComplete="off"
+                  className="w-full p-2.5 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+        <Button onClick={handleSaveProviderSettings} disabled={!isProviderDraftDirty}>
+          {t('save_ai_settings_button')}
+        </Button>
         <div className="space-y-2">
           <p className="text-sm text-slate-700 dark:text-slate-300">
             <span className="font-medium">{t('ai_service_status_label')}</span>{' '}
@@ -128,11 +332,92 @@ const SystemSettingsView: React.FC<SystemSettingsViewProps> = ({
             <span className="font-medium">{t('ai_model_label')}</span> {getAIModelName()}
           </p>
         </div>
+        <div>
+          <label htmlFor="context-token-budget" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">{t('context_token_budget_label')}</label>
+          <input
+            id="context-token-budget"
+            type="number"
+            min={MIN_CONTEXT_TOKEN_BUDGET}
+            max={MAX_CONTEXT_TOKEN_BUDGET}
+            step={500}
+            value={tokenBudgetDraft}
+            onChange={(e) => setTokenBudgetDraft(e.target.value)}
+            onBlur={handleTokenBudgetCommit}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleTokenBudgetCommit(); }}
+            className="w-full sm:w-48 p-2.5 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none"
+          />
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{t('context_token_budget_help')}</p>
+        </div>
       </SettingsCard>
 
       {/* Data Management */}
       <SettingsCard title={t('data_management_title')} icon={<ArchiveBoxXMarkIcon className="w-6 h-6" />}>
         <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">{t('data_storage_info')}</p>
+        <div className="mb-4">
+          <label htmlFor="author-name" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">{t('author_name_label')}</label>
+          <input
+            id="author-name"
+            type="text"
+            value={authorNameDraft}
+            onChange={(e) => setAuthorNameDraft(e.target.value)}
+            onBlur={handleAuthorNameCommit}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAuthorNameCommit(); }}
+            className="w-full sm:w-72 p-2.5 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none"
+          />
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{t('author_name_help')}</p>
+        </div>
+        <div className="mb-4">
+          <label htmlFor="fetch-proxy-url" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">{t('fetch_proxy_label')}</label>
+          <input
+            id="fetch-proxy-url"
+            type="text"
+            value={fetchProxyDraft}
+            onChange={(e) => setFetchProxyDraft(e.target.value)}
+            onBlur={handleFetchProxyCommit}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleFetchProxyCommit(); }}
+            placeholder={DEFAULT_FETCH_PROXY_URL}
+            className="w-full p-2.5 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none font-mono text-sm"
+          />
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{t('fetch_proxy_help')}</p>
+        </div>
+        <div className="mb-4 space-y-2 text-sm text-slate-700 dark:text-slate-300">
+          <p><span className="font-medium">{t('storage_documents_count')}:</span> {documents.length}</p>
+          {storageEstimate && storageEstimate.quotaBytes > 0 ? (
+            <div>
+              <div className="flex justify-between mb-1">
+                <span className="font-medium">{t('storage_usage_label')}</span>
+                <span>{formatBytes(storageEstimate.usageBytes)} / {formatBytes(storageEstimate.quotaBytes)}</span>
+              </div>
+              <div className="w-full bg-slate-200 rounded-full h-2 dark:bg-slate-700">
+                <div
+                  className={`h-2 rounded-full ${storageEstimate.usageBytes / storageEstimate.quotaBytes > 0.9 ? 'bg-red-500' : 'bg-hnai-teal-500'}`}
+                  style={{ width: `${Math.max(1, Math.min(100, (storageEstimate.usageBytes / storageEstimate.quotaBytes) * 100))}%` }}
+                ></div>
+              </div>
+              {storageEstimate.isPersisted ? (
+                <p className="text-xs text-green-600 dark:text-green-400 mt-2">{t('storage_persisted')}</p>
+              ) : (
+                <Button variant="ghost" size="sm" onClick={handleRequestPersistence} className="mt-2">
+                  {t('storage_persist_button')}
+                </Button>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500 dark:text-slate-400">{t('storage_usage_unavailable')}</p>
+          )}
+        </div>
+        <div>
+          <p className="text-sm text-slate-600 dark:text-slate-400 mb-3">{t('import_export_help')}</p>
+          <div className="flex flex-wrap gap-3">
+            <Button variant="secondary" onClick={handleExport} disabled={isExporting}>
+              {t('export_data_button')}
+            </Button>
+            <Button variant="secondary" onClick={() => importInputRef.current?.click()}>
+              {t('import_data_button')}
+            </Button>
+            <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImportFileChange} className="hidden" aria-hidden="true" />
+          </div>
+        </div>
         <Button
           variant="danger"
           onClick={() => setShowClearDataModal(true)}
@@ -152,7 +437,7 @@ const SystemSettingsView: React.FC<SystemSettingsViewProps> = ({
             <br />
             Developed by RASHINI S (AI Product Engineer Team).
           </li>
-          <li><span className="font-medium">{t('app_powered_by_label')}</span> Gemini API</li>
+          <li><span className="font-medium">{t('app_powered_by_label')}</span> {getActiveAIProvider().label}</li>
         </ul>
       </SettingsCard>
 
@@ -172,6 +457,89 @@ const SystemSettingsView: React.FC<SystemSettingsViewProps> = ({
         </div>
       </Modal>
       
+      {/* Import Modal */}
+      {pendingImport && (
+        <Modal isOpen={!!pendingImport} onClose={() => setPendingImport(null)} title={t('import_title')} size="lg">
+          <div className="space-y-4 text-sm text-slate-700 dark:text-slate-300">
+            <div>
+              <p><span className="font-medium">{t('import_file_label')}</span> {pendingImport.fileName}</p>
+              <p><span className="font-medium">{t('import_exported_at_label')}</span> {pendingImport.parsed.bundle.exportedAt.toLocaleString()}</p>
+            </div>
+            <ul className="grid grid-cols-2 gap-2">
+              <li className="p-2 rounded bg-slate-50 dark:bg-slate-700/50">{t('import_summary_new')}: <strong>{pendingImport.analysis.newDocuments.length}</strong></li>
+              <li className="p-2 rounded bg-slate-50 dark:bg-slate-700/50">{t('import_summary_identical')}: <strong>{pendingImport.analysis.identicalDocuments.length}</strong></li>
+              <li className="p-2 rounded bg-slate-50 dark:bg-slate-700/50">{t('import_summary_conflicts')}: <strong>{pendingImport.analysis.conflicts.length}</strong></li>
+              {pendingImport.parsed.invalidDocumentCount > 0 && (
+                <li className="p-2 rounded bg-amber-50 dark:bg-amber-900/30">{t('import_summary_invalid')}: <strong>{pendingImport.parsed.invalidDocumentCount}</strong></li>
+              )}
+            </ul>
+            <fieldset>
+              <legend className="font-medium mb-2">{t('import_mode_label')}</legend>
+              {(['merge', 'replace'] as const).map(mode => (
+                <label key={mode} className="flex items-center space-x-2 cursor-pointer mb-1">
+                  <input type="radio" name="import-mode" value={mode} checked={importMode === mode} onChange={() => setImportMode(mode)} className="text-hnai-teal-600 focus:ring-hnai-teal-500" />
+                  <span>{t(`import_mode_${mode}`)}</span>
+                </label>
+              ))}
+              {importMode === 'replace' && <p className="text-xs text-red-600 dark:text-red-400 mt-1">{t('import_replace_warning')}</p>}
+            </fieldset>
+            {importMode === 'merge' && pendingImport.analysis.conflicts.length > 0 && (
+              <div>
+                <label htmlFor="conflict-resolution" className="block font-medium mb-2">{t('import_conflict_label')}</label>
+                <select
+                  id="conflict-resolution"
+                  value={conflictResolution}
+                  onChange={(e) => setConflictResolution(e.target.value as ConflictResolution)}
+                  className="w-full p-2.5 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none"
+                >
+                  <option value="keep-existing">{t('conflict_keep_existing')}</option>
+                  <option value="use-imported">{t('conflict_use_imported')}</option>
+                  <option value="keep-both">{t('conflict_keep_both')}</option>
+                </select>
+                <ul className="mt-2 max-h-40 overflow-y-auto space-y-1 text-xs">
+                  {pendingImport.analysis.conflicts.map(({ existing, imported }) => (
+                    <li key={existing.id} className="p-2 rounded border border-slate-200 dark:border-slate-700">
+                      <span className="font-mono text-slate-500 dark:text-slate-400">{existing.id}</span>
+                      <br />
+                      {t('import_conflict_yours')} {existing.name} &middot; {t('import_conflict_imported')} {imported.name}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input type="checkbox" checked={applyImportedSettings} onChange={() => setApplyImportedSettings(!applyImportedSettings)} className="form-checkbox h-4 w-4 text-hnai-teal-600 rounded focus:ring-hnai-teal-500" />
+              <span>{t('import_apply_settings')}</span>
+            </label>
+            <div className="flex justify-end space-x-3 pt-2">
+              <Button variant="secondary" onClick={() => setPendingImport(null)} disabled={isImporting}>{t('cancel_button')}</Button>
+              <Button variant={importMode === 'replace' ? 'danger' : 'primary'} onClick={handleConfirmImport} disabled={isImporting}>{t('import_confirm_button')}</Button>
+            </div>
+          </div>
+        </Modal>
+      )}
+
+      {/* Import Report */}
+      {importReport && (
+        <Modal isOpen={!!importReport} onClose={() => setImportReport(null)} title={t('import_complete_title')} size="md">
+          <ul className="space-y-1 text-sm text-slate-700 dark:text-slate-300">
+            {([
+              ['report_added', importReport.added],
+              ['report_replaced', importReport.replaced],
+              ['report_kept_existing', importReport.keptExisting],
+              ['report_kept_both', importReport.keptBoth],
+              ['report_skipped', importReport.skippedIdentical],
+              ['report_removed', importReport.removed],
+            ] as const).filter(([, count]) => count > 0).map(([key, count]) => (
+              <li key={key}>{t(key)}: <strong>{count}</strong></li>
+            ))}
+          </ul>
+          <div className="mt-6 flex justify-end">
+            <Button onClick={() => setImportReport(null)}>{t('close_button')}</Button>
+          </div>
+        </Modal>
+      )}
+
       {/* Toast Notification */}
       {showToast && (
         <div className="fixed bottom-5 right-5 bg-green-500 text-white py-2 px-4 rounded-lg shadow-md transition-opacity duration-300">
@@ -0,0 +1,331 @@
+import React, { useMemo, useState } from 'react';
+import { Document, TagRegistry, TagSynonymGroup } from '../types';
+import Button from './common/Button';
+import { TagIcon, PencilSquareIcon, TrashIcon, PlusCircleIcon, XMarkIcon, MagnifyingGlassIcon } from '../constants';
+import { dedupeTags, findSynonymGroup, getTagUsage, isSameTag, validateSynonymGroup } from '../services/tagService';
+
+export interface TagActions {
+  // Renames or merges fromTags into targetTag on every document, or removes them when targetTag is null.
+  replace: (fromTags: string[], targetTag: string | null) => Promise<void>;
+  saveSynonymGroups: (groups: TagSynonymGroup[]) => Promise<void>;
+}
+
+interface TagManagerViewProps {
+  documents: Document[];
+  tagRegistry: TagRegistry;
+  actions: TagActions;
+}
+
+const inputClassName = "p-2 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-hnai-teal-500 outline-none";
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const parseTagList = (text: string): string[] => dedupeTags(text.split(','));
+
+// Where the synonym form is open: adding a group, or editing the one with this canonical tag.
+type SynonymDraft = { canonical: string; synonyms: string; editing?: string };
+
+const TagManagerView: React.FC<TagManagerViewProps> = ({ documents, tagRegistry, actions }) => {
+  const [filterText, setFilterText] = useState('');
+  const [selectedTags, setSelectedTags] = useState<Set<string>>(new Set());
+  const [renamingTag, setRenamingTag] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [synonymDraft, setSynonymDraft] = useState<SynonymDraft | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const usage = useMemo(() => getTagUsage(documents, tagRegistry), [documents, tagRegistry]);
+  // Tags in a synonym group are kept even when unused: they still widen searches for the group.
+  const unusedTags = useMemo(
+    () => usage.filter(entry => entry.count === 0 && !findSynonymGroup(entry.tag, tagRegistry.synonymGroups)).map(entry => entry.tag),
+    [usage, tagRegistry]
+  );
+  const visibleUsage = useMemo(() => {
+    const needle = filterText.trim().toLowerCase();
+    return needle ? usage.filter(entry => entry.tag.toLowerCase().includes(needle) || entry.canonical?.toLowerCase().includes(needle)) : usage;
+  }, [usage, filterText]);
+  // Selection is kept by exact tag; drop anything that was renamed or deleted since.
+  const selected = usage.filter(entry => selectedTags.has(entry.tag)).map(entry => entry.tag);
+  const countFor = (tag: string) => usage.find(entry => isSameTag(entry.tag, tag))?.count ?? 0;
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "The tags could not be updated.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const toggleSelected = (tag: string) => {
+    setSelectedTags(prev => {
+      const next = new Set(prev);
+      if (next.has(tag)) next.delete(tag); else next.add(tag);
+      return next;
+    });
+  };
+
+  const commitRename = async () => {
+    const fromTag = renamingTag;
+    const target = renameValue.trim();
+    setRenamingTag(null);
+    if (!fromTag || !target || target === fromTag) return;
+    const existing = usage.find(entry => isSameTag(entry.tag, target) && !isSameTag(entry.tag, fromTag));
+    if (existing && !window.confirm(`"${existing.tag}" already exists. Merge "${fromTag}" into it? ${pluralize(countFor(fromTag), 'document')} will be retagged.`)) return;
+    await runAction(() => actions.replace([fromTag], existing ? existing.tag : target));
+  };
+
+  const handleMerge = async () => {
+    const target = mergeTarget.trim();
+    if (selected.length < 2 || !target) return;
+    const affected = documents.filter(doc => doc.tags.some(tag => selected.some(from => isSameTag(tag, from)))).length;
+    if (!window.confirm(`Merge ${selected.map(tag => `"${tag}"`).join(', ')} into "${target}"? ${pluralize(affected, 'document')} will be retagged.`)) return;
+    await runAction(() => actions.replace(selected, target));
+    setSelectedTags(new Set());
+    setMergeTarget('');
+  };
+
+  const handleDelete = async (tags: string[]) => {
+    const affected = documents.filter(doc => doc.tags.some(tag => tags.some(from => isSameTag(tag, from)))).length;
+    const subject = tags.length === 1 ? `the tag "${tags[0]}"` : pluralize(tags.length, 'tag');
+    const detail = affected > 0 ? ` ${tags.length === 1 ? 'It' : 'They'} will be removed from ${pluralize(affected, 'document')}; the documents themselves are kept.` : '';
+    if (!window.confirm(`Delete ${subject}?${detail}`)) return;
+    await runAction(() => actions.replace(tags, null));
+    setSelectedTags(new Set());
+  };
+
+  const commitSynonymDraft = async () => {
+    if (!synonymDraft) return;
+    const group: TagSynonymGroup = {
+      canonical: synonymDraft.canonical.trim(),
+      synonyms: parseTagList(synonymDraft.synonyms).filter(tag => !isSameTag(tag, synonymDraft.canonical)),
+    };
+    const problem = validateSynonymGroup(group, tagRegistry.synonymGroups, synonymDraft.editing);
+    if (problem) {
+      alert(problem);
+      return;
+    }
+    const others = tagRegistry.synonymGroups.filter(other => synonymDraft.editing === undefined || !isSameTag(other.canonical, synonymDraft.editing));
+    await runAction(() => actions.saveSynonymGroups([...others, group]));
+    setSynonymDraft(null);
+  };
+
+  const removeSynonymGroup = (group: TagSynonymGroup) => {
+    if (!window.confirm(`Stop treating ${group.synonyms.map(tag => `"${tag}"`).join(', ')} as synonyms of "${group.canonical}"? No documents are changed.`)) return;
+    runAction(() => actions.saveSynonymGroups(tagRegistry.synonymGroups.filter(other => other !== group)));
+  };
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 space-y-8 bg-slate-50 dark:bg-slate-900/50 min-h-full">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <TagIcon className="w-8 h-8 text-hnai-teal-600 dark:text-hnai-teal-400" />
+          <div>
+            <h1 className="text-3xl font-bold text-slate-800 dark:text-slate-100">Tag Management</h1>
+            <p className="text-sm text-slate-500 dark:text-slate-400">{pluralize(usage.length, 'tag')}, {unusedTags.length} unused</p>
+          </div>
+        </div>
+        <Button variant="secondary" size="sm" leftIcon={<TrashIcon className="w-4 h-4" />} onClick={() => handleDelete(unusedTags)} disabled={unusedTags.length === 0 || isWorking}>
+          Delete unused tags ({unusedTags.length})
+        </Button>
+      </div>
+
+      <section className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative flex-grow min-w-[12rem]">
+            <MagnifyingGlassIcon className="w-4 h-4 text-slate-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={filterText}
+              onChange={(e) => setFilterText(e.target.value)}
+              placeholder="Find a tag..."
+              className={`${inputClassName} w-full pl-8`}
+              aria-label="Find a tag"
+            />
+          </div>
+          {selected.length >= 2 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <span>Merge {selected.length} selected into</span>
+              <input
+                value={mergeTarget}
+                onChange={(e) => setMergeTarget(e.target.value)}
+                list="tag-merge-targets"
+                placeholder={selected[0]}
+                className={inputClassName}
+                aria-label="Tag to merge into"
+              />
+              <datalist id="tag-merge-targets">
+                {selected.map(tag => <option key={tag} value={tag} />)}
+              </datalist>
+              <Button size="sm" onClick={handleMerge} disabled={!mergeTarget.trim() || isWorking}>Merge</Button>
+            </div>
+          )}
+          {selected.length > 0 && (
+            <Button variant="danger" size="sm" onClick={() => handleDelete(selected)} disabled={isWorking}>
+              Delete {pluralize(selected.length, 'tag')}
+            </Button>
+          )}
+        </div>
+
+        {usage.length === 0 ? (
+          <p className="text-slate-500 dark:text-slate-400">No tags yet. Tags added to documents appear here.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase tracking-wider text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                  <th className="py-2 pr-2 w-8"><span className="sr-only">Select</span></th>
+                  <th className="py-2 pr-4">Tag</th>
+                  <th className="py-2 pr-4 text-right">Documents</th>
+                  <th className="py-2"><span className="sr-only">Actions</span></th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleUsage.map(entry => (
+                  <tr key={entry.tag} className="group border-b border-slate-100 dark:border-slate-700/60 hover:bg-slate-50 dark:hover:bg-slate-700/40">
+                    <td className="py-2 pr-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedTags.has(entry.tag)}
+                        onChange={() => toggleSelected(entry.tag)}
+                        className="rounded text-hnai-teal-600 focus:ring-hnai-teal-500"
+                        aria-label={`Select ${entry.tag}`}
+                      />
+                    </td>
+                    <td className="py-2 pr-4">
+                      {renamingTag === entry.tag ? (
+                        <input
+                          autoFocus
+                          value={renameValue}
+                          onChange={(e) => setRenameValue(e.target.value)}
+                          onBlur={commitRename}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitRename();
+                            if (e.key === 'Escape') setRenamingTag(null);
+                          }}
+                          className={inputClassName}
+                          aria-label={`New name for ${entry.tag}`}
+                        />
+                      ) : (
+                        <span className="inline-flex flex-wrap items-center gap-2">
+                          <span className="px-2 py-0.5 bg-hnai-teal-100 dark:bg-hnai-teal-700 text-hnai-teal-700 dark:text-hnai-teal-200 rounded-full">{entry.tag}</span>
+                          {entry.canonical && <span className="text-xs text-slate-500 dark:text-slate-400">synonym of "{entry.canonical}"</span>}
+                          {unusedTags.includes(entry.tag) && <span className="text-xs text-amber-600 dark:text-amber-400">unused</span>}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-right tabular-nums text-slate-700 dark:text-slate-300">{entry.count}</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => { setRenamingTag(entry.tag); setRenameValue(entry.tag); }}
+                        disabled={isWorking}
+                        className="p-1 text-slate-400 hover:text-hnai-teal-600"
+                        aria-label={`Rename ${entry.tag}`}
+                        title="Rename or merge"
+                      >
+                        <PencilSquareIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete([entry.tag])}
+                        disabled={isWorking}
+                        className="p-1 text-slate-400 hover:text-red-600"
+                        aria-label={`Delete ${entry.tag}`}
+                        title="Delete"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {visibleUsage.length === 0 && <p className="py-3 text-slate-500 dark:text-slate-400">No tags match "{filterText}".</p>}
+          </div>
+        )}
+      </section>
+
+      <section className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-xl font-semibold text-slate-700 dark:text-slate-200">Synonyms</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400">Searching for or filtering by any tag in a group also finds documents tagged with the others.</p>
+          </div>
+          {!synonymDraft && (
+            <Button variant="secondary" size="sm" leftIcon={<PlusCircleIcon className="w-4 h-4" />} onClick={() => setSynonymDraft({ canonical: '', synonyms: '' })}>
+              Add synonym group
+            </Button>
+          )}
+        </div>
+
+        {synonymDraft && (
+          <div className="flex flex-wrap items-end gap-3 p-3 bg-slate-50 dark:bg-slate-700/50 rounded-md">
+            <label className="text-sm text-slate-700 dark:text-slate-300">
+              <span className="block mb-1">Main tag</span>
+              <input
+                autoFocus
+                value={synonymDraft.canonical}
+                onChange={(e) => setSynonymDraft({ ...synonymDraft, canonical: e.target.value })}
+                list="tag-manager-tags"
+                placeholder="e.g. hr"
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex-grow text-sm text-slate-700 dark:text-slate-300">
+              <span className="block mb-1">Synonyms (comma-separated)</span>
+              <input
+                value={synonymDraft.synonyms}
+                onChange={(e) => setSynonymDraft({ ...synonymDraft, synonyms: e.target.value })}
+                onKeyDown={(e) => { if (e.key === 'Enter') commitSynonymDraft(); }}
+                placeholder="e.g. human resources, people ops"
+                className={`${inputClassName} w-full`}
+              />
+            </label>
+            <datalist id="tag-manager-tags">
+              {usage.map(entry => <option key={entry.tag} value={entry.tag} />)}
+            </datalist>
+            <Button size="sm" onClick={commitSynonymDraft} disabled={isWorking}>Save</Button>
+            <Button variant="ghost" size="sm" onClick={() => setSynonymDraft(null)}>Cancel</Button>
+          </div>
+        )}
+
+        {tagRegistry.synonymGroups.length === 0 && !synonymDraft ? (
+          <p className="text-slate-500 dark:text-slate-400">No synonyms defined.</p>
+        ) : (
+          <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+            {tagRegistry.synonymGroups.map(group => (
+              <li key={group.canonical} className="flex flex-wrap items-center gap-2 py-2">
+                <span className="px-2 py-0.5 text-sm font-medium bg-hnai-teal-100 dark:bg-hnai-teal-700 text-hnai-teal-700 dark:text-hnai-teal-200 rounded-full">{group.canonical}</span>
+                <span className="text-slate-400">=</span>
+                {group.synonyms.map(tag => (
+                  <span key={tag} className="px-2 py-0.5 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-full">{tag}</span>
+                ))}
+                <span className="ml-auto whitespace-nowrap">
+                  <button
+                    onClick={() => setSynonymDraft({ canonical: group.canonical, synonyms: group.synonyms.join(', '), editing: group.canonical })}
+                    className="p-1 text-slate-400 hover:text-hnai-teal-600"
+                    aria-label={`Edit synonyms of ${group.canonical}`}
+                    title="Edit"
+                  >
+                    <PencilSquareIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => removeSynonymGroup(group)}
+                    className="p-1 text-slate-400 hover:text-red-600"
+                    aria-label={`Remove synonyms of ${group.canonical}`}
+                    title="Remove group"
+                  >
+                    <XMarkIcon className="w-4 h-4" />
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default TagManagerView;
@@ -0,0 +1,23 @@
+import React from 'react';
+import { TextRange } from '../../services/fuzzySearchService';
+
+interface HighlightedTextProps {
+  text: string;
+  ranges: TextRange[]; // Sorted, non-overlapping offsets into text
+  markClassName?: string;
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, ranges, markClassName = 'bg-hnai-gold-200 dark:bg-hnai-gold-700 text-inherit rounded-sm' }) => {
+  if (ranges.length === 0) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  ranges.forEach((range, index) => {
+    if (range.start > lastIndex) parts.push(text.slice(lastIndex, range.start));
+    parts.push(<mark key={index} className={markClassName}>{text.slice(range.start, range.end)}</mark>);
+    lastIndex = range.end;
+  });
+  if (lastIndex < text.length) parts.push(text.slice(lastIndex));
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
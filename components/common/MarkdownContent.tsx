@@ -0,0 +1,109 @@
+import React, { useMemo } from 'react';
+import { CodeTokenKind, MarkdownBlock, MarkdownInline, highlightCode, parseMarkdown } from '../../services/markdownService';
+
+interface MarkdownContentProps {
+  text: string;
+  className?: string;
+  // Renders plain text runs, e.g. to turn [1] citation markers into buttons. Defaults to the text itself.
+  renderText?: (text: string) => React.ReactNode;
+}
+
+const HEADING_CLASSES = ['text-xl font-bold', 'text-lg font-bold', 'text-base font-bold', 'text-base font-semibold', 'text-sm font-semibold', 'text-sm font-semibold'];
+
+const CODE_TOKEN_CLASSES: Record<CodeTokenKind, string> = {
+  keyword: 'text-violet-300',
+  string: 'text-emerald-300',
+  comment: 'text-slate-400 italic',
+  number: 'text-amber-300',
+  plain: '',
+};
+
+const ALIGNMENT_CLASSES = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+const renderInline = (nodes: MarkdownInline[], renderText: (text: string) => React.ReactNode): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.kind) {
+      case 'text': return <React.Fragment key={index}>{renderText(node.text)}</React.Fragment>;
+      case 'break': return <br key={index} />;
+      case 'code': return <code key={index} className="px-1 py-0.5 rounded bg-slate-200/70 dark:bg-slate-900/60 font-mono text-[0.85em]">{node.text}</code>;
+      case 'strong': return <strong key={index} className="font-semibold">{renderInline(node.children, renderText)}</strong>;
+      case 'emphasis': return <em key={index}>{renderInline(node.children, renderText)}</em>;
+      case 'strikethrough': return <del key={index}>{renderInline(node.children, renderText)}</del>;
+      case 'link': return (
+        <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="text-hnai-teal-600 dark:text-hnai-teal-400 underline break-words">
+          {renderInline(node.children, renderText)}
+        </a>
+      );
+    }
+  });
+
+const renderBlocks = (blocks: MarkdownBlock[], renderText: (text: string) => React.ReactNode): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.kind) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+        return <Tag key={index} className={HEADING_CLASSES[block.level - 1]}>{renderInline(block.children, renderText)}</Tag>;
+      }
+      case 'paragraph': return <p key={index}>{renderInline(block.children, renderText)}</p>;
+      case 'rule': return <hr key={index} className="border-slate-300 dark:border-slate-600" />;
+      case 'quote': return (
+        <blockquote key={index} className="pl-3 border-l-4 border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 space-y-2">
+          {renderBlocks(block.blocks, renderText)}
+        </blockquote>
+      );
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => <li key={itemIndex} className="space-y-1">{renderBlocks(item, renderText)}</li>);
+        return block.ordered
+          ? <ol key={index} start={block.start} className="list-decimal pl-6 space-y-1">{items}</ol>
+          : <ul key={index} className="list-disc pl-6 space-y-1">{items}</ul>;
+      }
+      case 'code': return (
+        <div key={index} className="rounded-md overflow-hidden bg-slate-900 text-slate-100">
+          {block.language && <div className="px-3 py-1 text-xs text-slate-400 border-b border-slate-700">{block.language}</div>}
+          <pre className="p-3 overflow-x-auto text-xs font-mono whitespace-pre">
+            <code>
+              {highlightCode(block.text, block.language).map((token, tokenIndex) => (
+                token.kind === 'plain' ? token.text : <span key={tokenIndex} className={CODE_TOKEN_CLASSES[token.kind]}>{token.text}</span>
+              ))}
+            </code>
+          </pre>
+        </div>
+      );
+      case 'table': return (
+        <div key={index} className="overflow-x-auto">
+          <table className="min-w-full text-sm border-collapse">
+            <thead>
+              <tr>
+                {block.header.map((cell, column) => (
+                  <th key={column} className={`px-2 py-1 border border-slate-300 dark:border-slate-600 bg-slate-100 dark:bg-slate-700 font-semibold ${ALIGNMENT_CLASSES[block.alignments[column] ?? 'left']}`}>
+                    {renderInline(cell, renderText)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, column) => (
+                    <td key={column} className={`px-2 py-1 border border-slate-300 dark:border-slate-600 align-top ${ALIGNMENT_CLASSES[block.alignments[column] ?? 'left']}`}>
+                      {renderInline(cell, renderText)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    }
+  });
+
+const renderPlainText = (text: string): React.ReactNode => text;
+
+/** Renders Markdown as React elements. Raw HTML in the text is displayed, never interpreted. */
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ text, className = '', renderText = renderPlainText }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className={`space-y-2 break-words ${className}`}>{renderBlocks(blocks, renderText)}</div>;
+};
+
+export default MarkdownContent;
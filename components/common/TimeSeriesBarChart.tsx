@@ -0,0 +1,47 @@
+import React from 'react';
+
+export interface BarSeries {
+  label: string;
+  colorClassName: string; // Tailwind background class, e.g. "bg-hnai-teal-500"
+  values: number[]; // One per bucket
+}
+
+interface TimeSeriesBarChartProps {
+  buckets: Date[]; // Local midnight of each bucket's first day, oldest first
+  series: BarSeries[]; // Stacked bottom to top in this order
+  describeBucket: (index: number) => string; // Tooltip for a bucket's bar
+  heightClassName?: string;
+}
+
+/** A stacked bar per day or week, with a legend and the first and last buckets' dates as the axis labels. */
+const TimeSeriesBarChart: React.FC<TimeSeriesBarChartProps> = ({ buckets, series, describeBucket, heightClassName = 'h-32' }) => {
+  const totals = buckets.map((_, index) => series.reduce((total, { values }) => total + (values[index] ?? 0), 0));
+  const maxTotal = Math.max(0, ...totals);
+
+  return (
+    <div>
+      <div className="flex items-center justify-end gap-3 mb-2 text-xs text-slate-500 dark:text-slate-400">
+        {series.map(({ label, colorClassName }) => (
+          <span key={label} className="flex items-center gap-1"><span className={`w-3 h-3 rounded-sm ${colorClassName}`} />{label}</span>
+        ))}
+      </div>
+      <div className={`flex items-end gap-px ${heightClassName} border-b border-slate-200 dark:border-slate-700`}>
+        {buckets.map((bucket, index) => (
+          <div key={bucket.getTime()} className="flex-1 flex flex-col-reverse h-full" title={describeBucket(index)}>
+            {totals[index] > 0 && series.map(({ label, colorClassName, values }) => (
+              <div key={label} className={`${colorClassName} last:rounded-t-sm`} style={{ height: `${((values[index] ?? 0) / maxTotal) * 100}%` }} />
+            ))}
+          </div>
+        ))}
+      </div>
+      {buckets.length > 0 && (
+        <div className="flex justify-between mt-1 text-xs text-slate-500 dark:text-slate-400">
+          <span>{buckets[0].toLocaleDateString()}</span>
+          <span>{buckets[buckets.length - 1].toLocaleDateString()}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimeSeriesBarChart;
@@ -0,0 +1,45 @@
+import { AIProviderType } from "../types";
+
+export type EmbeddingTaskType = 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY';
+
+/**
+ * The contract every LLM backend implements. Components never talk to a backend directly;
+ * they go through aiService, which delegates to the provider selected in System Settings.
+ */
+export interface AIProvider {
+  type: AIProviderType;
+  label: string;
+  modelName: string;
+  // Undefined when the provider has no embedding model; retrieval then uses local embeddings.
+  embeddingModelName?: string;
+  // Cosine similarity below which this provider's embeddings are treated as unrelated.
+  embeddingMinSimilarity: number;
+  isAvailable: () => boolean;
+  generateText: (prompt: string) => Promise<string>;
+  generateJson: <T>(prompt: string) => Promise<T | null>;
+  generateTextStream: (
+    prompt: string,
+    onChunk: (chunk: string) => void,
+    onError: (error: Error) => void,
+    onComplete: () => void
+  ) => Promise<void>;
+  generateEmbeddings: (texts: string[], taskType: EmbeddingTaskType) => Promise<number[][] | null>;
+}
+
+/** Strips an optional Markdown code fence from a model response and parses the JSON inside. */
+export const parseJsonResponse = <T,>(responseText: string): T => {
+  let jsonStr = responseText.trim();
+  const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
+  const match = jsonStr.match(fenceRegex);
+  if (match && match[2]) {
+    jsonStr = match[2].trim();
+  }
+
+  // Additional check for empty string before parsing
+  if (!jsonStr) {
+    console.error("Empty JSON string received from AI.");
+    throw new Error("Received empty JSON string from AI.");
+  }
+
+  return JSON.parse(jsonStr) as T;
+};
@@ -0,0 +1,67 @@
+import { AIProviderSettings, AIProviderType } from "../types";
+import { AIProvider } from "./aiProvider";
+import { geminiProvider } from "./geminiService";
+import { createOpenAICompatibleProvider } from "./openAICompatibleService";
+import { mockProvider } from "./mockAIService";
+
+export const DEFAULT_AI_PROVIDER_SETTINGS: AIProviderSettings = {
+  provider: AIProviderType.GEMINI,
+  openAIBaseUrl: 'http://localhost:11434/v1',
+  openAIApiKey: '',
+  openAIModel: 'llama3.1',
+  openAIEmbeddingModel: '',
+};
+
+export const AI_PROVIDER_LABELS: Record<AIProviderType, string> = {
+  [AIProviderType.GEMINI]: geminiProvider.label,
+  [AIProviderType.OPENAI_COMPATIBLE]: 'OpenAI-compatible (OpenAI, Ollama, llama.cpp)',
+  [AIProviderType.MOCK]: mockProvider.label,
+};
+
+let activeProvider: AIProvider = geminiProvider;
+
+/** Switches every AI feature in the app to the provider described by the settings. */
+export const configureAIProvider = (settings: AIProviderSettings): void => {
+  switch (settings.provider) {
+    case AIProviderType.OPENAI_COMPATIBLE:
+      activeProvider = createOpenAICompatibleProvider(settings);
+      break;
+    case AIProviderType.MOCK:
+      activeProvider = mockProvider;
+      break;
+    default:
+      activeProvider = geminiProvider;
+  }
+};
+
+export const parseStoredAIProviderSettings = (storedValue: string | null): AIProviderSettings => {
+  if (!storedValue) return DEFAULT_AI_PROVIDER_SETTINGS;
+  try {
+    const parsed = JSON.parse(storedValue);
+    return {
+      ...DEFAULT_AI_PROVIDER_SETTINGS,
+      ...parsed,
+      provider: Object.values(AIProviderType).includes(parsed.provider) ? parsed.provider : DEFAULT_AI_PROVIDER_SETTINGS.provider,
+    };
+  } catch (error) {
+    console.error("Error parsing AI provider settings from localStorage:", error);
+    return DEFAULT_AI_PROVIDER_SETTINGS;
+  }
+};
+
+export const getActiveAIProvider = (): AIProvider => activeProvider;
+
+export const getAIModelName = (): string => activeProvider.modelName;
+
+export const isAIServiceAvailable = (): boolean => activeProvider.isAvailable();
+
+export const generateText = (prompt: string): Promise<string> => activeProvider.generateText(prompt);
+
+export const generateJson = <T,>(prompt: string): Promise<T | null> => activeProvider.generateJson<T>(prompt);
+
+export const generateTextStream = (
+    prompt: string,
+    onChunk: (chunk: string) => void,
+    onError: (error: Error) => void,
+    onComplete: () => void
+): Promise<void> => activeProvider.generateTextStream(prompt, onChunk, onError, onComplete);
@@ -0,0 +1,312 @@
+import { Document, DocumentType, EngagementEvent, EngagementEventKind, SearchLogEntry } from "../types";
+import { BucketSize, DateRange, formatBucketLabel, formatRangeLabel, getBucketIndex, getBucketSize, isInRange, listBuckets, toDateInputValue } from "./dateRangeService";
+import { QueryStat, SearchInsights } from "./searchLogService";
+import { ENGAGEMENT_EVENT_LABELS, EngagementInsights } from "./engagementService";
+
+// The analytics dashboard's figures for a date range, and the CSV and printable HTML reports made
+// from them for monthly knowledge-management reviews.
+
+const MAX_REPORTED_TAGS = 10;
+const MAX_RECENT_DOCUMENTS = 5;
+
+export interface DocumentOverview {
+  totalDocuments: number;
+  totalBookmarks: number;
+  uniqueTagsCount: number;
+  addedInRangeCount: number;
+  documentTypesCount: Record<DocumentType, number>; // Only types that occur
+  tagCounts: { tag: string; count: number }[]; // Most used first
+  recentDocuments: Document[]; // Most recently added first
+}
+
+export const computeDocumentOverview = (documents: Document[], range: DateRange): DocumentOverview => {
+  const documentTypesCount = documents.reduce((acc, doc) => {
+    acc[doc.type] = (acc[doc.type] || 0) + 1;
+    return acc;
+  }, {} as Record<DocumentType, number>);
+
+  const allTags = documents.flatMap(doc => doc.tags);
+  const tagFrequencies = allTags.reduce((acc, tag) => {
+    acc[tag] = (acc[tag] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+  return {
+    totalDocuments: documents.length,
+    totalBookmarks: documents.filter(doc => doc.isFavorite).length,
+    uniqueTagsCount: new Set(allTags).size,
+    addedInRangeCount: documents.filter(doc => isInRange(new Date(doc.uploadedAt), range)).length,
+    documentTypesCount,
+    tagCounts: Object.entries(tagFrequencies)
+      .sort(([, a], [, b]) => b - a)
+      .map(([tag, count]) => ({ tag, count })),
+    recentDocuments: [...documents]
+      .sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime())
+      .slice(0, MAX_RECENT_DOCUMENTS),
+  };
+};
+
+export interface AdditionsBucket {
+  start: Date; // Local midnight of the week's first day
+  documentsAdded: number;
+}
+
+export interface ActivityBucket {
+  start: Date; // Local midnight of the bucket's first day
+  bookmarks: number;
+  aiQuestions: number;
+  aiGenerations: number; // Summaries and FAQs generated
+}
+
+export interface ActivityTimeSeries {
+  // Documents are added a few at a time, so additions are always counted per week; daily bars would be mostly empty.
+  additions: AdditionsBucket[]; // One entry per week of the range, oldest first
+  bucketSize: BucketSize;
+  buckets: ActivityBucket[]; // One entry per day or week of the range, oldest first
+}
+
+/** Additions per week, and bookmarks and AI use per day or week. AI questions aren't about one document, so they ignore the scope. */
+export const computeActivityTimeSeries = (documents: Document[], events: EngagementEvent[], searchLog: SearchLogEntry[], range: DateRange): ActivityTimeSeries => {
+  const bucketSize = getBucketSize(range);
+  const buckets: ActivityBucket[] = listBuckets(range, bucketSize).map(start => ({ start, bookmarks: 0, aiQuestions: 0, aiGenerations: 0 }));
+  const bucketAt = (date: Date) => isInRange(date, range) ? buckets[getBucketIndex(date, range, bucketSize)] : undefined;
+
+  const additions: AdditionsBucket[] = listBuckets(range, 'week').map(start => ({ start, documentsAdded: 0 }));
+  documents.forEach(doc => {
+    const uploadedAt = new Date(doc.uploadedAt);
+    if (isInRange(uploadedAt, range)) additions[getBucketIndex(uploadedAt, range, 'week')].documentsAdded++;
+  });
+  const documentIds = new Set(documents.map(doc => doc.id));
+  events.forEach(event => {
+    const bucket = documentIds.has(event.documentId) ? bucketAt(event.timestamp) : undefined;
+    if (!bucket) return;
+    if (event.kind === 'bookmark') bucket.bookmarks++;
+    else if (event.kind === 'summary' || event.kind === 'faq') bucket.aiGenerations++;
+  });
+  searchLog.forEach(entry => {
+    const bucket = entry.source === 'ai' ? bucketAt(entry.timestamp) : undefined;
+    if (bucket) bucket.aiQuestions++;
+  });
+  return { additions, bucketSize, buckets };
+};
+
+export interface AnalyticsReport {
+  generatedAt: Date;
+  range: DateRange;
+  scopeLabel: string;
+  overview: DocumentOverview;
+  activity: ActivityTimeSeries;
+  search: SearchInsights;
+  engagement: EngagementInsights;
+}
+
+type ReportCell = string | number;
+
+interface ReportTable {
+  title: string;
+  columns: string[];
+  rows: ReportCell[][];
+}
+
+const REPORT_TITLE = 'Knowledge Management Report';
+
+const formatShare = (share: number): string => `${Math.round(share * 100)}%`;
+
+const bucketColumn = (size: BucketSize): string => size === 'day' ? 'Day' : 'Week starting';
+
+const queryRows = (queries: QueryStat[]): ReportCell[][] =>
+  queries.map(stat => [stat.query, stat.count, Math.round(stat.averageResults * 10) / 10, formatShare(stat.chosenShare), toDateInputValue(stat.lastSearchedAt)]);
+
+const QUERY_COLUMNS = ['Query', 'Times', 'Average results', 'Result opened', 'Last searched'];
+
+/** The report's content, shared by both formats. */
+const getReportTables = ({ overview, activity, search, engagement }: AnalyticsReport): ReportTable[] => [
+  {
+    title: 'Summary',
+    columns: ['Measure', 'Value'],
+    rows: [
+      ['Documents', overview.totalDocuments],
+      ['Bookmarked documents', overview.totalBookmarks],
+      ['Unique tags', overview.uniqueTagsCount],
+      ['Documents added in period', overview.addedInRangeCount],
+      ['Hub searches', search.hubSearchCount],
+      ['Hub searches with no results', formatShare(search.zeroResultShare)],
+      ['Hub searches with a result opened', formatShare(search.chosenShare)],
+      ['AI questions', search.aiQuestionCount],
+      ['AI answers that found nothing', formatShare(search.notFoundShare)],
+      ...(Object.keys(ENGAGEMENT_EVENT_LABELS) as EngagementEventKind[]).map(kind => [ENGAGEMENT_EVENT_LABELS[kind], engagement.eventCounts[kind]]),
+    ],
+  },
+  {
+    title: 'Documents Added per Week',
+    columns: [bucketColumn('week'), 'Documents added'],
+    rows: activity.additions.map(bucket => [toDateInputValue(bucket.start), bucket.documentsAdded]),
+  },
+  {
+    title: 'Activity Over Time',
+    columns: [bucketColumn(activity.bucketSize), 'Bookmarks', 'AI questions', 'AI summaries and FAQs'],
+    rows: activity.buckets.map(bucket => [toDateInputValue(bucket.start), bucket.bookmarks, bucket.aiQuestions, bucket.aiGenerations]),
+  },
+  {
+    title: 'Contributions Over Time',
+    columns: [bucketColumn(engagement.bucketSize), 'Added', 'Edited'],
+    rows: engagement.contributions.map(bucket => [toDateInputValue(bucket.start), bucket.added, bucket.edited]),
+  },
+  {
+    title: 'Documents by Type',
+    columns: ['Type', 'Documents'],
+    rows: (Object.entries(overview.documentTypesCount) as [DocumentType, number][]).sort(([, a], [, b]) => b - a),
+  },
+  {
+    title: 'Top Tags',
+    columns: ['Tag', 'Documents'],
+    rows: overview.tagCounts.slice(0, MAX_REPORTED_TAGS).map(({ tag, count }) => [tag, count]),
+  },
+  { title: 'Top Queries', columns: QUERY_COLUMNS, rows: queryRows(search.topQueries) },
+  { title: 'Zero-Result Searches', columns: QUERY_COLUMNS, rows: queryRows(search.zeroResultQueries) },
+  { title: 'Unanswered Questions', columns: QUERY_COLUMNS, rows: queryRows(search.unansweredQuestions) },
+  {
+    title: 'Most Viewed Documents',
+    columns: ['Document', 'Views', 'Other interactions', 'Last viewed'],
+    rows: engagement.mostViewed.map(({ document, views, otherEvents, lastViewedAt }) => [document.name, views, otherEvents, lastViewedAt ? toDateInputValue(lastViewedAt) : '']),
+  },
+  {
+    title: 'Never Viewed Documents',
+    columns: ['Document', 'Added'],
+    rows: engagement.neverViewed.map(document => [document.name, toDateInputValue(new Date(document.uploadedAt))]),
+  },
+  {
+    title: 'Engagement by Tag',
+    columns: ['Tag', 'Documents', 'Views', 'Other interactions'],
+    rows: engagement.tagEngagement.map(({ tag, documentCount, views, otherEvents }) => [tag, documentCount, views, otherEvents]),
+  },
+  {
+    title: 'Top Contributors',
+    columns: ['Author', 'Edits'],
+    rows: engagement.contributors.map(({ author, edited }) => [author, edited]),
+  },
+];
+
+const toCsvCell = (value: ReportCell): string => {
+  // Spreadsheets run cells starting with these as formulas, and names and queries are whatever people typed.
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvLine = (cells: ReportCell[]): string => cells.map(toCsvCell).join(',');
+
+/** One table after another, each under its title, for opening in a spreadsheet. */
+export const formatReportCsv = (report: AnalyticsReport): string => {
+  const lines = [
+    toCsvLine([REPORT_TITLE]),
+    toCsvLine(['Scope', report.scopeLabel]),
+    toCsvLine(['Period', toDateInputValue(report.range.start), toDateInputValue(report.range.end)]),
+    toCsvLine(['Generated', report.generatedAt.toISOString()]),
+  ];
+  getReportTables(report).forEach(table => {
+    lines.push('', toCsvLine([table.title]), toCsvLine(table.columns), ...table.rows.map(toCsvLine));
+  });
+  return lines.join('\r\n') + '\r\n';
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+interface ChartSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 160;
+
+// The dashboard's stacked bars, drawn as SVG so they print without Tailwind.
+const renderBarChart = (title: string, buckets: Date[], bucketSize: BucketSize, series: ChartSeries[]): string => {
+  const totals = buckets.map((_, index) => series.reduce((total, { values }) => total + values[index], 0));
+  const maxTotal = Math.max(1, ...totals);
+  const slot = CHART_WIDTH / Math.max(buckets.length, 1);
+  const bars = buckets.map((bucket, index) => {
+    let top = CHART_HEIGHT;
+    const segments = series.map(({ color, values }) => {
+      const height = (values[index] / maxTotal) * CHART_HEIGHT;
+      top -= height;
+      return height > 0 ? `<rect x="${(index * slot + 0.5).toFixed(1)}" y="${top.toFixed(1)}" width="${Math.max(slot - 1, 0.5).toFixed(1)}" height="${height.toFixed(1)}" fill="${color}"/>` : '';
+    }).join('');
+    const description = `${formatBucketLabel(bucket, bucketSize)}: ${series.map(({ label, values }) => `${values[index]} ${label.toLowerCase()}`).join(', ')}`;
+    return `<g><title>${escapeHtml(description)}</title>${segments}</g>`;
+  }).join('');
+  const legend = series.map(({ label, color }) => `<span class="legend-item"><span class="swatch" style="background:${color}"></span>${escapeHtml(label)}</span>`).join('');
+  const axis = buckets.length > 0
+    ? `<div class="axis"><span>${escapeHtml(buckets[0].toLocaleDateString())}</span><span>${escapeHtml(buckets[buckets.length - 1].toLocaleDateString())}</span></div>`
+    : '';
+  return `<section class="chart"><h2>${escapeHtml(title)}</h2><div class="legend">${legend}</div>`
+    + `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" role="img" aria-label="${escapeHtml(title)}"><line x1="0" y1="${CHART_HEIGHT}" x2="${CHART_WIDTH}" y2="${CHART_HEIGHT}" stroke="#cbd5e1"/>${bars}</svg>${axis}</section>`;
+};
+
+const renderTable = (table: ReportTable): string => {
+  const body = table.rows.length > 0
+    ? table.rows.map(row => `<tr>${row.map(cell => `<td${typeof cell === 'number' ? ' class="number"' : ''}>${escapeHtml(String(cell))}</td>`).join('')}</tr>`).join('')
+    : `<tr><td colspan="${table.columns.length}" class="empty">Nothing in this period.</td></tr>`;
+  return `<section><h2>${escapeHtml(table.title)}</h2><table><thead><tr>${table.columns.map(column => `<th>${escapeHtml(column)}</th>`).join('')}</tr></thead><tbody>${body}</tbody></table></section>`;
+};
+
+const REPORT_STYLES = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #1e293b; margin: 2rem auto; max-width: 800px; padding: 0 1rem; }
+  h1 { color: #0f766e; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.05rem; color: #334155; border-bottom: 2px solid #14b8a6; padding-bottom: 0.25rem; margin-top: 1.75rem; }
+  .meta { color: #64748b; margin-top: 0; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+  th, td { text-align: left; padding: 0.35rem 0.5rem; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  th { background: #f1f5f9; }
+  td.number { text-align: right; font-variant-numeric: tabular-nums; }
+  td.empty { color: #64748b; font-style: italic; }
+  svg { width: 100%; height: auto; display: block; }
+  .legend { display: flex; gap: 1rem; justify-content: flex-end; font-size: 0.75rem; color: #64748b; margin-bottom: 0.25rem; }
+  .legend-item { display: inline-flex; align-items: center; gap: 0.25rem; }
+  .swatch { width: 0.75rem; height: 0.75rem; border-radius: 2px; display: inline-block; }
+  .axis { display: flex; justify-content: space-between; font-size: 0.75rem; color: #64748b; }
+  section { break-inside: avoid; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  }
+`;
+
+/** A self-contained page that prints (or saves as PDF) cleanly from any browser. */
+export const formatReportHtml = (report: AnalyticsReport): string => {
+  const { activity, engagement } = report;
+  const charts = [
+    renderBarChart('Documents Added per Week', activity.additions.map(bucket => bucket.start), 'week', [
+      { label: 'Documents added', color: '#14b8a6', values: activity.additions.map(bucket => bucket.documentsAdded) },
+    ]),
+    renderBarChart('Bookmarks and AI Usage', activity.buckets.map(bucket => bucket.start), activity.bucketSize, [
+      { label: 'Bookmarks', color: '#f59e0b', values: activity.buckets.map(bucket => bucket.bookmarks) },
+      { label: 'AI questions', color: '#0d9488', values: activity.buckets.map(bucket => bucket.aiQuestions) },
+      { label: 'AI summaries and FAQs', color: '#6366f1', values: activity.buckets.map(bucket => bucket.aiGenerations) },
+    ]),
+    renderBarChart('Contributions', engagement.contributions.map(bucket => bucket.start), engagement.bucketSize, [
+      { label: 'Added', color: '#14b8a6', values: engagement.contributions.map(bucket => bucket.added) },
+      { label: 'Edited', color: '#f59e0b', values: engagement.contributions.map(bucket => bucket.edited) },
+    ]),
+  ];
+  const meta = `${escapeHtml(report.scopeLabel)} · ${escapeHtml(formatRangeLabel(report.range))} · Generated ${escapeHtml(report.generatedAt.toLocaleString())}`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${REPORT_TITLE} – ${formatRangeLabel(report.range)}`)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>${REPORT_TITLE}</h1>
+<p class="meta">${meta}</p>
+${charts.join('\n')}
+${getReportTables(report).map(renderTable).join('\n')}
+</body>
+</html>
+`;
+};
+
+export const getReportFileName = (report: AnalyticsReport, extension: 'csv' | 'html'): string =>
+  `hnai-km-report-${toDateInputValue(report.range.start)}-to-${toDateInputValue(report.range.end)}.${extension}`;
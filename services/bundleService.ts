@@ -0,0 +1,280 @@
+import { AIProviderSettings, AIProviderType, Collection, Document, DocumentContentFields, DocumentFieldChange, DocumentRevision, DocumentType, Language, RevisionAction, TagRegistry, Theme } from "../types";
+import { isOneOf, isRecord, normalizeCollection, normalizeDocument, normalizeTagRegistry, ImportWrite } from "./storageService";
+import { EMPTY_TAG_REGISTRY, mergeTagRegistries } from "./tagService";
+
+export const BUNDLE_FORMAT = 'hnai-km-bundle';
+// Bump when the bundle shape changes; parseBundle must keep reading every older version.
+// v2: adds collections; v1 files import with every document unfiled.
+// v3: adds the tag registry (known tags and synonyms); older files import with no synonyms.
+export const BUNDLE_VERSION = 3;
+
+// The API key is deliberately left out so an exported file never leaks credentials.
+export type BundleAIProviderSettings = Omit<AIProviderSettings, 'openAIApiKey'>;
+
+export interface BundleSettings {
+  theme?: Theme;
+  language?: Language;
+  contextTokenBudget?: number;
+  authorName?: string;
+  fetchProxyUrl?: string;
+  aiProviderSettings?: Partial<BundleAIProviderSettings>; // Imported files may leave fields out
+}
+
+export interface KnowledgeBaseBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: Date;
+  documents: Document[];
+  revisions: DocumentRevision[];
+  collections: Collection[];
+  tagRegistry: TagRegistry;
+  settings: BundleSettings;
+}
+
+export interface ParsedBundle {
+  bundle: KnowledgeBaseBundle;
+  invalidDocumentCount: number;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+// What to do with an imported document whose id already exists locally with different content.
+export type ConflictResolution = 'keep-existing' | 'use-imported' | 'keep-both';
+
+export interface ImportConflict {
+  existing: Document;
+  imported: Document;
+}
+
+export interface ImportAnalysis {
+  newDocuments: Document[];
+  identicalDocuments: Document[];
+  conflicts: ImportConflict[];
+}
+
+export interface ImportReport {
+  added: number;
+  replaced: number;
+  keptExisting: number;
+  keptBoth: number;
+  skippedIdentical: number;
+  removed: number; // Local documents dropped by a replace import
+}
+
+export const createBundle = (
+  documents: Document[],
+  revisions: DocumentRevision[],
+  collections: Collection[],
+  tagRegistry: TagRegistry,
+  settings: BundleSettings,
+): KnowledgeBaseBundle => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: new Date(),
+  documents,
+  revisions,
+  collections,
+  tagRegistry,
+  settings,
+});
+
+export const serializeBundle = (bundle: KnowledgeBaseBundle): string => JSON.stringify(bundle, null, 2);
+
+export const getBundleFileName = (date = new Date(), label = 'export'): string => `hnai-km-${label}-${date.toISOString().slice(0, 10)}.json`;
+
+const REVISION_ACTIONS: RevisionAction[] = ['created', 'edited', 'restored'];
+const CONTENT_FIELDS: DocumentFieldChange['field'][] = ['name', 'type', 'tags', 'contentSnippet', 'fullContent', 'sourceUrl'];
+
+const normalizeSnapshot = (record: unknown): DocumentContentFields | null => {
+  if (!isRecord(record) || typeof record.name !== 'string') return null;
+  return {
+    name: record.name,
+    type: isOneOf(Object.values(DocumentType), record.type) ? record.type : DocumentType.UNKNOWN,
+    tags: Array.isArray(record.tags) ? record.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+    contentSnippet: typeof record.contentSnippet === 'string' ? record.contentSnippet : '',
+    ...(typeof record.fullContent === 'string' ? { fullContent: record.fullContent } : {}),
+    ...(typeof record.sourceUrl === 'string' ? { sourceUrl: record.sourceUrl } : {}),
+  };
+};
+
+const isFieldChange = (value: unknown): value is DocumentFieldChange =>
+  isRecord(value) && isOneOf(CONTENT_FIELDS, value.field) && typeof value.before === 'string' && typeof value.after === 'string';
+
+const normalizeRevision = (record: unknown): DocumentRevision | null => {
+  if (!isRecord(record) || typeof record.documentId !== 'string' || typeof record.revisionNumber !== 'number') return null;
+  const snapshot = normalizeSnapshot(record.snapshot);
+  if (!snapshot) return null;
+  const createdAt = new Date(record.createdAt as string);
+  return {
+    id: `${record.documentId}@${record.revisionNumber}`,
+    documentId: record.documentId,
+    revisionNumber: record.revisionNumber,
+    createdAt: isNaN(createdAt.getTime()) ? new Date() : createdAt,
+    author: typeof record.author === 'string' ? record.author : 'Unknown',
+    action: isOneOf(REVISION_ACTIONS, record.action) ? record.action : (record.revisionNumber === 1 ? 'created' : 'edited'),
+    ...(typeof record.restoredFromRevision === 'number' ? { restoredFromRevision: record.restoredFromRevision } : {}),
+    changes: Array.isArray(record.changes) ? record.changes.filter(isFieldChange) : [],
+    snapshot,
+  };
+};
+
+// The API key is never read from a file, even one that has it.
+const normalizeProviderSettings = (record: unknown): Partial<BundleAIProviderSettings> | undefined => {
+  if (!isRecord(record)) return undefined;
+  const providerSettings: Partial<BundleAIProviderSettings> = {};
+  if (isOneOf(Object.values(AIProviderType), record.provider)) providerSettings.provider = record.provider;
+  (['openAIBaseUrl', 'openAIModel', 'openAIEmbeddingModel'] as const).forEach(key => {
+    const value = record[key];
+    if (typeof value === 'string') providerSettings[key] = value;
+  });
+  return providerSettings;
+};
+
+const normalizeSettings = (record: unknown): BundleSettings => {
+  if (!isRecord(record)) return {};
+  const settings: BundleSettings = {};
+  if (isOneOf(Object.values(Theme), record.theme)) settings.theme = record.theme;
+  if (isOneOf(Object.values(Language), record.language)) settings.language = record.language;
+  if (typeof record.contextTokenBudget === 'number') settings.contextTokenBudget = record.contextTokenBudget;
+  if (typeof record.authorName === 'string' && record.authorName.trim()) settings.authorName = record.authorName.trim();
+  if (typeof record.fetchProxyUrl === 'string' && record.fetchProxyUrl.trim()) settings.fetchProxyUrl = record.fetchProxyUrl.trim();
+  const aiProviderSettings = normalizeProviderSettings(record.aiProviderSettings);
+  if (aiProviderSettings) settings.aiProviderSettings = aiProviderSettings;
+  return settings;
+};
+
+/** Validates an exported file. Throws an Error with a user-facing message if it can't be imported. */
+export const parseBundle = (text: string): ParsedBundle => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON. Choose a file created with \"Export Knowledge Base\".");
+  }
+  if (!isRecord(data) || data.format !== BUNDLE_FORMAT) {
+    throw new Error("The file is not an HNAI Knowledge Hub export.");
+  }
+  if (typeof data.version !== 'number' || data.version < 1) {
+    throw new Error("The export file has no valid format version.");
+  }
+  if (data.version > BUNDLE_VERSION) {
+    throw new Error(`The export was created by a newer version of the app (bundle version ${data.version}). Update the app to import it.`);
+  }
+  if (!Array.isArray(data.documents)) {
+    throw new Error("The export file does not contain a document list.");
+  }
+
+  const documents = data.documents.map(normalizeDocument).filter((doc): doc is Document => doc !== null);
+  const documentIds = new Set(documents.map(doc => doc.id));
+  if (documentIds.size !== documents.length) {
+    throw new Error("The export file contains the same document id more than once.");
+  }
+  const revisions = (Array.isArray(data.revisions) ? data.revisions : [])
+    .map(normalizeRevision)
+    .filter((revision): revision is DocumentRevision => revision !== null && documentIds.has(revision.documentId));
+  const collections = (Array.isArray(data.collections) ? data.collections : [])
+    .map(normalizeCollection)
+    .filter((collection): collection is Collection => collection !== null);
+  const exportedAt = new Date(data.exportedAt as string);
+
+  return {
+    bundle: {
+      format: BUNDLE_FORMAT,
+      version: data.version,
+      exportedAt: isNaN(exportedAt.getTime()) ? new Date() : exportedAt,
+      documents,
+      revisions,
+      collections,
+      tagRegistry: data.tagRegistry ? normalizeTagRegistry(data.tagRegistry) : EMPTY_TAG_REGISTRY,
+      settings: normalizeSettings(data.settings),
+    },
+    invalidDocumentCount: data.documents.length - documents.length,
+  };
+};
+
+// Compares what a user would see; the Date object and key order don't matter.
+const documentFingerprint = (doc: Document): string => JSON.stringify({
+  name: doc.name,
+  type: doc.type,
+  tags: doc.tags,
+  contentSnippet: doc.contentSnippet,
+  fullContent: doc.fullContent ?? '',
+  sourceUrl: doc.sourceUrl ?? '',
+  isFavorite: doc.isFavorite,
+  generatedFaqs: doc.generatedFaqs ?? [],
+  generatedSummary: doc.generatedSummary ?? '',
+  links: doc.links ?? [],
+  uploadedAt: new Date(doc.uploadedAt).getTime(),
+});
+
+export const analyzeImport = (bundle: KnowledgeBaseBundle, existingDocuments: Document[]): ImportAnalysis => {
+  const existingById = new Map(existingDocuments.map(doc => [doc.id, doc]));
+  const analysis: ImportAnalysis = { newDocuments: [], identicalDocuments: [], conflicts: [] };
+  bundle.documents.forEach(imported => {
+    const existing = existingById.get(imported.id);
+    if (!existing) analysis.newDocuments.push(imported);
+    else if (documentFingerprint(existing) === documentFingerprint(imported)) analysis.identicalDocuments.push(imported);
+    else analysis.conflicts.push({ existing, imported });
+  });
+  return analysis;
+};
+
+/** Turns the user's choices into the storage write plus a report of what it will do. */
+export const planImport = (
+  bundle: KnowledgeBaseBundle,
+  analysis: ImportAnalysis,
+  existingDocuments: Document[],
+  existingCollections: Collection[],
+  existingTagRegistry: TagRegistry,
+  mode: ImportMode,
+  resolution: ConflictResolution,
+): { write: ImportWrite; report: ImportReport } => {
+  const report: ImportReport = { added: 0, replaced: 0, keptExisting: 0, keptBoth: 0, skippedIdentical: 0, removed: 0 };
+  const revisionsFor = (documentId: string) => bundle.revisions.filter(revision => revision.documentId === documentId);
+
+  if (mode === 'replace') {
+    const importedIds = new Set(bundle.documents.map(doc => doc.id));
+    report.added = analysis.newDocuments.length;
+    report.replaced = analysis.conflicts.length;
+    report.skippedIdentical = analysis.identicalDocuments.length;
+    report.removed = existingDocuments.filter(doc => !importedIds.has(doc.id)).length;
+    return {
+      write: { documents: bundle.documents, revisions: bundle.revisions, clearExisting: true, replaceHistoryFor: [], collections: bundle.collections, tagRegistry: bundle.tagRegistry },
+      report,
+    };
+  }
+
+  const documents: Document[] = [...analysis.newDocuments];
+  const revisions: DocumentRevision[] = analysis.newDocuments.flatMap(doc => revisionsFor(doc.id));
+  const replaceHistoryFor: string[] = [];
+  report.added = analysis.newDocuments.length;
+  report.skippedIdentical = analysis.identicalDocuments.length;
+
+  analysis.conflicts.forEach(({ imported }, index) => {
+    if (resolution === 'keep-existing') {
+      report.keptExisting++;
+    } else if (resolution === 'use-imported') {
+      documents.push(imported);
+      revisions.push(...revisionsFor(imported.id));
+      replaceHistoryFor.push(imported.id);
+      report.replaced++;
+    } else {
+      const copyId = `${Date.now()}-${index}`;
+      documents.push({ ...imported, id: copyId, name: `${imported.name} (imported)` });
+      revisions.push(...revisionsFor(imported.id).map(revision => ({
+        ...revision,
+        id: `${copyId}@${revision.revisionNumber}`,
+        documentId: copyId,
+      })));
+      report.keptBoth++;
+    }
+  });
+
+  // Merging keeps local collections as they are and adds the ones this knowledge base doesn't have yet.
+  const existingCollectionIds = new Set(existingCollections.map(collection => collection.id));
+  const collections = bundle.collections.filter(collection => !existingCollectionIds.has(collection.id));
+
+  const tagRegistry = mergeTagRegistries(existingTagRegistry, bundle.tagRegistry);
+
+  return { write: { documents, revisions, clearExisting: false, replaceHistoryFor, collections, tagRegistry }, report };
+};
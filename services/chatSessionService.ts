@@ -0,0 +1,50 @@
+import { ChatMessage, ChatSession } from "../types";
+
+const TITLE_MAX_LENGTH = 60;
+export const DEFAULT_SESSION_TITLE = 'New chat';
+
+export const createChatSession = (): ChatSession => {
+  const now = new Date();
+  return {
+    id: `${now.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+    title: DEFAULT_SESSION_TITLE,
+    messages: [],
+    createdAt: now,
+    updatedAt: now,
+    isPinned: false,
+  };
+};
+
+/** Names a session after its first question, cut at a word boundary. */
+export const deriveSessionTitle = (firstQuestion: string): string => {
+  const singleLine = firstQuestion.replace(/\s+/g, ' ').trim();
+  if (singleLine.length <= TITLE_MAX_LENGTH) return singleLine || DEFAULT_SESSION_TITLE;
+  const cut = singleLine.slice(0, TITLE_MAX_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > TITLE_MAX_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}…`;
+};
+
+export const withMessages = (session: ChatSession, messages: ChatMessage[]): ChatSession => {
+  const firstQuestion = messages.find(message => message.sender === 'user');
+  return {
+    ...session,
+    messages,
+    // Only auto-title sessions the user hasn't renamed.
+    title: session.title === DEFAULT_SESSION_TITLE && firstQuestion ? deriveSessionTitle(firstQuestion.text) : session.title,
+    updatedAt: new Date(),
+  };
+};
+
+// Pinned first, then most recently active.
+export const sortChatSessions = (sessions: ChatSession[]): ChatSession[] =>
+  [...sessions].sort((a, b) => Number(b.isPinned) - Number(a.isPinned) || b.updatedAt.getTime() - a.updatedAt.getTime());
+
+/** Matches the title or any message text, case-insensitively. */
+export const filterChatSessions = (sessions: ChatSession[], searchTerm: string): ChatSession[] => {
+  const term = searchTerm.trim().toLowerCase();
+  if (!term) return sessions;
+  return sessions.filter(session =>
+    session.title.toLowerCase().includes(term) ||
+    session.messages.some(message => message.text.toLowerCase().includes(term))
+  );
+};
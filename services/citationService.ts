@@ -0,0 +1,74 @@
+import { Citation, Document, RetrievedChunk } from "../types";
+import { getDocumentText } from "./retrievalService";
+
+// Matches [1], [2, 3] and [2][3]; the last form is just two markers.
+const CITATION_MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+export type CitedTextPart = string | number[];
+
+/** Numbers retrieved passages in prompt order, matching the [Passage N] labels the model sees. */
+export const buildCitations = (retrieved: RetrievedChunk[]): Citation[] =>
+  retrieved.map(({ chunk }, index) => ({
+    number: index + 1,
+    chunkId: chunk.id,
+    documentId: chunk.documentId,
+    documentName: chunk.documentName,
+    start: chunk.start,
+    end: chunk.end,
+    text: chunk.text,
+    ...(chunk.timestampSeconds !== undefined ? { timestampSeconds: chunk.timestampSeconds } : {}),
+  }));
+
+/** Splits an answer into plain text and citation markers, keeping only markers for known citations. */
+export const splitCitedText = (text: string, citations: Citation[]): CitedTextPart[] => {
+  const knownNumbers = new Set(citations.map(citation => citation.number));
+  const parts: CitedTextPart[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(CITATION_MARKER)) {
+    const numbers = match[1].split(',').map(Number).filter(n => knownNumbers.has(n));
+    if (numbers.length === 0) continue;
+    if (match.index! > lastIndex) parts.push(text.slice(lastIndex, match.index));
+    parts.push(numbers);
+    lastIndex = match.index! + match[0].length;
+  }
+  if (lastIndex < text.length) parts.push(text.slice(lastIndex));
+  return parts;
+};
+
+/** The citations an answer actually references, in number order. */
+export const selectCitedPassages = (answer: string, citations: Citation[]): Citation[] => {
+  const cited = new Set(splitCitedText(answer, citations).filter(Array.isArray).flat());
+  return citations.filter(citation => cited.has(citation.number));
+};
+
+/**
+ * Finds a cited passage in the document's current text: at its recorded offsets if the text there
+ * is unchanged, otherwise wherever the passage now appears. Null if it no longer exists.
+ */
+const locatePassage = (doc: Document, passage: { start: number; end: number; text: string }): { start: number; end: number } | null => {
+  const text = getDocumentText(doc);
+  if (text.slice(passage.start, passage.end).trim() === passage.text) {
+    const leading = text.slice(passage.start, passage.end).search(/\S/);
+    return { start: passage.start + Math.max(0, leading), end: passage.start + Math.max(0, leading) + passage.text.length };
+  }
+  const movedTo = text.indexOf(passage.text);
+  return movedTo === -1 ? null : { start: movedTo, end: movedTo + passage.text.length };
+};
+
+export interface PassageHighlight {
+  field: 'fullContent' | 'contentSnippet';
+  start: number;
+  end: number;
+}
+
+/** Maps a located passage onto the document field the preview displays it in. */
+export const locatePassageHighlight = (doc: Document, passage: { start: number; end: number; text: string }): PassageHighlight | null => {
+  const range = locatePassage(doc, passage);
+  if (!range) return null;
+  if (doc.fullContent?.trim()) {
+    // getDocumentText trims full content; shift back past the leading whitespace it dropped.
+    const leadingWhitespace = doc.fullContent.length - doc.fullContent.trimStart().length;
+    return { field: 'fullContent', start: range.start + leadingWhitespace, end: range.end + leadingWhitespace };
+  }
+  return { field: 'contentSnippet', ...range };
+};
@@ -0,0 +1,145 @@
+import { Collection, Document } from "../types";
+
+export interface CollectionTreeNode {
+  collection: Collection;
+  children: CollectionTreeNode[];
+  depth: number;
+}
+
+// The Document Hub scope: everything, only documents in no collection, or one collection and its subcollections.
+export type CollectionScope = { kind: 'all' } | { kind: 'unfiled' } | { kind: 'collection'; collectionId: string };
+
+export const ALL_DOCUMENTS_SCOPE: CollectionScope = { kind: 'all' };
+
+export const createCollection = (name: string, parentId: string | null): Collection => {
+  const now = new Date();
+  return {
+    id: `col_${now.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim(),
+    parentId,
+    createdAt: now,
+  };
+};
+
+const byName = (a: Collection, b: Collection) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+
+/** Nests collections under their parents, alphabetically. Collections whose parent is gone become top-level. */
+export const buildCollectionTree = (collections: Collection[]): CollectionTreeNode[] => {
+  const ids = new Set(collections.map(collection => collection.id));
+  const childrenByParent = new Map<string | null, Collection[]>();
+  collections.forEach(collection => {
+    const parentId = collection.parentId && ids.has(collection.parentId) ? collection.parentId : null;
+    childrenByParent.set(parentId, [...(childrenByParent.get(parentId) ?? []), collection]);
+  });
+  const build = (parentId: string | null, depth: number, seen: Set<string>): CollectionTreeNode[] =>
+    (childrenByParent.get(parentId) ?? [])
+      .filter(collection => !seen.has(collection.id)) // Guards against a cycle written by an old import
+      .sort(byName)
+      .map(collection => ({ collection, depth, children: build(collection.id, depth + 1, new Set(seen).add(collection.id)) }));
+  return build(null, 0, new Set());
+};
+
+/** The tree in display order, each node followed by its descendants. */
+export const flattenCollectionTree = (nodes: CollectionTreeNode[]): CollectionTreeNode[] =>
+  nodes.flatMap(node => [node, ...flattenCollectionTree(node.children)]);
+
+/** The collection and everything nested under it. */
+export const getDescendantIds = (collectionId: string, collections: Collection[]): Set<string> => {
+  const ids = new Set([collectionId]);
+  let added = true;
+  while (added) {
+    added = false;
+    collections.forEach(collection => {
+      if (collection.parentId && ids.has(collection.parentId) && !ids.has(collection.id)) {
+        ids.add(collection.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+};
+
+/** Root-first chain of collections leading to (and including) the given one. */
+export const getCollectionPath = (collectionId: string, collections: Collection[]): Collection[] => {
+  const byId = new Map(collections.map(collection => [collection.id, collection]));
+  const path: Collection[] = [];
+  let current = byId.get(collectionId);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+/** A collection can't move into itself or anything nested under it. */
+export const canMoveCollection = (collectionId: string, newParentId: string | null, collections: Collection[]): boolean =>
+  newParentId === null || !getDescendantIds(collectionId, collections).has(newParentId);
+
+/** Returns a user-facing problem with the name, or null if it can be used under that parent. */
+export const validateCollectionName = (name: string, parentId: string | null, collections: Collection[], ignoreId?: string): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return "Enter a name for the collection.";
+  const clash = collections.some(collection =>
+    collection.id !== ignoreId &&
+    collection.parentId === parentId &&
+    collection.name.localeCompare(trimmed, undefined, { sensitivity: 'base' }) === 0
+  );
+  return clash ? `There is already a collection named "${trimmed}" here.` : null;
+};
+
+/** Whether a document is filed in an existing collection; dangling ids count as unfiled. */
+const getFiledCollectionId = (doc: Document, collectionIds: Set<string>): string | null =>
+  doc.collectionId && collectionIds.has(doc.collectionId) ? doc.collectionId : null;
+
+export const filterDocumentsByScope = (documents: Document[], scope: CollectionScope, collections: Collection[]): Document[] => {
+  if (scope.kind === 'all') return documents;
+  const collectionIds = new Set(collections.map(collection => collection.id));
+  if (scope.kind === 'unfiled') return documents.filter(doc => getFiledCollectionId(doc, collectionIds) === null);
+  const scopeIds = getDescendantIds(scope.collectionId, collections);
+  return documents.filter(doc => {
+    const filedIn = getFiledCollectionId(doc, collectionIds);
+    return filedIn !== null && scopeIds.has(filedIn);
+  });
+};
+
+/** Documents per collection, counting those in subcollections too, plus the unfiled count. */
+export const countDocumentsByCollection = (documents: Document[], collections: Collection[]): { byCollection: Map<string, number>; unfiled: number } => {
+  const collectionIds = new Set(collections.map(collection => collection.id));
+  const parentById = new Map(collections.map(collection => [collection.id, collection.parentId]));
+  const byCollection = new Map<string, number>(collections.map(collection => [collection.id, 0]));
+  let unfiled = 0;
+  documents.forEach(doc => {
+    let current = getFiledCollectionId(doc, collectionIds);
+    if (current === null) {
+      unfiled++;
+      return;
+    }
+    const visited = new Set<string>();
+    while (current && collectionIds.has(current) && !visited.has(current)) {
+      visited.add(current);
+      byCollection.set(current, (byCollection.get(current) ?? 0) + 1);
+      current = parentById.get(current) ?? null;
+    }
+  });
+  return { byCollection, unfiled };
+};
+
+/**
+ * What deleting a collection changes: its documents and subcollections move up to its parent
+ * (or to the top level), so nothing is lost.
+ */
+export const planCollectionDeletion = (
+  collection: Collection,
+  collections: Collection[],
+  documents: Document[]
+): { movedDocuments: Document[]; movedCollections: Collection[] } => ({
+  movedDocuments: documents
+    .filter(doc => doc.collectionId === collection.id)
+    .map(doc => {
+      const { collectionId: _removed, ...rest } = doc;
+      return collection.parentId ? { ...rest, collectionId: collection.parentId } : rest;
+    }),
+  movedCollections: collections
+    .filter(child => child.parentId === collection.id)
+    .map(child => ({ ...child, parentId: collection.parentId })),
+});
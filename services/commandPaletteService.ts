@@ -0,0 +1,70 @@
+import { Document, TagSynonymGroup } from "../types";
+import { TextRange, findMatchRanges, scoreTitle } from "./fuzzySearchService";
+import { prepareDocumentSearch, searchDocuments } from "./searchQueryService";
+
+// Search for the command palette: documents are matched and ranked exactly as in the Document Hub
+// (so "tag:hr policy" works here too, synonyms included); views, actions, tags and chats by their titles.
+
+export type PaletteItemKind = 'view' | 'action' | 'document' | 'tag' | 'chat';
+
+export interface PaletteItem {
+  id: string; // Unique across kinds, e.g. "document:doc_123"; what recent items are remembered by
+  kind: PaletteItemKind;
+  title: string;
+  detail?: string;
+  document?: Document; // For document items, which are matched against their content too
+}
+
+export interface PaletteResult {
+  item: PaletteItem;
+  score: number;
+  titleRanges: TextRange[]; // Where the query matches the title, for highlighting
+}
+
+export const MAX_PALETTE_RESULTS = 30;
+const MAX_RECENT_ITEMS = 8;
+const RECENT_ITEMS_STORAGE_KEY = 'hnai-km-recent-palette-items';
+
+// Among equally good matches, places come before things.
+const KIND_ORDER: PaletteItemKind[] = ['view', 'action', 'document', 'tag', 'chat'];
+
+/** Matching items, best first. An empty query matches nothing; the palette shows recent items instead. */
+export const searchPaletteItems = (
+  items: PaletteItem[],
+  queryText: string,
+  synonymGroups: TagSynonymGroup[],
+  limit = MAX_PALETTE_RESULTS
+): PaletteResult[] => {
+  if (!queryText.trim()) return [];
+  // Half-typed syntax ('tag:"hr') shouldn't empty the list; search its words until it parses.
+  const search = prepareDocumentSearch(queryText, synonymGroups, true);
+  const terms = search.textTerms;
+  const documentItems = new Map(items.filter(item => item.document).map(item => [item.document!, item]));
+  const results: PaletteResult[] = searchDocuments([...documentItems.keys()], search).map(({ document, score }) => {
+    const item = documentItems.get(document)!;
+    return { item, score, titleRanges: findMatchRanges(item.title, terms) };
+  });
+  items.forEach(item => {
+    if (item.document) return;
+    const score = terms.length > 0 ? scoreTitle(item.title, terms) : 0;
+    if (score > 0) results.push({ item, score, titleRanges: findMatchRanges(item.title, terms) });
+  });
+  return results
+    .sort((a, b) => b.score - a.score || KIND_ORDER.indexOf(a.item.kind) - KIND_ORDER.indexOf(b.item.kind) || a.item.title.localeCompare(b.item.title))
+    .slice(0, limit);
+};
+
+export const loadRecentPaletteItemIds = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_ITEMS_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+/** Moves the item to the front of the recent list. */
+export const recordRecentPaletteItem = (itemId: string): void => {
+  const recent = [itemId, ...loadRecentPaletteItemIds().filter(id => id !== itemId)].slice(0, MAX_RECENT_ITEMS);
+  localStorage.setItem(RECENT_ITEMS_STORAGE_KEY, JSON.stringify(recent));
+};
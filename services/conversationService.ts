@@ -0,0 +1,101 @@
+import { ChatMessage } from "../types";
+import { generateJson } from "./aiService";
+import { estimateTokenCount } from "./textAnalysis";
+
+// Share of the context token budget given to conversation history when there is any; retrieval gets the rest.
+export const HISTORY_BUDGET_SHARE = 0.25;
+// The most recent messages are always sent verbatim, never folded into the summary.
+const MIN_VERBATIM_MESSAGES = 2;
+const MAX_STANDALONE_QUESTION_LENGTH = 500;
+
+export interface ConversationState {
+  summary: string;
+  summarizedMessageCount: number; // Leading messages already folded into the summary
+}
+
+const formatTurn = (message: ChatMessage): string => `${message.sender === 'user' ? 'User' : 'Assistant'}: ${message.text.trim()}`;
+
+// Finished messages only: no streaming placeholders, no empty replies.
+export const getCompletedMessages = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.filter(message => !message.isLoading && message.text.trim());
+
+/**
+ * Picks the oldest unsummarized messages to fold into the summary once history outgrows its budget.
+ * Folds down to half the budget so the summary isn't regenerated on every turn.
+ */
+export const selectMessagesToSummarize = (messages: ChatMessage[], state: ConversationState, historyBudget: number): ChatMessage[] => {
+  const unsummarized = messages.slice(state.summarizedMessageCount);
+  const costs = unsummarized.map(message => estimateTokenCount(formatTurn(message)));
+  let total = estimateTokenCount(state.summary) + costs.reduce((sum, cost) => sum + cost, 0);
+  if (total <= historyBudget) return [];
+
+  let foldCount = 0;
+  while (foldCount < unsummarized.length - MIN_VERBATIM_MESSAGES && total > historyBudget / 2) {
+    total -= costs[foldCount];
+    foldCount++;
+  }
+  return unsummarized.slice(0, foldCount);
+};
+
+/** Merges turns into the running summary. Returns null if the model gave nothing usable. */
+export const summarizeTurns = async (previousSummary: string, turns: ChatMessage[]): Promise<string | null> => {
+  const prompt = `You maintain a running summary of a conversation between a user and an assistant about documents in a knowledge base. Merge the Existing Summary and the New Turns into one concise summary of at most 120 words. Keep names, figures, document names and open questions; drop pleasantries.
+
+Existing Summary: ${previousSummary || '(none)'}
+
+New Turns:
+---
+${turns.map(formatTurn).join('\n')}
+---
+
+Respond as JSON: {"conversation_summary": "..."}`;
+  try {
+    const result = await generateJson<{ conversation_summary?: string }>(prompt);
+    const summary = result?.conversation_summary?.trim();
+    return summary || null;
+  } catch (error) {
+    console.error("Error summarizing conversation:", error);
+    return null;
+  }
+};
+
+/** Renders the summary plus as many recent turns as fit, newest kept first. */
+export const formatConversationHistory = (messages: ChatMessage[], state: ConversationState, historyBudget: number): string => {
+  const summaryBlock = state.summary ? `Summary of earlier conversation: ${state.summary}` : '';
+  let usedTokens = estimateTokenCount(summaryBlock);
+  const recentTurns: string[] = [];
+  const unsummarized = messages.slice(state.summarizedMessageCount);
+  for (let i = unsummarized.length - 1; i >= 0; i--) {
+    const turn = formatTurn(unsummarized[i]);
+    const cost = estimateTokenCount(turn);
+    if (usedTokens + cost > historyBudget && recentTurns.length > 0) break;
+    recentTurns.unshift(turn);
+    usedTokens += cost;
+  }
+  return [summaryBlock, ...recentTurns].filter(Boolean).join('\n');
+};
+
+/**
+ * Rewrites a follow-up ("what about for contractors?") into a question that stands on its own,
+ * so retrieval searches for what the user actually means. Falls back to the original question.
+ */
+export const rewriteAsStandaloneQuestion = async (question: string, conversationHistory: string): Promise<string> => {
+  if (!conversationHistory.trim()) return question;
+  const prompt = `Rewrite the Follow-up Question so it can be understood without the conversation: resolve pronouns and references like "it", "that policy" or "what about X" using the Conversation. Keep the user's intent and language. If it is already self-contained, return it unchanged. Do not answer it.
+
+Conversation:
+${conversationHistory}
+
+Follow-up Question: ${question}
+
+Respond as JSON: {"standalone_question": "..."}`;
+  try {
+    const result = await generateJson<{ standalone_question?: string }>(prompt);
+    const rewritten = result?.standalone_question?.trim();
+    if (!rewritten || rewritten.length > MAX_STANDALONE_QUESTION_LENGTH) return question;
+    return rewritten;
+  } catch (error) {
+    console.error("Error rewriting follow-up question:", error);
+    return question;
+  }
+};
@@ -0,0 +1,94 @@
+// Date ranges and calendar-day arithmetic for the analytics dashboard's time series.
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longer ranges are charted per week, so a year doesn't turn into 365 hairline bars.
+const MAX_DAILY_BUCKETS = 62;
+
+// Custom ranges are capped at two years, so the weekly charts stay readable.
+export const MAX_RANGE_DAYS = 730;
+
+/** Whole days: local midnight of the first and of the last day, both included. */
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export type DateRangePreset = 'last7' | 'last30' | 'last90' | 'last12Months' | 'thisMonth' | 'lastMonth';
+
+export const DATE_RANGE_PRESET_LABELS: Record<DateRangePreset, string> = {
+  last7: 'Last 7 days',
+  last30: 'Last 30 days',
+  last90: 'Last 90 days',
+  last12Months: 'Last 12 months',
+  thisMonth: 'This month',
+  lastMonth: 'Last month',
+};
+
+const PRESET_DAYS: Partial<Record<DateRangePreset, number>> = { last7: 7, last30: 30, last90: 90 };
+
+export type BucketSize = 'day' | 'week';
+
+export const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/** Which day of the range a time falls on, counting from 0 at its first day; may be outside the range. */
+export const getDayIndex = (date: Date, firstDay: Date): number =>
+  // Counted in calendar days, which daylight saving time can make 23 or 25 hours long.
+  Math.round((startOfDay(date).getTime() - firstDay.getTime()) / DAY_MS);
+
+export const getPresetRange = (preset: DateRangePreset, now = new Date()): DateRange => {
+  const today = startOfDay(now);
+  switch (preset) {
+    case 'thisMonth':
+      return { start: new Date(today.getFullYear(), today.getMonth(), 1), end: today };
+    case 'lastMonth':
+      return { start: new Date(today.getFullYear(), today.getMonth() - 1, 1), end: new Date(today.getFullYear(), today.getMonth(), 0) };
+    case 'last12Months': {
+      // From the day after this date a year ago, so the same day isn't counted twice. A year before
+      // 29 February is 28 February.
+      const daysInMonthYearAgo = new Date(today.getFullYear() - 1, today.getMonth() + 1, 0).getDate();
+      return { start: new Date(today.getFullYear() - 1, today.getMonth(), Math.min(today.getDate(), daysInMonthYearAgo) + 1), end: today };
+    }
+    default:
+      return { start: addDays(today, -(PRESET_DAYS[preset]! - 1)), end: today };
+  }
+};
+
+export const isInRange = (date: Date, range: DateRange): boolean => date >= range.start && startOfDay(date) <= range.end;
+
+export const countRangeDays = (range: DateRange): number => getDayIndex(range.end, range.start) + 1;
+
+export const getBucketSize = (range: DateRange): BucketSize => countRangeDays(range) > MAX_DAILY_BUCKETS ? 'week' : 'day';
+
+const BUCKET_DAYS: Record<BucketSize, number> = { day: 1, week: 7 };
+
+/** The first day of each bucket, oldest first. Weeks count from the range's first day, so the last may be shorter. */
+export const listBuckets = (range: DateRange, size: BucketSize): Date[] =>
+  Array.from({ length: Math.ceil(countRangeDays(range) / BUCKET_DAYS[size]) }, (_, i) =>
+    new Date(range.start.getFullYear(), range.start.getMonth(), range.start.getDate() + i * BUCKET_DAYS[size])
+  );
+
+/** Which bucket of the range a time falls in; only meaningful for times within the range. */
+export const getBucketIndex = (date: Date, range: DateRange, size: BucketSize): number =>
+  Math.floor(getDayIndex(date, range.start) / BUCKET_DAYS[size]);
+
+export const formatBucketLabel = (bucketStart: Date, size: BucketSize): string =>
+  size === 'day' ? bucketStart.toLocaleDateString() : `Week of ${bucketStart.toLocaleDateString()}`;
+
+export const formatRangeLabel = (range: DateRange): string =>
+  `${range.start.toLocaleDateString()} – ${range.end.toLocaleDateString()}`;
+
+/** The YYYY-MM-DD form date inputs use, in local time. */
+export const toDateInputValue = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** Local midnight of a YYYY-MM-DD date, or null for anything else. */
+export const fromDateInputValue = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
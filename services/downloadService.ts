@@ -0,0 +1,12 @@
+/** Saves text as a file through a temporary object URL; the browser decides where it lands. */
+export const downloadTextFile = (content: string, fileName: string, mimeType = 'application/json'): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick; some browsers start the download asynchronously.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
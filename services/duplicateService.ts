@@ -0,0 +1,130 @@
+import { Document } from "../types";
+import { getDocumentText } from "./retrievalService";
+import { tokenize } from "./textAnalysis";
+
+// Duplicate detection for new documents: an exact content hash catches re-uploads of the same text,
+// and MinHash over word shingles estimates how much of the wording two documents share.
+
+export const NEAR_DUPLICATE_THRESHOLD = 0.7;
+const MINHASH_SIZE = 64;
+const SHINGLE_SIZE = 3; // words
+const MIN_SHINGLES = 5; // Below this the text is too short for similarity to mean much
+
+export type DuplicateReason = 'identical' | 'similar' | 'same-source';
+
+export interface DuplicateMatch {
+  document: Document;
+  reason: DuplicateReason;
+  similarity: number; // Estimated share of wording in common, 0-1
+}
+
+type DuplicateCandidate = Pick<Document, 'contentSnippet' | 'fullContent' | 'sourceUrl'>;
+
+interface ContentFingerprint {
+  hash: string; // Empty when the document has no text
+  signature: Uint32Array | null; // Null when the text is too short to compare
+}
+
+// FNV-1a, 32-bit, from the given offset basis.
+const fnv1a = (value: string, basis = 0x811c9dc5): number => {
+  let hash = basis;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// MurmurHash3's finalizer: turns one hash into an independent-looking one per seed.
+const mix = (value: number): number => {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+};
+
+const MINHASH_SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => mix(i + 1));
+
+/** Case, whitespace and punctuation don't make two documents different. */
+const normalizeForHash = (text: string): string => (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).join(' ');
+
+const computeFingerprint = (text: string): ContentFingerprint => {
+  const normalized = normalizeForHash(text);
+  if (!normalized) return { hash: '', signature: null };
+  const hash = `${fnv1a(normalized).toString(16).padStart(8, '0')}${fnv1a(normalized, 0x01000193).toString(16).padStart(8, '0')}`;
+
+  const tokens = tokenize(text);
+  if (tokens.length < SHINGLE_SIZE + MIN_SHINGLES - 1) return { hash, signature: null };
+  const signature = new Uint32Array(MINHASH_SIZE).fill(0xffffffff);
+  const seen = new Set<number>();
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    const shingleHash = fnv1a(tokens.slice(i, i + SHINGLE_SIZE).join(' '));
+    if (seen.has(shingleHash)) continue;
+    seen.add(shingleHash);
+    for (let j = 0; j < MINHASH_SIZE; j++) {
+      const value = mix(shingleHash ^ MINHASH_SEEDS[j]);
+      if (value < signature[j]) signature[j] = value;
+    }
+  }
+  return { hash, signature };
+};
+
+// Existing documents' fingerprints, reused while their text is unchanged. Entries for documents that are
+// gone are dropped on the next check.
+const fingerprintCache = new Map<string, { text: string; fingerprint: ContentFingerprint }>();
+
+const getFingerprint = (doc: Document): ContentFingerprint => {
+  const text = getDocumentText(doc);
+  const cached = fingerprintCache.get(doc.id);
+  if (cached && cached.text === text) return cached.fingerprint;
+  const fingerprint = computeFingerprint(text);
+  fingerprintCache.set(doc.id, { text, fingerprint });
+  return fingerprint;
+};
+
+/** Estimated Jaccard similarity of the two documents' word shingles. */
+const estimateSimilarity = (a: Uint32Array, b: Uint32Array): number => {
+  let matching = 0;
+  for (let i = 0; i < MINHASH_SIZE; i++) if (a[i] === b[i]) matching++;
+  return matching / MINHASH_SIZE;
+};
+
+const normalizeSourceUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url.trim());
+    return `${parsed.hostname.replace(/^www\./, '')}${parsed.pathname.replace(/\/$/, '')}${parsed.search}`.toLowerCase();
+  } catch {
+    return url.trim().toLowerCase();
+  }
+};
+
+/**
+ * Existing documents that the candidate likely duplicates, most similar first: identical text,
+ * largely the same wording, or the same source URL.
+ */
+export const findDuplicates = (candidate: DuplicateCandidate, documents: Document[], threshold = NEAR_DUPLICATE_THRESHOLD): DuplicateMatch[] => {
+  const { hash, signature } = computeFingerprint(getDocumentText(candidate));
+  const sourceUrl = candidate.sourceUrl?.trim() ? normalizeSourceUrl(candidate.sourceUrl) : '';
+  const matches: DuplicateMatch[] = [];
+  documents.forEach(doc => {
+    const existing = getFingerprint(doc);
+    if (hash && existing.hash === hash) {
+      matches.push({ document: doc, reason: 'identical', similarity: 1 });
+      return;
+    }
+    const similarity = signature && existing.signature ? estimateSimilarity(signature, existing.signature) : 0;
+    if (similarity >= threshold) {
+      matches.push({ document: doc, reason: 'similar', similarity });
+    } else if (sourceUrl && doc.sourceUrl && normalizeSourceUrl(doc.sourceUrl) === sourceUrl) {
+      matches.push({ document: doc, reason: 'same-source', similarity });
+    }
+  });
+  const liveIds = new Set(documents.map(doc => doc.id));
+  for (const docId of fingerprintCache.keys()) {
+    if (!liveIds.has(docId)) fingerprintCache.delete(docId);
+  }
+  return matches.sort((a, b) => b.similarity - a.similarity);
+};
@@ -0,0 +1,125 @@
+import { EmbeddingTaskType } from "./aiProvider";
+import { getActiveAIProvider } from "./aiService";
+import { tokenize } from "./textAnalysis";
+
+export interface EmbeddingBatch {
+  providerId: string;
+  vectors: number[][];
+}
+
+interface EmbeddingProvider {
+  id: string;
+  // Cosine similarity below which a match is treated as unrelated. Dense model embeddings sit
+  // much higher for unrelated text than sparse hashed vectors, so each provider has its own floor.
+  minSimilarity: number;
+  embed: (texts: string[], taskType: EmbeddingTaskType) => Promise<number[][]>;
+}
+
+const LOCAL_EMBEDDING_DIMENSIONS = 512;
+const REMOTE_BATCH_SIZE = 50;
+
+// FNV-1a, 32-bit
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const normalizeVector = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+};
+
+/**
+ * Offline fallback: hashes word unigrams, word bigrams and character trigrams into a fixed-size
+ * vector (the "hashing trick"). Catches shared vocabulary and spelling variants; it is not a
+ * substitute for a real embedding model on true paraphrases.
+ */
+const embedLocally = (text: string): number[] => {
+  const vector = new Array<number>(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+  const addFeature = (feature: string, weight: number) => {
+    const hash = hashString(feature);
+    const sign = hash & 1 ? 1 : -1;
+    vector[(hash >>> 1) % LOCAL_EMBEDDING_DIMENSIONS] += sign * weight;
+  };
+  const tokens = tokenize(text);
+  tokens.forEach((token, i) => {
+    addFeature(`w:${token}`, 1);
+    if (i > 0) addFeature(`b:${tokens[i - 1]}_${token}`, 0.5);
+    const padded = `^${token}$`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      addFeature(`c:${padded.slice(j, j + 3)}`, 0.3);
+    }
+  });
+  return normalizeVector(vector);
+};
+
+const localProvider: EmbeddingProvider = {
+  id: 'local-hashed-ngrams',
+  minSimilarity: 0.12,
+  embed: async (texts) => texts.map(embedLocally),
+};
+
+// The active AI provider's embedding model, if it has one. The id includes the model so vectors
+// from different models are never compared.
+const getRemoteProvider = (): EmbeddingProvider | null => {
+  const aiProvider = getActiveAIProvider();
+  if (!aiProvider.isAvailable() || !aiProvider.embeddingModelName) return null;
+  return {
+    id: `${aiProvider.type}:${aiProvider.embeddingModelName}`,
+    minSimilarity: aiProvider.embeddingMinSimilarity,
+    embed: async (texts, taskType) => {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += REMOTE_BATCH_SIZE) {
+        const batch = await aiProvider.generateEmbeddings(texts.slice(i, i + REMOTE_BATCH_SIZE), taskType);
+        if (!batch) throw new Error("Embedding service returned no vectors.");
+        vectors.push(...batch.map(normalizeVector));
+      }
+      return vectors;
+    },
+  };
+};
+
+const getProvider = (providerId: string): EmbeddingProvider | undefined => {
+  if (providerId === localProvider.id) return localProvider;
+  const remote = getRemoteProvider();
+  return remote?.id === providerId ? remote : undefined;
+};
+
+export const getMinSimilarity = (providerId: string): number => getProvider(providerId)?.minSimilarity ?? 0;
+
+/** Embeds with the best available provider, falling back to the local embedder if the remote call fails. */
+export const embedTexts = async (texts: string[], taskType: EmbeddingTaskType): Promise<EmbeddingBatch> => {
+  const preferred = getRemoteProvider();
+  if (preferred) {
+    try {
+      return { providerId: preferred.id, vectors: await preferred.embed(texts, taskType) };
+    } catch (error) {
+      console.warn(`Embedding provider "${preferred.id}" failed; falling back to local embeddings.`, error);
+    }
+  }
+  return { providerId: localProvider.id, vectors: await localProvider.embed(texts, taskType) };
+};
+
+/** Embeds with a specific provider so query vectors are comparable with stored vectors. */
+export const embedTextsWithProvider = async (providerId: string, texts: string[], taskType: EmbeddingTaskType): Promise<number[][] | null> => {
+  const provider = getProvider(providerId);
+  if (!provider) return null;
+  try {
+    return await provider.embed(texts, taskType);
+  } catch (error) {
+    console.warn(`Embedding provider "${providerId}" failed for query embedding.`, error);
+    return null;
+  }
+};
+
+// Vectors are normalized on creation, so the dot product is the cosine similarity.
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+};
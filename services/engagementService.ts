@@ -0,0 +1,178 @@
+import { Document, DocumentRevision, EngagementEvent, EngagementEventKind } from "../types";
+import { deleteEngagementEventsBefore, saveEngagementEvents } from "./storageService";
+import { BucketSize, DAY_MS, DateRange, getBucketIndex, getBucketSize, isInRange, listBuckets } from "./dateRangeService";
+
+// A local record of how documents are used: previewed, bookmarked, summarized, turned into FAQs
+// and cited by the AI Query Agent. Like the search log, it never leaves the browser.
+
+const RETENTION_DAYS = 365;
+const MAX_LISTED_DOCUMENTS = 10;
+const MAX_LISTED_TAGS = 10;
+const MAX_LISTED_CONTRIBUTORS = 5;
+
+export const ENGAGEMENT_EVENT_LABELS: Record<EngagementEventKind, string> = {
+  view: 'Views',
+  bookmark: 'Bookmarks',
+  summary: 'AI Summaries',
+  faq: 'FAQ Generations',
+  citation: 'AI Citations',
+};
+
+let hasPrunedEvents = false;
+
+/** Records one event per document. Failures are only reported to the console, as for the search log. */
+export const recordEngagement = async (kind: EngagementEventKind, documentIds: string[]): Promise<void> => {
+  if (documentIds.length === 0) return;
+  const timestamp = new Date();
+  const events = documentIds.map(documentId => ({
+    id: `engagement_${timestamp.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+    documentId,
+    kind,
+    timestamp,
+  }));
+  try {
+    await saveEngagementEvents(events);
+    if (!hasPrunedEvents) {
+      hasPrunedEvents = true;
+      await deleteEngagementEventsBefore(new Date(Date.now() - RETENTION_DAYS * DAY_MS));
+    }
+  } catch (error) {
+    console.error("Error recording document engagement:", error);
+  }
+};
+
+/**
+ * Records what saving the documents amounts to: a new bookmark, AI summary or set of FAQs. App calls
+ * this for every document update, single or bulk, so no way of making those changes goes unrecorded.
+ */
+export const recordDocumentChanges = (previousDocuments: Document[], updatedDocuments: Document[]): void => {
+  const previousById = new Map(previousDocuments.map(doc => [doc.id, doc]));
+  const changedIds = (isChange: (previous: Document, updated: Document) => boolean): string[] =>
+    updatedDocuments.filter(doc => previousById.has(doc.id) && isChange(previousById.get(doc.id)!, doc)).map(doc => doc.id);
+  recordEngagement('bookmark', changedIds((previous, updated) => updated.isFavorite && !previous.isFavorite));
+  recordEngagement('summary', changedIds((previous, updated) => !!updated.generatedSummary && updated.generatedSummary !== previous.generatedSummary));
+  recordEngagement('faq', changedIds((previous, updated) => !!updated.generatedFaqs?.length && updated.generatedFaqs !== previous.generatedFaqs));
+};
+
+export interface DocumentEngagement {
+  document: Document;
+  views: number;
+  otherEvents: number; // Bookmarks, summaries, FAQ generations and citations
+  lastViewedAt: Date | null;
+}
+
+export interface TagEngagement {
+  tag: string; // As first seen
+  documentCount: number;
+  views: number;
+  otherEvents: number;
+}
+
+export interface ContributionBucket {
+  start: Date; // Local midnight of the bucket's first day
+  added: number; // By upload date
+  edited: number; // Edits and restores
+}
+
+// Documents don't record who uploaded them, so contributors are counted by their edits alone.
+export interface Contributor {
+  author: string;
+  edited: number; // Edits and restores
+}
+
+export interface EngagementInsights {
+  eventCounts: Record<EngagementEventKind, number>;
+  trackingSince: Date | null; // The oldest recorded event, so "never viewed" can say since when
+  mostViewed: DocumentEngagement[];
+  neverViewed: Document[]; // Oldest first
+  tagEngagement: TagEngagement[];
+  bucketSize: BucketSize;
+  contributions: ContributionBucket[]; // One entry per day or week of the range, oldest first
+  contributors: Contributor[];
+}
+
+/**
+ * Summarizes engagement with the given documents within the range.
+ * "Never viewed" looks at every recorded event, not just the range's.
+ */
+export const computeEngagementInsights = (
+  events: EngagementEvent[],
+  revisions: DocumentRevision[],
+  documents: Document[],
+  range: DateRange
+): EngagementInsights => {
+  const documentsById = new Map(documents.map(doc => [doc.id, doc]));
+  const documentEvents = events.filter(event => documentsById.has(event.documentId));
+  const rangeEvents = documentEvents.filter(event => isInRange(event.timestamp, range));
+
+  const eventCounts: Record<EngagementEventKind, number> = { view: 0, bookmark: 0, summary: 0, faq: 0, citation: 0 };
+  const byDocument = new Map<string, DocumentEngagement>();
+  rangeEvents.forEach(event => {
+    eventCounts[event.kind]++;
+    const engagement = byDocument.get(event.documentId) ?? { document: documentsById.get(event.documentId)!, views: 0, otherEvents: 0, lastViewedAt: null };
+    if (event.kind === 'view') {
+      engagement.views++;
+      if (!engagement.lastViewedAt || event.timestamp > engagement.lastViewedAt) engagement.lastViewedAt = event.timestamp;
+    } else {
+      engagement.otherEvents++;
+    }
+    byDocument.set(event.documentId, engagement);
+  });
+
+  const mostViewed = [...byDocument.values()]
+    .filter(engagement => engagement.views > 0)
+    .sort((a, b) => b.views - a.views || b.lastViewedAt!.getTime() - a.lastViewedAt!.getTime())
+    .slice(0, MAX_LISTED_DOCUMENTS);
+
+  const viewedIds = new Set(documentEvents.filter(event => event.kind === 'view').map(event => event.documentId));
+  const neverViewed = documents
+    .filter(doc => !viewedIds.has(doc.id))
+    .sort((a, b) => new Date(a.uploadedAt).getTime() - new Date(b.uploadedAt).getTime());
+
+  // Tags that differ only in case are the same tag, as in the tag filter.
+  const byTag = new Map<string, TagEngagement>();
+  documents.forEach(doc => {
+    const engagement = byDocument.get(doc.id);
+    new Set(doc.tags.map(tag => tag.toLowerCase())).forEach(key => {
+      const tagEngagement = byTag.get(key) ?? { tag: doc.tags.find(tag => tag.toLowerCase() === key)!, documentCount: 0, views: 0, otherEvents: 0 };
+      tagEngagement.documentCount++;
+      tagEngagement.views += engagement?.views ?? 0;
+      tagEngagement.otherEvents += engagement?.otherEvents ?? 0;
+      byTag.set(key, tagEngagement);
+    });
+  });
+  const tagEngagement = [...byTag.values()]
+    .filter(tag => tag.views + tag.otherEvents > 0)
+    .sort((a, b) => (b.views + b.otherEvents) - (a.views + a.otherEvents) || a.tag.localeCompare(b.tag))
+    .slice(0, MAX_LISTED_TAGS);
+
+  const bucketSize = getBucketSize(range);
+  const contributions: ContributionBucket[] = listBuckets(range, bucketSize).map(start => ({ start, added: 0, edited: 0 }));
+  documents.forEach(doc => {
+    const uploadedAt = new Date(doc.uploadedAt);
+    if (isInRange(uploadedAt, range)) contributions[getBucketIndex(uploadedAt, range, bucketSize)].added++;
+  });
+  const byAuthor = new Map<string, Contributor>();
+  revisions.forEach(revision => {
+    // The 'created' revision is only a baseline written on a document's first edit, not an upload.
+    if (revision.action === 'created' || !documentsById.has(revision.documentId) || !isInRange(revision.createdAt, range)) return;
+    contributions[getBucketIndex(revision.createdAt, range, bucketSize)].edited++;
+    const contributor = byAuthor.get(revision.author) ?? { author: revision.author, edited: 0 };
+    contributor.edited++;
+    byAuthor.set(revision.author, contributor);
+  });
+  const contributors = [...byAuthor.values()]
+    .sort((a, b) => b.edited - a.edited || a.author.localeCompare(b.author))
+    .slice(0, MAX_LISTED_CONTRIBUTORS);
+
+  return {
+    eventCounts,
+    trackingSince: events.length > 0 ? events.reduce((oldest, event) => event.timestamp < oldest ? event.timestamp : oldest, events[0].timestamp) : null,
+    mostViewed,
+    neverViewed,
+    tagEngagement,
+    bucketSize,
+    contributions,
+    contributors,
+  };
+};
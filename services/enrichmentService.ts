@@ -0,0 +1,32 @@
+import { Document, FAQ } from "../types";
+import { generateJson, generateText } from "./aiService";
+
+// AI-generated extras for a document: a bullet-point summary and FAQs, both built from its full content.
+
+export type EnrichmentKind = 'summary' | 'faqs';
+
+export const hasEnrichment = (doc: Document, kind: EnrichmentKind): boolean =>
+  kind === 'summary' ? !!doc.generatedSummary : (doc.generatedFaqs?.length ?? 0) > 0;
+
+/** Summarizes the document as "• point" lines, falling back to plain prose if the model won't return JSON. */
+export const generateDocumentSummary = async (doc: Document): Promise<string> => {
+  if (!doc.fullContent) throw new Error(`"${doc.name}" has no full content to summarize.`);
+  const prompt = `Summarize the following document content in about 3-5 key bullet points. Document Name: ${doc.name}\n\n---\n${doc.fullContent}\n\n---\nSummary (as JSON: {"summary_points": ["Point 1", "Point 2", ...]}):`;
+  const result = await generateJson<{ summary_points: string[] }>(prompt);
+  if (result && Array.isArray(result.summary_points) && result.summary_points.length > 0) {
+    return result.summary_points.map(point => `• ${point}`).join('\n');
+  }
+  const plainSummary = (await generateText(`Summarize this text concisely: ${doc.fullContent}`)).trim();
+  if (!plainSummary) throw new Error("The AI returned an empty summary.");
+  return plainSummary;
+};
+
+export const generateDocumentFaqs = async (doc: Document): Promise<FAQ[]> => {
+  if (!doc.fullContent) throw new Error(`"${doc.name}" has no full content to generate FAQs from.`);
+  const prompt = `Based on the following document content, generate 2-3 frequently asked questions (FAQs) and their answers. Return as a JSON array of objects, where each object has a 'question' (string) and 'answer' (string) field. Content:\n\n---\n${doc.fullContent}\n\n---\nFAQs:`;
+  const result = await generateJson<FAQ[]>(prompt);
+  if (!result || !Array.isArray(result) || result.length === 0 || !result.every(faq => faq.question && faq.answer)) {
+    throw new Error("Could not generate well-formed FAQs.");
+  }
+  return result;
+};
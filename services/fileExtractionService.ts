@@ -0,0 +1,200 @@
+import { DocumentType } from "../types";
+
+export interface ExtractionProgress {
+  stage: 'reading' | 'parsing';
+  percent: number; // 0-100
+  message: string;
+}
+
+export interface ExtractionResult {
+  type: DocumentType;
+  fullContent: string;
+  contentSnippet: string;
+}
+
+// Files above this size still extract, but the UI warns that it may take a while.
+export const LARGE_FILE_THRESHOLD_BYTES = 5 * 1024 * 1024;
+
+const SNIPPET_MAX_LENGTH = 240;
+
+// OLE2 compound files: legacy .doc/.xls, and password-protected .docx/.xlsx (Office wraps encrypted OOXML in OLE2).
+const OLE2_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const ZIP_SIGNATURE = [0x50, 0x4b];
+
+const TEXT_EXTENSIONS = ['txt', 'md', 'markdown', 'json', 'log', 'xml', 'html', 'htm', 'yaml', 'yml'];
+
+const getExtension = (fileName: string): string => {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex >= 0 ? fileName.slice(dotIndex + 1).toLowerCase() : '';
+};
+
+export const getDocumentTypeFromFile = (file: File): DocumentType => {
+  const extension = getExtension(file.name);
+  if (file.type.includes('pdf') || extension === 'pdf') return DocumentType.PDF;
+  if (file.type.includes('word') || file.type.includes('officedocument.wordprocessingml') || extension === 'docx' || extension === 'doc') return DocumentType.WORD;
+  if (file.type.includes('excel') || file.type.includes('officedocument.spreadsheetml') || file.type === 'text/csv' || ['xlsx', 'xls', 'csv'].includes(extension)) return DocumentType.EXCEL;
+  if (file.type.startsWith('text/') || TEXT_EXTENSIONS.includes(extension)) return DocumentType.TEXT;
+  return DocumentType.UNKNOWN;
+};
+
+const startsWithBytes = (bytes: Uint8Array, signature: number[]): boolean =>
+  bytes.length >= signature.length && signature.every((byte, i) => bytes[i] === byte);
+
+const readFileAsArrayBuffer = (file: File, onProgress?: (progress: ExtractionProgress) => void): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.({ stage: 'reading', percent: Math.round((event.loaded / event.total) * 100), message: `Reading ${file.name}...` });
+      }
+    };
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(new Error(`Could not read "${file.name}". The file may have been moved or is not accessible.`));
+    reader.readAsArrayBuffer(file);
+  });
+
+// Collapses the whitespace noise that PDF and spreadsheet extraction leave behind while keeping paragraph breaks.
+const normalizeExtractedText = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+export const draftSnippetFromContent = (content: string): string => {
+  const flattened = content.replace(/\s+/g, ' ').trim();
+  if (flattened.length <= SNIPPET_MAX_LENGTH) return flattened;
+  const candidate = flattened.slice(0, SNIPPET_MAX_LENGTH);
+  const sentenceEnd = Math.max(candidate.lastIndexOf('. '), candidate.lastIndexOf('! '), candidate.lastIndexOf('? '));
+  if (sentenceEnd > SNIPPET_MAX_LENGTH / 2) return candidate.slice(0, sentenceEnd + 1);
+  const wordEnd = candidate.lastIndexOf(' ');
+  return `${candidate.slice(0, wordEnd > 0 ? wordEnd : SNIPPET_MAX_LENGTH)}...`;
+};
+
+const extractPdfText = async (data: ArrayBuffer, fileName: string, onProgress?: (progress: ExtractionProgress) => void): Promise<string> => {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+  }
+
+  let pdf;
+  try {
+    pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+  } catch (error) {
+    const name = (error as Error)?.name;
+    if (name === 'PasswordException') {
+      throw new Error(`"${fileName}" is password-protected. Remove the password and upload it again.`);
+    }
+    if (name === 'InvalidPDFException') {
+      throw new Error(`"${fileName}" is not a valid PDF or is corrupted.`);
+    }
+    throw error;
+  }
+
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const textContent = await page.getTextContent();
+    let pageText = '';
+    for (const item of textContent.items) {
+      if ('str' in item) {
+        pageText += item.str + (item.hasEOL ? '\n' : ' ');
+      }
+    }
+    pages.push(pageText);
+    onProgress?.({ stage: 'parsing', percent: Math.round((pageNumber / pdf.numPages) * 100), message: `Extracting page ${pageNumber} of ${pdf.numPages}...` });
+  }
+  await pdf.destroy();
+  return pages.join('\n\n');
+};
+
+const extractWordText = async (data: ArrayBuffer, fileName: string): Promise<string> => {
+  const bytes = new Uint8Array(data.slice(0, 8));
+  if (startsWithBytes(bytes, OLE2_SIGNATURE)) {
+    throw new Error(`"${fileName}" is either password-protected or a legacy .doc file. Save it as an unprotected .docx and try again.`);
+  }
+  if (!startsWithBytes(bytes, ZIP_SIGNATURE)) {
+    throw new Error(`"${fileName}" is not a valid Word (.docx) document or is corrupted.`);
+  }
+  const mammoth = await import('mammoth');
+  try {
+    const result = await mammoth.extractRawText({ arrayBuffer: data });
+    return result.value;
+  } catch (error) {
+    console.error("Error extracting Word document:", error);
+    throw new Error(`"${fileName}" could not be read as a Word document. It may be corrupted.`);
+  }
+};
+
+const extractSpreadsheetText = async (data: ArrayBuffer, fileName: string): Promise<string> => {
+  const XLSX = await import('xlsx');
+  let workbook;
+  try {
+    workbook = XLSX.read(new Uint8Array(data), { type: 'array' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (/password|encrypt/i.test(message)) {
+      throw new Error(`"${fileName}" is password-protected. Remove the password and upload it again.`);
+    }
+    console.error("Error extracting spreadsheet:", error);
+    throw new Error(`"${fileName}" could not be read as a spreadsheet. It may be corrupted.`);
+  }
+  return workbook.SheetNames
+    .map(sheetName => {
+      const csv = XLSX.utils.sheet_to_csv(workbook.Sheets[sheetName], { blankrows: false });
+      return workbook.SheetNames.length > 1 ? `Sheet: ${sheetName}\n${csv}` : csv;
+    })
+    .join('\n\n');
+};
+
+const extractPlainText = (data: ArrayBuffer, fileName: string): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    throw new Error(`"${fileName}" does not contain readable UTF-8 text.`);
+  }
+};
+
+/**
+ * Reads an uploaded file in the browser and extracts its text so summaries, FAQs and the AI Query Agent
+ * work on the real document. Throws an Error with a user-facing message for encrypted, corrupt or unsupported files.
+ */
+export const extractFileContent = async (
+  file: File,
+  onProgress?: (progress: ExtractionProgress) => void
+): Promise<ExtractionResult> => {
+  const type = getDocumentTypeFromFile(file);
+  if (type === DocumentType.UNKNOWN) {
+    throw new Error(`Content extraction is not supported for "${file.name}". Supported formats: PDF, DOCX, XLSX, CSV and plain text.`);
+  }
+
+  const data = await readFileAsArrayBuffer(file, onProgress);
+  onProgress?.({ stage: 'parsing', percent: 0, message: `Extracting text from ${file.name}...` });
+
+  let rawText: string;
+  const extension = getExtension(file.name);
+  switch (type) {
+    case DocumentType.PDF:
+      rawText = await extractPdfText(data, file.name, onProgress);
+      break;
+    case DocumentType.WORD:
+      rawText = await extractWordText(data, file.name);
+      break;
+    case DocumentType.EXCEL:
+      rawText = extension === 'csv' || file.type === 'text/csv'
+        ? extractPlainText(data, file.name)
+        : await extractSpreadsheetText(data, file.name);
+      break;
+    default:
+      rawText = extractPlainText(data, file.name);
+  }
+
+  const fullContent = normalizeExtractedText(rawText);
+  if (!fullContent) {
+    throw new Error(`No text could be extracted from "${file.name}". Scanned PDFs and image-only documents are not supported.`);
+  }
+  onProgress?.({ stage: 'parsing', percent: 100, message: 'Extraction complete.' });
+
+  return { type, fullContent, contentSnippet: draftSnippetFromContent(fullContent) };
+};
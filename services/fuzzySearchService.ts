@@ -0,0 +1,255 @@
+import { Document } from "../types";
+
+// Typo-tolerant keyword matching and relevance scoring for the Document Hub search.
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface MatchSnippet {
+  text: string;
+  ranges: TextRange[]; // Offsets into text
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// A hit in the name says more about a document than one deep in its content.
+const FIELD_WEIGHTS = {
+  name: 5,
+  tags: 4,
+  contentSnippet: 2,
+  sourceUrl: 1.5,
+  fullContent: 1,
+} as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+// Typos and word parts are only looked for in the short fields. The source URL and full content match
+// whole words or their beginnings, which their sorted word lists answer without visiting every word.
+const FUZZY_FIELDS: ReadonlySet<SearchField> = new Set(['name', 'tags', 'contentSnippet']);
+
+interface IndexedField {
+  lower: string;
+  words: Set<string>;
+  sortedWords: string[];
+}
+
+// Documents are replaced, never mutated, on edit, so the object itself is a safe cache key.
+const indexedFieldsCache = new WeakMap<Document, Record<SearchField, IndexedField>>();
+
+const indexField = (text: string): IndexedField => {
+  const lower = text.toLowerCase();
+  const words = new Set(lower.match(WORD_PATTERN) ?? []);
+  return { lower, words, sortedWords: [...words].sort() };
+};
+
+const getIndexedFields = (doc: Document): Record<SearchField, IndexedField> => {
+  let fields = indexedFieldsCache.get(doc);
+  if (!fields) {
+    fields = {
+      name: indexField(doc.name),
+      tags: indexField(doc.tags.join(' ')),
+      contentSnippet: indexField(doc.contentSnippet),
+      sourceUrl: indexField(doc.sourceUrl ?? ''),
+      fullContent: indexField(doc.fullContent ?? ''),
+    };
+    indexedFieldsCache.set(doc, fields);
+  }
+  return fields;
+};
+
+// Short words must match exactly; longer ones tolerate one or two typos.
+const maxEditsFor = (length: number): number => (length <= 3 ? 0 : length <= 5 ? 1 : 2);
+
+/**
+ * Optimal string alignment distance: Levenshtein plus adjacent transpositions ("plociy").
+ * Stops early and returns maxDistance + 1 once the distance is known to exceed maxDistance.
+ */
+export const editDistance = (a: string, b: string, maxDistance: number): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/** How well a document word matches a query word, from 1 (identical) down to 0 (no match). */
+const wordMatchQuality = (queryWord: string, word: string): number => {
+  if (word === queryWord) return 1;
+  if (word.startsWith(queryWord)) return 0.8;
+  if (word.includes(queryWord)) return 0.6;
+  const maxEdits = maxEditsFor(queryWord.length);
+  if (maxEdits === 0) return 0;
+  const distance = editDistance(queryWord, word, maxEdits);
+  return distance <= maxEdits ? 0.5 * (1 - distance / (queryWord.length + 1)) : 0;
+};
+
+const bestWordQuality = (queryWord: string, field: IndexedField): number => {
+  if (field.words.has(queryWord)) return 1;
+  let best = 0;
+  for (const word of field.words) {
+    best = Math.max(best, wordMatchQuality(queryWord, word));
+    if (best >= 0.8) break;
+  }
+  return best;
+};
+
+/** 1 when the field has the word itself, 0.8 when it has a word starting with it, otherwise 0. */
+const prefixWordQuality = (queryWord: string, field: IndexedField): number => {
+  if (field.words.has(queryWord)) return 1;
+  const { sortedWords } = field;
+  let low = 0;
+  let high = sortedWords.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (sortedWords[mid] < queryWord) low = mid + 1;
+    else high = mid;
+  }
+  return low < sortedWords.length && sortedWords[low].startsWith(queryWord) ? 0.8 : 0;
+};
+
+// A single word is matched fuzzily; a phrase, or anything with punctuation ("q1-2024", a URL), as an exact substring.
+const isPhrase = (term: string): boolean => {
+  const words = term.toLowerCase().match(WORD_PATTERN) ?? [];
+  return words.length !== 1 || words[0] !== term.toLowerCase().trim();
+};
+
+const termQuality = (term: string, needle: string, field: IndexedField, fuzzy = true): number => {
+  if (isPhrase(term)) return field.lower.includes(needle) ? 1 : 0;
+  return fuzzy ? bestWordQuality(needle, field) : prefixWordQuality(needle, field);
+};
+
+/** Relevance of one search term to a document; 0 means the document doesn't match it. */
+export const scoreTextTerm = (doc: Document, term: string): number => {
+  const needle = term.toLowerCase().trim();
+  if (!needle) return 0;
+  const fields = getIndexedFields(doc);
+  let score = 0;
+  for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+    score += FIELD_WEIGHTS[field] * termQuality(term, needle, fields[field], FUZZY_FIELDS.has(field));
+  }
+  return score;
+};
+
+/** Total relevance of a document to the query's free-text terms, for ordering results. */
+export const scoreDocument = (doc: Document, terms: string[]): number =>
+  terms.reduce((total, term) => total + scoreTextTerm(doc, term), 0);
+
+/**
+ * Relevance of a title that isn't a document (a tag, a view, a chat) to the terms, scored as if it
+ * were a document name so the two can be ranked together. 0 unless every term matches.
+ */
+export const scoreTitle = (title: string, terms: string[]): number => {
+  const field = indexField(title);
+  let score = 0;
+  for (const term of terms) {
+    const needle = term.toLowerCase().trim();
+    const quality = needle ? termQuality(term, needle, field) : 0;
+    if (quality === 0) return 0;
+    score += FIELD_WEIGHTS.name * quality;
+  }
+  return score;
+};
+
+const mergeRanges = (ranges: TextRange[]): TextRange[] => {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: TextRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  }
+  return merged;
+};
+
+/** Where the terms match in a piece of text, using the same rules as scoreTextTerm; fuzzy is false for long text. */
+export const findMatchRanges = (text: string, terms: string[], fuzzy = true): TextRange[] => {
+  const lower = text.toLowerCase();
+  const ranges: TextRange[] = [];
+  const queryWords: string[] = [];
+  for (const term of terms) {
+    const needle = term.toLowerCase().trim();
+    if (!needle) continue;
+    if (!isPhrase(term)) {
+      queryWords.push(needle);
+      continue;
+    }
+    for (let at = lower.indexOf(needle); at !== -1; at = lower.indexOf(needle, at + needle.length)) {
+      ranges.push({ start: at, end: at + needle.length });
+    }
+  }
+  if (queryWords.length > 0) {
+    for (const match of lower.matchAll(WORD_PATTERN)) {
+      const word = match[0];
+      const start = match.index!;
+      for (const queryWord of queryWords) {
+        if (fuzzy ? wordMatchQuality(queryWord, word) === 0 : !word.startsWith(queryWord)) continue;
+        // Substring hits highlight just the matched part; typo matches highlight the whole word.
+        const offset = word.indexOf(queryWord);
+        ranges.push(offset === -1
+          ? { start, end: start + word.length }
+          : { start: start + offset, end: start + offset + queryWord.length });
+      }
+    }
+  }
+  return mergeRanges(ranges);
+};
+
+/**
+ * A window of about windowLength characters around the densest cluster of matches, with
+ * ellipses where it was cut. Null when the text doesn't match.
+ */
+export const getMatchSnippet = (text: string, terms: string[], windowLength = 180, fuzzy = true): MatchSnippet | null => {
+  const ranges = findMatchRanges(text, terms, fuzzy);
+  if (ranges.length === 0) return null;
+
+  // Ranges are sorted, so slide a window over them to find the start that covers the most hits.
+  let best = ranges[0];
+  let bestCount = 0;
+  for (let first = 0, last = 0; first < ranges.length; first++) {
+    while (last < ranges.length && ranges[last].end <= ranges[first].start + windowLength) last++;
+    if (last - first > bestCount) {
+      best = ranges[first];
+      bestCount = last - first;
+    }
+  }
+
+  // Start a little before the hit, on a word boundary, so it reads as a sentence fragment.
+  let start = Math.max(0, best.start - Math.floor(windowLength / 4));
+  if (start > 0) {
+    const boundary = text.lastIndexOf(' ', start);
+    start = boundary > best.start - windowLength / 2 ? boundary + 1 : start;
+  }
+  let end = Math.min(text.length, start + windowLength);
+  if (end < text.length) {
+    const boundary = text.indexOf(' ', end);
+    end = boundary !== -1 && boundary - end < 20 ? boundary : end;
+  }
+
+  const excerpt = text.slice(start, end);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const shift = prefix.length - start - (excerpt.length - excerpt.trimStart().length);
+  return {
+    text: `${prefix}${excerpt.trim()}${suffix}`,
+    ranges: ranges
+      .filter(range => range.start >= start && range.end <= end)
+      .map(range => ({ start: range.start + shift, end: range.end + shift })),
+  };
+};
@@ -1,23 +1,26 @@
-import { GoogleGenAI, GenerateContentResponse, GenerateContentParameters } from "@google/genai";
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { AIProviderType } from "../types";
+import { AIProvider, EmbeddingTaskType, parseJsonResponse } from "./aiProvider";
 
 const API_KEY = process.env.API_KEY;
 
 if (!API_KEY) {
-  console.warn("API_KEY for Gemini is not set. AI features will be disabled. Set process.env.API_KEY.");
+  console.warn("API_KEY for Gemini is not set. Gemini features will be disabled. Set process.env.API_KEY.");
 }
 
 const ai = API_KEY ? new GoogleGenAI({ apiKey: API_KEY }) : null;
 
-const GEN_MODEL = 'gemini-2.5';
+const GEN_MODEL = 'gemini-2.5-flash';
+const EMBEDDING_MODEL = 'text-embedding-004';
 
-export const generateText = async (prompt: string): Promise<string> => {
+const generateText = async (prompt: string): Promise<string> => {
   if (!ai) return "AI service is unavailable (API key missing).";
   try {
     const response: GenerateContentResponse = await ai.models.generateContent({
       model: GEN_MODEL,
       contents: prompt,
     });
-    return response.text;
+    return response.text ?? '';
   } catch (error) {
     console.error("Error generating text from Gemini:", error);
     // Return a user-friendly error or re-throw as appropriate
@@ -25,7 +28,7 @@ export const generateText = async (prompt: string): Promise<string> => {
   }
 };
 
-export const generateJson = async <T,>(prompt: string): Promise<T | null> => {
+const generateJson = async <T,>(prompt: string): Promise<T | null> => {
   if (!ai) {
     console.warn("AI service is unavailable (API key missing). Cannot generate JSON.");
     return null;
@@ -38,22 +41,7 @@ export const generateJson = async <T,>(prompt: string): Promise<T | null> => {
         responseMimeType: "application/json",
       },
     });
-
-    let jsonStr = response.text.trim();
-    const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-    const match = jsonStr.match(fenceRegex);
-    if (match && match[2]) {
-      jsonStr = match[2].trim();
-    }
-    
-    // Additional check for empty string before parsing
-    if (!jsonStr) {
-        console.error("Empty JSON string received from AI.");
-        throw new Error("Received empty JSON string from AI.");
-    }
-
-    return JSON.parse(jsonStr) as T;
-
+    return parseJsonResponse<T>(response.text ?? '');
   } catch (error) {
     console.error("Error generating or parsing JSON from Gemini:", error);
     // More specific error for the caller to handle if needed
@@ -61,10 +49,10 @@ export const generateJson = async <T,>(prompt: string): Promise<T | null> => {
   }
 };
 
-export const generateTextStream = async (
-    prompt: string, 
-    onChunk: (chunk: string) => void, 
-    onError: (error: Error) => void, 
+const generateTextStream = async (
+    prompt: string,
+    onChunk: (chunk: string) => void,
+    onError: (error: Error) => void,
     onComplete: () => void
 ): Promise<void> => {
   if (!ai) {
@@ -78,7 +66,7 @@ export const generateTextStream = async (
       contents: prompt,
     });
     for await (const chunk of responseStream) {
-      onChunk(chunk.text);
+      if (chunk.text) onChunk(chunk.text);
     }
   } catch (error) {
     console.error("Error streaming text from Gemini:", error);
@@ -88,4 +76,38 @@ export const generateTextStream = async (
   }
 };
 
-export const isAIServiceAvailable = (): boolean => !!ai;
+const generateEmbeddings = async (texts: string[], taskType: EmbeddingTaskType): Promise<number[][] | null> => {
+  if (!ai) {
+    console.warn("AI service is unavailable (API key missing). Cannot generate embeddings.");
+    return null;
+  }
+  if (texts.length === 0) return [];
+  try {
+    const response = await ai.models.embedContent({
+      model: EMBEDDING_MODEL,
+      contents: texts,
+      config: { taskType },
+    });
+    const vectors = (response.embeddings || []).map(embedding => embedding.values || []);
+    if (vectors.length !== texts.length || vectors.some(vector => vector.length === 0)) {
+      throw new Error(`Expected ${texts.length} embeddings but received ${vectors.length}.`);
+    }
+    return vectors;
+  } catch (error) {
+    console.error("Error generating embeddings from Gemini:", error);
+    throw new Error(`Failed to generate embeddings. ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+export const geminiProvider: AIProvider = {
+  type: AIProviderType.GEMINI,
+  label: 'Google Gemini',
+  modelName: GEN_MODEL,
+  embeddingModelName: EMBEDDING_MODEL,
+  embeddingMinSimilarity: 0.55,
+  isAvailable: () => !!ai,
+  generateText,
+  generateJson,
+  generateTextStream,
+  generateEmbeddings,
+};
@@ -0,0 +1,402 @@
+import { Document, DocumentType } from "../types";
+
+// A small Markdown parser (CommonMark basics plus GFM tables and strikethrough). It produces a tree
+// that MarkdownContent renders as React elements, so raw HTML in the source is only ever shown as
+// text, and links are limited to safe schemes.
+
+export type MarkdownInline =
+  | { kind: 'text'; text: string }
+  | { kind: 'code'; text: string }
+  | { kind: 'strong' | 'emphasis' | 'strikethrough'; children: MarkdownInline[] }
+  | { kind: 'link'; href: string; children: MarkdownInline[] }
+  | { kind: 'break' };
+
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { kind: 'heading'; level: number; children: MarkdownInline[] }
+  | { kind: 'paragraph'; children: MarkdownInline[] }
+  | { kind: 'code'; language: string; text: string }
+  | { kind: 'quote'; blocks: MarkdownBlock[] }
+  | { kind: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { kind: 'table'; alignments: TableAlignment[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { kind: 'rule' };
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(?:\s+(.*))?$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const isBlank = (line: string): boolean => line.trim() === '';
+const indentOf = (line: string): number => line.length - line.trimStart().length;
+
+const splitTableRow = (line: string): string[] => {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const isTableStart = (lines: string[], index: number): boolean =>
+  lines[index].includes('|') && index + 1 < lines.length && lines[index + 1].includes('-') && TABLE_SEPARATOR.test(lines[index + 1]);
+
+// Lines that end a paragraph without a blank line between.
+const startsBlock = (lines: string[], index: number): boolean => {
+  const line = lines[index];
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) || isTableStart(lines, index);
+};
+
+const parseAlignment = (cell: string): TableAlignment => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+};
+
+/** Collects the lines of one list item (its first line already consumed) and returns where it ended. */
+const collectListItem = (lines: string[], start: number, baseIndent: number, contentIndent: number): { itemLines: string[]; next: number } => {
+  const itemLines: string[] = [];
+  let i = start;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      let next = i + 1;
+      while (next < lines.length && isBlank(lines[next])) next++;
+      // A blank line only stays inside the item when indented content follows it.
+      if (next < lines.length && indentOf(lines[next]) >= contentIndent) {
+        itemLines.push(...lines.slice(i, next).map(() => ''));
+        i = next;
+        continue;
+      }
+      break;
+    }
+    const indent = indentOf(line);
+    if (indent > baseIndent) {
+      itemLines.push(line.slice(Math.min(indent, contentIndent)));
+    } else if (startsBlock(lines, i)) {
+      break;
+    } else {
+      itemLines.push(line.trim()); // Lazy paragraph continuation
+    }
+    i++;
+  }
+  return { itemLines, next: i };
+};
+
+const parseList = (lines: string[], start: number): { block: MarkdownBlock; next: number } => {
+  const first = lines[start].match(LIST_ITEM)!;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: MarkdownBlock[][] = [];
+  let i = start;
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM);
+    if (!match || match[1].length !== baseIndent || /\d/.test(match[2]) !== ordered || RULE.test(lines[i])) break;
+    const contentIndent = baseIndent + match[2].length + 1;
+    const { itemLines, next } = collectListItem(lines, i + 1, baseIndent, contentIndent);
+    items.push(parseBlockLines([match[3] ?? '', ...itemLines]));
+    i = next;
+    // Blank lines between items keep the list going.
+    let afterBlanks = i;
+    while (afterBlanks < lines.length && isBlank(lines[afterBlanks])) afterBlanks++;
+    const sibling = afterBlanks < lines.length ? lines[afterBlanks].match(LIST_ITEM) : null;
+    if (!sibling || sibling[1].length !== baseIndent) break;
+    i = afterBlanks;
+  }
+  return { block: { kind: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, next: i };
+};
+
+const parseBlockLines = (lines: string[]): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`).test(lines[i])) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      i++; // Closing fence (or end of text, for an unclosed block)
+      blocks.push({ kind: 'code', language: fence[2].toLowerCase(), text: codeLines.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ kind: 'heading', level: heading[1].length, children: parseInline(heading[2] ?? '') });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ kind: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoteLines: string[] = [];
+      while (i < lines.length && !isBlank(lines[i]) && (QUOTE.test(lines[i]) || !startsBlock(lines, i))) {
+        quoteLines.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      blocks.push({ kind: 'quote', blocks: parseBlockLines(quoteLines) });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line);
+      const alignments = splitTableRow(lines[i + 1]).map(parseAlignment);
+      const rows: MarkdownInline[][][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+        i++;
+      }
+      blocks.push({ kind: 'table', alignments: header.map((_, column) => alignments[column] ?? null), header: header.map(cell => parseInline(cell)), rows });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { block, next } = parseList(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    const paragraphLines = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i)) {
+      paragraphLines.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ kind: 'paragraph', children: parseInline(paragraphLines.join('\n')) });
+  }
+  return blocks;
+};
+
+export const parseMarkdown = (text: string): MarkdownBlock[] =>
+  parseBlockLines(text.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
+
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|~<>]/;
+const SAFE_URL = /^(https?:|mailto:|#)/i;
+const BARE_URL = /^https?:\/\/[^\s<]*[^\s<.,:;"')\]*_~]/;
+const AUTOLINK = /^<((?:https?:|mailto:)[^\s>]+)>/i;
+
+/** Index of the delimiter closing the one at `from`, skipping code spans; -1 if there is none. */
+const findClosingDelimiter = (text: string, from: number, delimiter: string): number => {
+  for (let j = from; j < text.length; j++) {
+    const char = text[j];
+    if (char === '\\') {
+      j++;
+      continue;
+    }
+    if (char === '`') {
+      const run = text.slice(j).match(/^`+/)![0];
+      const close = text.indexOf(run, j + run.length);
+      if (close !== -1) j = close + run.length - 1;
+      continue;
+    }
+    if (!text.startsWith(delimiter, j) || /\s/.test(text[j - 1])) continue;
+    // A single * or _ doesn't close on half of a double one.
+    if (delimiter.length === 1 && text[j + 1] === delimiter) {
+      j++;
+      continue;
+    }
+    if (delimiter === '_' && /[\p{L}\p{N}]/u.test(text[j + 1] ?? '')) continue;
+    return j;
+  }
+  return -1;
+};
+
+/** The index of the bracket closing each `[` that has one, allowing nested brackets; found in one pass. */
+const matchBrackets = (text: string): Map<number, number> => {
+  const closing = new Map<number, number>();
+  const open: number[] = [];
+  for (let j = 0; j < text.length; j++) {
+    if (text[j] === '\\') j++;
+    else if (text[j] === '[') open.push(j);
+    else if (text[j] === ']' && open.length > 0) closing.set(open.pop()!, j);
+  }
+  return closing;
+};
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ kind: 'text', text: buffer });
+    buffer = '';
+  };
+  const push = (node: MarkdownInline) => {
+    flush();
+    nodes.push(node);
+  };
+
+  // Where the search for each delimiter's closer last came up empty. A later search would scan the
+  // same tail and fail too, so stray asterisks cost one scan in all rather than one each.
+  const unclosedFrom: Record<string, number> = {};
+  let brackets: Map<number, number> | null = null;
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+    if (char === '\n') {
+      push({ kind: 'break' });
+      i++;
+      continue;
+    }
+    if (char === '`') {
+      const run = rest.match(/^`+/)![0];
+      const close = text.indexOf(run, i + run.length);
+      if (close !== -1) {
+        const code = text.slice(i + run.length, close).replace(/\n/g, ' ');
+        push({ kind: 'code', text: /^ .* $/.test(code) ? code.slice(1, -1) : code });
+        i = close + run.length;
+        continue;
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    const delimiter = rest.startsWith('**') ? '**' : rest.startsWith('__') ? '__' : rest.startsWith('~~') ? '~~' : char === '*' || char === '_' ? char : '';
+    const canOpen = delimiter && !/\s/.test(text[i + delimiter.length] ?? ' ') &&
+      // Underscores inside words (snake_case) are not emphasis.
+      !(delimiter[0] === '_' && /[\p{L}\p{N}]/u.test(text[i - 1] ?? ''));
+    if (canOpen && !(i >= unclosedFrom[delimiter])) {
+      const close = findClosingDelimiter(text, i + delimiter.length + 1, delimiter);
+      if (close === -1) unclosedFrom[delimiter] = i;
+      if (close !== -1) {
+        const kind = delimiter === '~~' ? 'strikethrough' : delimiter.length === 2 ? 'strong' : 'emphasis';
+        push({ kind, children: parseInline(text.slice(i + delimiter.length, close)) });
+        i = close + delimiter.length;
+        continue;
+      }
+    }
+    if (delimiter) {
+      buffer += delimiter;
+      i += delimiter.length;
+      continue;
+    }
+
+    if (char === '[' || (char === '!' && text[i + 1] === '[')) {
+      const isImage = char === '!';
+      const open = isImage ? i + 1 : i;
+      brackets ??= matchBrackets(text);
+      const close = brackets.get(open) ?? -1;
+      const target = close !== -1 ? text.slice(close + 1).match(/^\(\s*<?((?:[^\s()<>]|\([^\s()]*\))*)>?(?:\s+"[^"]*")?\s*\)/) : null;
+      if (target) {
+        const label = text.slice(open + 1, close);
+        // Images are shown as links so rendering never fetches from another site.
+        const children = parseInline(isImage ? `Image: ${label || target[1]}` : label);
+        if (SAFE_URL.test(target[1])) {
+          push({ kind: 'link', href: target[1], children });
+        } else {
+          flush();
+          nodes.push(...children); // Unsafe targets (javascript:, data:) keep only the label
+        }
+        i = close + 1 + target[0].length;
+        continue;
+      }
+    }
+
+    const autolink = rest.match(AUTOLINK);
+    if (autolink) {
+      push({ kind: 'link', href: autolink[1], children: [{ kind: 'text', text: autolink[1] }] });
+      i += autolink[0].length;
+      continue;
+    }
+    if (char === 'h' && !/[\p{L}\p{N}]/u.test(text[i - 1] ?? '')) {
+      const url = rest.match(BARE_URL);
+      if (url) {
+        push({ kind: 'link', href: url[0], children: [{ kind: 'text', text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+  flush();
+  return nodes;
+};
+
+// Markers that rarely appear in plain prose: headings, fenced code, tables, emphasis and links.
+const MARKDOWN_SIGNALS = [/^#{1,6}\s+\S/m, /^```/m, /^\s*\|?.*\|.*\n\s*\|?\s*:?-+:?\s*\|/m, /\*\*[^*\n]+\*\*/, /\[[^\]\n]+\]\([^)\s]+\)/, /^\s*[-*+]\s+\S/m, /^\s*\d+[.)]\s+\S/m];
+
+/** Whether a TEXT document's full content should be shown as formatted Markdown. */
+export const isMarkdownDocument = (doc: Pick<Document, 'name' | 'type' | 'fullContent'>): boolean => {
+  if (doc.type !== DocumentType.TEXT || !doc.fullContent?.trim()) return false;
+  if (/\.(md|markdown)$/i.test(doc.name)) return true;
+  // Lists alone are common in plain notes; require two different kinds of markup.
+  return MARKDOWN_SIGNALS.filter(signal => signal.test(doc.fullContent!)).length >= 2;
+};
+
+export type CodeTokenKind = 'keyword' | 'string' | 'comment' | 'number' | 'plain';
+
+export interface CodeToken {
+  kind: CodeTokenKind;
+  text: string;
+}
+
+const CODE_KEYWORDS = new Set([
+  // JavaScript / TypeScript
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else', 'enum', 'export',
+  'extends', 'false', 'finally', 'for', 'function', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new',
+  'null', 'of', 'private', 'protected', 'public', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'type',
+  'typeof', 'undefined', 'var', 'void', 'while', 'yield',
+  // Python
+  'and', 'as', 'def', 'elif', 'except', 'from', 'global', 'is', 'lambda', 'None', 'nonlocal', 'not', 'or', 'pass', 'raise',
+  'True', 'False', 'with',
+  // Java / C-family
+  'boolean', 'char', 'double', 'final', 'float', 'int', 'long', 'package', 'short', 'struct', 'unsigned',
+  // Shell
+  'echo', 'export', 'fi', 'then', 'done', 'esac',
+]);
+const SQL_KEYWORDS = /^(select|from|where|join|left|right|inner|outer|on|group|by|order|having|insert|into|values|update|set|delete|create|table|drop|alter|and|or|not|null|as|limit|distinct|union)$/i;
+const HASH_COMMENT_LANGUAGES = new Set(['python', 'py', 'bash', 'sh', 'shell', 'zsh', 'yaml', 'yml', 'ruby', 'rb', 'r', 'toml', 'dockerfile']);
+const SQL_LANGUAGES = new Set(['sql', 'mysql', 'postgresql', 'sqlite']);
+
+/** Splits code into tokens for syntax colouring. A lexical approximation that suits most C-like and scripting languages. */
+export const highlightCode = (code: string, language: string): CodeToken[] => {
+  const hashComments = HASH_COMMENT_LANGUAGES.has(language);
+  const isSql = SQL_LANGUAGES.has(language);
+  const lineComment = hashComments ? '#[^\\n]*' : isSql ? '--[^\\n]*' : '\\/\\/[^\\n]*';
+  const pattern = new RegExp(`(${lineComment}|\\/\\*[\\s\\S]*?\\*\\/)|("(?:\\\\.|[^"\\\\\\n])*"|'(?:\\\\.|[^'\\\\\\n])*'|\`(?:\\\\.|[^\`\\\\])*\`)|(\\b\\d+(?:\\.\\d+)?\\b)|([A-Za-z_$][\\w$]*)`, 'g');
+  const tokens: CodeToken[] = [];
+  let lastIndex = 0;
+  const pushToken = (kind: CodeTokenKind, text: string) => {
+    const previous = tokens[tokens.length - 1];
+    if (previous && previous.kind === kind) previous.text += text;
+    else tokens.push({ kind, text });
+  };
+  for (const match of code.matchAll(pattern)) {
+    if (match.index! > lastIndex) pushToken('plain', code.slice(lastIndex, match.index));
+    const [text, comment, string, number, word] = match;
+    if (comment) pushToken('comment', text);
+    else if (string) pushToken('string', text);
+    else if (number) pushToken('number', text);
+    else pushToken(word && (isSql ? SQL_KEYWORDS.test(word) : CODE_KEYWORDS.has(word)) ? 'keyword' : 'plain', text);
+    lastIndex = match.index! + text.length;
+  }
+  if (lastIndex < code.length) pushToken('plain', code.slice(lastIndex));
+  return tokens;
+};
@@ -0,0 +1,130 @@
+import { AIProviderType } from "../types";
+import { AIProvider } from "./aiProvider";
+import { tokenize } from "./textAnalysis";
+
+// Deterministic, offline stand-in for a real model. It answers by extracting sentences from the
+// prompt's own context, so demos and manual testing work with no network or API key.
+
+const STREAM_DELAY_MS = 15;
+const NOT_FOUND_ANSWER = "I could not find the answer to that in the provided documents.";
+
+const splitSentences = (text: string): string[] =>
+  (text.replace(/\s+/g, ' ').match(/[^.!?]+[.!?]?/g) || [])
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 10);
+
+// The content a prompt asks about: the part fenced by "---" lines, or the knowledge base section.
+const extractContext = (prompt: string): string => {
+  const knowledgeBase = prompt.match(/Knowledge Base:\n([\s\S]*?)\n\s*User Question:/);
+  if (knowledgeBase) return knowledgeBase[1];
+  const firstFence = prompt.indexOf('---');
+  const lastFence = prompt.lastIndexOf('---');
+  if (firstFence !== -1 && lastFence > firstFence) return prompt.slice(firstFence + 3, lastFence);
+  return prompt;
+};
+
+const extractQuestion = (prompt: string): string => prompt.match(/User Question:\s*"?([^\n"]*)/)?.[1] ?? '';
+
+const topKeywords = (text: string, count: number): string[] => {
+  const frequencies = new Map<string, number>();
+  tokenize(text)
+    .filter(token => token.length > 3 && !/^\d+$/.test(token))
+    .forEach(token => frequencies.set(token, (frequencies.get(token) || 0) + 1));
+  return Array.from(frequencies)
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, count)
+    .map(([token]) => token);
+};
+
+const rankSentencesByOverlap = (sentences: string[], query: string): string[] => {
+  const queryTerms = new Set(tokenize(query));
+  return sentences
+    .map((sentence, index) => ({ sentence, index, overlap: tokenize(sentence).filter(term => queryTerms.has(term)).length }))
+    .filter(({ overlap }) => overlap > 0)
+    .sort((a, b) => b.overlap - a.overlap || a.index - b.index)
+    .map(({ sentence }) => sentence);
+};
+
+const METADATA_LINE = /^(\[Passage \d+\]\s*)?(Document Name|Type|Source URL|Uploaded|Content Snippet|Content):.*$/gm;
+
+// Sentences tagged with the [Passage N] block they came from, so answers can cite them like a real model.
+const splitCitableSentences = (context: string): { sentence: string; passage?: number }[] => {
+  const blocks = context.split(/(?=\[Passage \d+\])/);
+  return blocks.flatMap(block => {
+    const passage = Number(block.match(/^\[Passage (\d+)\]/)?.[1]) || undefined;
+    return splitSentences(block.replace(METADATA_LINE, '')).map(sentence => ({ sentence, passage }));
+  });
+};
+
+const mockText = (prompt: string): string => {
+  const context = extractContext(prompt);
+  const citable = splitCitableSentences(context);
+  const sentences = citable.map(({ sentence }) => sentence);
+  if (/summarize/i.test(prompt) && !/User Question:/.test(prompt)) {
+    return sentences.slice(0, 3).join(' ') || "There is no content to summarize.";
+  }
+  const question = extractQuestion(prompt);
+  const passageBySentence = new Map(citable.map(({ sentence, passage }) => [sentence, passage]));
+  const answer = rankSentencesByOverlap(sentences, question)
+    .slice(0, 3)
+    .map(sentence => {
+      const passage = passageBySentence.get(sentence);
+      return passage ? `${sentence} [${passage}]` : sentence;
+    });
+  return answer.length > 0 ? answer.join(' ') : NOT_FOUND_ANSWER;
+};
+
+// Follow-ups are made standalone by borrowing the previous user question, which carries the topic.
+const mockStandaloneQuestion = (prompt: string): string => {
+  const followUp = prompt.match(/Follow-up Question:\s*(.*)/)?.[1]?.trim() ?? '';
+  const conversation = prompt.match(/Conversation:\n([\s\S]*?)\n\s*Follow-up Question:/)?.[1] ?? '';
+  const userTurns = Array.from(conversation.matchAll(/^User: (.*)$/gm), match => match[1].trim());
+  const previousQuestion = userTurns[userTurns.length - 1];
+  return previousQuestion ? `${previousQuestion} Follow-up: ${followUp}` : followUp;
+};
+
+const mockJson = (prompt: string): unknown => {
+  const context = extractContext(prompt);
+  const sentences = splitSentences(context);
+  if (prompt.includes('standalone_question')) {
+    return { standalone_question: mockStandaloneQuestion(prompt) };
+  }
+  if (prompt.includes('conversation_summary')) {
+    const previousSummary = prompt.match(/Existing Summary: (.*)/)?.[1]?.replace('(none)', '').trim() ?? '';
+    const turnSentences = context.split('\n').map(line => splitSentences(line.replace(/^(User|Assistant): /, ''))[0]).filter(Boolean);
+    return { conversation_summary: [previousSummary, ...turnSentences].filter(Boolean).slice(-6).join(' ') };
+  }
+  if (prompt.includes('summary_points')) {
+    return { summary_points: sentences.slice(0, 4) };
+  }
+  if (/keyword tags/i.test(prompt)) {
+    return topKeywords(context, 4);
+  }
+  if (/frequently asked questions|FAQs/i.test(prompt)) {
+    return topKeywords(context, 3).map(keyword => ({
+      question: `What does the document say about ${keyword}?`,
+      answer: sentences.find(sentence => sentence.toLowerCase().includes(keyword)) ?? sentences[0] ?? '',
+    }));
+  }
+  return null;
+};
+
+export const mockProvider: AIProvider = {
+  type: AIProviderType.MOCK,
+  label: 'Offline mock (deterministic)',
+  modelName: 'mock-extractive-v1',
+  embeddingModelName: undefined,
+  embeddingMinSimilarity: 0,
+  isAvailable: () => true,
+  generateText: async (prompt) => mockText(prompt),
+  generateJson: async <T,>(prompt: string) => mockJson(prompt) as T | null,
+  generateTextStream: async (prompt, onChunk, _onError, onComplete) => {
+    const words = mockText(prompt).split(/(?<=\s)/);
+    for (const word of words) {
+      await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+      onChunk(word);
+    }
+    onComplete();
+  },
+  generateEmbeddings: async () => null,
+};
@@ -0,0 +1,149 @@
+import { AIProviderSettings, AIProviderType } from "../types";
+import { AIProvider, EmbeddingTaskType, parseJsonResponse } from "./aiProvider";
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string } }[];
+}
+
+interface EmbeddingResponse {
+  data?: { index: number; embedding: number[] }[];
+}
+
+/**
+ * Talks to any server that implements the OpenAI REST API: OpenAI itself, Azure-style gateways,
+ * or a local Ollama / llama.cpp / LM Studio server (e.g. http://localhost:11434/v1).
+ */
+export const createOpenAICompatibleProvider = (settings: AIProviderSettings): AIProvider => {
+  const baseUrl = settings.openAIBaseUrl.trim().replace(/\/+$/, '');
+  const model = settings.openAIModel.trim();
+  const embeddingModel = settings.openAIEmbeddingModel.trim();
+  const isAvailable = () => !!baseUrl && !!model;
+
+  const request = async (path: string, body: object): Promise<Response> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.openAIApiKey.trim()) {
+      headers['Authorization'] = `Bearer ${settings.openAIApiKey.trim()}`;
+    }
+    const response = await fetch(`${baseUrl}${path}`, { method: 'POST', headers, body: JSON.stringify(body) });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 300)}` : ''}`);
+    }
+    return response;
+  };
+
+  const complete = async (prompt: string): Promise<string> => {
+    const response = await request('/chat/completions', {
+      model,
+      messages: [{ role: 'user', content: prompt }],
+    });
+    const data: ChatCompletionResponse = await response.json();
+    return data.choices?.[0]?.message?.content ?? '';
+  };
+
+  const generateText = async (prompt: string): Promise<string> => {
+    if (!isAvailable()) return "AI service is unavailable (endpoint or model not configured).";
+    try {
+      return await complete(prompt);
+    } catch (error) {
+      console.error("Error generating text from OpenAI-compatible endpoint:", error);
+      return `Error from AI: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  };
+
+  const generateJson = async <T,>(prompt: string): Promise<T | null> => {
+    if (!isAvailable()) {
+      console.warn("AI service is unavailable (endpoint or model not configured). Cannot generate JSON.");
+      return null;
+    }
+    try {
+      // response_format is not used: many local servers reject it, and it forbids top-level arrays.
+      const text = await complete(`${prompt}\n\nRespond with valid JSON only, no commentary.`);
+      return parseJsonResponse<T>(text);
+    } catch (error) {
+      console.error("Error generating or parsing JSON from OpenAI-compatible endpoint:", error);
+      throw new Error(`Failed to generate or parse JSON from AI. Original error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const generateTextStream = async (
+    prompt: string,
+    onChunk: (chunk: string) => void,
+    onError: (error: Error) => void,
+    onComplete: () => void
+  ): Promise<void> => {
+    if (!isAvailable()) {
+      onError(new Error("AI service is unavailable (endpoint or model not configured)."));
+      onComplete();
+      return;
+    }
+    try {
+      const response = await request('/chat/completions', {
+        model,
+        stream: true,
+        messages: [{ role: 'user', content: prompt }],
+      });
+      if (!response.body) throw new Error("Streaming is not supported by this endpoint.");
+
+      // Server-sent events: "data: {json}\n\n" lines, terminated by "data: [DONE]".
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+          const payload = trimmed.slice(5).trim();
+          if (payload === '[DONE]') return;
+          const chunk: ChatCompletionChunk = JSON.parse(payload);
+          const content = chunk.choices?.[0]?.delta?.content;
+          if (content) onChunk(content);
+        }
+      }
+    } catch (error) {
+      console.error("Error streaming text from OpenAI-compatible endpoint:", error);
+      onError(error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      onComplete();
+    }
+  };
+
+  const generateEmbeddings = async (texts: string[], _taskType: EmbeddingTaskType): Promise<number[][] | null> => {
+    if (!isAvailable() || !embeddingModel) return null;
+    if (texts.length === 0) return [];
+    try {
+      const response = await request('/embeddings', { model: embeddingModel, input: texts });
+      const data: EmbeddingResponse = await response.json();
+      const vectors = (data.data || []).sort((a, b) => a.index - b.index).map(item => item.embedding);
+      if (vectors.length !== texts.length) {
+        throw new Error(`Expected ${texts.length} embeddings but received ${vectors.length}.`);
+      }
+      return vectors;
+    } catch (error) {
+      console.error("Error generating embeddings from OpenAI-compatible endpoint:", error);
+      throw new Error(`Failed to generate embeddings. ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return {
+    type: AIProviderType.OPENAI_COMPATIBLE,
+    label: 'OpenAI-compatible',
+    modelName: model || '(not configured)',
+    embeddingModelName: embeddingModel || undefined,
+    embeddingMinSimilarity: 0.4,
+    isAvailable,
+    generateText,
+    generateJson,
+    generateTextStream,
+    generateEmbeddings,
+  };
+};
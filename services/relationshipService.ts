@@ -0,0 +1,269 @@
+import { Document, DocumentLink, DocumentRelationType } from "../types";
+
+// Links between documents: typed relationships users add, plus mentions detected when one
+// document's text names another ("see Company Policy Q1 2024").
+
+// 'mentions' is detected, never stored.
+export type RelationKind = DocumentRelationType | 'mentions';
+
+export const RELATION_TYPES: DocumentRelationType[] = ['references', 'supersedes', 'related-to'];
+
+export const RELATION_LABELS: Record<RelationKind, { outgoing: string; incoming: string }> = {
+  references: { outgoing: 'References', incoming: 'Referenced by' },
+  supersedes: { outgoing: 'Supersedes', incoming: 'Superseded by' },
+  'related-to': { outgoing: 'Related to', incoming: 'Related to' },
+  mentions: { outgoing: 'Mentions', incoming: 'Mentioned in' },
+};
+
+export interface DocumentRelation {
+  kind: RelationKind;
+  document: Document; // The document at the other end
+}
+
+export interface DocumentRelations {
+  outgoing: DocumentRelation[];
+  incoming: DocumentRelation[]; // Backlinks
+}
+
+// Document id → ids of the documents its text mentions by name.
+export type MentionMap = Map<string, Set<string>>;
+
+const wordsOf = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+// Single-word names ("Onboarding") are too often ordinary words to count as mentions.
+const MIN_NAME_WORDS = 2;
+
+/** The words a mention has to contain: the name without a file extension. */
+const getNameWords = (doc: Document): string[] => wordsOf(doc.name.replace(/\.[a-z0-9]{2,5}$/i, ''));
+
+/**
+ * Finds which documents name which others in their text. Names are matched as whole-word
+ * phrases, case-insensitively, in one pass over each document's words.
+ */
+export const detectMentions = (documents: Document[]): MentionMap => {
+  // First word of each name → the names starting with it.
+  const namesByFirstWord = new Map<string, { id: string; words: string[] }[]>();
+  documents.forEach(doc => {
+    const words = getNameWords(doc);
+    if (words.length < MIN_NAME_WORDS) return;
+    const entries = namesByFirstWord.get(words[0]) ?? [];
+    entries.push({ id: doc.id, words });
+    namesByFirstWord.set(words[0], entries);
+  });
+
+  const mentions: MentionMap = new Map();
+  documents.forEach(doc => {
+    const words = wordsOf(`${doc.contentSnippet}\n${doc.fullContent ?? ''}`);
+    const found = new Set<string>();
+    words.forEach((word, i) => {
+      namesByFirstWord.get(word)?.forEach(name => {
+        if (name.id !== doc.id && name.words.every((nameWord, j) => words[i + j] === nameWord)) found.add(name.id);
+      });
+    });
+    if (found.size > 0) mentions.set(doc.id, found);
+  });
+  return mentions;
+};
+
+/** Everything linked to the document in either direction. Explicit links win over a detected mention of the same pair. */
+export const getDocumentRelations = (doc: Document, documents: Document[], mentions: MentionMap): DocumentRelations => {
+  const byId = new Map(documents.map(other => [other.id, other]));
+  const outgoing: DocumentRelation[] = [];
+  const incoming: DocumentRelation[] = [];
+
+  (doc.links ?? []).forEach(link => {
+    const target = byId.get(link.targetId);
+    if (target) outgoing.push({ kind: link.type, document: target });
+  });
+  mentions.get(doc.id)?.forEach(targetId => {
+    const target = byId.get(targetId);
+    if (target && !outgoing.some(relation => relation.document.id === targetId)) outgoing.push({ kind: 'mentions', document: target });
+  });
+
+  documents.forEach(other => {
+    if (other.id === doc.id) return;
+    const links = (other.links ?? []).filter(link => link.targetId === doc.id);
+    links.forEach(link => incoming.push({ kind: link.type, document: other }));
+    if (links.length === 0 && mentions.get(other.id)?.has(doc.id)) incoming.push({ kind: 'mentions', document: other });
+  });
+  return { outgoing, incoming };
+};
+
+/** Returns a user-facing problem with the link, or null if it can be added. */
+export const validateLink = (doc: Document, link: DocumentLink): string | null => {
+  if (link.targetId === doc.id) return "A document can't be linked to itself.";
+  if ((doc.links ?? []).some(existing => existing.targetId === link.targetId && existing.type === link.type)) {
+    return "That relationship already exists.";
+  }
+  return null;
+};
+
+export const addLink = (doc: Document, link: DocumentLink): Document => ({ ...doc, links: [...(doc.links ?? []), link] });
+
+export const removeLink = (doc: Document, link: DocumentLink): Document => ({
+  ...doc,
+  links: (doc.links ?? []).filter(existing => existing.targetId !== link.targetId || existing.type !== link.type),
+});
+
+export interface GraphNode {
+  id: string;
+  document: Document;
+  distance: number; // Hops from the focus document (0 for the focus itself)
+}
+
+export interface GraphEdge {
+  sourceId: string;
+  targetId: string;
+  kind: RelationKind;
+}
+
+export interface RelationshipGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  isTruncated: boolean; // More documents were reachable than maxNodes
+}
+
+const getAllEdges = (documents: Document[], mentions: MentionMap, kinds: Set<RelationKind>): GraphEdge[] => {
+  const ids = new Set(documents.map(doc => doc.id));
+  const edges: GraphEdge[] = [];
+  const linkedPairs = new Set<string>();
+  documents.forEach(doc => (doc.links ?? []).forEach(link => {
+    if (!ids.has(link.targetId) || link.targetId === doc.id) return;
+    linkedPairs.add(`${doc.id}>${link.targetId}`);
+    if (kinds.has(link.type)) edges.push({ sourceId: doc.id, targetId: link.targetId, kind: link.type });
+  }));
+  if (kinds.has('mentions')) {
+    mentions.forEach((targetIds, sourceId) => targetIds.forEach(targetId => {
+      if (ids.has(sourceId) && ids.has(targetId) && !linkedPairs.has(`${sourceId}>${targetId}`)) edges.push({ sourceId, targetId, kind: 'mentions' });
+    }));
+  }
+  return edges;
+};
+
+/**
+ * The documents within `depth` links of the focus document (in either direction), or every linked
+ * document when there is no focus. Stops growing at maxNodes, nearest documents first.
+ */
+export const buildRelationshipGraph = (
+  documents: Document[],
+  mentions: MentionMap,
+  options: { focusId: string | null; depth: number; kinds: Set<RelationKind>; maxNodes: number },
+): RelationshipGraph => {
+  const byId = new Map(documents.map(doc => [doc.id, doc]));
+  const allEdges = getAllEdges(documents, mentions, options.kinds);
+  const neighbours = new Map<string, Set<string>>();
+  allEdges.forEach(({ sourceId, targetId }) => {
+    if (!neighbours.has(sourceId)) neighbours.set(sourceId, new Set());
+    if (!neighbours.has(targetId)) neighbours.set(targetId, new Set());
+    neighbours.get(sourceId)!.add(targetId);
+    neighbours.get(targetId)!.add(sourceId);
+  });
+
+  const distances = new Map<string, number>();
+  let isTruncated = false;
+  if (options.focusId && byId.has(options.focusId)) {
+    distances.set(options.focusId, 0);
+    let frontier = [options.focusId];
+    for (let distance = 1; distance <= options.depth && frontier.length > 0; distance++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const neighbour of neighbours.get(id) ?? []) {
+          if (distances.has(neighbour)) continue;
+          if (distances.size >= options.maxNodes) {
+            isTruncated = true;
+            break;
+          }
+          distances.set(neighbour, distance);
+          next.push(neighbour);
+        }
+      }
+      frontier = next;
+    }
+  } else {
+    // Best-connected documents first, so the cap keeps the hubs.
+    const linked = [...neighbours.keys()].sort((a, b) => neighbours.get(b)!.size - neighbours.get(a)!.size);
+    isTruncated = linked.length > options.maxNodes;
+    linked.slice(0, options.maxNodes).forEach(id => distances.set(id, 1));
+  }
+
+  const nodes = [...distances].map(([id, distance]) => ({ id, document: byId.get(id)!, distance }));
+  const edges = allEdges.filter(edge => distances.has(edge.sourceId) && distances.has(edge.targetId));
+  return { nodes, edges, isTruncated };
+};
+
+const GRAVITY = 0.1;
+const LAYOUT_MARGIN = 40;
+
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * Force-directed layout (Fruchterman–Reingold): linked documents pull together, all documents push
+ * apart, so clusters of related documents end up grouped. Deterministic, starting from a circle with
+ * the focus document (if any) pinned in the middle.
+ */
+export const layoutGraph = (graph: RelationshipGraph, width: number, height: number, focusId: string | null, iterations = 300): Map<string, NodePosition> => {
+  const positions = new Map<string, NodePosition>();
+  const count = graph.nodes.length;
+  if (count === 0) return positions;
+  const centerX = width / 2;
+  const centerY = height / 2;
+  graph.nodes.forEach((node, i) => {
+    const angle = (2 * Math.PI * i) / count;
+    const radius = Math.min(width, height) * (0.15 + 0.25 * Math.min(node.distance, 2) / 2);
+    positions.set(node.id, node.id === focusId ? { x: centerX, y: centerY } : { x: centerX + radius * Math.cos(angle), y: centerY + radius * Math.sin(angle) });
+  });
+
+  const idealDistance = Math.min(Math.sqrt((width * height) / count) * 0.5, 160);
+  let temperature = Math.min(width, height) / 10;
+  const cooling = temperature / (iterations + 1);
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const displacement = new Map(graph.nodes.map(node => [node.id, { x: 0, y: 0 }]));
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const a = positions.get(graph.nodes[i].id)!;
+        const b = positions.get(graph.nodes[j].id)!;
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const distance = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = (idealDistance * idealDistance) / distance;
+        const da = displacement.get(graph.nodes[i].id)!;
+        const db = displacement.get(graph.nodes[j].id)!;
+        da.x += (dx / distance) * force;
+        da.y += (dy / distance) * force;
+        db.x -= (dx / distance) * force;
+        db.y -= (dy / distance) * force;
+      }
+    }
+    graph.edges.forEach(edge => {
+      const a = positions.get(edge.sourceId)!;
+      const b = positions.get(edge.targetId)!;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = (distance * distance) / idealDistance;
+      const da = displacement.get(edge.sourceId)!;
+      const db = displacement.get(edge.targetId)!;
+      da.x -= (dx / distance) * force;
+      da.y -= (dy / distance) * force;
+      db.x += (dx / distance) * force;
+      db.y += (dy / distance) * force;
+    });
+    graph.nodes.forEach(node => {
+      if (node.id === focusId) return;
+      const position = positions.get(node.id)!;
+      const { x, y } = displacement.get(node.id)!;
+      // Gravity toward the middle keeps unlinked clusters from drifting to the edges.
+      const gravityX = (centerX - position.x) * GRAVITY * idealDistance / 10;
+      const gravityY = (centerY - position.y) * GRAVITY * idealDistance / 10;
+      const length = Math.max(Math.hypot(x + gravityX, y + gravityY), 0.01);
+      const step = Math.min(length, temperature);
+      position.x = Math.min(width - LAYOUT_MARGIN, Math.max(LAYOUT_MARGIN, position.x + ((x + gravityX) / length) * step));
+      position.y = Math.min(height - LAYOUT_MARGIN, Math.max(LAYOUT_MARGIN, position.y + ((y + gravityY) / length) * step));
+    });
+    temperature -= cooling;
+  }
+  return positions;
+};
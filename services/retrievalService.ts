@@ -0,0 +1,262 @@
+import { Document, DocumentChunk, DocumentType, RetrievedChunk } from "../types";
+import { tokenize, estimateTokenCount } from "./textAnalysis";
+import { embedTexts, embedTextsWithProvider, cosineSimilarity, getMinSimilarity } from "./embeddingService";
+import { getTranscriptTimestampAt } from "./transcriptService";
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 2000;
+export const MIN_CONTEXT_TOKEN_BUDGET = 500;
+export const MAX_CONTEXT_TOKEN_BUDGET = 32000;
+
+const CHUNK_SIZE = 800; // characters
+const CHUNK_OVERLAP = 200;
+const DEFAULT_TOP_K = 8;
+const HYBRID_CANDIDATES = 20;
+const RRF_K = 60; // Reciprocal rank fusion damping constant
+
+export interface DocumentMatch {
+  documentId: string;
+  score: number;
+}
+
+// BM25 tuning constants (standard Okapi defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+interface IndexedChunk {
+  chunk: DocumentChunk;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+// Module-level index, kept in sync by App through indexDocument/removeDocumentFromIndex.
+const chunksById = new Map<string, IndexedChunk>();
+const chunkIdsByDocument = new Map<string, string[]>();
+const documentFrequencies = new Map<string, number>();
+let totalTokenCount = 0;
+
+interface ChunkVector {
+  providerId: string;
+  vector: number[];
+}
+
+// Vectors are cached by the exact text embedded, so re-indexing an unchanged document
+// (e.g. after toggling a bookmark) never re-embeds it. Embedding runs in the background, one request
+// at a time; searches use the vectors stored so far rather than waiting for it.
+const vectorsByEmbeddingText = new Map<string, ChunkVector>();
+let embeddingQueue: Promise<void> = Promise.resolve();
+
+const getEmbeddingText = (chunk: DocumentChunk): string => `${chunk.documentName}\n${chunk.text}`;
+
+const embedMissingChunks = (chunks: DocumentChunk[]): void => {
+  embeddingQueue = embeddingQueue.then(async () => {
+    const missingTexts = Array.from(new Set(chunks.map(getEmbeddingText).filter(text => !vectorsByEmbeddingText.has(text))));
+    if (missingTexts.length === 0) return;
+    try {
+      const { providerId, vectors } = await embedTexts(missingTexts, 'RETRIEVAL_DOCUMENT');
+      missingTexts.forEach((text, i) => vectorsByEmbeddingText.set(text, { providerId, vector: vectors[i] }));
+    } catch (error) {
+      console.error("Error embedding document chunks:", error);
+    }
+  });
+};
+
+// The text chunks are cut from; chunk offsets index into it.
+export const getDocumentText = (doc: Pick<Document, 'fullContent' | 'contentSnippet'>): string => doc.fullContent?.trim() || doc.contentSnippet || '';
+
+/**
+ * Splits a document's content into overlapping chunks, preferring to break at paragraph
+ * or sentence boundaries so retrieved passages read naturally.
+ */
+export const chunkDocument = (doc: Document, chunkSize = CHUNK_SIZE, overlap = CHUNK_OVERLAP): DocumentChunk[] => {
+  const text = getDocumentText(doc);
+  if (!text) return [];
+
+  const chunks: DocumentChunk[] = [];
+  const isTranscript = doc.type === DocumentType.YOUTUBE_LINK;
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + chunkSize, text.length);
+    if (end < text.length) {
+      const window = text.slice(start, end);
+      const breakAt = Math.max(window.lastIndexOf('\n\n'), window.lastIndexOf('. '), window.lastIndexOf('\n'));
+      if (breakAt > chunkSize / 2) end = start + breakAt + 1;
+    }
+    const timestampSeconds = isTranscript ? getTranscriptTimestampAt(text, start) : null;
+    chunks.push({
+      id: `${doc.id}#${chunks.length}`,
+      documentId: doc.id,
+      documentName: doc.name,
+      index: chunks.length,
+      text: text.slice(start, end).trim(),
+      start,
+      end,
+      ...(timestampSeconds !== null ? { timestampSeconds } : {}),
+    });
+    if (end >= text.length) break;
+    // Step back by the overlap, then forward to the next word so chunks don't start mid-word.
+    let nextStart = Math.max(end - overlap, start + 1);
+    const nextSpace = text.indexOf(' ', nextStart);
+    if (nextSpace !== -1 && nextSpace < end) nextStart = nextSpace + 1;
+    start = nextStart;
+  }
+  return chunks;
+};
+
+export const removeDocumentFromIndex = (documentId: string): void => {
+  const chunkIds = chunkIdsByDocument.get(documentId);
+  if (!chunkIds) return;
+  for (const chunkId of chunkIds) {
+    const indexed = chunksById.get(chunkId);
+    if (!indexed) continue;
+    for (const term of indexed.termFrequencies.keys()) {
+      const df = (documentFrequencies.get(term) || 1) - 1;
+      if (df > 0) documentFrequencies.set(term, df);
+      else documentFrequencies.delete(term);
+    }
+    totalTokenCount -= indexed.length;
+    chunksById.delete(chunkId);
+  }
+  chunkIdsByDocument.delete(documentId);
+};
+
+// Indexes the document for BM25 and returns its chunks, leaving the embedding to the caller.
+const addToIndex = (doc: Document): DocumentChunk[] => {
+  removeDocumentFromIndex(doc.id);
+  // Name and tags are indexed with every chunk so questions naming a document find its passages.
+  const documentTerms = tokenize(`${doc.name} ${doc.tags.join(' ')}`);
+  const chunks = chunkDocument(doc);
+  for (const chunk of chunks) {
+    const tokens = [...documentTerms, ...tokenize(chunk.text)];
+    const termFrequencies = new Map<string, number>();
+    tokens.forEach(token => termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1));
+    for (const term of termFrequencies.keys()) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1);
+    }
+    chunksById.set(chunk.id, { chunk, termFrequencies, length: tokens.length });
+    totalTokenCount += tokens.length;
+  }
+  chunkIdsByDocument.set(doc.id, chunks.map(chunk => chunk.id));
+  return chunks;
+};
+
+/** Indexes the documents, embedding all their new chunks in one request (batched by the provider). */
+export const indexDocuments = (documents: Document[]): void => {
+  embedMissingChunks(documents.flatMap(addToIndex));
+};
+
+export const indexDocument = (doc: Document): void => indexDocuments([doc]);
+
+export const rebuildIndex = (documents: Document[]): void => {
+  chunksById.clear();
+  chunkIdsByDocument.clear();
+  documentFrequencies.clear();
+  totalTokenCount = 0;
+  indexDocuments(documents);
+  // Drop cached vectors for text that no longer exists anywhere in the corpus.
+  const liveTexts = new Set(Array.from(chunksById.values(), ({ chunk }) => getEmbeddingText(chunk)));
+  for (const text of vectorsByEmbeddingText.keys()) {
+    if (!liveTexts.has(text)) vectorsByEmbeddingText.delete(text);
+  }
+};
+
+/** Discards every stored vector and re-embeds the corpus, e.g. after the AI provider changes. */
+export const resetEmbeddings = (): void => {
+  vectorsByEmbeddingText.clear();
+  embedMissingChunks(Array.from(chunksById.values(), ({ chunk }) => chunk));
+};
+
+/** Ranks indexed chunks against the query with BM25 and returns the best `topK`. */
+export const searchChunks = (query: string, topK = DEFAULT_TOP_K): RetrievedChunk[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const chunkCount = chunksById.size;
+  if (queryTerms.length === 0 || chunkCount === 0) return [];
+
+  const averageLength = totalTokenCount / chunkCount;
+  const results: RetrievedChunk[] = [];
+  for (const { chunk, termFrequencies, length } of chunksById.values()) {
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = termFrequencies.get(term);
+      if (!tf) continue;
+      const df = documentFrequencies.get(term) || 0;
+      const idf = Math.log(1 + (chunkCount - df + 0.5) / (df + 0.5));
+      score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * (length / averageLength)));
+    }
+    if (score > 0) results.push({ chunk, score });
+  }
+  return results.sort((a, b) => b.score - a.score).slice(0, topK);
+};
+
+/**
+ * Ranks indexed chunks by cosine similarity to the query embedding. The query is embedded once
+ * per provider that produced stored vectors, so vectors are only ever compared within one space.
+ * Chunks still waiting to be embedded are left out.
+ */
+export const semanticSearchChunks = async (query: string, topK = DEFAULT_TOP_K): Promise<RetrievedChunk[]> => {
+  if (!query.trim()) return [];
+
+  const chunksByProvider = new Map<string, { chunk: DocumentChunk; vector: number[] }[]>();
+  for (const { chunk } of chunksById.values()) {
+    const stored = vectorsByEmbeddingText.get(getEmbeddingText(chunk));
+    if (!stored) continue;
+    const group = chunksByProvider.get(stored.providerId) || [];
+    group.push({ chunk, vector: stored.vector });
+    chunksByProvider.set(stored.providerId, group);
+  }
+
+  const results: RetrievedChunk[] = [];
+  for (const [providerId, candidates] of chunksByProvider) {
+    const queryVectors = await embedTextsWithProvider(providerId, [query], 'RETRIEVAL_QUERY');
+    if (!queryVectors) continue;
+    const minSimilarity = getMinSimilarity(providerId);
+    for (const { chunk, vector } of candidates) {
+      const score = cosineSimilarity(queryVectors[0], vector);
+      if (score >= minSimilarity) results.push({ chunk, score });
+    }
+  }
+  return results.sort((a, b) => b.score - a.score).slice(0, topK);
+};
+
+/** Document-level semantic matches for the Document Hub: each document scores as its best chunk. */
+export const semanticSearchDocuments = async (query: string): Promise<DocumentMatch[]> => {
+  const chunkResults = await semanticSearchChunks(query, chunksById.size);
+  const bestByDocument = new Map<string, number>();
+  for (const { chunk, score } of chunkResults) {
+    bestByDocument.set(chunk.documentId, Math.max(score, bestByDocument.get(chunk.documentId) ?? -Infinity));
+  }
+  return Array.from(bestByDocument, ([documentId, score]) => ({ documentId, score }))
+    .sort((a, b) => b.score - a.score);
+};
+
+/** Keeps the highest-ranked chunks that fit within the token budget, preserving rank order. */
+export const selectChunksWithinBudget = (results: RetrievedChunk[], tokenBudget: number): RetrievedChunk[] => {
+  const selected: RetrievedChunk[] = [];
+  let usedTokens = 0;
+  for (const result of results) {
+    const cost = estimateTokenCount(result.chunk.text);
+    if (usedTokens + cost > tokenBudget) continue;
+    selected.push(result);
+    usedTokens += cost;
+  }
+  return selected;
+};
+
+/**
+ * Hybrid retrieval: fuses the BM25 and semantic rankings with reciprocal rank fusion, so a chunk
+ * found by either method can make the cut, and chunks found by both rank highest.
+ */
+export const retrieveRelevantChunks = async (query: string, tokenBudget = DEFAULT_CONTEXT_TOKEN_BUDGET, topK = DEFAULT_TOP_K): Promise<RetrievedChunk[]> => {
+  const lexicalResults = searchChunks(query, HYBRID_CANDIDATES);
+  const semanticResults = await semanticSearchChunks(query, HYBRID_CANDIDATES);
+
+  const fused = new Map<string, RetrievedChunk>();
+  for (const ranking of [lexicalResults, semanticResults]) {
+    ranking.forEach(({ chunk }, rank) => {
+      const existing = fused.get(chunk.id);
+      const contribution = 1 / (RRF_K + rank + 1);
+      fused.set(chunk.id, { chunk, score: (existing?.score || 0) + contribution });
+    });
+  }
+  const ranked = Array.from(fused.values()).sort((a, b) => b.score - a.score).slice(0, topK);
+  return selectChunksWithinBudget(ranked, tokenBudget);
+};
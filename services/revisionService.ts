@@ -0,0 +1,176 @@
+import { Document, DocumentContentFields, DocumentFieldChange, DocumentRevision, RevisionAction } from "../types";
+
+export const REVISION_FIELDS: (keyof DocumentContentFields)[] = ['name', 'type', 'sourceUrl', 'tags', 'contentSnippet', 'fullContent'];
+
+export const REVISION_FIELD_LABELS: Record<keyof DocumentContentFields, string> = {
+  name: 'Name',
+  type: 'Type',
+  sourceUrl: 'Source URL',
+  tags: 'Tags',
+  contentSnippet: 'Content Snippet',
+  fullContent: 'Full Content',
+};
+
+// Above this many line comparisons the LCS table gets too big; the changed block is shown replaced wholesale.
+const MAX_DIFF_CELLS = 2_000_000;
+
+export type DiffLineType = 'unchanged' | 'removed' | 'added';
+
+export interface DiffLine {
+  text: string;
+  type: DiffLineType;
+}
+
+// One row of a side-by-side diff. A missing side is a blank filler line.
+export interface SideBySideRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+export const getContentFields = (doc: Document | DocumentContentFields): DocumentContentFields => ({
+  name: doc.name,
+  type: doc.type,
+  tags: [...doc.tags],
+  contentSnippet: doc.contentSnippet,
+  fullContent: doc.fullContent ?? '',
+  sourceUrl: doc.sourceUrl ?? '',
+});
+
+// Tags are compared and displayed one per line so diffs show which tags changed.
+export const formatFieldValue = (fields: DocumentContentFields, field: keyof DocumentContentFields): string => {
+  const value = fields[field];
+  return Array.isArray(value) ? value.join('\n') : (value ?? '');
+};
+
+export const diffContentFields = (before: DocumentContentFields, after: DocumentContentFields): DocumentFieldChange[] =>
+  REVISION_FIELDS
+    .map(field => ({ field, before: formatFieldValue(before, field), after: formatFieldValue(after, field) }))
+    .filter(change => change.before !== change.after);
+
+const createRevision = (
+  documentId: string,
+  revisionNumber: number,
+  snapshot: DocumentContentFields,
+  changes: DocumentFieldChange[],
+  author: string,
+  action: RevisionAction,
+  createdAt: Date,
+  restoredFromRevision?: number,
+): DocumentRevision => ({
+  id: `${documentId}@${revisionNumber}`,
+  documentId,
+  revisionNumber,
+  createdAt,
+  author,
+  action,
+  restoredFromRevision,
+  changes,
+  snapshot,
+});
+
+/**
+ * Builds the revisions to store for an edit, or an empty array when no content field changed.
+ * Documents added before history existed get a baseline revision 1 describing the previous state,
+ * so the first edit can always be diffed and undone.
+ */
+export const buildRevisionsForEdit = (
+  previousDoc: Document,
+  updatedDoc: Document,
+  existingRevisions: DocumentRevision[],
+  author: string,
+  action: RevisionAction = 'edited',
+  restoredFromRevision?: number,
+): DocumentRevision[] => {
+  const before = getContentFields(previousDoc);
+  const after = getContentFields(updatedDoc);
+  const changes = diffContentFields(before, after);
+  if (changes.length === 0) return [];
+
+  const revisions: DocumentRevision[] = [];
+  let lastRevisionNumber = existingRevisions.length > 0 ? existingRevisions[existingRevisions.length - 1].revisionNumber : 0;
+  if (lastRevisionNumber === 0) {
+    revisions.push(createRevision(previousDoc.id, 1, before, [], 'Original upload', 'created', new Date(previousDoc.uploadedAt)));
+    lastRevisionNumber = 1;
+  }
+  revisions.push(createRevision(updatedDoc.id, lastRevisionNumber + 1, after, changes, author, action, new Date(), restoredFromRevision));
+  return revisions;
+};
+
+const splitLines = (text: string): string[] => (text === '' ? [] : text.split('\n'));
+
+/** Line-level diff (longest common subsequence), with the common prefix and suffix trimmed first. */
+export const diffLines = (beforeText: string, afterText: string): DiffLine[] => {
+  const before = splitLines(beforeText);
+  const after = splitLines(afterText);
+
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) suffix++;
+
+  const oldMiddle = before.slice(prefix, before.length - suffix);
+  const newMiddle = after.slice(prefix, after.length - suffix);
+  const middle: DiffLine[] = [];
+
+  if (oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS) {
+    oldMiddle.forEach(text => middle.push({ text, type: 'removed' }));
+    newMiddle.forEach(text => middle.push({ text, type: 'added' }));
+  } else {
+    // lcs[i][j] = length of the LCS of oldMiddle[i..] and newMiddle[j..]
+    const lcs: number[][] = Array.from({ length: oldMiddle.length + 1 }, () => new Array<number>(newMiddle.length + 1).fill(0));
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+      for (let j = newMiddle.length - 1; j >= 0; j--) {
+        lcs[i][j] = oldMiddle[i] === newMiddle[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length && j < newMiddle.length) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        middle.push({ text: oldMiddle[i], type: 'unchanged' });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        middle.push({ text: oldMiddle[i++], type: 'removed' });
+      } else {
+        middle.push({ text: newMiddle[j++], type: 'added' });
+      }
+    }
+    while (i < oldMiddle.length) middle.push({ text: oldMiddle[i++], type: 'removed' });
+    while (j < newMiddle.length) middle.push({ text: newMiddle[j++], type: 'added' });
+  }
+
+  return [
+    ...before.slice(0, prefix).map(text => ({ text, type: 'unchanged' as const })),
+    ...middle,
+    ...before.slice(before.length - suffix).map(text => ({ text, type: 'unchanged' as const })),
+  ];
+};
+
+/** Pairs removed and added lines from the same changed block so they line up side by side. */
+export const toSideBySideRows = (lines: DiffLine[]): SideBySideRow[] => {
+  const rows: SideBySideRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+    removed = [];
+    added = [];
+  };
+  lines.forEach(line => {
+    if (line.type === 'removed') removed.push(line);
+    else if (line.type === 'added') added.push(line);
+    else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  });
+  flush();
+  return rows;
+};
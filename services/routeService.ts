@@ -0,0 +1,109 @@
+import { ActiveView, DocumentType } from "../types";
+import { ALL_DOCUMENTS_SCOPE, CollectionScope } from "./collectionService";
+
+// Hash routes, so every view — and the document or conversation open in it — has a URL that can be
+// shared and that the browser's back and forward buttons move between:
+//   #/documents/doc_123   #/ai-query/chat_456   #/documents?q=tag:hr&type=PDF   #/graph/doc_123
+
+/** The Document Hub's search and filters, as kept in the URL. */
+export interface DocumentListState {
+  searchTerm: string;
+  searchMode: 'keyword' | 'semantic';
+  filterType: DocumentType | '';
+  filterTag: string;
+  showFavorites: boolean;
+  scope: CollectionScope;
+}
+
+export interface AppRoute {
+  view: ActiveView;
+  entityId: string | null; // The open document (document views, graph) or chat session (AI Query)
+  list: DocumentListState; // Only used by the document views
+}
+
+export const DEFAULT_DOCUMENT_LIST_STATE: DocumentListState = {
+  searchTerm: '',
+  searchMode: 'keyword',
+  filterType: '',
+  filterTag: '',
+  showFavorites: false,
+  scope: ALL_DOCUMENTS_SCOPE,
+};
+
+const VIEW_PATHS: Record<ActiveView, string> = {
+  [ActiveView.HOME]: '',
+  [ActiveView.DOCUMENTS]: 'documents',
+  [ActiveView.AI_QUERY]: 'ai-query',
+  [ActiveView.MY_BOOKMARKS]: 'bookmarks',
+  [ActiveView.TAGS]: 'tags',
+  [ActiveView.GRAPH]: 'graph',
+  [ActiveView.ANALYTICS]: 'analytics',
+  [ActiveView.SETTINGS]: 'settings',
+};
+
+const DOCUMENT_LIST_VIEWS = new Set([ActiveView.DOCUMENTS, ActiveView.MY_BOOKMARKS]);
+
+const UNFILED_COLLECTION_PARAM = 'unfiled';
+
+export const createRoute = (view: ActiveView, entityId: string | null = null, list = DEFAULT_DOCUMENT_LIST_STATE): AppRoute => ({ view, entityId, list });
+
+const parseDocumentListState = (params: URLSearchParams): DocumentListState => {
+  const type = params.get('type');
+  const collection = params.get('collection');
+  return {
+    searchTerm: params.get('q') ?? '',
+    searchMode: params.get('mode') === 'semantic' ? 'semantic' : 'keyword',
+    filterType: Object.values(DocumentType).find(value => value === type) ?? '',
+    filterTag: params.get('tag') ?? '',
+    showFavorites: params.get('favorites') === '1',
+    scope: !collection
+      ? ALL_DOCUMENTS_SCOPE
+      : collection === UNFILED_COLLECTION_PARAM ? { kind: 'unfiled' } : { kind: 'collection', collectionId: collection },
+  };
+};
+
+/**
+ * The query string for a document list, without the "?": empty when everything is at its default.
+ * Two lists with the same query string show the same documents, so it doubles as a comparison key.
+ */
+export const formatDocumentListQuery = (list: DocumentListState): string => {
+  const params = new URLSearchParams();
+  if (list.searchTerm) params.set('q', list.searchTerm);
+  if (list.searchMode === 'semantic') params.set('mode', 'semantic');
+  if (list.filterType) params.set('type', list.filterType);
+  if (list.filterTag) params.set('tag', list.filterTag);
+  if (list.showFavorites) params.set('favorites', '1');
+  if (list.scope.kind !== 'all') params.set('collection', list.scope.kind === 'unfiled' ? UNFILED_COLLECTION_PARAM : list.scope.collectionId);
+  // ":" and "," are safe in a fragment; leaving them readable keeps links like ?q=tag:hr legible.
+  return params.toString().replace(/%3A/gi, ':').replace(/%2C/gi, ',');
+};
+
+/** Unknown paths fall back to the home view rather than failing. */
+export const parseRoute = (hash: string): AppRoute => {
+  const location = hash.replace(/^#\/?/, '');
+  const queryStart = location.indexOf('?');
+  const path = queryStart === -1 ? location : location.slice(0, queryStart);
+  const query = queryStart === -1 ? '' : location.slice(queryStart + 1);
+  const [viewSegment = '', entitySegment] = path.split('/');
+  const view = (Object.keys(VIEW_PATHS) as ActiveView[]).find(candidate => VIEW_PATHS[candidate] === viewSegment) ?? ActiveView.HOME;
+  let entityId: string | null = null;
+  if (entitySegment) {
+    try {
+      entityId = decodeURIComponent(entitySegment);
+    } catch {
+      entityId = null; // Malformed escape sequence
+    }
+  }
+  return {
+    view,
+    entityId: view === ActiveView.HOME ? null : entityId,
+    list: DOCUMENT_LIST_VIEWS.has(view) ? parseDocumentListState(new URLSearchParams(query)) : DEFAULT_DOCUMENT_LIST_STATE,
+  };
+};
+
+export const formatRoute = (route: AppRoute): string => {
+  const path = VIEW_PATHS[route.view];
+  const entity = route.entityId && route.view !== ActiveView.HOME ? `/${encodeURIComponent(route.entityId)}` : '';
+  const query = DOCUMENT_LIST_VIEWS.has(route.view) ? formatDocumentListQuery(route.list) : '';
+  return `#/${path}${entity}${query ? `?${query}` : ''}`;
+};
@@ -0,0 +1,148 @@
+import { SearchLogEntry } from "../types";
+import { deleteSearchLogEntriesBefore, getSearchLogEntry, saveSearchLogEntry } from "./storageService";
+import { BucketSize, DAY_MS, DateRange, getBucketIndex, getBucketSize, isInRange, listBuckets } from "./dateRangeService";
+
+// A local log of what people search the Document Hub for and ask the AI Query Agent, and whether
+// they found it. It never leaves the browser; the analytics dashboard summarizes it.
+
+const RETENTION_DAYS = 365;
+const MAX_LISTED_QUERIES = 10;
+
+// How answers typically say the knowledge base doesn't cover a question.
+const NOT_FOUND_PATTERN = /\b(not (be )?found|could ?n[o']t find|can ?n[o']t find|unable to find|no (relevant )?information|(does|do) ?n[o']t (contain|mention|include|cover|provide)|not (mentioned|covered|included|available) in)\b/i;
+
+let hasPrunedLog = false;
+
+export const createSearchLogEntry = (
+  source: SearchLogEntry['source'],
+  query: string,
+  resultCount: number,
+  details: Pick<SearchLogEntry, 'queryMatchCount' | 'answerNotFound'> = {}
+): SearchLogEntry => ({
+  id: `search_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+  source,
+  query: query.trim(),
+  resultCount,
+  ...details,
+  timestamp: new Date(),
+});
+
+/** Saves the entry, or an update to it. Logging never gets in the way of searching, so failures are only reported to the console. */
+export const logSearch = async (entry: SearchLogEntry): Promise<void> => {
+  try {
+    // Saved before anything else is awaited, so saves of the same entry land in the order they were made.
+    await saveSearchLogEntry(entry);
+    if (!hasPrunedLog) {
+      hasPrunedLog = true;
+      await deleteSearchLogEntriesBefore(new Date(Date.now() - RETENTION_DAYS * DAY_MS));
+    }
+  } catch (error) {
+    console.error("Error logging a search:", error);
+  }
+};
+
+/** Records which document the searcher went on to open; only the first choice counts. */
+export const recordChosenResult = async (entryId: string, documentId: string): Promise<void> => {
+  try {
+    const entry = await getSearchLogEntry(entryId);
+    if (entry && !entry.chosenDocumentId) await saveSearchLogEntry({ ...entry, chosenDocumentId: documentId });
+  } catch (error) {
+    console.error("Error logging a search result choice:", error);
+  }
+};
+
+/** Whether an answer says the documents don't answer the question (and doesn't cite any that do). */
+export const isNotFoundAnswer = (answer: string, citedPassageCount: number): boolean =>
+  citedPassageCount === 0 && NOT_FOUND_PATTERN.test(answer);
+
+export interface QueryStat {
+  query: string; // As most recently typed
+  count: number;
+  averageResults: number;
+  chosenShare: number; // Share of searches after which a result was opened, 0-1
+  lastSearchedAt: Date;
+}
+
+export interface SearchTrendBucket {
+  start: Date; // Local midnight of the bucket's first day
+  hubSearches: number;
+  aiQuestions: number;
+  zeroResultSearches: number;
+}
+
+export interface SearchInsights {
+  hubSearchCount: number;
+  aiQuestionCount: number;
+  zeroResultShare: number; // Of hub searches, 0-1
+  chosenShare: number; // Of hub searches, 0-1
+  notFoundShare: number; // Of AI questions, 0-1
+  topQueries: QueryStat[];
+  zeroResultQueries: QueryStat[];
+  unansweredQuestions: QueryStat[];
+  bucketSize: BucketSize;
+  trend: SearchTrendBucket[]; // One entry per day or week of the range, oldest first
+}
+
+/** Queries that differ only in case, spacing or trailing punctuation count as the same query. */
+const normalizeQuery = (query: string): string => query.toLowerCase().replace(/\s+/g, ' ').replace(/[?.!\s]+$/, '').trim();
+
+const share = (part: number, total: number): number => total > 0 ? part / total : 0;
+
+// A search that only came up empty because of the type, tag or other filters still found something.
+// Entries logged before the query's own count was kept fall back to what was shown.
+const isZeroResultSearch = (entry: SearchLogEntry): boolean => (entry.queryMatchCount ?? entry.resultCount) === 0;
+
+const groupQueries = (entries: SearchLogEntry[]): QueryStat[] => {
+  const groups = new Map<string, SearchLogEntry[]>();
+  entries.forEach(entry => {
+    const key = normalizeQuery(entry.query);
+    if (!key) return;
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  });
+  return [...groups.values()]
+    .map(group => {
+      const latest = group.reduce((a, b) => b.timestamp > a.timestamp ? b : a);
+      return {
+        query: latest.query,
+        count: group.length,
+        averageResults: group.reduce((total, entry) => total + entry.resultCount, 0) / group.length,
+        chosenShare: share(group.filter(entry => entry.chosenDocumentId).length, group.length),
+        lastSearchedAt: latest.timestamp,
+      };
+    })
+    .sort((a, b) => b.count - a.count || b.lastSearchedAt.getTime() - a.lastSearchedAt.getTime())
+    .slice(0, MAX_LISTED_QUERIES);
+};
+
+/** Summarizes the searches made within the range. */
+export const computeSearchInsights = (log: SearchLogEntry[], range: DateRange): SearchInsights => {
+  const entries = log.filter(entry => isInRange(entry.timestamp, range));
+  const hubSearches = entries.filter(entry => entry.source === 'hub');
+  const aiQuestions = entries.filter(entry => entry.source === 'ai');
+  const zeroResultSearches = hubSearches.filter(isZeroResultSearch);
+  const unanswered = aiQuestions.filter(entry => entry.answerNotFound);
+
+  const bucketSize = getBucketSize(range);
+  const trend: SearchTrendBucket[] = listBuckets(range, bucketSize).map(start => ({ start, hubSearches: 0, aiQuestions: 0, zeroResultSearches: 0 }));
+  entries.forEach(entry => {
+    const bucket = trend[getBucketIndex(entry.timestamp, range, bucketSize)];
+    if (entry.source === 'ai') bucket.aiQuestions++;
+    else {
+      bucket.hubSearches++;
+      if (isZeroResultSearch(entry)) bucket.zeroResultSearches++;
+    }
+  });
+
+  return {
+    hubSearchCount: hubSearches.length,
+    aiQuestionCount: aiQuestions.length,
+    zeroResultShare: share(zeroResultSearches.length, hubSearches.length),
+    chosenShare: share(hubSearches.filter(entry => entry.chosenDocumentId).length, hubSearches.length),
+    notFoundShare: share(unanswered.length, aiQuestions.length),
+    topQueries: groupQueries(entries),
+    zeroResultQueries: groupQueries(zeroResultSearches),
+    unansweredQuestions: groupQueries(unanswered),
+    bucketSize,
+    trend,
+  };
+};
@@ -0,0 +1,432 @@
+import { Document, DocumentType, TagSynonymGroup } from "../types";
+import { scoreDocument, scoreTextTerm } from "./fuzzySearchService";
+import { expandTagSynonyms } from "./tagService";
+
+// Document Hub query language:
+//   free text, "quoted phrases", tag:hr, type:PDF, name:"policy", added:>2024-01-01, added:2024-01-01..2024-03-31
+//   combined with AND (implicit between terms), OR, NOT / -term, and parentheses. AND binds tighter than OR.
+
+export type QueryTermField = 'text' | 'tag' | 'type' | 'name';
+export type DateComparison = '=' | '>' | '>=' | '<' | '<=' | 'between';
+
+export type SearchQueryNode =
+  | { kind: 'term'; field: QueryTermField; value: string }
+  | { kind: 'added'; comparison: DateComparison; date: string; endDate?: string } // Dates are YYYY-MM-DD, compared by local day
+  | { kind: 'not'; operand: SearchQueryNode }
+  | { kind: 'and' | 'or'; operands: SearchQueryNode[] };
+
+export interface QueryParseError {
+  message: string;
+  position: number; // Offset into the query text
+  length: number;
+}
+
+export type QueryParseResult =
+  | { query: SearchQueryNode | null; error: null } // A null query means "match everything"
+  | { query: null; error: QueryParseError };
+
+export const QUERY_FIELDS = ['tag', 'type', 'name', 'added'] as const;
+
+const OPERATORS = new Set(['AND', 'OR', 'NOT']);
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const FIELD_EXAMPLES: Record<string, string> = { tag: 'tag:hr', type: 'type:PDF', name: 'name:"policy"', added: 'added:>2024-01-01' };
+const ADDED_EXAMPLES = 'added:2024-05-10, added:>2024-01-01 or added:2024-01-01..2024-03-31';
+
+type Token =
+  | { type: '(' | ')' | 'AND' | 'OR' | 'NOT'; position: number; length: number }
+  | { type: 'node'; node: SearchQueryNode; position: number; length: number };
+
+class ParseFailure {
+  constructor(readonly error: QueryParseError) {}
+}
+
+const fail = (message: string, position: number, length = 1): never => {
+  throw new ParseFailure({ message, position, length });
+};
+
+const isValidDate = (value: string): boolean => {
+  if (!DATE_PATTERN.test(value)) return false;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+};
+
+// Type names are matched loosely ("pdf", "youtube link", "YouTubeLink") and stored in their canonical form.
+const resolveDocumentType = (value: string): DocumentType | undefined => {
+  const normalize = (text: string) => text.toLowerCase().replace(/[\s_-]/g, '');
+  return Object.values(DocumentType).find(type => normalize(type) === normalize(value) || normalize(type) === `${normalize(value)}link`);
+};
+
+const parseAddedValue = (value: string, position: number, length: number): SearchQueryNode => {
+  const range = value.match(/^(.+)\.\.(.+)$/);
+  if (range) {
+    const [, start, end] = range;
+    if (!isValidDate(start) || !isValidDate(end)) fail(`"${value}" is not a valid date range. Use YYYY-MM-DD dates, e.g. ${ADDED_EXAMPLES}.`, position, length);
+    if (start > end) fail(`The range ${value} ends before it starts.`, position, length);
+    return { kind: 'added', comparison: 'between', date: start, endDate: end };
+  }
+  const comparison = value.match(/^(>=|<=|>|<|=)?(.*)$/)!;
+  const date = comparison[2];
+  if (!isValidDate(date)) fail(`"${date || value}" is not a valid date. Use YYYY-MM-DD, e.g. ${ADDED_EXAMPLES}.`, position, length);
+  return { kind: 'added', comparison: (comparison[1] as DateComparison | undefined) ?? '=', date };
+};
+
+const buildFieldNode = (field: string, value: string, position: number, length: number): SearchQueryNode => {
+  if (!value.trim()) fail(`${field}: needs a value, e.g. ${FIELD_EXAMPLES[field]}.`, position, length);
+  if (field === 'added') return parseAddedValue(value, position, length);
+  if (field === 'type') {
+    const type = resolveDocumentType(value);
+    if (!type) fail(`Unknown document type "${value}". Use one of: ${Object.values(DocumentType).join(', ')}.`, position, length);
+    return { kind: 'term', field: 'type', value: type! };
+  }
+  return { kind: 'term', field: field as QueryTermField, value };
+};
+
+const readQuoted = (text: string, openAt: number): { value: string; end: number } => {
+  const closeAt = text.indexOf('"', openAt + 1);
+  if (closeAt === -1) fail('This quote is never closed. Add a closing " to end the phrase.', openAt);
+  return { value: text.slice(openAt + 1, closeAt), end: closeAt + 1 };
+};
+
+const tokenizeQuery = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) { i++; continue; }
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char, position: i, length: 1 });
+      i++;
+      continue;
+    }
+    // A leading minus negates the term or group it is attached to: -tag:draft, -(draft OR obsolete)
+    if (char === '-' && i + 1 < text.length && !/[\s)]/.test(text[i + 1])) {
+      tokens.push({ type: 'NOT', position: i, length: 1 });
+      i++;
+      continue;
+    }
+    if (char === '"') {
+      const { value, end } = readQuoted(text, i);
+      if (!value.trim()) fail('Empty phrase. Put some words between the quotes.', i, end - i);
+      tokens.push({ type: 'node', node: { kind: 'term', field: 'text', value }, position: i, length: end - i });
+      i = end;
+      continue;
+    }
+
+    let end = i;
+    while (end < text.length && !/[\s()"]/.test(text[end])) end++;
+    const word = text.slice(i, end);
+    if (OPERATORS.has(word)) {
+      tokens.push({ type: word as 'AND' | 'OR' | 'NOT', position: i, length: word.length });
+      i = end;
+      continue;
+    }
+
+    const qualifier = word.match(/^([A-Za-z]+):(.*)$/);
+    // URLs ("https://...") are searched as plain text rather than read as an unknown field.
+    if (qualifier && !qualifier[2].startsWith('//')) {
+      const field = qualifier[1].toLowerCase();
+      if (!(QUERY_FIELDS as readonly string[]).includes(field)) {
+        fail(`Unknown field "${qualifier[1]}:". Use ${QUERY_FIELDS.map(f => `${f}:`).join(', ')}, or wrap the text in quotes to search for it literally.`, i, qualifier[1].length + 1);
+      }
+      let value = qualifier[2];
+      if (!value && text[end] === '"') {
+        const quoted = readQuoted(text, end);
+        value = quoted.value;
+        end = quoted.end;
+      }
+      tokens.push({ type: 'node', node: buildFieldNode(field, value, i, end - i), position: i, length: end - i });
+      i = end;
+      continue;
+    }
+
+    tokens.push({ type: 'node', node: { kind: 'term', field: 'text', value: word }, position: i, length: word.length });
+    i = end;
+  }
+  return tokens;
+};
+
+// Recursive descent over: or := and (OR and)* ; and := unary (AND? unary)* ; unary := NOT unary | primary
+const parseTokens = (tokens: Token[], text: string): SearchQueryNode => {
+  let index = 0;
+  const peek = (): Token | undefined => tokens[index];
+
+  const combine = (kind: 'and' | 'or', operands: SearchQueryNode[]): SearchQueryNode =>
+    operands.length === 1 ? operands[0] : { kind, operands: operands.flatMap(operand => operand.kind === kind ? operand.operands : [operand]) };
+
+  const expectOperand = (after: Token) => {
+    const next = peek();
+    const label = text[after.position] === '-' ? '"-"' : after.type;
+    if (!next) fail(`${label} must be followed by a search term.`, after.position, after.length);
+    if (next!.type === ')' || next!.type === 'AND' || next!.type === 'OR') {
+      fail(`Expected a search term after ${label}, found "${text.slice(next!.position, next!.position + next!.length)}".`, next!.position, next!.length);
+    }
+  };
+
+  const parsePrimary = (): SearchQueryNode => {
+    const token = peek()!;
+    if (token.type === 'node') {
+      index++;
+      return token.node;
+    }
+    if (token.type === '(') {
+      index++;
+      if (peek()?.type === ')') fail('Empty parentheses. Put a search term inside them or remove them.', token.position, 2);
+      if (!peek()) fail('This "(" is never closed. Add a matching ")".', token.position);
+      const inner = parseOr();
+      if (peek()?.type !== ')') fail('This "(" is never closed. Add a matching ")".', token.position);
+      index++;
+      return inner;
+    }
+    if (token.type === ')') return fail('Unexpected ")". There is no "(" for it to close.', token.position);
+    return fail(`${token.type} must come between two search terms.`, token.position, token.length);
+  };
+
+  const parseUnary = (): SearchQueryNode => {
+    const token = peek()!;
+    if (token.type === 'NOT') {
+      index++;
+      expectOperand(token);
+      const operand = parseUnary();
+      return operand.kind === 'not' ? operand.operand : { kind: 'not', operand };
+    }
+    return parsePrimary();
+  };
+
+  const parseAnd = (): SearchQueryNode => {
+    const operands = [parseUnary()];
+    while (peek() && peek()!.type !== 'OR' && peek()!.type !== ')') {
+      const token = peek()!;
+      if (token.type === 'AND') {
+        index++;
+        expectOperand(token);
+      }
+      operands.push(parseUnary());
+    }
+    return combine('and', operands);
+  };
+
+  const parseOr = (): SearchQueryNode => {
+    const operands = [parseAnd()];
+    while (peek()?.type === 'OR') {
+      const token = peek()!;
+      index++;
+      expectOperand(token);
+      operands.push(parseAnd());
+    }
+    return combine('or', operands);
+  };
+
+  const first = peek()!;
+  if (first.type === 'AND' || first.type === 'OR') fail(`${first.type} must come between two search terms.`, first.position, first.length);
+  const query = parseOr();
+  const leftover = peek();
+  if (leftover) fail('Unexpected ")". There is no "(" for it to close.', leftover.position);
+  return query;
+};
+
+export const parseSearchQuery = (text: string): QueryParseResult => {
+  try {
+    const tokens = tokenizeQuery(text);
+    if (tokens.length === 0) return { query: null, error: null };
+    return { query: parseTokens(tokens, text), error: null };
+  } catch (error) {
+    if (error instanceof ParseFailure) return { query: null, error: error.error };
+    throw error;
+  }
+};
+
+// --- Formatting (used by the query builder to write back into the text box) ---
+
+const needsQuotes = (value: string, field: QueryTermField): boolean =>
+  /[\s()"]/.test(value) || OPERATORS.has(value) || value.startsWith('-') || (field === 'text' && /^[A-Za-z]+:/.test(value));
+
+const formatTerm = (field: QueryTermField, value: string): string => {
+  const cleaned = value.replace(/"/g, '');
+  const formatted = needsQuotes(cleaned, field) ? `"${cleaned}"` : cleaned;
+  return field === 'text' ? formatted : `${field}:${formatted}`;
+};
+
+const formatAdded = (node: Extract<SearchQueryNode, { kind: 'added' }>): string =>
+  node.comparison === 'between' ? `added:${node.date}..${node.endDate}` : `added:${node.comparison === '=' ? '' : node.comparison}${node.date}`;
+
+export const formatSearchQuery = (node: SearchQueryNode | null): string => {
+  if (!node) return '';
+  switch (node.kind) {
+    case 'term': return formatTerm(node.field, node.value);
+    case 'added': return formatAdded(node);
+    case 'not': return node.operand.kind === 'and' || node.operand.kind === 'or' ? `NOT (${formatSearchQuery(node.operand)})` : `-${formatSearchQuery(node.operand)}`;
+    case 'and': return node.operands.map(operand => operand.kind === 'or' ? `(${formatSearchQuery(operand)})` : formatSearchQuery(operand)).join(' ');
+    // AND already binds tighter, but the parentheses make mixed queries easier to read.
+    case 'or': return node.operands.map(operand => operand.kind === 'and' ? `(${formatSearchQuery(operand)})` : formatSearchQuery(operand)).join(' OR ');
+  }
+};
+
+// --- Evaluation ---
+
+const toDayKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** Free text matches the name, snippet or tags allowing for typos, or words (or their beginnings) in the source URL or full content. */
+export const matchesFreeText = (doc: Document, value: string): boolean => scoreTextTerm(doc, value) > 0;
+
+/**
+ * Evaluates a parsed query against a document. Free-text terms go through matchText, so semantic
+ * search can substitute "is among the meaning matches" while the qualifiers still filter.
+ */
+export const matchesSearchQuery = (
+  doc: Document,
+  node: SearchQueryNode | null,
+  matchText: (doc: Document, value: string) => boolean = matchesFreeText
+): boolean => {
+  if (!node) return true;
+  switch (node.kind) {
+    case 'term':
+      switch (node.field) {
+        case 'text': return matchText(doc, node.value);
+        case 'tag': return doc.tags.some(tag => tag.toLowerCase() === node.value.toLowerCase());
+        case 'type': return doc.type === node.value;
+        case 'name': return doc.name.toLowerCase().includes(node.value.toLowerCase());
+      }
+      return false;
+    case 'added': {
+      const day = toDayKey(new Date(doc.uploadedAt));
+      switch (node.comparison) {
+        case '=': return day === node.date;
+        case '>': return day > node.date;
+        case '>=': return day >= node.date;
+        case '<': return day < node.date;
+        case '<=': return day <= node.date;
+        case 'between': return day >= node.date && day <= node.endDate!;
+      }
+      return false;
+    }
+    case 'not': return !matchesSearchQuery(doc, node.operand, matchText);
+    case 'and': return node.operands.every(operand => matchesSearchQuery(doc, operand, matchText));
+    case 'or': return node.operands.some(operand => matchesSearchQuery(doc, operand, matchText));
+  }
+};
+
+/** The free-text terms a query looks for (not the ones it excludes), for ranking and highlighting. */
+export const getQueryTextTerms = (node: SearchQueryNode | null): string[] => {
+  if (!node) return [];
+  switch (node.kind) {
+    case 'term': return node.field === 'text' ? [node.value] : [];
+    case 'added':
+    case 'not': return [];
+    case 'and':
+    case 'or': return node.operands.flatMap(getQueryTextTerms);
+  }
+};
+
+/** The positive free-text terms of a query, joined; what semantic search should look for. */
+export const getQueryFreeText = (node: SearchQueryNode | null): string => getQueryTextTerms(node).join(' ');
+
+// --- Searching documents: the Document Hub's pipeline, shared with the command palette ---
+
+export interface DocumentSearch {
+  query: SearchQueryNode | null; // As typed
+  error: QueryParseError | null;
+  matchQuery: SearchQueryNode | null; // With tag synonyms expanded; what documents are matched against
+  textTerms: string[]; // As typed; what results are ranked and highlighted by
+}
+
+export interface ScoredDocument {
+  document: Document;
+  score: number; // Higher first
+}
+
+/**
+ * Parses the search text and expands the tag synonyms in it. A query with a syntax error matches
+ * everything, or with searchWordsOnError the documents containing its words, so half-typed syntax
+ * ('tag:"hr') doesn't empty a list that can't show the error.
+ */
+export const prepareDocumentSearch = (text: string, synonymGroups: TagSynonymGroup[], searchWordsOnError = false): DocumentSearch => {
+  const parsed = parseSearchQuery(text);
+  let query = parsed.query;
+  if (parsed.error && searchWordsOnError) {
+    const words = text.match(/[\p{L}\p{N}]+/gu) ?? [];
+    query = words.length > 0 ? { kind: 'and', operands: words.map((value): SearchQueryNode => ({ kind: 'term', field: 'text', value })) } : null;
+  }
+  return { query, error: parsed.error, matchQuery: expandTagSynonyms(query, synonymGroups), textTerms: getQueryTextTerms(query) };
+};
+
+/**
+ * The documents that match the search, best first. With a semantic ranking, free text matches the
+ * documents it ranks and results follow it; otherwise they are ranked by their text terms. Documents
+ * that rank equally keep their order.
+ */
+export const searchDocuments = (documents: Document[], search: DocumentSearch, semanticRank?: Map<string, number>): ScoredDocument[] => {
+  const matchText = semanticRank ? (doc: Document) => semanticRank.has(doc.id) : matchesFreeText;
+  const matches = documents.filter(doc => matchesSearchQuery(doc, search.matchQuery, matchText));
+  const score = (doc: Document): number => {
+    if (semanticRank) return semanticRank.size - (semanticRank.get(doc.id) ?? 0);
+    // A query of only qualifiers ("type:PDF") matches without ranking anything higher.
+    return search.textTerms.length > 0 ? scoreDocument(doc, search.textTerms) : 1;
+  };
+  return matches
+    .map(document => ({ document, score: score(document) }))
+    .sort((a, b) => b.score - a.score);
+};
+
+// --- Query builder model: a flat list of conditions joined by one connective ---
+
+export type QueryConditionField = QueryTermField | 'added';
+
+export interface QueryCondition {
+  field: QueryConditionField;
+  negated: boolean;
+  value: string; // The start date for 'added'
+  comparison: DateComparison; // Only used by 'added'
+  endDate: string; // Only used by 'added' with 'between'
+}
+
+export interface QueryBuilderState {
+  connective: 'and' | 'or';
+  conditions: QueryCondition[];
+}
+
+export const createQueryCondition = (field: QueryConditionField = 'text'): QueryCondition =>
+  ({ field, negated: false, value: '', comparison: field === 'added' ? '>=' : '=', endDate: '' });
+
+const toCondition = (node: SearchQueryNode): QueryCondition | null => {
+  const negated = node.kind === 'not';
+  const leaf = negated ? node.operand : node;
+  if (leaf.kind === 'term') return { ...createQueryCondition(leaf.field), negated, value: leaf.value };
+  if (leaf.kind === 'added') return { field: 'added', negated, value: leaf.date, comparison: leaf.comparison, endDate: leaf.endDate ?? '' };
+  return null;
+};
+
+/** The builder form of a query, or null when it nests groups the flat builder can't show. */
+export const toQueryBuilderState = (node: SearchQueryNode | null): QueryBuilderState | null => {
+  if (!node) return { connective: 'and', conditions: [] };
+  const connective = node.kind === 'or' ? 'or' : 'and';
+  const operands = node.kind === 'and' || node.kind === 'or' ? node.operands : [node];
+  const conditions = operands.map(toCondition);
+  return conditions.every(Boolean) ? { connective, conditions: conditions as QueryCondition[] } : null;
+};
+
+// Conditions still being filled in (no value yet, or an invalid date) are left out of the query.
+const fromCondition = (condition: QueryCondition): SearchQueryNode | null => {
+  let leaf: SearchQueryNode;
+  if (condition.field === 'added') {
+    if (!isValidDate(condition.value)) return null;
+    if (condition.comparison === 'between') {
+      if (!isValidDate(condition.endDate) || condition.endDate < condition.value) return null;
+      leaf = { kind: 'added', comparison: 'between', date: condition.value, endDate: condition.endDate };
+    } else {
+      leaf = { kind: 'added', comparison: condition.comparison, date: condition.value };
+    }
+  } else {
+    const value = condition.value.replace(/"/g, '').trim();
+    if (!value) return null;
+    leaf = { kind: 'term', field: condition.field, value };
+  }
+  return condition.negated ? { kind: 'not', operand: leaf } : leaf;
+};
+
+export const fromQueryBuilderState = (state: QueryBuilderState): SearchQueryNode | null => {
+  const operands = state.conditions.map(fromCondition).filter((node): node is SearchQueryNode => node !== null);
+  if (operands.length === 0) return null;
+  return operands.length === 1 ? operands[0] : { kind: state.connective, operands };
+};
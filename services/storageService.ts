@@ -0,0 +1,571 @@
+import { ChatMessage, ChatSession, Citation, Collection, Document, DocumentLink, DocumentRelationType, DocumentRevision, DocumentType, EngagementEvent, FAQ, FetchedPageInfo, SearchLogEntry, TagRegistry, TagSynonymGroup } from "../types";
+
+const DB_NAME = 'hnai-km';
+const LEGACY_DOCUMENTS_KEY = 'hnai-km-documents';
+const CHANGE_CHANNEL_NAME = 'hnai-km-storage';
+
+export const DOCUMENTS_STORE = 'documents';
+export const REVISIONS_STORE = 'revisions';
+export const CHAT_SESSIONS_STORE = 'chatSessions';
+export const COLLECTIONS_STORE = 'collections';
+export const SEARCH_LOG_STORE = 'searchLog';
+export const ENGAGEMENT_STORE = 'engagementEvents';
+const META_STORE = 'meta';
+// Meta store key of the tag registry; also the change notification sent when it is saved.
+export const TAG_REGISTRY_KEY = 'tagRegistry';
+
+/**
+ * Schema migrations, applied in order. Entry N upgrades the database from version N to N + 1,
+ * so the database version is always MIGRATIONS.length. Never edit a released migration; append a new one.
+ */
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  // v1: documents keyed by id, plus a key/value store for bookkeeping flags.
+  (db) => {
+    const documents = db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+    documents.createIndex('uploadedAt', 'uploadedAt');
+    db.createObjectStore(META_STORE);
+  },
+  // v2: append-only document revision history.
+  (db) => {
+    const revisions = db.createObjectStore(REVISIONS_STORE, { keyPath: 'id' });
+    revisions.createIndex('documentId', 'documentId');
+  },
+  // v3: AI Query Agent conversations.
+  (db) => {
+    const sessions = db.createObjectStore(CHAT_SESSIONS_STORE, { keyPath: 'id' });
+    sessions.createIndex('updatedAt', 'updatedAt');
+  },
+  // v4: nested collections that documents can be filed into.
+  (db) => {
+    db.createObjectStore(COLLECTIONS_STORE, { keyPath: 'id' });
+  },
+  // v5: hub searches and AI questions, for search analytics.
+  (db) => {
+    const searchLog = db.createObjectStore(SEARCH_LOG_STORE, { keyPath: 'id' });
+    searchLog.createIndex('timestamp', 'timestamp');
+  },
+  // v6: document views, bookmarks and AI use, for engagement analytics.
+  (db) => {
+    const engagement = db.createObjectStore(ENGAGEMENT_STORE, { keyPath: 'id' });
+    engagement.createIndex('timestamp', 'timestamp');
+  },
+];
+
+export interface StorageEstimate {
+  usageBytes: number;
+  quotaBytes: number;
+  isPersisted: boolean;
+}
+
+export interface LegacyImportResult {
+  importedCount: number;
+  skippedCount: number;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error("IndexedDB transaction was aborted."));
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise;
+  databasePromise = new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error("IndexedDB is not supported in this browser."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, MIGRATIONS.length);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion; version < MIGRATIONS.length; version++) {
+        MIGRATIONS[version](db, transaction);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab is upgrading the schema: let it, and reopen on next access.
+      db.onversionchange = () => {
+        db.close();
+        databasePromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn("IndexedDB upgrade is blocked by another open tab of this app.");
+  });
+  databasePromise.catch(() => { databasePromise = null; });
+  return databasePromise;
+};
+
+// Broadcasts writes so other open tabs can reload, replacing the old localStorage 'storage' event.
+const changeChannel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANGE_CHANNEL_NAME) : null;
+
+const notifyChange = (storeName: string) => changeChannel?.postMessage({ storeName });
+
+export const subscribeToStorageChanges = (onChange: (storeName: string) => void): (() => void) => {
+  if (!changeChannel) return () => {};
+  const listener = (event: MessageEvent<{ storeName: string }>) => onChange(event.data.storeName);
+  changeChannel.addEventListener('message', listener);
+  return () => changeChannel.removeEventListener('message', listener);
+};
+
+// Stored and imported records are untrusted until checked, so the normalizers below take unknown and narrow it.
+export const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+/** Whether the value is one of the allowed ones, e.g. a member of a string enum. */
+export const isOneOf = <T,>(allowed: readonly T[], value: unknown): value is T => (allowed as readonly unknown[]).includes(value);
+
+/** The record's fields among keys that hold strings, so optional fields are copied without adding undefined ones. */
+const pickStrings = <K extends string>(record: Record<string, unknown>, keys: readonly K[]): Partial<Record<K, string>> => {
+  const picked: Partial<Record<K, string>> = {};
+  keys.forEach(key => {
+    const value = record[key];
+    if (typeof value === 'string') picked[key] = value;
+  });
+  return picked;
+};
+
+const toValidDate = (value: unknown): Date | null => {
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const normalizeFetchedPage = (record: unknown): FetchedPageInfo | undefined => {
+  if (!isRecord(record)) return undefined;
+  const fetchedAt = toValidDate(record.fetchedAt);
+  if (!fetchedAt) return undefined;
+  return {
+    title: typeof record.title === 'string' ? record.title : '',
+    fetchedAt,
+    contentChangedAt: toValidDate(record.contentChangedAt) ?? fetchedAt,
+  };
+};
+
+const LINK_TYPES: DocumentRelationType[] = ['references', 'supersedes', 'related-to'];
+
+const isLink = (value: unknown): value is DocumentLink =>
+  isRecord(value) && isOneOf(LINK_TYPES, value.type) && typeof value.targetId === 'string';
+
+const normalizeLinks = (records: unknown): DocumentLink[] | undefined => {
+  if (!Array.isArray(records)) return undefined;
+  return records.filter(isLink);
+};
+
+const isFaq = (value: unknown): value is FAQ => isRecord(value) && typeof value.question === 'string' && typeof value.answer === 'string';
+
+// Older records may hold a single FAQ instead of a list.
+const normalizeFaqs = (value: unknown): FAQ[] => (Array.isArray(value) ? value : value ? [value] : []).filter(isFaq);
+
+/**
+ * Coerces a stored record into a valid Document. Returns null (instead of throwing) for records
+ * that are unrecoverable, so one bad record never costs the rest of the knowledge base.
+ */
+export const normalizeDocument = (record: unknown): Document | null => {
+  if (!isRecord(record) || typeof record.id !== 'string' || typeof record.name !== 'string') {
+    return null;
+  }
+  return {
+    ...pickStrings(record, ['fullContent', 'sourceUrl', 'generatedSummary', 'collectionId']),
+    id: record.id,
+    name: record.name,
+    uploadedAt: toValidDate(record.uploadedAt) ?? new Date(),
+    contentSnippet: typeof record.contentSnippet === 'string' ? record.contentSnippet : '',
+    isFavorite: record.isFavorite === true,
+    tags: Array.isArray(record.tags) ? record.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+    type: isOneOf(Object.values(DocumentType), record.type) ? record.type : DocumentType.UNKNOWN,
+    generatedFaqs: normalizeFaqs(record.generatedFaqs),
+    fetchedPage: normalizeFetchedPage(record.fetchedPage),
+    links: normalizeLinks(record.links),
+  };
+};
+
+export const loadDocuments = async (): Promise<Document[]> => {
+  const db = await openDatabase();
+  const records = await requestToPromise(db.transaction(DOCUMENTS_STORE, 'readonly').objectStore(DOCUMENTS_STORE).getAll());
+  return records
+    .map(normalizeDocument)
+    .filter((doc): doc is Document => doc !== null)
+    .sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime());
+};
+
+export const saveDocuments = async (docs: Document[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(DOCUMENTS_STORE, 'readwrite');
+  const store = transaction.objectStore(DOCUMENTS_STORE);
+  docs.forEach(doc => store.put(doc));
+  await transactionDone(transaction);
+  notifyChange(DOCUMENTS_STORE);
+};
+
+export const saveDocument = (doc: Document): Promise<void> => saveDocuments([doc]);
+
+/** Deletes documents together with their revision history, in one transaction. */
+export const deleteDocuments = async (documentIds: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([DOCUMENTS_STORE, REVISIONS_STORE], 'readwrite');
+  const documents = transaction.objectStore(DOCUMENTS_STORE);
+  const revisions = transaction.objectStore(REVISIONS_STORE);
+  for (const documentId of documentIds) {
+    documents.delete(documentId);
+    const revisionKeys = await requestToPromise(revisions.index('documentId').getAllKeys(documentId));
+    revisionKeys.forEach(key => revisions.delete(key));
+  }
+  await transactionDone(transaction);
+  notifyChange(DOCUMENTS_STORE);
+};
+
+export const deleteDocument = (documentId: string): Promise<void> => deleteDocuments([documentId]);
+
+/** Revisions of one document, oldest first. */
+export const loadRevisions = async (documentId: string): Promise<DocumentRevision[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(REVISIONS_STORE, 'readonly').objectStore(REVISIONS_STORE).index('documentId');
+  const records: DocumentRevision[] = await requestToPromise(index.getAll(documentId));
+  return records
+    .map(record => ({ ...record, createdAt: new Date(record.createdAt) }))
+    .sort((a, b) => a.revisionNumber - b.revisionNumber);
+};
+
+/**
+ * Writes revisions and the documents they describe atomically. Uses add(), not put(), so an
+ * existing revision can never be overwritten: a concurrent edit from another tab fails instead.
+ */
+export const saveDocumentsWithRevisions = async (docs: Document[], revisions: DocumentRevision[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([DOCUMENTS_STORE, REVISIONS_STORE], 'readwrite');
+  const documentStore = transaction.objectStore(DOCUMENTS_STORE);
+  docs.forEach(doc => documentStore.put(doc));
+  const store = transaction.objectStore(REVISIONS_STORE);
+  revisions.forEach(revision => store.add(revision));
+  await transactionDone(transaction);
+  notifyChange(DOCUMENTS_STORE);
+  notifyChange(REVISIONS_STORE);
+};
+
+export const saveDocumentWithRevisions = (doc: Document, revisions: DocumentRevision[]): Promise<void> => saveDocumentsWithRevisions([doc], revisions);
+
+export const loadAllRevisions = async (): Promise<DocumentRevision[]> => {
+  const db = await openDatabase();
+  const records: DocumentRevision[] = await requestToPromise(db.transaction(REVISIONS_STORE, 'readonly').objectStore(REVISIONS_STORE).getAll());
+  return records.map(record => ({ ...record, createdAt: new Date(record.createdAt) }));
+};
+
+const isCitation = (value: unknown): value is Citation =>
+  isRecord(value) &&
+  typeof value.number === 'number' && typeof value.chunkId === 'string' && typeof value.documentId === 'string' &&
+  typeof value.documentName === 'string' && typeof value.start === 'number' && typeof value.end === 'number' && typeof value.text === 'string';
+
+const normalizeChatMessage = (record: unknown): ChatMessage | null => {
+  if (!isRecord(record) || typeof record.id !== 'string') return null;
+  const text = typeof record.text === 'string' ? record.text : '';
+  return {
+    ...pickStrings(record, ['standaloneQuery', 'searchLogId']),
+    id: record.id,
+    sender: record.sender === 'user' ? 'user' : 'ai',
+    // A reply still streaming when the page closed can never finish.
+    text: record.isLoading ? text || 'The answer was interrupted before it finished.' : text,
+    timestamp: toValidDate(record.timestamp) ?? new Date(),
+    ...(Array.isArray(record.sources) ? { sources: record.sources.filter((source): source is string => typeof source === 'string') } : {}),
+    ...(Array.isArray(record.citations) ? { citations: record.citations.filter(isCitation) } : {}),
+  };
+};
+
+const normalizeChatSession = (record: unknown): ChatSession | null => {
+  if (!isRecord(record) || typeof record.id !== 'string' || !Array.isArray(record.messages)) return null;
+  const createdAt = toValidDate(record.createdAt) ?? new Date();
+  return {
+    id: record.id,
+    title: typeof record.title === 'string' ? record.title : 'Untitled chat',
+    createdAt,
+    updatedAt: toValidDate(record.updatedAt) ?? createdAt,
+    isPinned: record.isPinned === true,
+    messages: record.messages.map(normalizeChatMessage).filter((message): message is ChatMessage => message !== null),
+    ...pickStrings(record, ['summary']),
+    ...(typeof record.summarizedMessageCount === 'number' ? { summarizedMessageCount: record.summarizedMessageCount } : {}),
+  };
+};
+
+export const loadChatSessions = async (): Promise<ChatSession[]> => {
+  const db = await openDatabase();
+  const records = await requestToPromise(db.transaction(CHAT_SESSIONS_STORE, 'readonly').objectStore(CHAT_SESSIONS_STORE).getAll());
+  return records
+    .map(normalizeChatSession)
+    .filter((session): session is ChatSession => session !== null);
+};
+
+export const saveChatSession = async (session: ChatSession): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(CHAT_SESSIONS_STORE, 'readwrite');
+  transaction.objectStore(CHAT_SESSIONS_STORE).put(session);
+  await transactionDone(transaction);
+  notifyChange(CHAT_SESSIONS_STORE);
+};
+
+export const deleteChatSession = async (sessionId: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(CHAT_SESSIONS_STORE, 'readwrite');
+  transaction.objectStore(CHAT_SESSIONS_STORE).delete(sessionId);
+  await transactionDone(transaction);
+  notifyChange(CHAT_SESSIONS_STORE);
+};
+
+const normalizeSearchLogEntry = (record: unknown): SearchLogEntry | null => {
+  if (!isRecord(record) || typeof record.id !== 'string' || typeof record.query !== 'string') return null;
+  const timestamp = toValidDate(record.timestamp);
+  if (!timestamp) return null;
+  return {
+    ...pickStrings(record, ['chosenDocumentId']),
+    id: record.id,
+    source: record.source === 'ai' ? 'ai' : 'hub',
+    query: record.query,
+    resultCount: typeof record.resultCount === 'number' ? record.resultCount : 0,
+    ...(typeof record.queryMatchCount === 'number' ? { queryMatchCount: record.queryMatchCount } : {}),
+    ...(typeof record.answerNotFound === 'boolean' ? { answerNotFound: record.answerNotFound } : {}),
+    timestamp,
+  };
+};
+
+export const loadSearchLog = async (): Promise<SearchLogEntry[]> => {
+  const db = await openDatabase();
+  const records = await requestToPromise(db.transaction(SEARCH_LOG_STORE, 'readonly').objectStore(SEARCH_LOG_STORE).index('timestamp').getAll());
+  return records
+    .map(normalizeSearchLogEntry)
+    .filter((entry): entry is SearchLogEntry => entry !== null);
+};
+
+export const getSearchLogEntry = async (entryId: string): Promise<SearchLogEntry | null> => {
+  const db = await openDatabase();
+  const record = await requestToPromise(db.transaction(SEARCH_LOG_STORE, 'readonly').objectStore(SEARCH_LOG_STORE).get(entryId));
+  return normalizeSearchLogEntry(record);
+};
+
+export const saveSearchLogEntry = async (entry: SearchLogEntry): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(SEARCH_LOG_STORE, 'readwrite');
+  transaction.objectStore(SEARCH_LOG_STORE).put(entry);
+  await transactionDone(transaction);
+  notifyChange(SEARCH_LOG_STORE);
+};
+
+/** Removes entries logged before the given time. */
+export const deleteSearchLogEntriesBefore = async (before: Date): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(SEARCH_LOG_STORE, 'readwrite');
+  const searchLog = transaction.objectStore(SEARCH_LOG_STORE);
+  const expiredKeys = await requestToPromise(searchLog.index('timestamp').getAllKeys(IDBKeyRange.upperBound(before, true)));
+  expiredKeys.forEach(key => searchLog.delete(key));
+  await transactionDone(transaction);
+  notifyChange(SEARCH_LOG_STORE);
+};
+
+const ENGAGEMENT_EVENT_KINDS: EngagementEvent['kind'][] = ['view', 'bookmark', 'summary', 'faq', 'citation'];
+
+const normalizeEngagementEvent = (record: unknown): EngagementEvent | null => {
+  if (!isRecord(record) || typeof record.id !== 'string' || typeof record.documentId !== 'string' || !isOneOf(ENGAGEMENT_EVENT_KINDS, record.kind)) return null;
+  const timestamp = toValidDate(record.timestamp);
+  if (!timestamp) return null;
+  return { id: record.id, documentId: record.documentId, kind: record.kind, timestamp };
+};
+
+export const loadEngagementEvents = async (): Promise<EngagementEvent[]> => {
+  const db = await openDatabase();
+  const records = await requestToPromise(db.transaction(ENGAGEMENT_STORE, 'readonly').objectStore(ENGAGEMENT_STORE).index('timestamp').getAll());
+  return records
+    .map(normalizeEngagementEvent)
+    .filter((event): event is EngagementEvent => event !== null);
+};
+
+export const saveEngagementEvents = async (events: EngagementEvent[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(ENGAGEMENT_STORE, 'readwrite');
+  const store = transaction.objectStore(ENGAGEMENT_STORE);
+  events.forEach(event => store.put(event));
+  await transactionDone(transaction);
+  notifyChange(ENGAGEMENT_STORE);
+};
+
+/** Removes events recorded before the given time. */
+export const deleteEngagementEventsBefore = async (before: Date): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(ENGAGEMENT_STORE, 'readwrite');
+  const engagement = transaction.objectStore(ENGAGEMENT_STORE);
+  const expiredKeys = await requestToPromise(engagement.index('timestamp').getAllKeys(IDBKeyRange.upperBound(before, true)));
+  expiredKeys.forEach(key => engagement.delete(key));
+  await transactionDone(transaction);
+  notifyChange(ENGAGEMENT_STORE);
+};
+
+export const normalizeCollection = (record: unknown): Collection | null => {
+  if (!isRecord(record) || typeof record.id !== 'string' || typeof record.name !== 'string') return null;
+  return {
+    id: record.id,
+    name: record.name,
+    parentId: typeof record.parentId === 'string' ? record.parentId : null,
+    createdAt: toValidDate(record.createdAt) ?? new Date(),
+  };
+};
+
+export const loadCollections = async (): Promise<Collection[]> => {
+  const db = await openDatabase();
+  const records = await requestToPromise(db.transaction(COLLECTIONS_STORE, 'readonly').objectStore(COLLECTIONS_STORE).getAll());
+  return records
+    .map(normalizeCollection)
+    .filter((collection): collection is Collection => collection !== null);
+};
+
+export const saveCollection = async (collection: Collection): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(COLLECTIONS_STORE, 'readwrite');
+  transaction.objectStore(COLLECTIONS_STORE).put(collection);
+  await transactionDone(transaction);
+  notifyChange(COLLECTIONS_STORE);
+};
+
+/**
+ * Deletes a collection and, in the same transaction, saves the documents and child collections
+ * that were moved out of it, so nothing is left pointing at a collection that no longer exists.
+ */
+export const deleteCollection = async (collectionId: string, movedDocuments: Document[], movedCollections: Collection[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([COLLECTIONS_STORE, DOCUMENTS_STORE], 'readwrite');
+  const collectionStore = transaction.objectStore(COLLECTIONS_STORE);
+  collectionStore.delete(collectionId);
+  movedCollections.forEach(collection => collectionStore.put(collection));
+  const documentStore = transaction.objectStore(DOCUMENTS_STORE);
+  movedDocuments.forEach(doc => documentStore.put(doc));
+  await transactionDone(transaction);
+  notifyChange(COLLECTIONS_STORE);
+  if (movedDocuments.length > 0) notifyChange(DOCUMENTS_STORE);
+};
+
+export interface ImportWrite {
+  documents: Document[];
+  revisions: DocumentRevision[];
+  clearExisting: boolean; // Replace the whole knowledge base
+  replaceHistoryFor: string[]; // Document ids whose stored revisions are superseded by the imported ones
+  collections: Collection[];
+  tagRegistry: TagRegistry | null; // Null leaves the local tag registry as it is
+}
+
+/** Applies an import in a single transaction, so a failed import leaves the knowledge base untouched. */
+export const writeImport = async ({ documents, revisions, clearExisting, replaceHistoryFor, collections, tagRegistry }: ImportWrite): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([DOCUMENTS_STORE, REVISIONS_STORE, COLLECTIONS_STORE, META_STORE], 'readwrite');
+  const documentStore = transaction.objectStore(DOCUMENTS_STORE);
+  const revisionStore = transaction.objectStore(REVISIONS_STORE);
+  const collectionStore = transaction.objectStore(COLLECTIONS_STORE);
+  if (clearExisting) {
+    documentStore.clear();
+    revisionStore.clear();
+    collectionStore.clear();
+  } else {
+    for (const documentId of replaceHistoryFor) {
+      const revisionKeys = await requestToPromise(revisionStore.index('documentId').getAllKeys(documentId));
+      revisionKeys.forEach(key => revisionStore.delete(key));
+    }
+  }
+  documents.forEach(doc => documentStore.put(doc));
+  revisions.forEach(revision => revisionStore.put(revision));
+  collections.forEach(collection => collectionStore.put(collection));
+  if (tagRegistry) transaction.objectStore(META_STORE).put(tagRegistry, TAG_REGISTRY_KEY);
+  await transactionDone(transaction);
+  notifyChange(DOCUMENTS_STORE);
+  notifyChange(REVISIONS_STORE);
+  notifyChange(COLLECTIONS_STORE);
+  if (tagRegistry) notifyChange(TAG_REGISTRY_KEY);
+};
+
+const toTagList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((tag): tag is string => typeof tag === 'string' && tag.trim() !== '') : [];
+
+const normalizeSynonymGroup = (record: unknown): TagSynonymGroup | null =>
+  isRecord(record) && typeof record.canonical === 'string' && record.canonical.trim()
+    ? { canonical: record.canonical, synonyms: toTagList(record.synonyms) }
+    : null;
+
+export const normalizeTagRegistry = (record: unknown): TagRegistry => ({
+  knownTags: isRecord(record) ? toTagList(record.knownTags) : [],
+  synonymGroups: isRecord(record) && Array.isArray(record.synonymGroups)
+    ? record.synonymGroups.map(normalizeSynonymGroup).filter((group): group is TagSynonymGroup => group !== null)
+    : [],
+});
+
+export const loadTagRegistry = async (): Promise<TagRegistry> => normalizeTagRegistry(await getMetaValue(TAG_REGISTRY_KEY));
+
+export const saveTagRegistry = async (registry: TagRegistry): Promise<void> => {
+  await setMetaValue(TAG_REGISTRY_KEY, registry);
+  notifyChange(TAG_REGISTRY_KEY);
+};
+
+export const getMetaValue = async <T,>(key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(key));
+};
+
+export const setMetaValue = async (key: string, value: unknown): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  transaction.objectStore(META_STORE).put(value, key);
+  await transactionDone(transaction);
+};
+
+/**
+ * One-time import of the pre-IndexedDB localStorage array. The legacy key is only removed after
+ * the documents are safely written; if it can't be parsed it is left untouched and an error is thrown.
+ */
+export const importLegacyDocuments = async (): Promise<LegacyImportResult | null> => {
+  const storedValue = localStorage.getItem(LEGACY_DOCUMENTS_KEY);
+  if (storedValue === null) return null;
+
+  let parsedData: unknown;
+  try {
+    parsedData = JSON.parse(storedValue);
+  } catch (error) {
+    console.error("Error parsing legacy documents from localStorage:", error);
+    throw new Error(`Your previously saved documents could not be read and were not imported. The original data has been kept in localStorage under "${LEGACY_DOCUMENTS_KEY}".`);
+  }
+  if (!Array.isArray(parsedData)) {
+    throw new Error(`Previously saved documents are in an unexpected format and were not imported. The original data has been kept in localStorage under "${LEGACY_DOCUMENTS_KEY}".`);
+  }
+
+  const docs = parsedData.map(normalizeDocument).filter((doc): doc is Document => doc !== null);
+  await saveDocuments(docs);
+  await setMetaValue('initialized', true);
+  localStorage.removeItem(LEGACY_DOCUMENTS_KEY);
+  return { importedCount: docs.length, skippedCount: parsedData.length - docs.length };
+};
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const estimate = await navigator.storage.estimate();
+  const isPersisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+  return { usageBytes: estimate.usage ?? 0, quotaBytes: estimate.quota ?? 0, isPersisted };
+};
+
+/** Asks the browser not to evict this origin's data under storage pressure. */
+export const requestPersistentStorage = async (): Promise<boolean> =>
+  navigator.storage?.persist ? navigator.storage.persist() : false;
+
+export const deleteDatabase = async (): Promise<void> => {
+  if (databasePromise) {
+    (await databasePromise).close();
+    databasePromise = null;
+  }
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => resolve(); // Completes once other tabs close; the reload below starts fresh either way.
+  });
+};
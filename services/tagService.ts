@@ -0,0 +1,161 @@
+import { Document, TagRegistry, TagSynonymGroup } from "../types";
+import { SearchQueryNode } from "./searchQueryService";
+
+// Tag administration: usage counts, renaming and merging across documents, and synonym groups.
+
+export interface TagUsage {
+  tag: string;
+  count: number; // Documents carrying the tag
+  canonical?: string; // Set when the tag is a synonym of another
+}
+
+export const EMPTY_TAG_REGISTRY: TagRegistry = { knownTags: [], synonymGroups: [] };
+
+const tagKey = (tag: string): string => tag.trim().toLowerCase();
+
+export const isSameTag = (a: string, b: string): boolean => tagKey(a) === tagKey(b);
+
+/** Drops blank and case-insensitively repeated tags, keeping the first spelling. */
+export const dedupeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags.map(tag => tag.trim()).filter(tag => {
+    if (!tag || seen.has(tagKey(tag))) return false;
+    seen.add(tagKey(tag));
+    return true;
+  });
+};
+
+const groupMembers = (group: TagSynonymGroup): string[] => [group.canonical, ...group.synonyms];
+
+export const findSynonymGroup = (tag: string, groups: TagSynonymGroup[]): TagSynonymGroup | undefined =>
+  groups.find(group => groupMembers(group).some(member => isSameTag(member, tag)));
+
+/** The tag the filter shows for this one: its group's canonical tag, or itself. */
+export const canonicalizeTag = (tag: string, groups: TagSynonymGroup[]): string =>
+  findSynonymGroup(tag, groups)?.canonical ?? tag;
+
+/** Every tag that counts as a match for this one, itself included. */
+export const getTagEquivalents = (tag: string, groups: TagSynonymGroup[]): string[] => {
+  const group = findSynonymGroup(tag, groups);
+  return group ? groupMembers(group) : [tag];
+};
+
+export const documentHasTag = (doc: Document, tag: string, groups: TagSynonymGroup[]): boolean => {
+  const equivalents = getTagEquivalents(tag, groups);
+  return doc.tags.some(docTag => equivalents.some(equivalent => isSameTag(docTag, equivalent)));
+};
+
+/**
+ * Rewrites a parsed query so synonyms match: tag:hr also finds documents tagged with any synonym
+ * of hr, and a free-text word that is a tag in a synonym group also finds documents tagged with the group.
+ */
+export const expandTagSynonyms = (node: SearchQueryNode | null, groups: TagSynonymGroup[]): SearchQueryNode | null => {
+  if (!node || groups.length === 0) return node;
+  const tagTerms = (tag: string): SearchQueryNode[] =>
+    getTagEquivalents(tag, groups).map(value => ({ kind: 'term', field: 'tag', value }));
+  switch (node.kind) {
+    case 'term':
+      if (node.field === 'tag') {
+        const terms = tagTerms(node.value);
+        return terms.length === 1 ? node : { kind: 'or', operands: terms };
+      }
+      if (node.field === 'text' && findSynonymGroup(node.value, groups)) {
+        return { kind: 'or', operands: [node, ...tagTerms(node.value)] };
+      }
+      return node;
+    case 'added': return node;
+    case 'not': return { kind: 'not', operand: expandTagSynonyms(node.operand, groups)! };
+    case 'and':
+    case 'or': return { kind: node.kind, operands: node.operands.map(operand => expandTagSynonyms(operand, groups)!) };
+  }
+};
+
+/** One entry per tag (case-insensitively) on a document or in the registry, most used first. */
+export const getTagUsage = (documents: Document[], registry: TagRegistry): TagUsage[] => {
+  const usage = new Map<string, TagUsage>();
+  const add = (tag: string, count: number) => {
+    const entry = usage.get(tagKey(tag));
+    if (entry) entry.count += count;
+    else usage.set(tagKey(tag), { tag: tag.trim(), count });
+  };
+  documents.forEach(doc => dedupeTags(doc.tags).forEach(tag => add(tag, 1)));
+  registry.knownTags.forEach(tag => add(tag, 0));
+  registry.synonymGroups.forEach(group => groupMembers(group).forEach(tag => add(tag, 0)));
+  return [...usage.values()]
+    .filter(entry => entry.tag)
+    .map(entry => {
+      const canonical = canonicalizeTag(entry.tag, registry.synonymGroups);
+      return isSameTag(canonical, entry.tag) ? entry : { ...entry, canonical };
+    })
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag, undefined, { sensitivity: 'base' }));
+};
+
+/** The registry with any document tags it hasn't seen yet, or null when there are none. */
+export const registerDocumentTags = (registry: TagRegistry, documents: Document[]): TagRegistry | null => {
+  const known = new Set(registry.knownTags.map(tagKey));
+  const added = dedupeTags(documents.flatMap(doc => doc.tags)).filter(tag => !known.has(tagKey(tag)));
+  return added.length === 0 ? null : { ...registry, knownTags: [...registry.knownTags, ...added] };
+};
+
+/**
+ * Replaces the given tags with targetTag on every document that has one of them (renaming one tag,
+ * or merging several), or removes them when targetTag is null. Returns only the documents that change.
+ */
+export const planTagReplacement = (documents: Document[], fromTags: string[], targetTag: string | null): Document[] =>
+  documents.flatMap(doc => {
+    if (!doc.tags.some(tag => fromTags.some(from => isSameTag(tag, from)))) return [];
+    const tags = dedupeTags(doc.tags.flatMap(tag =>
+      fromTags.some(from => isSameTag(tag, from)) ? (targetTag === null ? [] : [targetTag]) : [tag]
+    ));
+    return tags.length === doc.tags.length && tags.every((tag, i) => tag === doc.tags[i]) ? [] : [{ ...doc, tags }];
+  });
+
+/** Adds the tags to every document missing one of them. Returns only the documents that change. */
+export const planTagAddition = (documents: Document[], tagsToAdd: string[]): Document[] =>
+  documents.flatMap(doc => {
+    const missing = dedupeTags(tagsToAdd).filter(tag => !doc.tags.some(existing => isSameTag(existing, tag)));
+    return missing.length === 0 ? [] : [{ ...doc, tags: [...doc.tags, ...missing] }];
+  });
+
+/** The same replacement applied to the registry, so renamed tags keep their synonyms. */
+export const replaceTagsInRegistry = (registry: TagRegistry, fromTags: string[], targetTag: string | null): TagRegistry => {
+  const replace = (tags: string[]) => dedupeTags(tags.flatMap(tag =>
+    fromTags.some(from => isSameTag(tag, from)) ? (targetTag === null ? [] : [targetTag]) : [tag]
+  ));
+  const synonymGroups: TagSynonymGroup[] = [];
+  registry.synonymGroups.forEach(group => {
+    // Merging tags from two groups can put the target in both; the first group keeps it.
+    const members = replace(groupMembers(group)).filter(tag => !findSynonymGroup(tag, synonymGroups));
+    // A group needs a canonical tag and at least one synonym to mean anything.
+    if (members.length < 2) return;
+    const renamedCanonical = replace([group.canonical])[0];
+    const canonical = members.find(tag => renamedCanonical !== undefined && isSameTag(tag, renamedCanonical)) ?? members[0];
+    synonymGroups.push({ canonical, synonyms: members.filter(tag => !isSameTag(tag, canonical)) });
+  });
+  return { knownTags: replace(registry.knownTags), synonymGroups };
+};
+
+/** Returns a user-facing problem with the group, or null if it can be saved. */
+export const validateSynonymGroup = (group: TagSynonymGroup, groups: TagSynonymGroup[], editingCanonical?: string): string | null => {
+  if (!group.canonical.trim()) return "Choose the main tag for the group.";
+  const members = dedupeTags(groupMembers(group));
+  if (members.length < 2) return "Add at least one synonym.";
+  for (const member of members) {
+    const clash = groups.find(other => (editingCanonical === undefined || !isSameTag(other.canonical, editingCanonical)) &&
+      groupMembers(other).some(tag => isSameTag(tag, member)));
+    if (clash) return `"${member}" is already in the synonym group for "${clash.canonical}".`;
+  }
+  return null;
+};
+
+/**
+ * Combines an imported registry with the local one. Local synonym groups win; an imported group
+ * is only added if none of its tags is already in a local group.
+ */
+export const mergeTagRegistries = (local: TagRegistry, imported: TagRegistry): TagRegistry => ({
+  knownTags: dedupeTags([...local.knownTags, ...imported.knownTags]),
+  synonymGroups: [
+    ...local.synonymGroups,
+    ...imported.synonymGroups.filter(group => groupMembers(group).every(tag => !findSynonymGroup(tag, local.synonymGroups))),
+  ],
+});
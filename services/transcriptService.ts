@@ -0,0 +1,122 @@
+// Caption files (.vtt/.srt) for YouTube link documents. A transcript is stored as the document's
+// full content, one "[m:ss] text" line per segment, so it is searchable and chunked like any other
+// text and every passage can still be traced back to a point in the video.
+
+export interface TranscriptSegment {
+  startSeconds: number;
+  text: string;
+}
+
+const CAPTION_EXTENSIONS = ['vtt', 'srt'];
+const EXCERPT_LENGTH = 200;
+// 00:01:02.500 or 01:02,500 (WebVTT may omit the hours; SubRip uses a comma).
+const CUE_TIME = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,]\d{1,3}/;
+const TIMING_LINE = /-->/;
+const SEGMENT_MARKER = /^\[(?:(\d+):)?(\d{1,2}):(\d{2})\] /gm;
+
+export const isCaptionFile = (file: File): boolean => {
+  const dotIndex = file.name.lastIndexOf('.');
+  return dotIndex >= 0 && CAPTION_EXTENSIONS.includes(file.name.slice(dotIndex + 1).toLowerCase());
+};
+
+const toSeconds = (hours: string | undefined, minutes: string, seconds: string): number =>
+  Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds);
+
+const cleanCueLine = (line: string): string =>
+  line
+    .replace(/<[^>]*>/g, '') // Voice, class and karaoke timestamp tags
+    .replace(/\{\\[^}]*\}/g, '') // SubRip positioning codes such as {\an8}
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Parses WebVTT or SubRip captions into segments. Lines repeated from the previous cue are dropped,
+ * since YouTube's automatic captions roll each line through two cues. Throws an Error with a
+ * user-facing message when the file holds no captions.
+ */
+export const parseCaptionFile = (content: string): TranscriptSegment[] => {
+  const segments: TranscriptSegment[] = [];
+  let previousLines: string[] = [];
+  content.replace(/^\uFEFF/, '').split(/\r?\n\s*\r?\n/).forEach(block => {
+    const lines = block.split(/\r?\n/);
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+    if (timingIndex === -1) return; // Header, NOTE, STYLE or REGION block
+    const start = lines[timingIndex].split('-->')[0].match(CUE_TIME);
+    if (!start) return;
+    const cueLines = lines.slice(timingIndex + 1).map(cleanCueLine).filter(line => line);
+    const newLines = cueLines.filter(line => !previousLines.includes(line));
+    if (cueLines.length > 0) previousLines = cueLines;
+    if (newLines.length === 0) return;
+    segments.push({ startSeconds: toSeconds(start[1], start[2], start[3]), text: newLines.join(' ') });
+  });
+  if (segments.length === 0) {
+    throw new Error("No captions were found in this file. Select a WebVTT (.vtt) or SubRip (.srt) caption file.");
+  }
+  return segments;
+};
+
+/** 75 → "1:15", 3675 → "1:01:15". */
+export const formatTimestamp = (totalSeconds: number): string => {
+  const seconds = Math.floor(totalSeconds % 60);
+  const minutes = Math.floor(totalSeconds / 60) % 60;
+  const hours = Math.floor(totalSeconds / 3600);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+};
+
+export const formatTranscript = (segments: TranscriptSegment[]): string =>
+  segments.map(segment => `[${formatTimestamp(segment.startSeconds)}] ${segment.text}`).join('\n');
+
+export const isTranscriptText = (text: string | undefined): boolean =>
+  !!text && new RegExp(SEGMENT_MARKER.source, 'm').test(text.trimStart());
+
+/**
+ * Where in the video the text at `offset` is spoken: the start of the segment line containing it.
+ * Null when the text before the offset has no segment marker.
+ */
+export const getTranscriptTimestampAt = (text: string, offset: number): number | null => {
+  let timestamp: number | null = null;
+  for (const match of text.matchAll(SEGMENT_MARKER)) {
+    if (match.index! > offset) break;
+    timestamp = toSeconds(match[1], match[2], match[3]);
+  }
+  return timestamp;
+};
+
+const getYouTubeVideoId = (url: URL): string | null => {
+  const host = url.hostname.replace(/^(www|m|music)\./, '');
+  if (host === 'youtu.be') return url.pathname.slice(1).split('/')[0] || null;
+  if (host !== 'youtube.com' && host !== 'youtube-nocookie.com') return null;
+  if (url.pathname === '/watch') return url.searchParams.get('v');
+  const pathMatch = url.pathname.match(/^\/(?:embed|shorts|live|v)\/([^/]+)/);
+  return pathMatch ? pathMatch[1] : null;
+};
+
+/** A link that opens the video at the given second. Falls back to adding a t parameter to unrecognized URLs. */
+export const buildVideoTimestampUrl = (sourceUrl: string, seconds: number): string => {
+  const time = Math.max(0, Math.floor(seconds));
+  try {
+    const url = new URL(sourceUrl);
+    const videoId = getYouTubeVideoId(url);
+    if (videoId) return `https://www.youtube.com/watch?v=${encodeURIComponent(videoId)}&t=${time}s`;
+    url.searchParams.set('t', `${time}s`);
+    return url.href;
+  } catch {
+    return sourceUrl;
+  }
+};
+
+/** Reads a caption file into transcript text for fullContent, plus an excerpt for the snippet. */
+export const readCaptionFile = async (file: File): Promise<{ transcript: string; excerpt: string; segmentCount: number }> => {
+  const segments = parseCaptionFile(await file.text());
+  const spokenText = segments.map(segment => segment.text).join(' ');
+  return {
+    transcript: formatTranscript(segments),
+    excerpt: spokenText.length > EXCERPT_LENGTH ? `${spokenText.slice(0, EXCERPT_LENGTH).replace(/\s+\S*$/, '')}…` : spokenText,
+    segmentCount: segments.length,
+  };
+};
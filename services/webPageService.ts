@@ -0,0 +1,178 @@
+import { Document } from "../types";
+
+// "Fetch content" for URL documents: the page is retrieved through a proxy (browsers block most
+// cross-origin reads) and reduced to its readable text, readability-style.
+
+// The dev server's built-in stand-in (see vite.config.ts). A real deployment points this at its own proxy.
+export const DEFAULT_FETCH_PROXY_URL = '/api/fetch-proxy?url={url}';
+const FETCH_TIMEOUT_MS = 30000;
+const EXCERPT_LENGTH = 200;
+
+export interface FetchedWebPage {
+  title: string;
+  text: string;
+  excerpt: string; // Opening of the text, for documents that have no snippet yet
+}
+
+/** Fills the proxy template's {url} placeholder, or appends the encoded URL when there is none. */
+export const buildProxyRequestUrl = (proxyTemplate: string, targetUrl: string): string => {
+  const template = proxyTemplate.trim() || DEFAULT_FETCH_PROXY_URL;
+  const encoded = encodeURIComponent(targetUrl);
+  return template.includes('{url}') ? template.replace('{url}', encoded) : `${template}${encoded}`;
+};
+
+const fetchPageHtml = async (targetUrl: string, proxyTemplate: string): Promise<string> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(targetUrl);
+  } catch {
+    throw new Error(`"${targetUrl}" is not a valid web address.`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error("Only http and https pages can be fetched.");
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  let response: Response;
+  try {
+    response = await fetch(buildProxyRequestUrl(proxyTemplate, parsed.href), { signal: controller.signal });
+  } catch {
+    throw new Error(controller.signal.aborted
+      ? `The page took longer than ${FETCH_TIMEOUT_MS / 1000} seconds to load.`
+      : "Could not reach the fetch proxy. Check the proxy address under Settings → Data Management.");
+  } finally {
+    clearTimeout(timeoutId);
+  }
+  if (!response.ok) {
+    throw new Error(`The page could not be fetched (HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ''}).`);
+  }
+  // The built-in proxy always answers in plain text and reports the page's own type separately;
+  // other proxies may pass the page through as is.
+  const contentType = response.headers.get('x-upstream-content-type') ?? response.headers.get('content-type') ?? '';
+  if (contentType && !/html|xml|text\/plain/i.test(contentType)) {
+    throw new Error(`The address returned ${contentType.split(';')[0]}, not a web page.`);
+  }
+  return response.text();
+};
+
+// Never part of the readable content.
+const REMOVED_SELECTOR = 'script, style, noscript, template, iframe, object, embed, svg, canvas, form, button, input, select, textarea, nav, aside, footer, header, [role="navigation"], [role="banner"], [role="contentinfo"], [aria-hidden="true"], [hidden]';
+// Class or id names that mark page furniture rather than content.
+const BOILERPLATE_PATTERN = /(^|[\s_-])(comment|sidebar|footer|nav|menu|share|social|advert|ads?|promo|cookie|banner|related|breadcrumb|subscribe|newsletter|popup|modal)([\s_-]|$)/i;
+const CANDIDATE_SELECTOR = 'article, main, [role="main"], section, div, td';
+const BLOCK_TAGS = new Set(['P', 'DIV', 'SECTION', 'ARTICLE', 'MAIN', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'LI', 'BLOCKQUOTE', 'PRE', 'TR', 'DT', 'DD', 'FIGCAPTION', 'BR', 'HR', 'TABLE', 'UL', 'OL', 'DL']);
+
+const collapseWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const linkDensity = (element: Element): number => {
+  const textLength = collapseWhitespace(element.textContent ?? '').length;
+  if (textLength === 0) return 1;
+  const linkLength = Array.from(element.querySelectorAll('a')).reduce((sum, link) => sum + collapseWhitespace(link.textContent ?? '').length, 0);
+  return linkLength / textLength;
+};
+
+/**
+ * Scores each container by the paragraph text directly inside it (commas hint at real sentences),
+ * discounted by how much of it is links. The best container holds the article body.
+ */
+const findMainContent = (body: HTMLElement): Element => {
+  const scores = new Map<Element, number>();
+  body.querySelectorAll('p, pre, blockquote, li, td').forEach(paragraph => {
+    const text = collapseWhitespace(paragraph.textContent ?? '');
+    if (text.length < 25) return;
+    const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    // Credit the parent fully and the grandparent half, as Readability does.
+    const parent = paragraph.parentElement?.closest(CANDIDATE_SELECTOR);
+    if (parent) scores.set(parent, (scores.get(parent) ?? 0) + score);
+    const grandparent = parent?.parentElement?.closest(CANDIDATE_SELECTOR);
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? 0) + score / 2);
+  });
+  let best: Element = body;
+  let bestScore = 0;
+  scores.forEach((score, element) => {
+    const adjusted = score * (1 - linkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  });
+  return best;
+};
+
+/** Text with one line per block (paragraph, heading, list item), so the structure survives. */
+const toReadableText = (root: Element): string => {
+  const lines: string[] = [];
+  let current = '';
+  const flush = () => {
+    const line = collapseWhitespace(current);
+    if (line) lines.push(line);
+    current = '';
+  };
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      current += node.textContent ?? '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const element = node as Element;
+    const isBlock = BLOCK_TAGS.has(element.tagName);
+    if (isBlock) flush();
+    if (element.tagName === 'LI') current += '• ';
+    element.childNodes.forEach(walk);
+    if (isBlock) flush();
+  };
+  walk(root);
+  flush();
+  return lines.join('\n');
+};
+
+const getPageTitle = (doc: globalThis.Document): string =>
+  collapseWhitespace(
+    doc.querySelector('meta[property="og:title"]')?.getAttribute('content') ||
+    doc.title ||
+    doc.querySelector('h1')?.textContent ||
+    ''
+  );
+
+/** Reduces a page to its title and main text. */
+export const extractReadableContent = (html: string): FetchedWebPage => {
+  const page = new DOMParser().parseFromString(html, 'text/html');
+  const title = getPageTitle(page);
+  page.querySelectorAll(REMOVED_SELECTOR).forEach(element => element.remove());
+  page.querySelectorAll('[class], [id]').forEach(element => {
+    const names = `${element.getAttribute('class') ?? ''} ${element.id}`;
+    if (element !== page.body && BOILERPLATE_PATTERN.test(names) && linkDensity(element) > 0.25) element.remove();
+  });
+  const text = toReadableText(findMainContent(page.body));
+  const excerpt = text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH).replace(/\s+\S*$/, '')}…` : text;
+  return { title, text, excerpt: excerpt.replace(/\n/g, ' ') };
+};
+
+/** Fetches a page through the proxy and extracts its readable content. Throws an Error with a user-facing message. */
+export const fetchWebPage = async (targetUrl: string, proxyTemplate: string): Promise<FetchedWebPage> => {
+  const page = extractReadableContent(await fetchPageHtml(targetUrl, proxyTemplate));
+  if (!page.text) throw new Error("The page was fetched, but no readable text was found on it.");
+  return page;
+};
+
+/**
+ * The document with freshly fetched page content. contentChanged tells a re-fetch that found new
+ * text (saved as a new version) from one that only confirms the page is unchanged.
+ */
+export const applyFetchedPage = (doc: Document, page: FetchedWebPage, fetchedAt: Date): { updated: Document; contentChanged: boolean } => {
+  const contentChanged = (doc.fullContent ?? '') !== page.text;
+  return {
+    contentChanged,
+    updated: {
+      ...doc,
+      fullContent: page.text,
+      contentSnippet: doc.contentSnippet.trim() ? doc.contentSnippet : page.excerpt,
+      fetchedPage: {
+        title: page.title,
+        fetchedAt,
+        contentChangedAt: contentChanged || !doc.fetchedPage ? fetchedAt : doc.fetchedPage.contentChangedAt,
+      },
+    },
+  };
+};
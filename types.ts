@@ -14,6 +14,21 @@ export interface FAQ {
   answer: string;
 }
 
+// What "Fetch content" last retrieved for a URL document.
+export interface FetchedPageInfo {
+  title: string;
+  fetchedAt: Date; // Last successful fetch
+  contentChangedAt: Date; // Last fetch whose text differed from what the document held
+}
+
+export type DocumentRelationType = 'references' | 'supersedes' | 'related-to';
+
+// A typed link from the document holding it to another document.
+export interface DocumentLink {
+  type: DocumentRelationType;
+  targetId: string;
+}
+
 export interface Document {
   id: string;
   name:string;
@@ -25,6 +40,70 @@ export interface Document {
   isFavorite: boolean;
   sourceUrl?: string;
   generatedFaqs?: FAQ[];
+  generatedSummary?: string; // AI bullet-point summary, one "• point" per line
+  fetchedPage?: FetchedPageInfo;
+  links?: DocumentLink[]; // Outgoing relationships; links to deleted documents are ignored
+  collectionId?: string; // Unfiled when absent or when the collection no longer exists
+}
+
+// A folder in the collection tree; top-level collections have no parent.
+export interface Collection {
+  id: string;
+  name: string;
+  parentId: string | null;
+  createdAt: Date;
+}
+
+// Tags that mean the same thing; search and the tag filter treat every member as the canonical tag.
+export interface TagSynonymGroup {
+  canonical: string;
+  synonyms: string[];
+}
+
+export interface TagRegistry {
+  knownTags: string[]; // Every tag seen on a document, kept after its last use so it can be listed as unused
+  synonymGroups: TagSynonymGroup[];
+}
+
+// The user-editable fields of a document, i.e. what a revision snapshots.
+export type DocumentContentFields = Pick<Document, 'name' | 'type' | 'tags' | 'contentSnippet' | 'fullContent' | 'sourceUrl'>;
+
+export type RevisionAction = 'created' | 'edited' | 'restored';
+
+export interface DocumentFieldChange {
+  field: keyof DocumentContentFields;
+  before: string;
+  after: string;
+}
+
+// An immutable record of one version of a document. Revisions are never updated or removed individually.
+export interface DocumentRevision {
+  id: string; // `${documentId}@${revisionNumber}`
+  documentId: string;
+  revisionNumber: number; // 1 is the document as originally added
+  createdAt: Date;
+  author: string;
+  action: RevisionAction;
+  restoredFromRevision?: number;
+  changes: DocumentFieldChange[]; // Relative to the previous revision; empty for the first one
+  snapshot: DocumentContentFields;
+}
+
+// A passage of a document's content, the unit the AI Query Agent retrieves and cites.
+export interface DocumentChunk {
+  id: string; // `${documentId}#${index}`
+  documentId: string;
+  documentName: string;
+  index: number;
+  text: string;
+  start: number; // Character offset into the source text
+  end: number;
+  timestampSeconds?: number; // Transcript passages: where in the video the passage starts
+}
+
+export interface RetrievedChunk {
+  chunk: DocumentChunk;
+  score: number;
 }
 
 export interface ChatMessage {
@@ -34,6 +113,75 @@ export interface ChatMessage {
   timestamp: Date;
   isLoading?: boolean;
   sources?: string[]; // For AI messages, to list relevant document names
+  standaloneQuery?: string; // For user follow-ups, the self-contained question used for retrieval
+  citations?: Citation[]; // For AI messages, the retrieved passages referenced inline as [n]
+  searchLogId?: string; // For AI messages, the search log entry of the question they answer
+}
+
+// A Document Hub search or AI Query Agent question, logged locally for the analytics dashboard.
+export interface SearchLogEntry {
+  id: string;
+  source: 'hub' | 'ai';
+  query: string;
+  resultCount: number; // Documents matched (hub) or retrieved as context for the answer (AI)
+  queryMatchCount?: number; // Hub only: documents the query matches before the hub's filters narrow them
+  chosenDocumentId?: string; // The first result opened (hub) or citation followed (AI)
+  answerNotFound?: boolean; // AI only: the answer said the documents don't cover the question
+  timestamp: Date;
+}
+
+export type EngagementEventKind = 'view' | 'bookmark' | 'summary' | 'faq' | 'citation';
+
+// Something done with a document, recorded locally for the analytics dashboard.
+export interface EngagementEvent {
+  id: string;
+  documentId: string;
+  kind: EngagementEventKind;
+  timestamp: Date;
+}
+
+// A retrieved passage an answer cites as [number]. The text is kept so the passage can still be
+// found (or at least shown) after the document is edited and the offsets move.
+export interface Citation {
+  number: number;
+  chunkId: string;
+  documentId: string;
+  documentName: string;
+  start: number;
+  end: number;
+  text: string;
+  timestampSeconds?: number; // Transcript passages: where in the video the passage starts
+}
+
+// A passage for the Documents view to highlight once its route has opened the document.
+export interface DocumentFocusRequest {
+  documentId: string;
+  passage?: { start: number; end: number; text: string };
+}
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: Date;
+  updatedAt: Date;
+  isPinned: boolean;
+  summary?: string; // Rolling summary of the earliest messages
+  summarizedMessageCount?: number; // How many leading messages the summary covers
+}
+
+export enum AIProviderType {
+  GEMINI = "gemini",
+  OPENAI_COMPATIBLE = "openai-compatible",
+  MOCK = "mock",
+}
+
+export interface AIProviderSettings {
+  provider: AIProviderType;
+  openAIBaseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+  openAIApiKey: string;
+  openAIModel: string;
+  openAIEmbeddingModel: string; // Empty to use local embeddings
 }
 
 export enum Theme {
@@ -64,6 +212,8 @@ export enum ActiveView {
   DOCUMENTS = "Documents",
   AI_QUERY = "AI Query",
   MY_BOOKMARKS = "My Bookmarks",
+  TAGS = "Tags",
+  GRAPH = "Document Graph",
   ANALYTICS = "Analytics",
   SETTINGS = "Settings",
 }
@@ -81,11 +231,17 @@ export const UI_TRANSLATIONS: Record<Language, Record<string, string>> = {
     documents: "Documents",
     ai_query: "AI Query",
     my_bookmarks: "My Bookmarks",
+    tags: "Tags",
+    document_graph: "Document Graph",
     analytics: "Analytics",
     settings: "Settings",
     add_document: "Add Document",
     document_hub_title: "Document Hub",
     search_documents_placeholder: "Search documents...",
+    search_mode_keyword: "Keyword",
+    search_mode_semantic: "Semantic",
+    query_builder_button: "Query builder",
+    search_syntax_hint: "Combine tag:, type:, name: and added: (e.g. added:>2024-01-01) with AND, OR, NOT or -, \"quoted phrases\" and parentheses.",
     all_types: "All Types",
     all_tags: "All Tags",
     no_documents_found_home: "No documents found. Try adjusting your filters or adding new documents.",
@@ -130,17 +286,65 @@ export const UI_TRANSLATIONS: Record<Language, Record<string, string>> = {
     language_settings_title: "Language",
     language_label: "Application Language",
     ai_config_title: "AI Configuration",
+    ai_provider_label: "AI Provider",
+    ai_provider_help: "Choose which model backend powers summaries, tags, FAQs and the AI Query Agent. The offline mock answers deterministically from your documents without any network access.",
+    openai_base_url_label: "Endpoint Base URL",
+    openai_api_key_label: "API Key (optional for local servers)",
+    openai_model_label: "Chat Model",
+    openai_embedding_model_label: "Embedding Model (optional)",
+    save_ai_settings_button: "Save AI Settings",
     ai_service_status_label: "AI Service Status:",
     ai_service_available: "Available",
     ai_service_unavailable: "Unavailable (API Key not configured)",
     ai_model_label: "Current AI Model:",
+    context_token_budget_label: "AI Context Budget (tokens):",
+    context_token_budget_help: "Maximum number of tokens of retrieved document passages included with each AI Query Agent question. Larger budgets give the AI more context but respond more slowly.",
     data_management_title: "Data Management",
-    data_storage_info: "Your document data, theme, and language preferences are stored locally in your browser's localStorage. This data is private to this browser on this computer.",
+    data_storage_info: "Your documents are stored locally in your browser's IndexedDB database; theme and language preferences are kept in localStorage. This data is private to this browser on this computer.",
+    author_name_label: "Your name",
+    author_name_help: "Recorded as the author of each document edit in its version history.",
+    fetch_proxy_label: "Web page fetch proxy",
+    fetch_proxy_help: "Used by \"Fetch content\" on URL documents. {url} is replaced with the page address; the default is the development server's built-in proxy.",
+    storage_usage_label: "Browser storage used",
+    storage_usage_unavailable: "This browser does not report storage usage.",
+    storage_documents_count: "Documents stored",
+    storage_persisted: "Protected from automatic cleanup",
+    storage_persist_button: "Keep data when storage is low",
     clear_local_data_button: "Clear All Local Data",
     clear_data_confirm_title: "Confirm Data Deletion",
     clear_data_confirm_message: "Are you sure you want to delete all local data? This action cannot be undone and will remove all your documents, settings, and preferences.",
     cancel_button: "Cancel",
     confirm_delete_button: "Yes, Delete Everything",
+    export_data_button: "Export Knowledge Base",
+    import_data_button: "Import Knowledge Base",
+    import_export_help: "Export saves every document with its tags, FAQs and version history, plus your preferences (API keys excluded), to a JSON file you can import in another browser.",
+    import_title: "Import Knowledge Base",
+    import_file_label: "File:",
+    import_exported_at_label: "Exported:",
+    import_summary_new: "New documents",
+    import_summary_identical: "Already present (identical)",
+    import_summary_conflicts: "Same ID, different content",
+    import_summary_invalid: "Unreadable records skipped",
+    import_mode_label: "Import mode",
+    import_mode_merge: "Merge with my documents",
+    import_mode_replace: "Replace all my documents",
+    import_replace_warning: "Replace deletes every current document and its history before importing.",
+    import_conflict_label: "For documents with conflicting IDs",
+    conflict_keep_existing: "Keep my version",
+    conflict_use_imported: "Use the imported version",
+    conflict_keep_both: "Keep both (import as a copy)",
+    import_conflict_yours: "Yours:",
+    import_conflict_imported: "Imported:",
+    import_apply_settings: "Also apply the exported preferences (theme, language, AI settings, author name)",
+    import_confirm_button: "Import",
+    import_complete_title: "Import Complete",
+    report_added: "Added",
+    report_replaced: "Replaced",
+    report_kept_existing: "Kept your version",
+    report_kept_both: "Imported as copies",
+    report_skipped: "Skipped (identical)",
+    report_removed: "Removed",
+    close_button: "Close",
     about_section_title: "About",
     app_name_label: "Application Name:",
     app_version_label: "Version:",
@@ -153,11 +357,17 @@ export const UI_TRANSLATIONS: Record<Language, Record<string, string>> = {
     documents: "ஆவணங்கள்",
     ai_query: "AI கேள்வி",
     my_bookmarks: "என் புக்மார்க்குகள்",
+    tags: "குறிச்சொற்கள்",
+    document_graph: "ஆவண வரைபடம்",
     analytics: "பகுப்பாய்வு",
     settings: "அமைப்புகள்",
     add_document: "ஆவணத்தைச் சேர்",
     document_hub_title: "ஆவண மையம்",
     search_documents_placeholder: "ஆவணங்களைத் தேடுங்கள்...",
+    search_mode_keyword: "முக்கியச்சொல்",
+    search_mode_semantic: "பொருள்சார்",
+    query_builder_button: "வினவல் உருவாக்கி",
+    search_syntax_hint: "tag:, type:, name:, added: (எ.கா. added:>2024-01-01) ஆகியவற்றை AND, OR, NOT அல்லது -, \"மேற்கோள் சொற்றொடர்கள்\" மற்றும் அடைப்புக்குறிகளுடன் இணைக்கவும்.",
     all_types: "அனைத்து வகைகள்",
     all_tags: "அனைத்து குறிச்சொற்கள்",
     no_documents_found_home: "எந்த ஆவணங்களும் இல்லை. உங்கள் வடிப்பான்களை சரிசெய்யவும் அல்லது புதிய ஆவணங்களைச் சேர்க்கவும்.",
@@ -201,17 +411,65 @@ export const UI_TRANSLATIONS: Record<Language, Record<string, string>> = {
     language_settings_title: "மொழி",
     language_label: "பயன்பாட்டு மொழி",
     ai_config_title: "AI கட்டமைப்பு",
+    ai_provider_label: "AI வழங்குநர்",
+    ai_provider_help: "சுருக்கங்கள், குறிச்சொற்கள், FAQ கள் மற்றும் AI கேள்வி முகவரை இயக்கும் மாதிரியைத் தேர்ந்தெடுக்கவும். ஆஃப்லைன் மாதிரி எந்த இணைய அணுகலும் இல்லாமல் உங்கள் ஆவணங்களிலிருந்து பதிலளிக்கும்.",
+    openai_base_url_label: "முனைய அடிப்படை URL",
+    openai_api_key_label: "API விசை (உள்ளூர் சேவையகங்களுக்கு விருப்பத்தேர்வு)",
+    openai_model_label: "அரட்டை மாதிரி",
+    openai_embedding_model_label: "உட்பொதிவு மாதிரி (விருப்பத்தேர்வு)",
+    save_ai_settings_button: "AI அமைப்புகளைச் சேமி",
     ai_service_status_label: "AI சேவை நிலை:",
     ai_service_available: "கிடைக்கிறது",
     ai_service_unavailable: "கிடைக்கவில்லை (API விசை கட்டமைக்கப்படவில்லை)",
     ai_model_label: "தற்போதைய AI மாதிரி:",
+    context_token_budget_label: "AI சூழல் வரம்பு (டோக்கன்கள்):",
+    context_token_budget_help: "ஒவ்வொரு AI கேள்வியுடனும் சேர்க்கப்படும் ஆவணப் பகுதிகளின் அதிகபட்ச டோக்கன்களின் எண்ணிக்கை. பெரிய வரம்பு AI க்கு அதிக சூழலை வழங்கும், ஆனால் பதில் மெதுவாக வரும்.",
     data_management_title: "தரவு மேலாண்மை",
-    data_storage_info: "உங்கள் ஆவணத் தரவு, தீம் மற்றும் மொழி விருப்பத்தேர்வுகள் உங்கள் உலாவியின் localStorage இல் உள்நாட்டில் சேமிக்கப்படும். இந்தத் தரவு இந்தக் கணினியில் இந்த உலாவிக்கு தனிப்பட்டது.",
+    data_storage_info: "உங்கள் ஆவணங்கள் உங்கள் உலாவியின் IndexedDB தரவுத்தளத்தில் உள்நாட்டில் சேமிக்கப்படும்; தீம் மற்றும் மொழி விருப்பத்தேர்வுகள் localStorage இல் வைக்கப்படும். இந்தத் தரவு இந்தக் கணினியில் இந்த உலாவிக்கு தனிப்பட்டது.",
+    author_name_label: "உங்கள் பெயர்",
+    author_name_help: "ஒவ்வொரு ஆவணத் திருத்தத்தின் ஆசிரியராக அதன் பதிப்பு வரலாற்றில் பதிவு செய்யப்படும்.",
+    fetch_proxy_label: "இணையப் பக்கப் பெறுதல் ப்ராக்ஸி",
+    fetch_proxy_help: "URL ஆவணங்களில் \"உள்ளடக்கத்தைப் பெறு\" இதைப் பயன்படுத்துகிறது. {url} பக்க முகவரியால் மாற்றப்படும்; இயல்புநிலை மேம்பாட்டுச் சேவையகத்தின் உள்ளமைந்த ப்ராக்ஸி.",
+    storage_usage_label: "பயன்படுத்திய உலாவி சேமிப்பகம்",
+    storage_usage_unavailable: "இந்த உலாவி சேமிப்பக பயன்பாட்டைத் தெரிவிக்கவில்லை.",
+    storage_documents_count: "சேமிக்கப்பட்ட ஆவணங்கள்",
+    storage_persisted: "தானியங்கு நீக்கத்திலிருந்து பாதுகாக்கப்பட்டது",
+    storage_persist_button: "சேமிப்பகம் குறைவாக இருக்கும்போது தரவை வைத்திரு",
     clear_local_data_button: "அனைத்து உள்ளூர் தரவையும் அழிக்கவும்",
     clear_data_confirm_title: "தரவு அழிப்பை உறுதிப்படுத்தவும்",
     clear_data_confirm_message: "அனைத்து உள்ளூர் தரவையும் நீக்க விரும்புகிறீர்களா? இந்தச் செயலைச் செயல்தவிர்க்க முடியாது, மேலும் இது உங்கள் எல்லா ஆவணங்களையும், அமைப்புகளையும், விருப்பங்களையும் அகற்றும்.",
     cancel_button: "ரத்துசெய்",
     confirm_delete_button: "ஆம், அனைத்தையும் நீக்கு",
+    export_data_button: "அறிவுத் தளத்தை ஏற்றுமதி செய்",
+    import_data_button: "அறிவுத் தளத்தை இறக்குமதி செய்",
+    import_export_help: "ஏற்றுமதி ஒவ்வொரு ஆவணத்தையும் அதன் குறிச்சொற்கள், FAQகள், பதிப்பு வரலாறு மற்றும் உங்கள் விருப்பத்தேர்வுகளுடன் (API விசைகள் தவிர) JSON கோப்பாகச் சேமிக்கும்; அதை வேறு உலாவியில் இறக்குமதி செய்யலாம்.",
+    import_title: "அறிவுத் தளத்தை இறக்குமதி செய்",
+    import_file_label: "கோப்பு:",
+    import_exported_at_label: "ஏற்றுமதி செய்யப்பட்டது:",
+    import_summary_new: "புதிய ஆவணங்கள்",
+    import_summary_identical: "ஏற்கனவே உள்ளவை (ஒரே மாதிரி)",
+    import_summary_conflicts: "ஒரே ID, வேறு உள்ளடக்கம்",
+    import_summary_invalid: "படிக்க முடியாத பதிவுகள் தவிர்க்கப்பட்டன",
+    import_mode_label: "இறக்குமதி முறை",
+    import_mode_merge: "என் ஆவணங்களுடன் இணை",
+    import_mode_replace: "என் அனைத்து ஆவணங்களையும் மாற்று",
+    import_replace_warning: "மாற்று முறை இறக்குமதிக்கு முன் தற்போதைய அனைத்து ஆவணங்களையும் அவற்றின் வரலாற்றையும் நீக்கும்.",
+    import_conflict_label: "முரண்படும் ID கொண்ட ஆவணங்களுக்கு",
+    conflict_keep_existing: "என் பதிப்பை வைத்திரு",
+    conflict_use_imported: "இறக்குமதி பதிப்பைப் பயன்படுத்து",
+    conflict_keep_both: "இரண்டையும் வைத்திரு (நகலாக இறக்குமதி)",
+    import_conflict_yours: "உங்களுடையது:",
+    import_conflict_imported: "இறக்குமதி:",
+    import_apply_settings: "ஏற்றுமதி செய்த விருப்பத்தேர்வுகளையும் பயன்படுத்து (தீம், மொழி, AI அமைப்புகள், ஆசிரியர் பெயர்)",
+    import_confirm_button: "இறக்குமதி",
+    import_complete_title: "இறக்குமதி முடிந்தது",
+    report_added: "சேர்க்கப்பட்டது",
+    report_replaced: "மாற்றப்பட்டது",
+    report_kept_existing: "உங்கள் பதிப்பு வைக்கப்பட்டது",
+    report_kept_both: "நகலாக இறக்குமதி",
+    report_skipped: "தவிர்க்கப்பட்டது (ஒரே மாதிரி)",
+    report_removed: "நீக்கப்பட்டது",
+    close_button: "மூடு",
     about_section_title: "பற்றி",
     app_name_label: "பயன்பாட்டின் பெயர்:",
     app_version_label: "பதிப்பு:",
@@ -224,11 +482,17 @@ export const UI_TRANSLATIONS: Record<Language, Record<string, string>> = {
     documents: "दस्तावेज़",
     ai_query: "एआई प्रश्न",
     my_bookmarks: "मेरे बुकमार्क",
+    tags: "टैग",
+    document_graph: "दस्तावेज़ ग्राफ़",
     analytics: "विश्लेषिकी",
     settings: "सेटिंग्स",
     add_document: "दस्तावेज़ जोड़ें",
     document_hub_title: "दस्तावेज़ केंद्र",
     search_documents_placeholder: "दस्तावेज़ खोजें...",
+    search_mode_keyword: "कीवर्ड",
+    search_mode_semantic: "अर्थपूर्ण",
+    query_builder_button: "क्वेरी बिल्डर",
+    search_syntax_hint: "tag:, type:, name: और added: (जैसे added:>2024-01-01) को AND, OR, NOT या -, \"उद्धृत वाक्यांशों\" और कोष्ठकों के साथ जोड़ें।",
     all_types: "सभी प्रकार",
     all_tags: "सभी टैग",
     no_documents_found_home: "कोई दस्तावेज़ नहीं मिला। अपने फ़िल्टर समायोजित करने का प्रयास करें या नए दस्तावेज़ जोड़ें।",
@@ -272,17 +536,65 @@ export const UI_TRANSLATIONS: Record<Language, Record<string, string>> = {
     language_settings_title: "भाषा",
     language_label: "एप्लिकेशन भाषा",
     ai_config_title: "एआई कॉन्फ़िगरेशन",
+    ai_provider_label: "एआई प्रदाता",
+    ai_provider_help: "चुनें कि सारांश, टैग, FAQ और एआई क्वेरी एजेंट किस मॉडल बैकएंड से चलें। ऑफ़लाइन मॉक बिना किसी नेटवर्क के आपके दस्तावेज़ों से उत्तर देता है।",
+    openai_base_url_label: "एंडपॉइंट बेस URL",
+    openai_api_key_label: "एपीआई कुंजी (स्थानीय सर्वर के लिए वैकल्पिक)",
+    openai_model_label: "चैट मॉडल",
+    openai_embedding_model_label: "एम्बेडिंग मॉडल (वैकल्पिक)",
+    save_ai_settings_button: "एआई सेटिंग्स सहेजें",
     ai_service_status_label: "एआई सेवा स्थिति:",
     ai_service_available: "उपलब्ध",
     ai_service_unavailable: "अनुपलब्ध (एपीआई कुंजी कॉन्फ़िगर नहीं है)",
     ai_model_label: "वर्तमान एआई मॉडल:",
+    context_token_budget_label: "एआई संदर्भ बजट (टोकन):",
+    context_token_budget_help: "प्रत्येक एआई प्रश्न के साथ शामिल किए जाने वाले दस्तावेज़ अंशों के अधिकतम टोकन। बड़ा बजट एआई को अधिक संदर्भ देता है लेकिन उत्तर धीमा होता है।",
     data_management_title: "डेटा प्रबंधन",
-    data_storage_info: "आपके दस्तावेज़ डेटा, थीम और भाषा प्राथमिकताएँ आपके ब्राउज़र के localStorage में स्थानीय रूप से संग्रहीत हैं। यह डेटा इस कंप्यूटर पर इस ब्राउज़र के लिए निजी है।",
+    data_storage_info: "आपके दस्तावेज़ आपके ब्राउज़र के IndexedDB डेटाबेस में स्थानीय रूप से संग्रहीत हैं; थीम और भाषा प्राथमिकताएँ localStorage में रखी जाती हैं। यह डेटा इस कंप्यूटर पर इस ब्राउज़र के लिए निजी है।",
+    author_name_label: "आपका नाम",
+    author_name_help: "प्रत्येक दस्तावेज़ संपादन के लेखक के रूप में उसके संस्करण इतिहास में दर्ज किया जाता है।",
+    fetch_proxy_label: "वेब पेज फ़ेच प्रॉक्सी",
+    fetch_proxy_help: "URL दस्तावेज़ों पर \"सामग्री प्राप्त करें\" द्वारा उपयोग किया जाता है। {url} को पेज के पते से बदला जाता है; डिफ़ॉल्ट डेवलपमेंट सर्वर का अंतर्निहित प्रॉक्सी है।",
+    storage_usage_label: "उपयोग किया गया ब्राउज़र संग्रहण",
+    storage_usage_unavailable: "यह ब्राउज़र संग्रहण उपयोग की जानकारी नहीं देता।",
+    storage_documents_count: "संग्रहीत दस्तावेज़",
+    storage_persisted: "स्वचालित सफ़ाई से सुरक्षित",
+    storage_persist_button: "संग्रहण कम होने पर डेटा रखें",
     clear_local_data_button: "सभी स्थानीय डेटा साफ़ करें",
     clear_data_confirm_title: "डेटा हटाने की पुष्टि करें",
     clear_data_confirm_message: "क्या आप वाकई सभी स्थानीय डेटा हटाना चाहते हैं? यह कार्रवाई पूर्ववत नहीं की जा सकती है और आपके सभी दस्तावेज़ों, सेटिंग्स और प्राथमिकताओं को हटा देगी।",
     cancel_button: "रद्द करें",
     confirm_delete_button: "हाँ, सब कुछ हटाएँ",
+    export_data_button: "नॉलेज बेस निर्यात करें",
+    import_data_button: "नॉलेज बेस आयात करें",
+    import_export_help: "निर्यात हर दस्तावेज़ को उसके टैग, FAQ और संस्करण इतिहास तथा आपकी प्राथमिकताओं (API कुंजियों को छोड़कर) के साथ एक JSON फ़ाइल में सहेजता है, जिसे आप दूसरे ब्राउज़र में आयात कर सकते हैं।",
+    import_title: "नॉलेज बेस आयात करें",
+    import_file_label: "फ़ाइल:",
+    import_exported_at_label: "निर्यात किया गया:",
+    import_summary_new: "नए दस्तावेज़",
+    import_summary_identical: "पहले से मौजूद (समान)",
+    import_summary_conflicts: "समान ID, अलग सामग्री",
+    import_summary_invalid: "अपठनीय रिकॉर्ड छोड़े गए",
+    import_mode_label: "आयात मोड",
+    import_mode_merge: "मेरे दस्तावेज़ों के साथ मिलाएँ",
+    import_mode_replace: "मेरे सभी दस्तावेज़ बदलें",
+    import_replace_warning: "बदलें मोड आयात से पहले सभी मौजूदा दस्तावेज़ और उनका इतिहास हटा देता है।",
+    import_conflict_label: "विरोधी ID वाले दस्तावेज़ों के लिए",
+    conflict_keep_existing: "मेरा संस्करण रखें",
+    conflict_use_imported: "आयातित संस्करण उपयोग करें",
+    conflict_keep_both: "दोनों रखें (प्रति के रूप में आयात)",
+    import_conflict_yours: "आपका:",
+    import_conflict_imported: "आयातित:",
+    import_apply_settings: "निर्यात की गई प्राथमिकताएँ भी लागू करें (थीम, भाषा, एआई सेटिंग्स, लेखक का नाम)",
+    import_confirm_button: "आयात करें",
+    import_complete_title: "आयात पूरा हुआ",
+    report_added: "जोड़े गए",
+    report_replaced: "बदले गए",
+    report_kept_existing: "आपका संस्करण रखा गया",
+    report_kept_both: "प्रति के रूप में आयातित",
+    report_skipped: "छोड़े गए (समान)",
+    report_removed: "हटाए गए",
+    close_button: "बंद करें",
     about_section_title: "बारे में",
     app_name_label: "एप्लिकेशन का नाम:",
     app_version_label: "संस्करण:",
@@ -295,11 +607,17 @@ export const UI_TRANSLATIONS: Record<Language, Record<string, string>> = {
     documents: "Documents",
     ai_query: "Requête IA",
     my_bookmarks: "Mes Favoris",
+    tags: "Étiquettes",
+    document_graph: "Graphe des documents",
     analytics: "Analytique",
     settings: "Paramètres",
     add_document: "Ajouter un document",
     document_hub_title: "Hub de Documents",
     search_documents_placeholder: "Rechercher des documents...",
+    search_mode_keyword: "Mots-clés",
+    search_mode_semantic: "Sémantique",
+    query_builder_button: "Générateur de requête",
+    search_syntax_hint: "Combinez tag:, type:, name: et added: (ex. added:>2024-01-01) avec AND, OR, NOT ou -, des \"expressions entre guillemets\" et des parenthèses.",
     all_types: "Tous les types",
     all_tags: "Tous les tags",
     no_documents_found_home: "Aucun document trouvé. Essayez d'ajuster vos filtres ou d'ajouter de nouveaux documents.",
@@ -342,17 +660,65 @@ export const UI_TRANSLATIONS: Record<Language, Record<string, string>> = {
     language_settings_title: "Langue",
     language_label: "Langue de l'application",
     ai_config_title: "Configuration IA",
+    ai_provider_label: "Fournisseur IA",
+    ai_provider_help: "Choisissez le modèle utilisé pour les résumés, les tags, les FAQ et l'agent IA. Le mode hors ligne répond de façon déterministe à partir de vos documents, sans accès réseau.",
+    openai_base_url_label: "URL de base du point de terminaison",
+    openai_api_key_label: "Clé API (facultative pour les serveurs locaux)",
+    openai_model_label: "Modèle de chat",
+    openai_embedding_model_label: "Modèle d'embeddings (facultatif)",
+    save_ai_settings_button: "Enregistrer les paramètres IA",
     ai_service_status_label: "État du Service IA :",
     ai_service_available: "Disponible",
     ai_service_unavailable: "Indisponible (Clé API non configurée)",
     ai_model_label: "Modèle IA Actuel :",
+    context_token_budget_label: "Budget de contexte IA (jetons) :",
+    context_token_budget_help: "Nombre maximal de jetons de passages de documents inclus avec chaque question de l'agent IA. Un budget plus élevé donne plus de contexte à l'IA mais ralentit la réponse.",
     data_management_title: "Gestion des Données",
-    data_storage_info: "Vos données de documents, votre thème et vos préférences linguistiques sont stockés localement dans le localStorage de votre navigateur. Ces données sont privées à ce navigateur sur cet ordinateur.",
+    data_storage_info: "Vos documents sont stockés localement dans la base IndexedDB de votre navigateur ; le thème et les préférences linguistiques sont conservés dans le localStorage. Ces données sont privées à ce navigateur sur cet ordinateur.",
+    author_name_label: "Votre nom",
+    author_name_help: "Enregistré comme auteur de chaque modification dans l'historique des versions du document.",
+    fetch_proxy_label: "Proxy de récupération des pages web",
+    fetch_proxy_help: "Utilisé par « Récupérer le contenu » sur les documents URL. {url} est remplacé par l'adresse de la page ; par défaut, le proxy intégré du serveur de développement.",
+    storage_usage_label: "Stockage du navigateur utilisé",
+    storage_usage_unavailable: "Ce navigateur n'indique pas l'utilisation du stockage.",
+    storage_documents_count: "Documents stockés",
+    storage_persisted: "Protégé contre le nettoyage automatique",
+    storage_persist_button: "Conserver les données si l'espace manque",
     clear_local_data_button: "Effacer Toutes les Données Locales",
     clear_data_confirm_title: "Confirmer la Suppression des Données",
     clear_data_confirm_message: "Êtes-vous sûr de vouloir supprimer toutes les données locales ? Cette action est irréversible et supprimera tous vos documents, paramètres et préférences.",
     cancel_button: "Annuler",
     confirm_delete_button: "Oui, Tout Supprimer",
+    export_data_button: "Exporter la base de connaissances",
+    import_data_button: "Importer une base de connaissances",
+    import_export_help: "L'export enregistre chaque document avec ses tags, FAQ et historique des versions, ainsi que vos préférences (hors clés API), dans un fichier JSON importable dans un autre navigateur.",
+    import_title: "Importer une base de connaissances",
+    import_file_label: "Fichier :",
+    import_exported_at_label: "Exporté le :",
+    import_summary_new: "Nouveaux documents",
+    import_summary_identical: "Déjà présents (identiques)",
+    import_summary_conflicts: "Même ID, contenu différent",
+    import_summary_invalid: "Enregistrements illisibles ignorés",
+    import_mode_label: "Mode d'import",
+    import_mode_merge: "Fusionner avec mes documents",
+    import_mode_replace: "Remplacer tous mes documents",
+    import_replace_warning: "Le remplacement supprime tous les documents actuels et leur historique avant l'import.",
+    import_conflict_label: "Pour les documents dont l'ID est en conflit",
+    conflict_keep_existing: "Garder ma version",
+    conflict_use_imported: "Utiliser la version importée",
+    conflict_keep_both: "Garder les deux (importer une copie)",
+    import_conflict_yours: "La vôtre :",
+    import_conflict_imported: "Importée :",
+    import_apply_settings: "Appliquer aussi les préférences exportées (thème, langue, réglages IA, nom d'auteur)",
+    import_confirm_button: "Importer",
+    import_complete_title: "Import terminé",
+    report_added: "Ajoutés",
+    report_replaced: "Remplacés",
+    report_kept_existing: "Votre version conservée",
+    report_kept_both: "Importés en copie",
+    report_skipped: "Ignorés (identiques)",
+    report_removed: "Supprimés",
+    close_button: "Fermer",
     about_section_title: "À Propos",
     app_name_label: "Nom de l'Application :",
     app_version_label: "Version :",
@@ -365,11 +731,17 @@ export const UI_TRANSLATIONS: Record<Language, Record<string, string>> = {
     documents: "Dokumente",
     ai_query: "KI-Anfrage",
     my_bookmarks: "Meine Lesezeichen",
+    tags: "Schlagwörter",
+    document_graph: "Dokumentgraph",
     analytics: "Analysen",
     settings: "Einstellungen",
     add_document: "Dokument hinzufügen",
     document_hub_title: "Dokumenten-Hub",
     search_documents_placeholder: "Dokumente suchen...",
+    search_mode_keyword: "Stichwort",
+    search_mode_semantic: "Semantisch",
+    query_builder_button: "Abfrage-Editor",
+    search_syntax_hint: "Kombinieren Sie tag:, type:, name: und added: (z. B. added:>2024-01-01) mit AND, OR, NOT oder -, \"Phrasen in Anführungszeichen\" und Klammern.",
     all_types: "Alle Typen",
     all_tags: "Alle Tags",
     no_documents_found_home: "Keine Dokumente gefunden. Passen Sie Ihre Filter an oder fügen Sie neue Dokumente hinzu.",
@@ -412,17 +784,65 @@ export const UI_TRANSLATIONS: Record<Language, Record<string, string>> = {
     language_settings_title: "Sprache",
     language_label: "Anwendungssprache",
     ai_config_title: "KI-Konfiguration",
+    ai_provider_label: "KI-Anbieter",
+    ai_provider_help: "Wählen Sie, welches Modell Zusammenfassungen, Tags, FAQs und den KI-Agenten antreibt. Der Offline-Mock antwortet deterministisch aus Ihren Dokumenten, ganz ohne Netzwerk.",
+    openai_base_url_label: "Endpunkt-Basis-URL",
+    openai_api_key_label: "API-Schlüssel (optional für lokale Server)",
+    openai_model_label: "Chat-Modell",
+    openai_embedding_model_label: "Embedding-Modell (optional)",
+    save_ai_settings_button: "KI-Einstellungen speichern",
     ai_service_status_label: "KI-Dienststatus:",
     ai_service_available: "Verfügbar",
     ai_service_unavailable: "Nicht verfügbar (API-Schlüssel nicht konfiguriert)",
     ai_model_label: "Aktuelles KI-Modell:",
+    context_token_budget_label: "KI-Kontextbudget (Tokens):",
+    context_token_budget_help: "Maximale Anzahl an Tokens aus Dokumentpassagen, die jeder Frage an den KI-Agenten beigefügt werden. Ein größeres Budget gibt der KI mehr Kontext, verlangsamt aber die Antwort.",
     data_management_title: "Datenverwaltung",
-    data_storage_info: "Ihre Dokumentdaten, Design- und Spracheinstellungen werden lokal im localStorage Ihres Browsers gespeichert. Diese Daten sind privat für diesen Browser auf diesem Computer.",
+    data_storage_info: "Ihre Dokumente werden lokal in der IndexedDB-Datenbank Ihres Browsers gespeichert; Design- und Spracheinstellungen liegen im localStorage. Diese Daten sind privat für diesen Browser auf diesem Computer.",
+    author_name_label: "Ihr Name",
+    author_name_help: "Wird als Autor jeder Dokumentänderung im Versionsverlauf gespeichert.",
+    fetch_proxy_label: "Proxy für den Abruf von Webseiten",
+    fetch_proxy_help: "Wird von „Inhalt abrufen“ bei URL-Dokumenten verwendet. {url} wird durch die Seitenadresse ersetzt; Standard ist der integrierte Proxy des Entwicklungsservers.",
+    storage_usage_label: "Belegter Browser-Speicher",
+    storage_usage_unavailable: "Dieser Browser meldet keine Speichernutzung.",
+    storage_documents_count: "Gespeicherte Dokumente",
+    storage_persisted: "Vor automatischer Bereinigung geschützt",
+    storage_persist_button: "Daten bei Speichermangel behalten",
     clear_local_data_button: "Alle lokalen Daten löschen",
     clear_data_confirm_title: "Datenlöschung bestätigen",
     clear_data_confirm_message: "Möchten Sie wirklich alle lokalen Daten löschen? Diese Aktion kann nicht rückgängig gemacht werden und entfernt alle Ihre Dokumente, Einstellungen und Präferenzen.",
     cancel_button: "Abbrechen",
     confirm_delete_button: "Ja, alles löschen",
+    export_data_button: "Wissensdatenbank exportieren",
+    import_data_button: "Wissensdatenbank importieren",
+    import_export_help: "Der Export speichert alle Dokumente mit Tags, FAQs und Versionsverlauf sowie Ihre Einstellungen (ohne API-Schlüssel) in einer JSON-Datei, die Sie in einem anderen Browser importieren können.",
+    import_title: "Wissensdatenbank importieren",
+    import_file_label: "Datei:",
+    import_exported_at_label: "Exportiert am:",
+    import_summary_new: "Neue Dokumente",
+    import_summary_identical: "Bereits vorhanden (identisch)",
+    import_summary_conflicts: "Gleiche ID, anderer Inhalt",
+    import_summary_invalid: "Unlesbare Einträge übersprungen",
+    import_mode_label: "Importmodus",
+    import_mode_merge: "Mit meinen Dokumenten zusammenführen",
+    import_mode_replace: "Alle meine Dokumente ersetzen",
+    import_replace_warning: "Ersetzen löscht vor dem Import alle aktuellen Dokumente und deren Verlauf.",
+    import_conflict_label: "Bei Dokumenten mit widersprüchlicher ID",
+    conflict_keep_existing: "Meine Version behalten",
+    conflict_use_imported: "Importierte Version verwenden",
+    conflict_keep_both: "Beide behalten (als Kopie importieren)",
+    import_conflict_yours: "Ihre:",
+    import_conflict_imported: "Importiert:",
+    import_apply_settings: "Auch die exportierten Einstellungen übernehmen (Design, Sprache, KI-Einstellungen, Autorname)",
+    import_confirm_button: "Importieren",
+    import_complete_title: "Import abgeschlossen",
+    report_added: "Hinzugefügt",
+    report_replaced: "Ersetzt",
+    report_kept_existing: "Ihre Version behalten",
+    report_kept_both: "Als Kopie importiert",
+    report_skipped: "Übersprungen (identisch)",
+    report_removed: "Entfernt",
+    close_button: "Schließen",
     about_section_title: "Über",
     app_name_label: "Anwendungsname:",
     app_version_label: "Version:",
@@ -1,9 +1,143 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import http from 'http';
+import https from 'https';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { lookup as dnsLookup } from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { defineConfig, loadEnv, Plugin } from 'vite';
+
+// Local stand-in for the web page fetch proxy ("Fetch content" on URL documents): browsers can't read
+// most other sites directly, so the dev and preview servers fetch the page on the app's behalf.
+const FETCH_PROXY_PATH = '/api/fetch-proxy';
+
+const FETCH_TIMEOUT_MS = 20000;
+const MAX_RESPONSE_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+// The page's own content type travels in this header (read by services/webPageService.ts); the response
+// itself is always plain text, so a fetched page can never run as script on the app's origin.
+const UPSTREAM_CONTENT_TYPE_HEADER = 'X-Upstream-Content-Type';
+
+// Private, loopback, link-local and otherwise non-public ranges the proxy must never reach.
+const blockedAddresses = new BlockList();
+([
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const).forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, 'ipv4'));
+([
+  ['::', 127], ['::ffff:0:0', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const).forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, 'ipv6'));
+
+const isBlockedAddress = (address: string): boolean => {
+  const family = isIP(address);
+  return family === 0 || blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+// Resolves as usual but refuses non-public addresses. It runs for every connection, so the check covers
+// the address actually connected to, redirects included, and a second DNS answer can't slip past it.
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+    } else if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      callback(new Error(`${hostname} is a private or local address.`), '');
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/** Throws when the URL can't be fetched; IP literals are checked here because they skip the lookup. */
+const checkTarget = (url: URL): void => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error('Only http and https URLs can be fetched.');
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && isBlockedAddress(host)) throw new Error('Private and local addresses cannot be fetched.');
+};
+
+interface UpstreamPage {
+  status: number;
+  contentType: string;
+  body: Buffer;
+}
+
+const requestPage = (url: URL, redirectsLeft = MAX_REDIRECTS): Promise<UpstreamPage> =>
+  new Promise((resolve, reject) => {
+    checkTarget(url);
+    const request = (url.protocol === 'https:' ? https : http).get(url, {
+      lookup: lookupPublicAddress,
+      headers: { 'User-Agent': 'Mozilla/5.0 (compatible; KnowledgeHub fetch proxy)' },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    }, (response) => {
+      const status = response.statusCode ?? 502;
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.resume();
+        if (redirectsLeft === 0) {
+          reject(new Error('The page redirected too many times.'));
+          return;
+        }
+        // Each hop goes through checkTarget and the lookup again.
+        new Promise<UpstreamPage>((resolveHop) => resolveHop(requestPage(new URL(location, url), redirectsLeft - 1))).then(resolve, reject);
+        return;
+      }
+      const chunks: Buffer[] = [];
+      let size = 0;
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_RESPONSE_BYTES) {
+          response.destroy(new Error(`The page is larger than ${MAX_RESPONSE_BYTES / (1024 * 1024)} MB.`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('end', () => resolve({ status, contentType: response.headers['content-type'] ?? '', body: Buffer.concat(chunks) }));
+      response.on('error', reject);
+    });
+    request.on('error', reject);
+  });
+
+const sendPlainText = (res: ServerResponse, status: number, body: string | Buffer, upstreamContentType?: string) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('Content-Security-Policy', 'sandbox');
+  if (upstreamContentType) res.setHeader(UPSTREAM_CONTENT_TYPE_HEADER, upstreamContentType);
+  res.end(body);
+};
+
+const handleFetchProxy = async (req: IncomingMessage, res: ServerResponse) => {
+  const target = new URL(req.url ?? '', 'http://localhost').searchParams.get('url') ?? '';
+  let targetUrl: URL;
+  try {
+    targetUrl = new URL(target);
+    checkTarget(targetUrl);
+  } catch (error) {
+    sendPlainText(res, 400, error instanceof TypeError ? 'Missing or invalid "url" parameter.' : (error as Error).message);
+    return;
+  }
+  try {
+    const page = await requestPage(targetUrl);
+    sendPlainText(res, page.status, page.body, page.contentType);
+  } catch (error) {
+    sendPlainText(res, 502, `Could not fetch the page: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const fetchProxyPlugin = (): Plugin => ({
+  name: 'hnai-km-fetch-proxy',
+  configureServer(server) {
+    server.middlewares.use(FETCH_PROXY_PATH, (req, res) => { void handleFetchProxy(req, res); });
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(FETCH_PROXY_PATH, (req, res) => { void handleFetchProxy(req, res); });
+  },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [fetchProxyPlugin()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)